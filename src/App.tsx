@@ -7,6 +7,7 @@ import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { ThemeProvider } from "next-themes";
 import { AuthProvider } from "@/contexts/AuthContext";
 import { LanguageProvider } from "@/contexts/LanguageContext";
+import { RfqCartProvider } from "@/contexts/RfqCartContext";
 import { ProtectedRoute } from "@/components/ProtectedRoute";
 import ErrorBoundary from "@/components/ErrorBoundary";
 import { Loader2 } from "lucide-react";
@@ -14,14 +15,25 @@ import { Loader2 } from "lucide-react";
 // Eager load public pages (critical for initial render)
 import Index from "./pages/Index";
 import Catalogs from "./pages/Catalogs";
+import CatalogDetail from "./pages/CatalogDetail";
+import SharedCatalog from "./pages/SharedCatalog";
+import CampaignLink from "./pages/CampaignLink";
 import Auth from "./pages/Auth";
 import NotFound from "./pages/NotFound";
 
+// Lazy load the account page (signed-in customers only)
+const Account = lazy(() => import("./pages/Account"));
+
 // Lazy load admin pages (code splitting)
 const Dashboard = lazy(() => import("./pages/admin/Dashboard"));
 const AdminCatalogs = lazy(() => import("./pages/admin/Catalogs"));
 const Categories = lazy(() => import("./pages/admin/Categories"));
 const ContactSubmissions = lazy(() => import("./pages/admin/ContactSubmissions"));
+const Analytics = lazy(() => import("./pages/admin/Analytics"));
+const Leads = lazy(() => import("./pages/admin/Leads"));
+const Users = lazy(() => import("./pages/admin/Users"));
+const QuoteRequests = lazy(() => import("./pages/admin/QuoteRequests"));
+const QuoteRequestPrint = lazy(() => import("./pages/admin/QuoteRequestPrint"));
 
 // Configure QueryClient with optimized cache times
 const queryClient = new QueryClient({
@@ -51,69 +63,146 @@ const App = () => (
       <ThemeProvider attribute="class" defaultTheme="light" enableSystem={false}>
         <LanguageProvider>
           <AuthProvider>
-            <TooltipProvider>
-              <Toaster />
-              <Sonner />
-              <BrowserRouter>
-                <ErrorBoundary>
-                  <Routes>
-                    <Route path="/" element={<ErrorBoundary><Index /></ErrorBoundary>} />
-                    <Route path="/catalogs" element={<ErrorBoundary><Catalogs /></ErrorBoundary>} />
-                    <Route path="/auth" element={<ErrorBoundary><Auth /></ErrorBoundary>} />
-                    <Route 
-                      path="/admin/dashboard" 
-                      element={
-                        <ProtectedRoute>
-                          <ErrorBoundary>
-                            <Suspense fallback={<LoadingFallback />}>
-                              <Dashboard />
-                            </Suspense>
-                          </ErrorBoundary>
-                        </ProtectedRoute>
-                      } 
-                    />
-                    <Route 
-                      path="/admin/catalogs" 
-                      element={
-                        <ProtectedRoute>
-                          <ErrorBoundary>
-                            <Suspense fallback={<LoadingFallback />}>
-                              <AdminCatalogs />
-                            </Suspense>
-                          </ErrorBoundary>
-                        </ProtectedRoute>
-                      } 
-                    />
-                    <Route 
-                      path="/admin/categories" 
-                      element={
-                        <ProtectedRoute>
-                          <ErrorBoundary>
-                            <Suspense fallback={<LoadingFallback />}>
-                              <Categories />
-                            </Suspense>
-                          </ErrorBoundary>
-                        </ProtectedRoute>
-                      } 
-                    />
-                    <Route 
-                      path="/admin/contact-submissions" 
-                      element={
-                        <ProtectedRoute>
-                          <ErrorBoundary>
-                            <Suspense fallback={<LoadingFallback />}>
-                              <ContactSubmissions />
-                            </Suspense>
-                          </ErrorBoundary>
-                        </ProtectedRoute>
-                      } 
-                    />
-                    {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-                    <Route path="*" element={<ErrorBoundary><NotFound /></ErrorBoundary>} />
-                  </Routes>
-                </ErrorBoundary>
-              </BrowserRouter>
-            </TooltipProvider>
+            <RfqCartProvider>
+              <TooltipProvider>
+                <Toaster />
+                <Sonner />
+                <BrowserRouter>
+                  <ErrorBoundary>
+                    <Routes>
+                      <Route path="/" element={<ErrorBoundary><Index /></ErrorBoundary>} />
+                      <Route path="/catalogs" element={<ErrorBoundary><Catalogs /></ErrorBoundary>} />
+                      <Route path="/catalogs/:slug" element={<ErrorBoundary><CatalogDetail /></ErrorBoundary>} />
+                      <Route path="/share/:token" element={<ErrorBoundary><SharedCatalog /></ErrorBoundary>} />
+                      <Route path="/c/:code" element={<ErrorBoundary><CampaignLink /></ErrorBoundary>} />
+                      <Route path="/auth" element={<ErrorBoundary><Auth /></ErrorBoundary>} />
+                      <Route 
+                        path="/account" 
+                        element={
+                          <ProtectedRoute requireAdmin={false}>
+                            <ErrorBoundary>
+                              <Suspense fallback={<LoadingFallback />}>
+                                <Account />
+                              </Suspense>
+                            </ErrorBoundary>
+                          </ProtectedRoute>
+                        } 
+                      />
+                      <Route 
+                        path="/admin/dashboard" 
+                        element={
+                          <ProtectedRoute>
+                            <ErrorBoundary>
+                              <Suspense fallback={<LoadingFallback />}>
+                                <Dashboard />
+                              </Suspense>
+                            </ErrorBoundary>
+                          </ProtectedRoute>
+                        } 
+                      />
+                      <Route 
+                        path="/admin/catalogs" 
+                        element={
+                          <ProtectedRoute>
+                            <ErrorBoundary>
+                              <Suspense fallback={<LoadingFallback />}>
+                                <AdminCatalogs />
+                              </Suspense>
+                            </ErrorBoundary>
+                          </ProtectedRoute>
+                        } 
+                      />
+                      <Route 
+                        path="/admin/categories" 
+                        element={
+                          <ProtectedRoute>
+                            <ErrorBoundary>
+                              <Suspense fallback={<LoadingFallback />}>
+                                <Categories />
+                              </Suspense>
+                            </ErrorBoundary>
+                          </ProtectedRoute>
+                        } 
+                      />
+                      <Route 
+                        path="/admin/contact-submissions" 
+                        element={
+                          <ProtectedRoute>
+                            <ErrorBoundary>
+                              <Suspense fallback={<LoadingFallback />}>
+                                <ContactSubmissions />
+                              </Suspense>
+                            </ErrorBoundary>
+                          </ProtectedRoute>
+                        } 
+                      />
+                      <Route 
+                        path="/admin/quote-requests" 
+                        element={
+                          <ProtectedRoute>
+                            <ErrorBoundary>
+                              <Suspense fallback={<LoadingFallback />}>
+                                <QuoteRequests />
+                              </Suspense>
+                            </ErrorBoundary>
+                          </ProtectedRoute>
+                        } 
+                      />
+                      <Route 
+                        path="/admin/quote-requests/:id/print" 
+                        element={
+                          <ProtectedRoute>
+                            <ErrorBoundary>
+                              <Suspense fallback={<LoadingFallback />}>
+                                <QuoteRequestPrint />
+                              </Suspense>
+                            </ErrorBoundary>
+                          </ProtectedRoute>
+                        } 
+                      />
+                      <Route 
+                        path="/admin/leads" 
+                        element={
+                          <ProtectedRoute>
+                            <ErrorBoundary>
+                              <Suspense fallback={<LoadingFallback />}>
+                                <Leads />
+                              </Suspense>
+                            </ErrorBoundary>
+                          </ProtectedRoute>
+                        } 
+                      />
+                      <Route 
+                        path="/admin/analytics" 
+                        element={
+                          <ProtectedRoute>
+                            <ErrorBoundary>
+                              <Suspense fallback={<LoadingFallback />}>
+                                <Analytics />
+                              </Suspense>
+                            </ErrorBoundary>
+                          </ProtectedRoute>
+                        } 
+                      />
+                      <Route 
+                        path="/admin/users" 
+                        element={
+                          <ProtectedRoute>
+                            <ErrorBoundary>
+                              <Suspense fallback={<LoadingFallback />}>
+                                <Users />
+                              </Suspense>
+                            </ErrorBoundary>
+                          </ProtectedRoute>
+                        } 
+                      />
+                      {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                      <Route path="*" element={<ErrorBoundary><NotFound /></ErrorBoundary>} />
+                    </Routes>
+                  </ErrorBoundary>
+                </BrowserRouter>
+              </TooltipProvider>
+            </RfqCartProvider>
           </AuthProvider>
         </LanguageProvider>
       </ThemeProvider>
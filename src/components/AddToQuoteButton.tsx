@@ -0,0 +1,60 @@
+import type { MouseEvent } from "react";
+import { Button, type ButtonProps } from "@/components/ui/button";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useRfqCart } from "@/hooks/useRfqCart";
+import type { RfqCartCatalog } from "@/contexts/RfqCartContext";
+import { toast } from "sonner";
+import { Check, ClipboardPlus } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface AddToQuoteButtonProps extends Pick<ButtonProps, "variant" | "size" | "className"> {
+  catalog: RfqCartCatalog;
+}
+
+/**
+ * AddToQuoteButton Component
+ * Adds a catalog to the request-for-quotation cart; shows when it's already there
+ */
+const AddToQuoteButton = ({ catalog, variant = "outline", size = "sm", className }: AddToQuoteButtonProps) => {
+  const { t } = useLanguage();
+  const { addCatalog, hasCatalog, setCartOpen } = useRfqCart();
+  const isInCart = hasCatalog(catalog.id);
+
+  const handleClick = (event: MouseEvent<HTMLButtonElement>) => {
+    // Cards open the viewer on click; keep this click to the button
+    event.stopPropagation();
+
+    if (isInCart) {
+      setCartOpen(true);
+      return;
+    }
+
+    addCatalog(catalog);
+    toast.success(t("catalogs:rfq.added"), {
+      action: {
+        label: t("catalogs:rfq.viewCart"),
+        onClick: () => setCartOpen(true),
+      },
+    });
+  };
+
+  return (
+    <Button
+      type="button"
+      variant={variant}
+      size={size}
+      onClick={handleClick}
+      onKeyDown={(event) => event.stopPropagation()}
+      className={cn("gap-1", className)}
+    >
+      {isInCart ? (
+        <Check className="h-4 w-4" aria-hidden="true" />
+      ) : (
+        <ClipboardPlus className="h-4 w-4" aria-hidden="true" />
+      )}
+      {isInCart ? t("catalogs:rfq.inCart") : t("catalogs:rfq.addToQuote")}
+    </Button>
+  );
+};
+
+export default AddToQuoteButton;
@@ -0,0 +1,114 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { ar, enUS } from "date-fns/locale";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { toast } from "sonner";
+import { FileArchive, Loader2, X } from "lucide-react";
+import { handleError } from "@/lib/error-handling";
+import { formatFileSize } from "@/lib/utils";
+import { trackCatalogBundleDownload } from "@/lib/catalog-analytics";
+import {
+  buildCatalogBundle,
+  getBundleSize,
+  saveCatalogBundle,
+  type BundleCatalog,
+  type BundleProgress,
+} from "@/lib/catalog-bundle";
+
+interface CatalogBundleBarProps {
+  catalogs: BundleCatalog[];
+  onClear: () => void;
+}
+
+/**
+ * CatalogBundleBar Component
+ * Bar pinned to the bottom of the catalog list while catalogs are selected;
+ * shows their total size and downloads them as one ZIP with build progress
+ */
+const CatalogBundleBar = ({ catalogs, onClear }: CatalogBundleBarProps) => {
+  const { t, language } = useLanguage();
+  const [progress, setProgress] = useState<BundleProgress | null>(null);
+  const isBuilding = progress !== null;
+
+  if (catalogs.length === 0) return null;
+
+  const totalSize = formatFileSize(getBundleSize(catalogs));
+
+  /**
+   * Build the ZIP, save it and record the bundle download
+   */
+  const handleDownload = async () => {
+    setProgress({ stage: "downloading", percent: 0 });
+
+    try {
+      const bundle = await buildCatalogBundle(catalogs, {
+        language,
+        indexLabels: {
+          fileName: t("catalogs:bundle.indexFileName"),
+          heading: t("catalogs:bundle.indexHeading"),
+          generatedAt: t("catalogs:bundle.indexGeneratedAt", {
+            date: format(new Date(), "PPP", { locale: language === "ar" ? ar : enUS }),
+            defaultValue: "Downloaded on {{date}}",
+          }),
+        },
+        onProgress: setProgress,
+      });
+
+      saveCatalogBundle(bundle, t("catalogs:bundle.zipFileName"));
+      void trackCatalogBundleDownload(catalogs.map((catalog) => catalog.id), language);
+      onClear();
+    } catch (error) {
+      handleError(error, "build catalog bundle", { showToast: false });
+      toast.error(t("catalogs:bundle.error"));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return (
+    <div
+      className="fixed inset-x-0 bottom-0 z-40 border-t border-border bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/80"
+      role="region"
+      aria-label={t("catalogs:bundle.label")}
+    >
+      <div className="container mx-auto px-4 py-4">
+        <div className="max-w-6xl mx-auto flex flex-col sm:flex-row sm:items-center gap-4">
+          <div className="flex-1 min-w-0" aria-live="polite">
+            <p className="font-medium">
+              {t("catalogs:bundle.selected", { count: catalogs.length, defaultValue: "{{count}} catalogs selected" })}
+            </p>
+            <p className="text-sm text-muted-foreground">
+              {t("catalogs:bundle.totalSize", { size: totalSize, defaultValue: "Total size: {{size}}" })}
+            </p>
+            {isBuilding && (
+              <div className="mt-2 space-y-1">
+                <Progress value={progress.percent} aria-label={t("catalogs:bundle.progress")} />
+                <p className="text-xs text-muted-foreground">
+                  {t(`catalogs:bundle.stage.${progress.stage}`)} {progress.percent}%
+                </p>
+              </div>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClear} disabled={isBuilding} className="gap-1">
+              <X className="h-4 w-4" aria-hidden="true" />
+              {t("catalogs:bundle.clear")}
+            </Button>
+            <Button onClick={handleDownload} disabled={isBuilding} className="gap-1">
+              {isBuilding ? (
+                <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />
+              ) : (
+                <FileArchive className="h-4 w-4" aria-hidden="true" />
+              )}
+              {isBuilding ? t("catalogs:bundle.building") : t("catalogs:bundle.download")}
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CatalogBundleBar;
@@ -0,0 +1,96 @@
+import { Fragment } from 'react';
+import { useTranslation } from 'react-i18next';
+import { FileSearch } from 'lucide-react';
+import type { CatalogContentMatch } from '@/lib/catalog-search';
+import { useLanguage } from '@/contexts/LanguageContext';
+
+interface CatalogContentResultsProps {
+  /**
+   * Catalogs whose PDF text matches the search, with their best page hits
+   */
+  matches: CatalogContentMatch[];
+
+  /**
+   * Called when a page hit is clicked
+   */
+  onHitClick: (catalog: CatalogContentMatch['catalog'], pageNumber: number) => void;
+}
+
+/**
+ * Render a search snippet, highlighting the words wrapped in [[ ]]
+ */
+const Snippet = ({ text }: { text: string }) => (
+  <>
+    {text.split(/\[\[(.*?)\]\]/g).map((part, index) =>
+      index % 2 === 1 ? (
+        <mark key={index} className="bg-primary/15 text-foreground rounded-sm px-0.5">
+          {part}
+        </mark>
+      ) : (
+        <Fragment key={index}>{part}</Fragment>
+      )
+    )}
+  </>
+);
+
+/**
+ * CatalogContentResults Component
+ *
+ * Lists catalogs that match the search inside their PDF text, with the
+ * matching page numbers and a highlighted snippet for each page.
+ */
+export const CatalogContentResults = ({ matches, onHitClick }: CatalogContentResultsProps) => {
+  const { t } = useTranslation();
+  const { language } = useLanguage();
+  const isRTL = language === 'ar';
+
+  if (matches.length === 0) return null;
+
+  return (
+    <section className="mb-10" aria-labelledby="content-results-title">
+      <h2 id="content-results-title" className="flex items-center gap-2 text-lg font-semibold mb-4">
+        <FileSearch className="h-5 w-5 text-primary" aria-hidden="true" />
+        {t('catalogs:contentSearch.title')}
+      </h2>
+      <ul className="space-y-4">
+        {matches.map(({ catalog, hits }) => {
+          const title = isRTL ? catalog.title_ar : catalog.title_en;
+          return (
+            <li key={catalog.id} className="flex gap-4 rounded-xl border bg-card p-4">
+              <img
+                src={catalog.thumbnail_url}
+                alt=""
+                className="hidden sm:block h-20 w-28 flex-shrink-0 rounded-md object-cover bg-muted"
+                loading="lazy"
+              />
+              <div className="min-w-0 flex-1">
+                <h3 className="font-semibold truncate">{title}</h3>
+                <p className="text-sm text-muted-foreground mb-2">
+                  {isRTL ? catalog.category.name_ar : catalog.category.name_en}
+                </p>
+                <ul className="space-y-1">
+                  {hits.map((hit) => (
+                    <li key={hit.pageNumber}>
+                      <button
+                        type="button"
+                        onClick={() => onHitClick(catalog, hit.pageNumber)}
+                        className="w-full rounded-md px-2 py-1 text-sm text-left rtl:text-right hover:bg-muted focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                      >
+                        <span className="font-medium text-primary me-2">
+                          {t('catalogs:contentSearch.page', { page: hit.pageNumber, defaultValue: 'Page {{page}}' })}
+                        </span>
+                        <span className="text-muted-foreground">
+                          <Snippet text={hit.snippet} />
+                        </span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+};
@@ -0,0 +1,143 @@
+import { useTranslation } from 'react-i18next';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { cn } from '@/lib/utils';
+import type { CatalogFacets as CatalogFacetCounts } from '@/lib/catalog-search';
+import type { Category, Tag } from '@/types/database';
+import { useLanguage } from '@/contexts/LanguageContext';
+
+interface CatalogFacetsProps {
+  /**
+   * All categories and tags that can be filtered on
+   */
+  categories: Category[];
+  tags: Tag[];
+
+  /**
+   * Result counts for the current search (undefined while loading)
+   */
+  counts?: CatalogFacetCounts;
+
+  /**
+   * Selected category slug ('all' for no category filter) and tag slugs
+   */
+  selectedCategory: string;
+  selectedTags: string[];
+
+  onCategoryChange: (slug: string) => void;
+  onTagToggle: (slug: string) => void;
+  onClear: () => void;
+}
+
+/**
+ * CatalogFacets Component
+ *
+ * Faceted filters for the public catalogs page.
+ * Lists categories (single choice) and tags (multiple choice) with the number
+ * of matching catalogs next to each option. Options without matches are
+ * disabled unless already selected.
+ */
+export const CatalogFacets = ({
+  categories,
+  tags,
+  counts,
+  selectedCategory,
+  selectedTags,
+  onCategoryChange,
+  onTagToggle,
+  onClear,
+}: CatalogFacetsProps) => {
+  const { t } = useTranslation();
+  const { language } = useLanguage();
+  const isRTL = language === 'ar';
+
+  const getCount = (group: Record<string, number> | undefined, id: string) => group?.[id] ?? 0;
+  const totalCount = Object.values(counts?.categories ?? {}).reduce((sum, count) => sum + count, 0);
+  const categoryOptions: { slug: string; label: string; count: number }[] = [
+    { slug: 'all', label: t('catalogs:allCategories'), count: totalCount },
+    ...categories.map((category) => ({
+      slug: category.slug,
+      label: isRTL ? category.name_ar : category.name_en,
+      count: getCount(counts?.categories, category.id),
+    })),
+  ];
+  const hasActiveFilters = selectedCategory !== 'all' || selectedTags.length > 0;
+
+  const renderCount = (count: number) =>
+    counts ? <span className="text-xs text-muted-foreground tabular-nums">{count}</span> : null;
+
+  return (
+    <div className="space-y-8">
+      {/* Categories */}
+      <section>
+        <h2 className="text-sm font-semibold uppercase tracking-wide mb-3">
+          {t('catalogs:category')}
+        </h2>
+        <ul className="space-y-1">
+          {categoryOptions.map((option) => {
+            const isSelected = option.slug === selectedCategory;
+            return (
+              <li key={option.slug}>
+                <button
+                  type="button"
+                  onClick={() => onCategoryChange(option.slug)}
+                  disabled={!!counts && option.count === 0 && !isSelected}
+                  aria-pressed={isSelected}
+                  className={cn(
+                    'flex w-full items-center justify-between gap-2 rounded-md px-3 py-2 text-sm text-left rtl:text-right transition-fast',
+                    'hover:bg-muted focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring',
+                    'disabled:cursor-not-allowed disabled:opacity-50 disabled:hover:bg-transparent',
+                    isSelected && 'bg-muted font-medium text-primary'
+                  )}
+                >
+                  <span className="truncate">{option.label}</span>
+                  {renderCount(option.count)}
+                </button>
+              </li>
+            );
+          })}
+        </ul>
+      </section>
+
+      {/* Tags */}
+      {tags.length > 0 && (
+        <section>
+          <h2 className="text-sm font-semibold uppercase tracking-wide mb-3">
+            {t('catalogs:facets.tags')}
+          </h2>
+          <ul className="space-y-2">
+            {tags.map((tag) => {
+              const isSelected = selectedTags.includes(tag.slug);
+              const count = getCount(counts?.tags, tag.id);
+              const id = `tag-facet-${tag.slug}`;
+              return (
+                <li key={tag.id} className="flex items-center gap-3 px-3">
+                  <Checkbox
+                    id={id}
+                    checked={isSelected}
+                    onCheckedChange={() => onTagToggle(tag.slug)}
+                    disabled={!!counts && count === 0 && !isSelected}
+                  />
+                  <Label
+                    htmlFor={id}
+                    className="flex flex-1 items-center justify-between gap-2 font-normal cursor-pointer peer-disabled:cursor-not-allowed peer-disabled:opacity-50"
+                  >
+                    <span className="truncate">{isRTL ? tag.name_ar : tag.name_en}</span>
+                    {renderCount(count)}
+                  </Label>
+                </li>
+              );
+            })}
+          </ul>
+        </section>
+      )}
+
+      {hasActiveFilters && (
+        <Button variant="outline" size="sm" className="w-full" onClick={onClear}>
+          {t('catalogs:facets.clear')}
+        </Button>
+      )}
+    </div>
+  );
+};
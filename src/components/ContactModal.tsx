@@ -11,6 +11,7 @@ import { z } from "zod";
 import { supabase } from "@/lib/supabase";
 import { Loader2 } from "lucide-react";
 import { handleError } from "@/lib/error-handling";
+import { getCampaignLinkId } from "@/lib/catalog-analytics";
 
 interface ContactModalProps {
   open: boolean;
@@ -59,6 +60,7 @@ const ContactModal = ({ open, onOpenChange }: ContactModalProps) => {
           subject: data.subject,
           message: data.message,
           status: "new",
+          campaign_link_id: getCampaignLinkId(),
         });
 
       if (error) {
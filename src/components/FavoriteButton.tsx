@@ -0,0 +1,50 @@
+import type { MouseEvent } from "react";
+import { Button, type ButtonProps } from "@/components/ui/button";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useFavoriteCatalogs } from "@/hooks/useFavoriteCatalogs";
+import { Heart } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface FavoriteButtonProps extends Pick<ButtonProps, "variant" | "size" | "className"> {
+  catalogId: string;
+}
+
+/**
+ * FavoriteButton Component
+ * Saves a catalog to the signed-in customer's favorites, or removes it;
+ * renders nothing for visitors who aren't signed in
+ */
+const FavoriteButton = ({ catalogId, variant = "outline", size = "sm", className }: FavoriteButtonProps) => {
+  const { t } = useLanguage();
+  const { isSignedIn, isFavorite, toggleFavorite } = useFavoriteCatalogs();
+
+  if (!isSignedIn) return null;
+
+  const isSaved = isFavorite(catalogId);
+  const label = isSaved ? t("account:favorites.remove") : t("account:favorites.add");
+
+  const handleClick = (event: MouseEvent<HTMLButtonElement>) => {
+    // Cards open the viewer on click; keep this click to the button
+    event.stopPropagation();
+    toggleFavorite.mutate(catalogId);
+  };
+
+  return (
+    <Button
+      type="button"
+      variant={variant}
+      size={size}
+      onClick={handleClick}
+      onKeyDown={(event) => event.stopPropagation()}
+      disabled={toggleFavorite.isPending}
+      aria-pressed={isSaved}
+      aria-label={label}
+      title={label}
+      className={className}
+    >
+      <Heart className={cn("h-4 w-4", isSaved && "fill-primary text-primary")} aria-hidden="true" />
+    </Button>
+  );
+};
+
+export default FavoriteButton;
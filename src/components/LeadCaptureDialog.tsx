@@ -0,0 +1,184 @@
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2 } from "lucide-react";
+import { handleError } from "@/lib/error-handling";
+import { submitCatalogLead } from "@/lib/catalog-leads";
+
+interface LeadCaptureDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  catalogId: string;
+  catalogTitle: string;
+  /**
+   * Called after the details were saved; starts the download
+   */
+  onCaptured: () => void;
+}
+
+// Zod validation schema for the lead form
+const leadFormSchema = z.object({
+  name: z.string().min(2, "forms:validation.nameMin"),
+  company: z.string().min(2, "forms:validation.companyMin"),
+  email: z.string().email("forms:validation.invalidEmail"),
+  phone: z.string().optional(),
+});
+
+type LeadFormData = z.infer<typeof leadFormSchema>;
+
+// Translation keys used as the schema's validation messages
+type LeadValidationKey = "forms:validation.nameMin" | "forms:validation.companyMin" | "forms:validation.invalidEmail";
+
+/**
+ * LeadCaptureDialog Component
+ * Asks for name, company, email and phone before a gated catalog is downloaded
+ */
+const LeadCaptureDialog = ({ open, onOpenChange, catalogId, catalogTitle, onCaptured }: LeadCaptureDialogProps) => {
+  const { t, language } = useLanguage();
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+  } = useForm<LeadFormData>({
+    resolver: zodResolver(leadFormSchema),
+    defaultValues: {
+      name: "",
+      company: "",
+      email: "",
+      phone: "",
+    },
+  });
+
+  const onSubmit = async (data: LeadFormData) => {
+    try {
+      await submitCatalogLead({
+        catalog_id: catalogId,
+        name: data.name,
+        company: data.company,
+        email: data.email,
+        phone: data.phone || null,
+        language: language === "ar" ? "ar" : "en",
+      });
+
+      onOpenChange(false);
+      onCaptured();
+    } catch (error) {
+      handleError(error, "submit catalog lead", {
+        customMessage: t("forms:lead.errorMessage"),
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]" aria-describedby="lead-form-description">
+        <DialogHeader>
+          <DialogTitle className="text-2xl font-bold brand-serif text-left rtl:text-right">
+            {t("forms:lead.title")}
+          </DialogTitle>
+          <p id="lead-form-description" className="text-sm text-muted-foreground text-left rtl:text-right">
+            {t("forms:lead.description", { title: catalogTitle, defaultValue: 'Please share your details to download "{{title}}".' })}
+          </p>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4 mt-4">
+          <div className="space-y-2">
+            <Label htmlFor="lead-name" className="text-left rtl:text-right block">
+              {t("forms:lead.name")} *
+            </Label>
+            <Input
+              id="lead-name"
+              autoComplete="name"
+              {...register("name")}
+              placeholder={t("forms:lead.namePlaceholder")}
+              disabled={isSubmitting}
+            />
+            {errors.name && (
+              <p className="text-sm text-destructive text-left rtl:text-right">
+                {t(errors.name.message as LeadValidationKey)}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="lead-company" className="text-left rtl:text-right block">
+              {t("forms:lead.company")} *
+            </Label>
+            <Input
+              id="lead-company"
+              autoComplete="organization"
+              {...register("company")}
+              placeholder={t("forms:lead.companyPlaceholder")}
+              disabled={isSubmitting}
+            />
+            {errors.company && (
+              <p className="text-sm text-destructive text-left rtl:text-right">
+                {t(errors.company.message as LeadValidationKey)}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="lead-email" className="text-left rtl:text-right block">
+              {t("forms:lead.email")} *
+            </Label>
+            <Input
+              id="lead-email"
+              type="email"
+              autoComplete="email"
+              {...register("email")}
+              placeholder={t("forms:lead.emailPlaceholder")}
+              disabled={isSubmitting}
+            />
+            {errors.email && (
+              <p className="text-sm text-destructive text-left rtl:text-right">
+                {t(errors.email.message as LeadValidationKey)}
+              </p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="lead-phone" className="text-left rtl:text-right block">
+              {t("forms:lead.phone")}
+            </Label>
+            <Input
+              id="lead-phone"
+              type="tel"
+              autoComplete="tel"
+              {...register("phone")}
+              placeholder={t("forms:lead.phonePlaceholder")}
+              disabled={isSubmitting}
+            />
+          </div>
+
+          <p className="text-xs text-muted-foreground text-left rtl:text-right">
+            {t("forms:lead.privacy")}
+          </p>
+
+          <Button
+            type="submit"
+            className="w-full bg-primary hover:bg-primary-hover text-primary-foreground font-semibold transition-smooth"
+            disabled={isSubmitting}
+          >
+            {isSubmitting ? (
+              <>
+                <Loader2 className="mr-2 h-4 w-4 animate-spin rtl:ml-2 rtl:mr-0" />
+                {t("forms:lead.submitting")}
+              </>
+            ) : (
+              t("forms:lead.submit")
+            )}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LeadCaptureDialog;
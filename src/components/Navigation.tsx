@@ -1,10 +1,12 @@
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
-import { Menu, X, Moon, Sun, Languages, LogOut } from "lucide-react";
+import { Menu, X, Moon, Sun, Languages, LogOut, ClipboardList } from "lucide-react";
 import { Link, useNavigate } from "react-router-dom";
 import { useTheme } from "next-themes";
 import { useLanguage } from "@/contexts/LanguageContext";
 import { useAuth } from "@/contexts/AuthContext";
+import { useRfqCart } from "@/hooks/useRfqCart";
+import RfqCartSheet from "@/components/RfqCartSheet";
 import { useToast } from "@/hooks/use-toast";
 
 interface NavigationProps {
@@ -16,6 +18,7 @@ const Navigation = ({ onContactClick }: NavigationProps) => {
   const { theme, setTheme } = useTheme();
   const { language, setLanguage, t } = useLanguage();
   const { user, signOut } = useAuth();
+  const { itemCount, setCartOpen } = useRfqCart();
   const { toast } = useToast();
   const navigate = useNavigate();
 
@@ -27,6 +30,28 @@ const Navigation = ({ onContactClick }: NavigationProps) => {
     setLanguage(language === "en" ? "ar" : "en");
   };
 
+  // Quote cart button with the number of lines in the cart
+  const quoteCartButton = (
+    <Button
+      variant="ghost"
+      size="icon"
+      onClick={() => setCartOpen(true)}
+      className="relative transition-fast"
+      aria-label={t("catalogs:rfq.openCart", { count: itemCount, defaultValue: "Open quote request ({{count}} items)" })}
+      title={t("catalogs:rfq.title")}
+    >
+      <ClipboardList className="h-5 w-5" aria-hidden="true" />
+      {itemCount > 0 && (
+        <span
+          className="absolute -top-1 -right-1 rtl:right-auto rtl:-left-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-primary text-primary-foreground text-xs font-semibold flex items-center justify-center"
+          aria-hidden="true"
+        >
+          {itemCount}
+        </span>
+      )}
+    </Button>
+  );
+
   const handleLogout = async () => {
     try {
       await signOut();
@@ -50,9 +75,11 @@ const Navigation = ({ onContactClick }: NavigationProps) => {
     { name: t("navigation:catalogs"), href: "/catalogs" },
   ];
 
-  // Add admin dashboard link if user is authenticated
-  if (user) {
+  // Add the admin dashboard link for admins and the account link for customers
+  if (user?.role === "admin") {
     navLinks.push({ name: t("navigation:admin"), href: "/admin/dashboard" });
+  } else if (user) {
+    navLinks.push({ name: t("navigation:account"), href: "/account" });
   }
 
   return (
@@ -117,6 +144,8 @@ const Navigation = ({ onContactClick }: NavigationProps) => {
               </Button>
             )}
 
+            {quoteCartButton}
+
             {/* Language Switcher */}
             <Button
               variant="outline"
@@ -145,6 +174,7 @@ const Navigation = ({ onContactClick }: NavigationProps) => {
 
           {/* Mobile Menu Button */}
           <div className="flex items-center space-x-2 rtl:space-x-reverse md:hidden">
+            {quoteCartButton}
             <Button
               variant="outline"
               size="sm"
@@ -233,6 +263,9 @@ const Navigation = ({ onContactClick }: NavigationProps) => {
           </div>
         )}
       </div>
+
+      {/* Quote Cart */}
+      <RfqCartSheet />
     </nav>
   );
 };
@@ -1,48 +1,433 @@
-import React, { useState } from 'react';
-import { X, ZoomIn, ZoomOut, Download, Printer, Share2, Loader2, AlertCircle } from 'lucide-react';
+import React, { useEffect, useMemo, useRef, useState, type FormEvent, type KeyboardEvent, type TouchEvent } from 'react';
+import useMeasure from 'react-use-measure';
+import {
+  X,
+  ZoomIn,
+  ZoomOut,
+  Download,
+  Printer,
+  Share2,
+  Loader2,
+  AlertCircle,
+  PanelRight,
+  ChevronLeft,
+  ChevronRight,
+  MoveHorizontal,
+  Maximize,
+  Search,
+  ChevronUp,
+  ChevronDown,
+  TableOfContents,
+  Expand,
+  Shrink,
+  Lock,
+} from 'lucide-react';
+import { useLocation, useNavigate, useSearchParams } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { Dialog, DialogContent, DialogOverlay, DialogPortal } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
 import { toast } from '@/components/ui/use-toast';
+import { useAuth } from '@/contexts/AuthContext';
+import { useLanguage } from '@/contexts/LanguageContext';
 import { cn } from '@/lib/utils';
+import { trackCatalogEvent } from '@/lib/catalog-analytics';
+import { hasCapturedLead } from '@/lib/catalog-leads';
+import { canOpenWatermarked } from '@/lib/catalog-watermarks';
+import { usePdfDocument, usePdfPage } from '@/hooks/usePdfDocument';
+import { usePdfSearch } from '@/hooks/usePdfSearch';
+import { useWatermarkedCatalog } from '@/hooks/useWatermarkedCatalog';
+import { useIsMobile } from '@/hooks/use-mobile';
+import { MIN_PDF_SEARCH_LENGTH } from '@/lib/pdf-search';
+import LeadCaptureDialog from '@/components/LeadCaptureDialog';
+import RelatedCatalogs from '@/components/RelatedCatalogs';
+import PdfPage from '@/components/pdf/PdfPage';
+import PdfThumbnailStrip from '@/components/pdf/PdfThumbnailStrip';
+import PdfOutlinePanel from '@/components/pdf/PdfOutlinePanel';
+import PdfPrintDialog from '@/components/pdf/PdfPrintDialog';
+import type { RelatedCatalog, TrackedCatalogEventType } from '@/types/database';
+
+const MIN_SCALE = 0.5;
+const MAX_SCALE = 3;
+const SCALE_STEP = 0.25;
+const PAGE_MARGIN = 24; // Space kept around the page when fitting it (CSS pixels)
+const PAGE_PARAM = 'page'; // URL search parameter holding the current page
+const SWIPE_MIN_DISTANCE = 60; // Horizontal travel (CSS pixels) for a swipe to turn the page
+const SWIPE_MAX_DURATION = 600; // Slower drags are treated as panning (ms)
+
+/**
+ * Read a page number from a URL parameter; ignores anything but whole pages from 1
+ */
+const parsePageParam = (value: string | null): number | undefined => {
+  const pageNumber = Number(value);
+  return Number.isInteger(pageNumber) && pageNumber >= 1 ? pageNumber : undefined;
+};
+
+// Fit the page to the available width or to the whole area, or a fixed scale
+type PdfZoom = 'page-width' | 'page-fit' | number;
 
 interface PDFViewerProps {
   pdfUrl: string;
   title: string;
-  isOpen: boolean;
-  onClose: () => void;
+  isOpen?: boolean;
+  onClose?: () => void;
+  embedded?: boolean; // Render inline on the page instead of in a modal
+  initialPage?: number; // 1-based page to open the document on
+  catalogId?: string; // Records download, print and share events for this catalog
+  gated?: boolean; // Ask for the customer's details before the first download
+  watermarked?: boolean; // Open a copy stamped with the signed-in distributor's email and the date instead of pdfUrl (needs catalogId)
+  shareUrl?: string; // Link copied by share instead of the PDF URL (e.g. for signed URLs)
+  syncPageWithUrl?: boolean; // Read the page from, and write it to, the `page` URL parameter
+  showRelated?: boolean; // Show related catalogs beside the document (needs catalogId)
+  onRelatedSelect?: (catalog: RelatedCatalog) => void; // Open a related catalog in place
+  className?: string;
 }
 
 /**
  * PDFViewer Component
- * Displays PDF documents in a full-screen modal with zoom, download, print, and share controls
+ * Displays PDF documents in a full-screen modal, rendered with pdf.js so it behaves the same
+ * on every browser: page navigation, thumbnails, fit-to-width/page and zoom, plus download,
+ * print (all pages, the current page or ranges such as "1-3, 10"), and share controls, and
+ * search inside the document with highlighted matches.
+ * Pages are downloaded as they are shown (HTTP range requests), with placeholders meanwhile.
+ * Keyboard: arrows and PageUp/PageDown turn pages, +/- zoom, F toggles fullscreen, Ctrl+P
+ * prints and Esc closes; on touch screens a horizontal swipe turns the page. Page turns follow the reading
+ * direction, so in Arabic the next page is to the left.
+ * With `embedded`, the same viewer renders inline (e.g. on the catalog detail page).
+ * With `initialPage`, the document opens on that page (e.g. a content search hit).
+ * With `catalogId`, downloads, prints and shares are recorded for analytics.
+ * With `gated`, downloading first asks for the customer's details (stored as a lead).
+ * With `watermarked`, only signed-in distributors can open the document: the viewer loads a copy
+ * stamped for them on the server, so it is also the copy they print and download.
+ * Share copies a link to the current page: `shareUrl` (instead of the possibly short-lived
+ * PDF URL) or, with `syncPageWithUrl`, the current address, with a `page` parameter.
+ * With `syncPageWithUrl`, the document also opens on the URL's page and keeps it up to date.
+ * With `showRelated`, related catalogs are listed in a side area on large screens.
  */
-export const PDFViewer: React.FC<PDFViewerProps> = ({ pdfUrl, title, isOpen, onClose }) => {
-  const { t } = useTranslation();
-  const [zoom, setZoom] = useState(100);
-  const [isLoading, setIsLoading] = useState(true);
-  const [hasError, setHasError] = useState(false);
+export const PDFViewer: React.FC<PDFViewerProps> = ({
+  pdfUrl,
+  title,
+  isOpen = false,
+  onClose,
+  embedded = false,
+  initialPage,
+  catalogId,
+  gated = false,
+  watermarked = false,
+  shareUrl,
+  syncPageWithUrl = false,
+  showRelated = false,
+  onRelatedSelect,
+  className,
+}) => {
+  const { t, i18n } = useTranslation();
+  const { dir } = useLanguage();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const isMobile = useIsMobile();
+  const isActive = embedded || isOpen;
+
+  // Watermarked catalogs open as a copy stamped for the signed-in distributor
+  const isWatermarked = watermarked && !!catalogId;
+  const canOpenDocument = !isWatermarked || (!!user && canOpenWatermarked(user.role));
+  const stampedCopy = useWatermarkedCatalog(isActive && isWatermarked && canOpenDocument ? catalogId : null);
+  const documentUrl = isWatermarked ? stampedCopy.url : pdfUrl;
+  const pdfDocument = usePdfDocument(isActive ? documentUrl : null);
+  const { pdf, numPages, progress } = pdfDocument;
+  const isLoading = stampedCopy.isLoading || pdfDocument.isLoading;
+  const hasError = stampedCopy.hasError || pdfDocument.hasError;
+  const [urlPage] = useState(() => (syncPageWithUrl ? parsePageParam(searchParams.get(PAGE_PARAM)) : undefined));
+  const openingPage = initialPage ?? urlPage ?? 1;
+  const [currentPage, setCurrentPage] = useState(openingPage);
+  const [pageInput, setPageInput] = useState(String(openingPage));
+  const [zoom, setZoom] = useState<PdfZoom>('page-width');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [matchIndex, setMatchIndex] = useState(0);
+  const [isLeadDialogOpen, setIsLeadDialogOpen] = useState(false);
+  const [isPrintDialogOpen, setIsPrintDialogOpen] = useState(false);
+  const [isRelatedOpen, setIsRelatedOpen] = useState(true);
+  const [isOutlineOpen, setIsOutlineOpen] = useState(false);
+  const [isFullscreen, setIsFullscreen] = useState(false);
+  const [rootElement, setRootElement] = useState<HTMLElement | null>(null);
+  const touchStartRef = useRef<{ x: number; y: number; time: number } | null>(null);
+  const [pageAreaRef, pageArea] = useMeasure();
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const hasRelated = showRelated && !!catalogId;
+  const isReady = !!pdf && !hasError;
+
+  const pageNumber = numPages ? Math.min(Math.max(currentPage, 1), numPages) : 1;
+  const { page, isLoading: isPageLoading, hasError: hasPageError } = usePdfPage(pdf, pageNumber);
+  const { matches, isSearching, searchedQuery } = usePdfSearch(pdf, searchQuery);
+
+  // Matches on the current page, with the shown match selected
+  const pageHighlights = useMemo(
+    () =>
+      matches.flatMap((match, index) =>
+        match.pageNumber === pageNumber
+          ? match.highlights.map((highlight) => ({ ...highlight, selected: index === matchIndex }))
+          : []
+      ),
+    [matches, matchIndex, pageNumber]
+  );
+
+  /**
+   * Resolve the zoom setting to a scale for the current page and area size
+   */
+  const getScale = (): number | null => {
+    if (!page || !pageArea.width || !pageArea.height) return null;
+    if (typeof zoom === 'number') return zoom;
+
+    const { width, height } = page.getViewport({ scale: 1 });
+    const widthScale = (pageArea.width - PAGE_MARGIN * 2) / width;
+    if (zoom === 'page-width') return Math.max(widthScale, 0.1);
+
+    const heightScale = (pageArea.height - PAGE_MARGIN * 2) / height;
+    return Math.max(Math.min(widthScale, heightScale), 0.1);
+  };
+  const scale = getScale();
+  const pageSize = page && scale !== null ? page.getViewport({ scale }) : null;
+
+  // Open on the requested page each time the viewer is shown
+  useEffect(() => {
+    if (isActive) setCurrentPage(openingPage);
+  }, [isActive, openingPage]);
+
+  // Keep the page in the address bar, once the document has loaded
+  useEffect(() => {
+    if (!syncPageWithUrl || !numPages) return;
+
+    setSearchParams(
+      (previous) => {
+        const next = new URLSearchParams(previous);
+        if (pageNumber > 1) {
+          next.set(PAGE_PARAM, String(pageNumber));
+        } else {
+          next.delete(PAGE_PARAM);
+        }
+        return next;
+      },
+      { replace: true }
+    );
+  }, [syncPageWithUrl, numPages, pageNumber, setSearchParams]);
+
+  // Keep the page number field in step and start each page at its top
+  useEffect(() => {
+    setPageInput(String(pageNumber));
+    scrollRef.current?.scrollTo({ top: 0 });
+  }, [pageNumber]);
+
+  // Show the first match of each new search
+  useEffect(() => {
+    setMatchIndex(0);
+    if (matches.length > 0) setCurrentPage(matches[0].pageNumber);
+  }, [matches]);
+
+  /**
+   * Go to a page, kept within the document
+   */
+  const goToPage = (targetPage: number) => {
+    setCurrentPage(Math.min(Math.max(targetPage, 1), numPages || 1));
+  };
+
+  // Follow fullscreen changes, including leaving it with Esc
+  useEffect(() => {
+    const handleFullscreenChange = () => {
+      setIsFullscreen(!!rootElement && document.fullscreenElement === rootElement);
+    };
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    return () => document.removeEventListener('fullscreenchange', handleFullscreenChange);
+  }, [rootElement]);
+
+  /**
+   * Enter or leave fullscreen (where the browser supports it for elements)
+   */
+  const toggleFullscreen = () => {
+    if (document.fullscreenElement) {
+      void document.exitFullscreen();
+      return;
+    }
+    rootElement?.requestFullscreen().catch((error) => {
+      console.error('Failed to enter fullscreen:', error);
+    });
+  };
+
+  /**
+   * Whether the page is wider than the viewer (zoomed in), so sideways keys and swipes pan instead
+   */
+  const canScrollHorizontally = (): boolean => {
+    const area = scrollRef.current;
+    return !!area && area.scrollWidth > area.clientWidth + 1;
+  };
+
+  /**
+   * Handle viewer shortcuts; typing in fields and browser shortcuts are left alone
+   */
+  const handleKeyDown = (event: KeyboardEvent<HTMLElement>) => {
+    if (event.defaultPrevented || !isReady || isLeadDialogOpen || isPrintDialogOpen) return;
+
+    // Print through the viewer's own dialog rather than printing the web page
+    if ((event.ctrlKey || event.metaKey) && !event.altKey && !event.shiftKey && event.key.toLowerCase() === 'p') {
+      event.preventDefault();
+      handlePrint();
+      return;
+    }
+
+    if (event.ctrlKey || event.metaKey || event.altKey) return;
+    if ((event.target as HTMLElement).closest('input, textarea, select, [contenteditable="true"]')) return;
+
+    const nextKey = dir === 'rtl' ? 'ArrowLeft' : 'ArrowRight';
+    const previousKey = dir === 'rtl' ? 'ArrowRight' : 'ArrowLeft';
+
+    if (event.key === 'PageDown' || (event.key === nextKey && !canScrollHorizontally())) {
+      goToPage(pageNumber + 1);
+    } else if (event.key === 'PageUp' || (event.key === previousKey && !canScrollHorizontally())) {
+      goToPage(pageNumber - 1);
+    } else if (event.key === '+' || event.key === '=') {
+      handleZoomIn();
+    } else if (event.key === '-' || event.key === '_') {
+      handleZoomOut();
+    } else if (event.key === 'f' || event.key === 'F') {
+      toggleFullscreen();
+    } else {
+      return;
+    }
+    event.preventDefault();
+  };
+
+  /**
+   * Handle touch start - remembers where a one-finger gesture began
+   */
+  const handleTouchStart = (event: TouchEvent<HTMLDivElement>) => {
+    const touch = event.touches[0];
+    touchStartRef.current =
+      event.touches.length === 1 ? { x: touch.clientX, y: touch.clientY, time: event.timeStamp } : null;
+  };
+
+  /**
+   * Handle touch end - a quick horizontal swipe turns the page
+   * (towards the reading direction: swipe left in English, right in Arabic)
+   */
+  const handleTouchEnd = (event: TouchEvent<HTMLDivElement>) => {
+    const start = touchStartRef.current;
+    touchStartRef.current = null;
+    if (!start || !isReady || event.changedTouches.length !== 1) return;
+
+    const deltaX = event.changedTouches[0].clientX - start.x;
+    const deltaY = event.changedTouches[0].clientY - start.y;
+    const isSwipe =
+      Math.abs(deltaX) >= SWIPE_MIN_DISTANCE &&
+      Math.abs(deltaX) > Math.abs(deltaY) * 1.5 &&
+      event.timeStamp - start.time <= SWIPE_MAX_DURATION;
+    if (!isSwipe || canScrollHorizontally()) return;
+
+    const isForward = dir === 'rtl' ? deltaX > 0 : deltaX < 0;
+    goToPage(pageNumber + (isForward ? 1 : -1));
+  };
+
+  /**
+   * Handle an outline entry - goes to its page, closing the panel over the page on phones
+   */
+  const handleOutlineSelect = (targetPage: number) => {
+    goToPage(targetPage);
+    if (isMobile) setIsOutlineOpen(false);
+  };
+
+  /**
+   * Handle the page number field - goes to the typed page
+   */
+  const handlePageSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    const targetPage = Number.parseInt(pageInput, 10);
+    if (Number.isNaN(targetPage)) {
+      setPageInput(String(pageNumber));
+      return;
+    }
+    goToPage(targetPage);
+    setPageInput(String(Math.min(Math.max(targetPage, 1), numPages || 1)));
+  };
+
+  /**
+   * Show a search match by position, wrapping around at either end
+   */
+  const showMatch = (index: number) => {
+    if (matches.length === 0) return;
+    const wrappedIndex = (index + matches.length) % matches.length;
+    setMatchIndex(wrappedIndex);
+    setCurrentPage(matches[wrappedIndex].pageNumber);
+  };
+
+  /**
+   * Handle Enter in the search field - next match (previous with Shift)
+   */
+  const handleSearchKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key !== 'Enter') return;
+    event.preventDefault();
+    showMatch(event.shiftKey ? matchIndex - 1 : matchIndex + 1);
+  };
+
+  /**
+   * Describe the search results, e.g. "3 of 17"
+   */
+  const getSearchStatus = (): string => {
+    if (!searchedQuery || searchedQuery.length < MIN_PDF_SEARCH_LENGTH) return '';
+    if (isSearching) return t('catalogs:pdfViewer.searching');
+    if (matches.length === 0) return t('catalogs:pdfViewer.noMatches');
+    return t('catalogs:pdfViewer.matchCount', {
+      current: matchIndex + 1,
+      total: matches.length,
+      defaultValue: '{{current}} of {{total}}',
+    });
+  };
 
   /**
    * Handle zoom in - increases scale by 25%
    */
   const handleZoomIn = () => {
-    setZoom((prev) => Math.min(prev + 25, 300)); // Max 300%
+    if (scale === null) return;
+    setZoom(Math.min(Math.floor(scale / SCALE_STEP + 1e-6) * SCALE_STEP + SCALE_STEP, MAX_SCALE));
   };
 
   /**
    * Handle zoom out - decreases scale by 25%
    */
   const handleZoomOut = () => {
-    setZoom((prev) => Math.max(prev - 25, 50)); // Min 50%
+    if (scale === null) return;
+    setZoom(Math.max(Math.ceil(scale / SCALE_STEP - 1e-6) * SCALE_STEP - SCALE_STEP, MIN_SCALE));
+  };
+
+  /**
+   * Record a catalog event when the viewer shows a published catalog
+   */
+  const trackEvent = (eventType: TrackedCatalogEventType) => {
+    if (catalogId) {
+      void trackCatalogEvent(catalogId, eventType, i18n.language);
+    }
   };
 
   /**
-   * Handle download - triggers PDF download
+   * Handle download - gated catalogs ask for lead details first
    */
   const handleDownload = () => {
+    if (gated && catalogId && !hasCapturedLead(catalogId)) {
+      // The lead form opens outside the viewer, so it can't be seen in fullscreen
+      if (document.fullscreenElement) void document.exitFullscreen();
+      setIsLeadDialogOpen(true);
+      return;
+    }
+    downloadPdf();
+  };
+
+  /**
+   * Trigger the PDF download of the open document (for watermarked catalogs,
+   * the copy stamped for the signed-in distributor)
+   */
+  const downloadPdf = () => {
+    if (!documentUrl) return;
+    trackEvent('download');
     const link = document.createElement('a');
-    link.href = pdfUrl;
+    link.href = documentUrl;
     link.download = `${title}.pdf`;
     link.target = '_blank';
     document.body.appendChild(link);
@@ -51,23 +436,42 @@ export const PDFViewer: React.FC<PDFViewerProps> = ({ pdfUrl, title, isOpen, onC
   };
 
   /**
-   * Handle print - opens browser print dialog
+   * Handle print - asks which pages to print
    */
   const handlePrint = () => {
-    const iframe = document.getElementById('pdf-iframe') as HTMLIFrameElement;
-    if (iframe && iframe.contentWindow) {
-      iframe.contentWindow.print();
+    if (!pdf) return;
+    // The print dialog opens outside the viewer, so it can't be seen in fullscreen
+    if (document.fullscreenElement) void document.exitFullscreen();
+    setIsPrintDialogOpen(true);
+  };
+
+  /**
+   * Link to the current page
+   * The PDF URL itself gets a `#page=` fragment, which PDF readers understand
+   */
+  const getPageLink = (): string => {
+    if (!shareUrl && !syncPageWithUrl) {
+      return `${pdfUrl.split('#')[0]}#page=${pageNumber}`;
+    }
+
+    const url = new URL(shareUrl ?? window.location.href, window.location.origin);
+    if (pageNumber > 1) {
+      url.searchParams.set(PAGE_PARAM, String(pageNumber));
+    } else {
+      url.searchParams.delete(PAGE_PARAM);
     }
+    return url.toString();
   };
 
   /**
-   * Handle share - copies PDF URL to clipboard
+   * Handle share - copies a link to the current page to clipboard
    */
   const handleShare = async () => {
     try {
-      await navigator.clipboard.writeText(pdfUrl);
+      await navigator.clipboard.writeText(getPageLink());
+      trackEvent('share');
       toast({
-        title: t('catalogs:pdfViewer.linkCopied'),
+        title: t('catalogs:pdfViewer.pageLinkCopied', { page: pageNumber, defaultValue: 'Link to page {{page}} copied to clipboard' }),
         variant: 'default',
       });
     } catch (error) {
@@ -79,174 +483,458 @@ export const PDFViewer: React.FC<PDFViewerProps> = ({ pdfUrl, title, isOpen, onC
     }
   };
 
-  /**
-   * Handle iframe load
-   */
-  const handleIframeLoad = () => {
-    setIsLoading(false);
-    setHasError(false);
-  };
-
-  /**
-   * Handle iframe error
-   */
-  const handleIframeError = () => {
-    setIsLoading(false);
-    setHasError(true);
-  };
-
   /**
    * Reset state when dialog closes
    */
   const handleClose = () => {
-    setZoom(100);
-    setIsLoading(true);
-    setHasError(false);
-    onClose();
+    if (document.fullscreenElement) void document.exitFullscreen();
+    setZoom('page-width');
+    setSearchQuery('');
+    onClose?.();
   };
 
+  // Control Bar
+  const toolbar = (
+    <div className="flex items-center justify-between px-4 py-3 bg-background border-b" role="toolbar" aria-label={t('catalogs:pdfViewer.controls')}>
+      <div className="flex items-center gap-2 flex-1 min-w-0">
+        <h2 id="pdf-viewer-title" className="text-lg font-semibold truncate">{title}</h2>
+        <span id="pdf-viewer-description" className="sr-only">{t('catalogs:pdfViewer.description')}</span>
+      </div>
+
+      <div className="flex items-center gap-2">
+        {/* Action Buttons */}
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={handleDownload}
+          disabled={!isReady}
+          title={t('catalogs:pdfViewer.download')}
+          aria-label={t('catalogs:pdfViewer.download')}
+        >
+          <Download className="h-4 w-4" aria-hidden="true" />
+        </Button>
+
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={handlePrint}
+          disabled={!isReady}
+          title={t('catalogs:pdfViewer.print')}
+          aria-label={t('catalogs:pdfViewer.print')}
+          aria-haspopup="dialog"
+          aria-keyshortcuts="Control+P Meta+P"
+        >
+          <Printer className="h-4 w-4" aria-hidden="true" />
+        </Button>
+
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={handleShare}
+          disabled={!isReady}
+          title={t('catalogs:pdfViewer.share')}
+          aria-label={t('catalogs:pdfViewer.share')}
+        >
+          <Share2 className="h-4 w-4" aria-hidden="true" />
+        </Button>
+
+        {/* Fullscreen Toggle */}
+        {document.fullscreenEnabled && (
+          <Button
+            variant="outline"
+            size="icon"
+            onClick={toggleFullscreen}
+            title={isFullscreen ? t('catalogs:pdfViewer.exitFullscreen') : t('catalogs:pdfViewer.fullscreen')}
+            aria-label={isFullscreen ? t('catalogs:pdfViewer.exitFullscreen') : t('catalogs:pdfViewer.fullscreen')}
+            aria-pressed={isFullscreen}
+            aria-keyshortcuts="F"
+          >
+            {isFullscreen ? <Shrink className="h-4 w-4" aria-hidden="true" /> : <Expand className="h-4 w-4" aria-hidden="true" />}
+          </Button>
+        )}
+
+        {/* Related Catalogs Toggle */}
+        {hasRelated && (
+          <Button
+            variant={isRelatedOpen ? 'secondary' : 'outline'}
+            size="icon"
+            onClick={() => setIsRelatedOpen((open) => !open)}
+            className="hidden lg:inline-flex"
+            title={t('catalogs:related.toggle')}
+            aria-label={t('catalogs:related.toggle')}
+            aria-pressed={isRelatedOpen}
+          >
+            <PanelRight className="h-4 w-4 rtl:-scale-x-100" aria-hidden="true" />
+          </Button>
+        )}
+
+        {/* Close Button */}
+        {!embedded && (
+          <>
+            <div className="w-px h-6 bg-border mx-2" aria-hidden="true" />
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={handleClose}
+              title={t('catalogs:pdfViewer.close')}
+              aria-label={t('catalogs:pdfViewer.close')}
+            >
+              <X className="h-4 w-4" aria-hidden="true" />
+            </Button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+
+  // Page navigation and zoom
+  const pageControls = (
+    <div
+      className="flex flex-wrap items-center justify-center gap-2 px-4 py-2 bg-background border-b"
+      role="toolbar"
+      aria-label={t('catalogs:pdfViewer.pageControls')}
+    >
+      {/* Table of Contents */}
+      <Button
+        variant={isOutlineOpen ? 'secondary' : 'outline'}
+        size="icon"
+        onClick={() => setIsOutlineOpen((open) => !open)}
+        disabled={!isReady}
+        title={t('catalogs:pdfViewer.contents')}
+        aria-label={t('catalogs:pdfViewer.contents')}
+        aria-expanded={isOutlineOpen}
+        aria-controls="pdf-viewer-outline"
+      >
+        <TableOfContents className="h-4 w-4 rtl:-scale-x-100" aria-hidden="true" />
+      </Button>
+
+      <div className="w-px h-6 bg-border mx-2" aria-hidden="true" />
+
+      {/* Page Navigation */}
+      <Button
+        variant="outline"
+        size="icon"
+        onClick={() => goToPage(pageNumber - 1)}
+        aria-keyshortcuts={dir === 'rtl' ? 'PageUp ArrowRight' : 'PageUp ArrowLeft'}
+        disabled={!isReady || pageNumber <= 1}
+        title={t('catalogs:pdfViewer.previousPage')}
+        aria-label={t('catalogs:pdfViewer.previousPage')}
+      >
+        <ChevronLeft className="h-4 w-4 rtl:rotate-180" aria-hidden="true" />
+      </Button>
+
+      <form onSubmit={handlePageSubmit} className="flex items-center gap-2 text-sm">
+        <label htmlFor="pdf-viewer-page" className="sr-only">{t('catalogs:pdfViewer.pageNumber')}</label>
+        <Input
+          id="pdf-viewer-page"
+          type="number"
+          inputMode="numeric"
+          min={1}
+          max={numPages || 1}
+          value={pageInput}
+          onChange={(event) => setPageInput(event.target.value)}
+          onBlur={() => setPageInput(String(pageNumber))}
+          disabled={!isReady}
+          className="h-9 w-16 text-center"
+        />
+        <span className="whitespace-nowrap text-muted-foreground" aria-live="polite">
+          {t('catalogs:pdfViewer.pageCount', { total: numPages, defaultValue: 'of {{total}}' })}
+        </span>
+      </form>
+
+      <Button
+        variant="outline"
+        size="icon"
+        onClick={() => goToPage(pageNumber + 1)}
+        aria-keyshortcuts={dir === 'rtl' ? 'PageDown ArrowLeft' : 'PageDown ArrowRight'}
+        disabled={!isReady || pageNumber >= numPages}
+        title={t('catalogs:pdfViewer.nextPage')}
+        aria-label={t('catalogs:pdfViewer.nextPage')}
+      >
+        <ChevronRight className="h-4 w-4 rtl:rotate-180" aria-hidden="true" />
+      </Button>
+
+      <div className="w-px h-6 bg-border mx-2" aria-hidden="true" />
+
+      {/* Zoom Controls */}
+      <Button
+        variant="outline"
+        size="icon"
+        onClick={handleZoomOut}
+        aria-keyshortcuts="-"
+        disabled={!isReady || scale === null || scale <= MIN_SCALE}
+        title={t('catalogs:pdfViewer.zoomOut')}
+        aria-label={t('catalogs:pdfViewer.zoomOut')}
+      >
+        <ZoomOut className="h-4 w-4" aria-hidden="true" />
+      </Button>
+
+      <span className="text-sm font-medium min-w-[4rem] text-center" aria-live="polite" aria-atomic="true">
+        {scale !== null ? `${Math.round(scale * 100)}%` : '–'}
+      </span>
+
+      <Button
+        variant="outline"
+        size="icon"
+        onClick={handleZoomIn}
+        aria-keyshortcuts="+"
+        disabled={!isReady || scale === null || scale >= MAX_SCALE}
+        title={t('catalogs:pdfViewer.zoomIn')}
+        aria-label={t('catalogs:pdfViewer.zoomIn')}
+      >
+        <ZoomIn className="h-4 w-4" aria-hidden="true" />
+      </Button>
+
+      <Button
+        variant={zoom === 'page-width' ? 'secondary' : 'outline'}
+        size="icon"
+        onClick={() => setZoom('page-width')}
+        disabled={!isReady}
+        title={t('catalogs:pdfViewer.fitWidth')}
+        aria-label={t('catalogs:pdfViewer.fitWidth')}
+        aria-pressed={zoom === 'page-width'}
+      >
+        <MoveHorizontal className="h-4 w-4" aria-hidden="true" />
+      </Button>
+
+      <Button
+        variant={zoom === 'page-fit' ? 'secondary' : 'outline'}
+        size="icon"
+        onClick={() => setZoom('page-fit')}
+        disabled={!isReady}
+        title={t('catalogs:pdfViewer.fitPage')}
+        aria-label={t('catalogs:pdfViewer.fitPage')}
+        aria-pressed={zoom === 'page-fit'}
+      >
+        <Maximize className="h-4 w-4" aria-hidden="true" />
+      </Button>
+
+      <div className="w-px h-6 bg-border mx-2" aria-hidden="true" />
+
+      {/* Document Search */}
+      <div className="flex items-center gap-2" role="search">
+        <div className="relative">
+          <Search className="absolute left-2.5 rtl:left-auto rtl:right-2.5 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" aria-hidden="true" />
+          <Input
+            type="search"
+            placeholder={t('catalogs:pdfViewer.searchPlaceholder')}
+            value={searchQuery}
+            onChange={(event) => setSearchQuery(event.target.value)}
+            onKeyDown={handleSearchKeyDown}
+            disabled={!isReady}
+            className="h-9 w-48 pl-8 rtl:pl-3 rtl:pr-8"
+            aria-label={t('catalogs:pdfViewer.searchPlaceholder')}
+          />
+        </div>
+        <span className="text-sm text-muted-foreground min-w-[4.5rem] text-center whitespace-nowrap" aria-live="polite">
+          {getSearchStatus()}
+        </span>
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => showMatch(matchIndex - 1)}
+          disabled={matches.length === 0}
+          title={t('catalogs:pdfViewer.previousMatch')}
+          aria-label={t('catalogs:pdfViewer.previousMatch')}
+        >
+          <ChevronUp className="h-4 w-4" aria-hidden="true" />
+        </Button>
+        <Button
+          variant="outline"
+          size="icon"
+          onClick={() => showMatch(matchIndex + 1)}
+          disabled={matches.length === 0}
+          title={t('catalogs:pdfViewer.nextMatch')}
+          aria-label={t('catalogs:pdfViewer.nextMatch')}
+        >
+          <ChevronDown className="h-4 w-4" aria-hidden="true" />
+        </Button>
+      </div>
+    </div>
+  );
+
+  // PDF Content Area
+  const viewerContent = (
+    <div className="flex flex-1 flex-col min-w-0 min-h-0">
+      <div ref={pageAreaRef} className="flex-1 relative bg-muted overflow-hidden min-h-0" role="document">
+        {/* Loading State */}
+        {(isLoading || (isReady && !page && !hasPageError)) && (
+          <div className="absolute inset-0 flex items-center justify-center bg-background/80 z-10" role="status" aria-live="polite">
+            <div className="flex flex-col items-center gap-3">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" aria-hidden="true" />
+              <p className="text-sm text-muted-foreground">
+                {progress !== null
+                  ? t('catalogs:pdfViewer.loadingProgress', { percent: progress, defaultValue: 'Loading PDF... {{percent}}%' })
+                  : t('catalogs:pdfViewer.loading')}
+              </p>
+            </div>
+          </div>
+        )}
+
+        {/* Error State */}
+        {(hasError || (!page && hasPageError)) && (
+          <div className="absolute inset-0 flex items-center justify-center bg-background z-10" role="alert" aria-live="assertive">
+            <div className="flex flex-col items-center gap-3 text-center px-4">
+              <AlertCircle className="h-12 w-12 text-destructive" aria-hidden="true" />
+              <p className="text-lg font-semibold">{t('catalogs:pdfViewer.error')}</p>
+              {!embedded && (
+                <Button onClick={handleClose} variant="outline">
+                  {t('catalogs:pdfViewer.close')}
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Locked State (watermarked catalogs open for distributors only) */}
+        {!canOpenDocument && (
+          <div className="absolute inset-0 flex items-center justify-center bg-background z-10" role="status">
+            <div className="flex max-w-md flex-col items-center gap-3 text-center px-4">
+              <Lock className="h-12 w-12 text-muted-foreground" aria-hidden="true" />
+              <p className="text-lg font-semibold">
+                {user ? t('catalogs:pdfViewer.distributorsOnly') : t('catalogs:pdfViewer.signInToView')}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                {user ? t('catalogs:pdfViewer.distributorsOnlyHint') : t('catalogs:pdfViewer.signInToViewHint')}
+              </p>
+              {!user && (
+                <Button onClick={() => navigate('/auth', { state: { from: location } })}>
+                  {t('catalogs:pdfViewer.signIn')}
+                </Button>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Current Page */}
+        <div
+          ref={scrollRef}
+          className="absolute inset-0 overflow-auto focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-ring"
+          tabIndex={0}
+          aria-label={title}
+          onTouchStart={handleTouchStart}
+          onTouchEnd={handleTouchEnd}
+        >
+          <div className="flex min-h-full min-w-full w-max items-center justify-center p-4">
+            {page && pageSize && scale !== null && (isPageLoading || hasPageError ? (
+              // Placeholder the size of the last page while this one downloads
+              <div
+                className={cn(
+                  'flex flex-shrink-0 flex-col items-center justify-center gap-3 bg-white shadow-lg px-4 text-center',
+                  isPageLoading && 'animate-pulse'
+                )}
+                style={{ width: pageSize.width, height: pageSize.height }}
+                role="status"
+              >
+                {hasPageError ? (
+                  <>
+                    <AlertCircle className="h-8 w-8 text-destructive" aria-hidden="true" />
+                    <p className="text-sm text-muted-foreground">{t('catalogs:pdfViewer.pageError')}</p>
+                  </>
+                ) : (
+                  <>
+                    <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" aria-hidden="true" />
+                    <p className="text-sm text-muted-foreground">
+                      {t('catalogs:pdfViewer.loadingPage', { page: pageNumber, defaultValue: 'Loading page {{page}}...' })}
+                    </p>
+                  </>
+                )}
+              </div>
+            ) : (
+              <PdfPage page={page} scale={scale} highlights={pageHighlights} />
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {/* Page Thumbnails */}
+      {pdf && !hasError && (
+        <PdfThumbnailStrip pdf={pdf} currentPage={pageNumber} onPageSelect={goToPage} />
+      )}
+    </div>
+  );
+
+  // Document with the table of contents and related catalogs side areas
+  const viewerBody = (
+    <div className="relative flex flex-1 min-h-0">
+      {isOutlineOpen && pdf && !hasError && (
+        <aside
+          id="pdf-viewer-outline"
+          aria-label={t('catalogs:pdfViewer.contents')}
+          className="absolute inset-y-0 start-0 z-20 flex w-64 flex-shrink-0 flex-col border-e bg-background shadow-lg md:static md:shadow-none"
+        >
+          <PdfOutlinePanel pdf={pdf} currentPage={pageNumber} onPageSelect={handleOutlineSelect} />
+        </aside>
+      )}
+      {viewerContent}
+      {hasRelated && isRelatedOpen && (
+        <aside className="hidden lg:block w-72 flex-shrink-0 overflow-y-auto border-s bg-background p-4">
+          <RelatedCatalogs catalogId={catalogId!} variant="sidebar" onSelect={onRelatedSelect} />
+        </aside>
+      )}
+    </div>
+  );
+
+  // Page selection for printing
+  const printDialog = pdf ? (
+    <PdfPrintDialog
+      open={isPrintDialogOpen}
+      onOpenChange={setIsPrintDialogOpen}
+      pdf={pdf}
+      currentPage={pageNumber}
+      onPrinted={() => trackEvent('print')}
+    />
+  ) : null;
+
+  // Lead capture form for gated catalogs
+  const leadDialog = gated && catalogId ? (
+    <LeadCaptureDialog
+      open={isLeadDialogOpen}
+      onOpenChange={setIsLeadDialogOpen}
+      catalogId={catalogId}
+      catalogTitle={title}
+      onCaptured={downloadPdf}
+    />
+  ) : null;
+
+  if (embedded) {
+    return (
+      <section
+        ref={setRootElement}
+        className={cn('flex flex-col h-[80vh] rounded-xl border overflow-hidden bg-background', className)}
+        onKeyDown={handleKeyDown}
+        aria-labelledby="pdf-viewer-title"
+        aria-describedby="pdf-viewer-description"
+      >
+        {toolbar}
+        {pageControls}
+        {viewerBody}
+        {leadDialog}
+        {printDialog}
+      </section>
+    );
+  }
+
   return (
     <Dialog open={isOpen} onOpenChange={handleClose}>
       <DialogPortal>
         <DialogOverlay className="bg-black/90" />
         <DialogContent
+          ref={setRootElement}
+          onKeyDown={handleKeyDown}
           className={cn(
             'max-w-[95vw] w-full h-[95vh] p-0 gap-0 border-0',
-            'flex flex-col'
+            'flex flex-col',
+            className
           )}
           aria-labelledby="pdf-viewer-title"
           aria-describedby="pdf-viewer-description"
         >
-          {/* Control Bar */}
-          <div className="flex items-center justify-between px-4 py-3 bg-background border-b" role="toolbar" aria-label={t('catalogs:pdfViewer.controls')}>
-            <div className="flex items-center gap-2 flex-1 min-w-0">
-              <h2 id="pdf-viewer-title" className="text-lg font-semibold truncate">{title}</h2>
-              <span id="pdf-viewer-description" className="sr-only">{t('catalogs:pdfViewer.description')}</span>
-            </div>
-
-            <div className="flex items-center gap-2">
-              {/* Zoom Controls */}
-              <Button
-                variant="outline"
-                size="icon"
-                onClick={handleZoomOut}
-                disabled={zoom <= 50 || isLoading || hasError}
-                title={t('catalogs:pdfViewer.zoomOut')}
-                aria-label={t('catalogs:pdfViewer.zoomOut')}
-              >
-                <ZoomOut className="h-4 w-4" aria-hidden="true" />
-              </Button>
-              
-              <span className="text-sm font-medium min-w-[4rem] text-center" aria-live="polite" aria-atomic="true">
-                {zoom}%
-              </span>
-              
-              <Button
-                variant="outline"
-                size="icon"
-                onClick={handleZoomIn}
-                disabled={zoom >= 300 || isLoading || hasError}
-                title={t('catalogs:pdfViewer.zoomIn')}
-                aria-label={t('catalogs:pdfViewer.zoomIn')}
-              >
-                <ZoomIn className="h-4 w-4" aria-hidden="true" />
-              </Button>
-
-              <div className="w-px h-6 bg-border mx-2" />
-
-              {/* Action Buttons */}
-              <Button
-                variant="outline"
-                size="icon"
-                onClick={handleDownload}
-                disabled={isLoading || hasError}
-                title={t('catalogs:pdfViewer.download')}
-                aria-label={t('catalogs:pdfViewer.download')}
-              >
-                <Download className="h-4 w-4" aria-hidden="true" />
-              </Button>
-
-              <Button
-                variant="outline"
-                size="icon"
-                onClick={handlePrint}
-                disabled={isLoading || hasError}
-                title={t('catalogs:pdfViewer.print')}
-                aria-label={t('catalogs:pdfViewer.print')}
-              >
-                <Printer className="h-4 w-4" aria-hidden="true" />
-              </Button>
-
-              <Button
-                variant="outline"
-                size="icon"
-                onClick={handleShare}
-                disabled={isLoading || hasError}
-                title={t('catalogs:pdfViewer.share')}
-                aria-label={t('catalogs:pdfViewer.share')}
-              >
-                <Share2 className="h-4 w-4" aria-hidden="true" />
-              </Button>
-
-              <div className="w-px h-6 bg-border mx-2" aria-hidden="true" />
-
-              {/* Close Button */}
-              <Button
-                variant="outline"
-                size="icon"
-                onClick={handleClose}
-                title={t('catalogs:pdfViewer.close')}
-                aria-label={t('catalogs:pdfViewer.close')}
-              >
-                <X className="h-4 w-4" aria-hidden="true" />
-              </Button>
-            </div>
-          </div>
-
-          {/* PDF Content Area */}
-          <div className="flex-1 relative bg-muted overflow-hidden" role="document">
-            {/* Loading State */}
-            {isLoading && !hasError && (
-              <div className="absolute inset-0 flex items-center justify-center bg-background/80 z-10" role="status" aria-live="polite">
-                <div className="flex flex-col items-center gap-3">
-                  <Loader2 className="h-8 w-8 animate-spin text-primary" aria-hidden="true" />
-                  <p className="text-sm text-muted-foreground">{t('catalogs:pdfViewer.loading')}</p>
-                </div>
-              </div>
-            )}
-
-            {/* Error State */}
-            {hasError && (
-              <div className="absolute inset-0 flex items-center justify-center bg-background z-10" role="alert" aria-live="assertive">
-                <div className="flex flex-col items-center gap-3 text-center px-4">
-                  <AlertCircle className="h-12 w-12 text-destructive" aria-hidden="true" />
-                  <p className="text-lg font-semibold">{t('catalogs:pdfViewer.error')}</p>
-                  <Button onClick={handleClose} variant="outline">
-                    {t('catalogs:pdfViewer.close')}
-                  </Button>
-                </div>
-              </div>
-            )}
-
-            {/* PDF Iframe */}
-            <div
-              className="w-full h-full flex items-center justify-center overflow-auto"
-              style={{
-                transform: `scale(${zoom / 100})`,
-                transformOrigin: 'center top',
-                transition: 'transform 0.2s ease-in-out',
-              }}
-            >
-              <iframe
-                id="pdf-iframe"
-                src={pdfUrl}
-                className="w-full h-full border-0"
-                title={title}
-                onLoad={handleIframeLoad}
-                onError={handleIframeError}
-              />
-            </div>
-          </div>
+          {toolbar}
+          {pageControls}
+          {viewerBody}
+          {leadDialog}
+          {printDialog}
         </DialogContent>
       </DialogPortal>
     </Dialog>
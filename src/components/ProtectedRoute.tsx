@@ -14,13 +14,13 @@ interface ProtectedRouteProps {
 /**
  * ProtectedRoute Component
  * 
- * Wraps admin routes to ensure only authenticated users can access them.
+ * Wraps admin and account routes to ensure only authenticated users can access them.
  * Optionally verifies admin role for routes requiring admin access.
  * 
  * Features:
  * - Checks authentication status using AuthContext
  * - Redirects unauthenticated users to /auth page
- * - Verifies admin role when requireAdmin is true
+ * - Verifies admin role when requireAdmin is true, sending customers to their account
  * - Shows loading state during authentication check
  * - Handles session expiration with redirect to login
  * 
@@ -54,8 +54,8 @@ export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
 
   // Verify admin role if required
   if (requireAdmin && user.role !== 'admin') {
-    // Redirect non-admin users to home page
-    return <Navigate to="/" replace />;
+    // Redirect customers to their account area
+    return <Navigate to="/account" replace />;
   }
 
   // User is authenticated and authorized, render the protected content
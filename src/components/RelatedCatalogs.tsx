@@ -0,0 +1,109 @@
+import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { fetchRelatedCatalogs } from "@/lib/catalog-recommendations";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { cn } from "@/lib/utils";
+import type { RelatedCatalog } from "@/types/database";
+
+interface RelatedCatalogsProps {
+  catalogId: string;
+  variant?: "grid" | "sidebar"; // Cards under a page, or a compact list beside the viewer
+  onSelect?: (catalog: RelatedCatalog) => void; // Open in place instead of linking to the detail page
+  className?: string;
+}
+
+/**
+ * RelatedCatalogs Component
+ * Lists catalogs related to the given one, ranked by the database
+ * (shared category and tags, co-views, title similarity).
+ * Renders nothing when there are no related catalogs.
+ */
+const RelatedCatalogs = ({ catalogId, variant = "grid", onSelect, className }: RelatedCatalogsProps) => {
+  const { t } = useTranslation();
+  const { language } = useLanguage();
+  const isRTL = language === "ar";
+  const isSidebar = variant === "sidebar";
+
+  const { data: relatedCatalogs, isLoading } = useQuery<RelatedCatalog[]>({
+    queryKey: ["related-catalogs", catalogId],
+    queryFn: () => fetchRelatedCatalogs(catalogId),
+    staleTime: 5 * 60 * 1000, // Cache for 5 minutes
+  });
+
+  if (!isLoading && !relatedCatalogs?.length) return null;
+
+  // Get catalog title in selected language
+  const getCatalogTitle = (catalog: RelatedCatalog): string => {
+    return isRTL ? catalog.title_ar : catalog.title_en;
+  };
+
+  const renderItem = (catalog: RelatedCatalog) => {
+    const content = (
+      <>
+        <div className={cn("bg-muted overflow-hidden flex-shrink-0", isSidebar ? "h-14 w-20 rounded-md" : "aspect-video")}>
+          <img
+            src={catalog.thumbnail_url}
+            alt=""
+            className="w-full h-full object-cover group-hover:scale-105 transition-smooth"
+            loading="lazy"
+          />
+        </div>
+        <div className={cn("min-w-0", isSidebar ? "flex-1" : "p-4")}>
+          <p className={cn("font-semibold group-hover:text-primary transition-fast line-clamp-2", isSidebar && "text-sm")}>
+            {getCatalogTitle(catalog)}
+          </p>
+          <p className="text-xs text-muted-foreground mt-1">
+            {isRTL ? catalog.category.name_ar : catalog.category.name_en}
+          </p>
+        </div>
+      </>
+    );
+
+    const itemClassName = cn(
+      "group w-full text-start overflow-hidden transition-smooth",
+      isSidebar
+        ? "flex items-center gap-3 rounded-lg p-2 hover:bg-muted"
+        : "block bg-card rounded-xl border border-border hover:border-primary hover:shadow-red"
+    );
+
+    return (
+      <li key={catalog.id}>
+        {onSelect ? (
+          <button type="button" onClick={() => onSelect(catalog)} className={itemClassName}>
+            {content}
+          </button>
+        ) : (
+          <Link to={`/catalogs/${catalog.slug}`} className={itemClassName}>
+            {content}
+          </Link>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <section aria-labelledby={`related-catalogs-${variant}`} className={className}>
+      <h2
+        id={`related-catalogs-${variant}`}
+        className={isSidebar ? "text-sm font-semibold mb-3" : "text-2xl font-bold mb-4"}
+      >
+        {t("catalogs:related.title")}
+      </h2>
+      {isLoading ? (
+        <div className={isSidebar ? "space-y-2" : "grid grid-cols-1 md:grid-cols-3 gap-6"} role="status" aria-label={t("catalogs:loading")}>
+          {[1, 2, 3].map((i) => (
+            <Skeleton key={i} className={isSidebar ? "h-16 w-full" : "aspect-video w-full rounded-xl"} />
+          ))}
+        </div>
+      ) : (
+        <ul className={isSidebar ? "space-y-1" : "grid grid-cols-1 md:grid-cols-3 gap-6"}>
+          {relatedCatalogs!.map(renderItem)}
+        </ul>
+      )}
+    </section>
+  );
+};
+
+export default RelatedCatalogs;
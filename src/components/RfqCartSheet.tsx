@@ -0,0 +1,305 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Separator } from "@/components/ui/separator";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useRfqCart } from "@/hooks/useRfqCart";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { toast } from "sonner";
+import { ClipboardList, FileText, Loader2, Plus, Trash2 } from "lucide-react";
+import { handleError } from "@/lib/error-handling";
+import { getRfqCartItemTitle, submitRfqRequest } from "@/lib/rfq";
+
+// Zod validation schema for the customer details
+const rfqFormSchema = z.object({
+  name: z.string().min(2, "forms:validation.nameMin"),
+  company: z.string().optional(),
+  email: z.string().email("forms:validation.invalidEmail"),
+  phone: z.string().optional(),
+  message: z.string().optional(),
+});
+
+type RfqFormData = z.infer<typeof rfqFormSchema>;
+
+// Translation keys used as the schema's validation messages
+type RfqValidationKey = "forms:validation.nameMin" | "forms:validation.invalidEmail";
+
+/**
+ * RfqCartSheet Component
+ * Side panel with the customer's request-for-quotation cart: catalog and
+ * free-text lines with quantities, and the details form that sends it
+ */
+const RfqCartSheet = () => {
+  const { t, language, dir } = useLanguage();
+  const { items, isCartOpen, setCartOpen, addLineItem, updateQuantity, removeItem, clearCart } = useRfqCart();
+
+  const [lineDescription, setLineDescription] = useState("");
+  const [lineQuantity, setLineQuantity] = useState("1");
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors, isSubmitting },
+    reset,
+  } = useForm<RfqFormData>({
+    resolver: zodResolver(rfqFormSchema),
+    defaultValues: {
+      name: "",
+      company: "",
+      email: "",
+      phone: "",
+      message: "",
+    },
+  });
+
+  // Add a free-text line from the inline form
+  const handleAddLine = () => {
+    const description = lineDescription.trim();
+    if (!description) return;
+
+    addLineItem(description, Math.max(1, parseInt(lineQuantity, 10) || 1));
+    setLineDescription("");
+    setLineQuantity("1");
+  };
+
+  const onSubmit = async (data: RfqFormData) => {
+    if (items.length === 0) return;
+
+    try {
+      await submitRfqRequest(
+        items,
+        {
+          name: data.name,
+          company: data.company,
+          email: data.email,
+          phone: data.phone,
+          message: data.message,
+        },
+        language
+      );
+
+      toast.success(t("catalogs:rfq.successMessage"));
+      clearCart();
+      reset();
+      setCartOpen(false);
+    } catch (error) {
+      handleError(error, "submit quote request", {
+        customMessage: t("catalogs:rfq.errorMessage"),
+      });
+    }
+  };
+
+  return (
+    <Sheet open={isCartOpen} onOpenChange={setCartOpen}>
+      <SheetContent side={dir === "rtl" ? "left" : "right"} className="w-full sm:max-w-lg overflow-y-auto">
+        <SheetHeader className="text-left rtl:text-right">
+          <SheetTitle className="flex items-center gap-2">
+            <ClipboardList className="h-5 w-5" aria-hidden="true" />
+            {t("catalogs:rfq.title")}
+          </SheetTitle>
+          <SheetDescription>{t("catalogs:rfq.description")}</SheetDescription>
+        </SheetHeader>
+
+        <div className="mt-6 space-y-6">
+          {/* Cart Lines */}
+          {items.length === 0 ? (
+            <div className="rounded-lg border border-dashed p-6 text-center">
+              <p className="font-medium">{t("catalogs:rfq.empty")}</p>
+              <p className="text-sm text-muted-foreground mt-1">{t("catalogs:rfq.emptyDescription")}</p>
+            </div>
+          ) : (
+            <ul className="divide-y rounded-lg border" aria-label={t("catalogs:rfq.items")}>
+              {items.map((item) => (
+                <li key={item.id} className="flex items-center gap-3 p-3">
+                  {item.catalog ? (
+                    <FileText className="h-4 w-4 shrink-0 text-primary" aria-hidden="true" />
+                  ) : (
+                    <Plus className="h-4 w-4 shrink-0 text-muted-foreground" aria-hidden="true" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    {item.catalog ? (
+                      <Link
+                        to={`/catalogs/${item.catalog.slug}`}
+                        onClick={() => setCartOpen(false)}
+                        className="font-medium hover:text-primary line-clamp-2"
+                      >
+                        {getRfqCartItemTitle(item, language)}
+                      </Link>
+                    ) : (
+                      <p className="font-medium line-clamp-2">{item.description}</p>
+                    )}
+                  </div>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={item.quantity}
+                    onChange={(e) => updateQuantity(item.id, Math.max(1, parseInt(e.target.value, 10) || 1))}
+                    className="w-20"
+                    aria-label={t("catalogs:rfq.quantity")}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => removeItem(item.id)}
+                    aria-label={t("catalogs:rfq.remove")}
+                    title={t("catalogs:rfq.remove")}
+                  >
+                    <Trash2 className="h-4 w-4" aria-hidden="true" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {/* Free-text Line */}
+          <div className="space-y-2">
+            <Label htmlFor="rfq-line-description" className="text-left rtl:text-right block">
+              {t("catalogs:rfq.addLine")}
+            </Label>
+            <div className="flex gap-2">
+              <Input
+                id="rfq-line-description"
+                value={lineDescription}
+                onChange={(e) => setLineDescription(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === "Enter") {
+                    e.preventDefault();
+                    handleAddLine();
+                  }
+                }}
+                placeholder={t("catalogs:rfq.addLinePlaceholder")}
+                className="flex-1"
+              />
+              <Input
+                type="number"
+                min={1}
+                value={lineQuantity}
+                onChange={(e) => setLineQuantity(e.target.value)}
+                className="w-20"
+                aria-label={t("catalogs:rfq.quantity")}
+              />
+              <Button type="button" variant="outline" onClick={handleAddLine} disabled={!lineDescription.trim()}>
+                {t("catalogs:rfq.add")}
+              </Button>
+            </div>
+          </div>
+
+          <Separator />
+
+          {/* Customer Details */}
+          <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+            <h3 className="font-semibold">{t("catalogs:rfq.yourDetails")}</h3>
+
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="rfq-name" className="text-left rtl:text-right block">
+                  {t("forms:contact.name")} *
+                </Label>
+                <Input
+                  id="rfq-name"
+                  autoComplete="name"
+                  {...register("name")}
+                  placeholder={t("forms:contact.namePlaceholder")}
+                  disabled={isSubmitting}
+                />
+                {errors.name && (
+                  <p className="text-sm text-destructive text-left rtl:text-right">
+                    {t(errors.name.message as RfqValidationKey)}
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="rfq-company" className="text-left rtl:text-right block">
+                  {t("forms:lead.company")}
+                </Label>
+                <Input
+                  id="rfq-company"
+                  autoComplete="organization"
+                  {...register("company")}
+                  placeholder={t("forms:lead.companyPlaceholder")}
+                  disabled={isSubmitting}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="rfq-email" className="text-left rtl:text-right block">
+                  {t("forms:contact.email")} *
+                </Label>
+                <Input
+                  id="rfq-email"
+                  type="email"
+                  autoComplete="email"
+                  {...register("email")}
+                  placeholder={t("forms:contact.emailPlaceholder")}
+                  disabled={isSubmitting}
+                />
+                {errors.email && (
+                  <p className="text-sm text-destructive text-left rtl:text-right">
+                    {t(errors.email.message as RfqValidationKey)}
+                  </p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="rfq-phone" className="text-left rtl:text-right block">
+                  {t("forms:contact.phone")}
+                </Label>
+                <Input
+                  id="rfq-phone"
+                  type="tel"
+                  autoComplete="tel"
+                  {...register("phone")}
+                  placeholder={t("forms:contact.phonePlaceholder")}
+                  disabled={isSubmitting}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="rfq-message" className="text-left rtl:text-right block">
+                {t("catalogs:rfq.notes")}
+              </Label>
+              <Textarea
+                id="rfq-message"
+                {...register("message")}
+                placeholder={t("catalogs:rfq.notesPlaceholder")}
+                rows={3}
+                disabled={isSubmitting}
+              />
+            </div>
+
+            <Button
+              type="submit"
+              className="w-full bg-primary hover:bg-primary-hover text-primary-foreground font-semibold transition-smooth"
+              disabled={isSubmitting || items.length === 0}
+            >
+              {isSubmitting ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin rtl:ml-2 rtl:mr-0" />
+                  {t("catalogs:rfq.submitting")}
+                </>
+              ) : (
+                t("catalogs:rfq.submit")
+              )}
+            </Button>
+          </form>
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default RfqCartSheet;
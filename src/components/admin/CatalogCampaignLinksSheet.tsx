@@ -0,0 +1,361 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { ar, enUS } from 'date-fns/locale';
+import { toast } from 'sonner';
+import { supabase } from '@/lib/supabase';
+import { handleError } from '@/lib/error-handling';
+import {
+  createCampaignQrSvg,
+  downloadCampaignQr,
+  getCampaignLinkUrl,
+  type QrCodeFormat,
+} from '@/lib/catalog-campaigns';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Copy, Download, Loader2, Plus, QrCode } from 'lucide-react';
+import type { CatalogCampaignLink, CatalogCampaignLinkInsert, CatalogWithCategory } from '@/types/database';
+
+const DEFAULT_SOURCE = 'qr';
+const DEFAULT_MEDIUM = 'print';
+
+interface CatalogCampaignLinksSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  catalog: CatalogWithCategory | null;
+}
+
+/**
+ * QR code image for a short link
+ */
+const CampaignQrPreview = ({ url, alt }: { url: string; alt: string }) => {
+  const { data: svg } = useQuery({
+    queryKey: ['campaign-qr', url],
+    queryFn: () => createCampaignQrSvg(url),
+    staleTime: Infinity,
+  });
+
+  if (!svg) return <Skeleton className="h-24 w-24 shrink-0" />;
+
+  return (
+    <img
+      src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`}
+      alt={alt}
+      className="h-24 w-24 shrink-0 rounded border bg-white"
+    />
+  );
+};
+
+/**
+ * CatalogCampaignLinksSheet Component
+ *
+ * Side panel for promoting a catalog on printed material.
+ * Features:
+ * - Create short links to the catalog or one of its pages, with campaign parameters
+ * - Download each link's QR code as SVG or PNG
+ * - Copy links
+ * - RTL support
+ */
+const CatalogCampaignLinksSheet = ({ open, onOpenChange, catalog }: CatalogCampaignLinksSheetProps) => {
+  const { t, i18n } = useTranslation();
+  const isRTL = i18n.language === 'ar';
+  const queryClient = useQueryClient();
+
+  const [campaign, setCampaign] = useState('');
+  const [pageNumber, setPageNumber] = useState('');
+  const [source, setSource] = useState(DEFAULT_SOURCE);
+  const [medium, setMedium] = useState(DEFAULT_MEDIUM);
+
+  // Start with a clean form for each catalog
+  useEffect(() => {
+    if (open) {
+      setCampaign('');
+      setPageNumber('');
+      setSource(DEFAULT_SOURCE);
+      setMedium(DEFAULT_MEDIUM);
+    }
+  }, [open, catalog?.id]);
+
+  // Fetch the catalog's links, newest first
+  const { data: links, isLoading } = useQuery<CatalogCampaignLink[]>({
+    queryKey: ['catalog-campaign-links', catalog?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('catalog_campaign_links')
+        .select('*')
+        .eq('catalog_id', catalog!.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data as CatalogCampaignLink[];
+    },
+    enabled: open && !!catalog,
+  });
+
+  // Copy a link, e.g. for the flyer's printed text
+  const copyLink = async (link: CatalogCampaignLink) => {
+    try {
+      await navigator.clipboard.writeText(getCampaignLinkUrl(link.code));
+      toast.success(t('admin:catalogs.campaignLinks.copied'));
+    } catch (error) {
+      console.error('Failed to copy campaign link:', error);
+      toast.error(t('admin:catalogs.copyLinkError'));
+    }
+  };
+
+  // Save a link's QR code for the designer
+  const downloadQr = async (link: CatalogCampaignLink, qrFormat: QrCodeFormat) => {
+    try {
+      await downloadCampaignQr(getCampaignLinkUrl(link.code), qrFormat, `${catalog!.slug}-${link.code}`);
+    } catch (error) {
+      handleError(error, 'download campaign QR code', {
+        customMessage: t('admin:catalogs.campaignLinks.downloadError'),
+      });
+    }
+  };
+
+  // Create a link; its QR code is shown in the list straight away
+  const createLinkMutation = useMutation({
+    mutationFn: async () => {
+      const page = parseInt(pageNumber, 10);
+      const linkData: CatalogCampaignLinkInsert = {
+        catalog_id: catalog!.id,
+        page_number: page > 0 ? page : null,
+        campaign: campaign.trim(),
+        source: source.trim() || DEFAULT_SOURCE,
+        medium: medium.trim() || DEFAULT_MEDIUM,
+      };
+
+      const { data, error } = await supabase
+        .from('catalog_campaign_links')
+        // @ts-expect-error - Supabase type inference issue with Database generic
+        .insert(linkData)
+        .select('*')
+        .single();
+
+      if (error) throw error;
+      return data as CatalogCampaignLink;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['catalog-campaign-links', catalog?.id] });
+      setCampaign('');
+      setPageNumber('');
+      toast.success(t('admin:catalogs.campaignLinks.createSuccess'));
+    },
+    onError: (error) => {
+      handleError(error, 'create campaign link', {
+        customMessage: t('admin:catalogs.campaignLinks.createError'),
+      });
+    },
+  });
+
+  // Format date based on language
+  const formatDate = (dateString: string) => {
+    return format(new Date(dateString), 'PP', { locale: isRTL ? ar : enUS });
+  };
+
+  const catalogTitle = catalog ? (isRTL ? catalog.title_ar : catalog.title_en) : '';
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side={isRTL ? 'left' : 'right'} className="w-full sm:max-w-lg overflow-y-auto">
+        <SheetHeader className="text-left rtl:text-right">
+          <SheetTitle>{t('admin:catalogs.campaignLinks.title')}</SheetTitle>
+          <SheetDescription>{catalogTitle}</SheetDescription>
+        </SheetHeader>
+
+        {catalog && (
+          <div className="mt-6 space-y-6">
+            {!catalog.published && (
+              <Alert>
+                <AlertDescription>{t('admin:catalogs.campaignLinks.notPublished')}</AlertDescription>
+              </Alert>
+            )}
+
+            {/* New Link */}
+            <form
+              className="space-y-4"
+              onSubmit={(e) => {
+                e.preventDefault();
+                createLinkMutation.mutate();
+              }}
+            >
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="campaign_link_campaign" className="text-left rtl:text-right block">
+                    {t('admin:catalogs.campaignLinks.campaign')}
+                  </Label>
+                  <Input
+                    id="campaign_link_campaign"
+                    value={campaign}
+                    onChange={(e) => setCampaign(e.target.value)}
+                    placeholder={t('admin:catalogs.campaignLinks.campaignPlaceholder')}
+                    maxLength={100}
+                    required
+                    disabled={createLinkMutation.isPending}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="campaign_link_page" className="text-left rtl:text-right block">
+                    {t('admin:catalogs.campaignLinks.page')}
+                  </Label>
+                  <Input
+                    id="campaign_link_page"
+                    type="number"
+                    min={1}
+                    value={pageNumber}
+                    onChange={(e) => setPageNumber(e.target.value)}
+                    placeholder={t('admin:catalogs.campaignLinks.firstPage')}
+                    disabled={createLinkMutation.isPending}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="campaign_link_source" className="text-left rtl:text-right block">
+                    {t('admin:catalogs.campaignLinks.source')}
+                  </Label>
+                  <Input
+                    id="campaign_link_source"
+                    value={source}
+                    onChange={(e) => setSource(e.target.value)}
+                    maxLength={100}
+                    disabled={createLinkMutation.isPending}
+                    dir="ltr"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="campaign_link_medium" className="text-left rtl:text-right block">
+                    {t('admin:catalogs.campaignLinks.medium')}
+                  </Label>
+                  <Input
+                    id="campaign_link_medium"
+                    value={medium}
+                    onChange={(e) => setMedium(e.target.value)}
+                    maxLength={100}
+                    disabled={createLinkMutation.isPending}
+                    dir="ltr"
+                  />
+                </div>
+              </div>
+
+              <p className="text-xs text-muted-foreground text-left rtl:text-right">
+                {t('admin:catalogs.campaignLinks.hint')}
+              </p>
+
+              <Button
+                type="submit"
+                className="w-full gap-2"
+                disabled={createLinkMutation.isPending || !campaign.trim()}
+              >
+                {createLinkMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : (
+                  <Plus className="h-4 w-4" />
+                )}
+                {t('admin:catalogs.campaignLinks.create')}
+              </Button>
+            </form>
+
+            <Separator />
+
+            {/* Existing Links */}
+            {isLoading ? (
+              <div className="space-y-3">
+                <Skeleton className="h-32 w-full" />
+                <Skeleton className="h-32 w-full" />
+              </div>
+            ) : links && links.length > 0 ? (
+              <ul className="space-y-3">
+                {links.map((link) => (
+                  <li key={link.id} className="flex items-start gap-4 rounded-lg border p-4">
+                    <CampaignQrPreview
+                      url={getCampaignLinkUrl(link.code)}
+                      alt={t('admin:catalogs.campaignLinks.qrFor', {
+                        campaign: link.campaign,
+                        defaultValue: 'QR code for {{campaign}}',
+                      })}
+                    />
+                    <div className="min-w-0 flex-1 space-y-1 text-left rtl:text-right">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <p className="font-semibold truncate">{link.campaign}</p>
+                        <Badge variant="outline">
+                          {link.page_number
+                            ? t('admin:catalogs.campaignLinks.pageBadge', {
+                                page: link.page_number,
+                                defaultValue: 'Page {{page}}',
+                              })
+                            : t('admin:catalogs.campaignLinks.firstPage')}
+                        </Badge>
+                      </div>
+                      <p className="text-sm text-muted-foreground truncate" dir="ltr">
+                        {getCampaignLinkUrl(link.code)}
+                      </p>
+                      <p className="text-sm text-muted-foreground">
+                        {t('admin:catalogs.campaignLinks.details', {
+                          source: link.source,
+                          medium: link.medium,
+                          date: formatDate(link.created_at),
+                          defaultValue: '{{source}} / {{medium}} · Created {{date}}',
+                        })}
+                      </p>
+                      <div className="flex flex-wrap gap-1 pt-1">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="gap-1"
+                          onClick={() => downloadQr(link, 'svg')}
+                        >
+                          <Download className="h-4 w-4" />
+                          {t('admin:catalogs.campaignLinks.downloadSvg')}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="gap-1"
+                          onClick={() => downloadQr(link, 'png')}
+                        >
+                          <Download className="h-4 w-4" />
+                          {t('admin:catalogs.campaignLinks.downloadPng')}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => copyLink(link)}
+                          title={t('admin:catalogs.campaignLinks.copy')}
+                        >
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <div className="text-center py-8 text-muted-foreground">
+                <QrCode className="h-10 w-10 mx-auto mb-3" />
+                <p>{t('admin:catalogs.campaignLinks.empty')}</p>
+              </div>
+            )}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default CatalogCampaignLinksSheet;
@@ -0,0 +1,279 @@
+import { lazy, Suspense, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { ar, enUS } from 'date-fns/locale';
+import { supabase } from '@/lib/supabase';
+import { formatFileSize } from '@/lib/utils';
+import { isPrivatePdfUrl, resolveCatalogPdfUrl } from '@/lib/private-catalogs';
+import { useCatalogMutations } from '@/hooks/useCatalogMutations';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Eye, Download, RotateCcw, History, Loader2 } from 'lucide-react';
+import type { CatalogVersionWithAuthor, CatalogWithCategory } from '@/types/database';
+
+// Lazy load PDFViewer component (only loaded when a version is previewed)
+const PDFViewer = lazy(() => import('@/components/PDFViewer').then(module => ({ default: module.PDFViewer })));
+
+interface CatalogHistorySheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  catalog: CatalogWithCategory | null;
+}
+
+/**
+ * CatalogHistorySheet Component
+ *
+ * Side panel listing the archived editions of a catalog.
+ * Features:
+ * - Current edition summary
+ * - Version list with change note, author and timestamp
+ * - Preview, download and restore for each version
+ * - RTL support
+ */
+const CatalogHistorySheet = ({ open, onOpenChange, catalog }: CatalogHistorySheetProps) => {
+  const { t, i18n } = useTranslation();
+  const isRTL = i18n.language === 'ar';
+  const { restoreCatalogVersion } = useCatalogMutations();
+
+  const [versionToPreview, setVersionToPreview] = useState<CatalogVersionWithAuthor | null>(null);
+  const [versionToRestore, setVersionToRestore] = useState<CatalogVersionWithAuthor | null>(null);
+
+  // Fetch archived versions with their authors, newest first
+  const { data: versions, isLoading } = useQuery<CatalogVersionWithAuthor[]>({
+    queryKey: ['catalog-versions', catalog?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('catalog_versions')
+        .select(`
+          *,
+          author:profiles(email)
+        `)
+        .eq('catalog_id', catalog!.id)
+        .order('version_number', { ascending: false });
+
+      if (error) throw error;
+      return data as CatalogVersionWithAuthor[];
+    },
+    enabled: open && !!catalog,
+  });
+
+  // Versions of private catalogs can only be opened through signed URLs
+  const { data: versionUrls } = useQuery<Record<string, string>>({
+    queryKey: ['catalog-version-urls', catalog?.id, versions?.map((version) => version.id)],
+    queryFn: async () => {
+      const entries = await Promise.all(
+        versions!.map(async (version) => [version.id, await resolveCatalogPdfUrl(version.pdf_url)] as const)
+      );
+      return Object.fromEntries(entries);
+    },
+    enabled: !!versions?.some((version) => isPrivatePdfUrl(version.pdf_url)),
+    staleTime: 30 * 60 * 1000, // Signed URLs stay valid for an hour
+  });
+
+  const getVersionUrl = (version: CatalogVersionWithAuthor) => versionUrls?.[version.id] ?? version.pdf_url;
+
+  // Format date based on language
+  const formatDate = (dateString: string) => {
+    return format(new Date(dateString), 'PPp', { locale: isRTL ? ar : enUS });
+  };
+
+  const catalogTitle = catalog ? (isRTL ? catalog.title_ar : catalog.title_en) : '';
+
+  // Handle restore confirmation
+  const handleRestoreConfirm = async () => {
+    if (!catalog || !versionToRestore) return;
+
+    try {
+      await restoreCatalogVersion.mutateAsync({
+        catalog: {
+          id: catalog.id,
+          pdf_url: catalog.pdf_url,
+          thumbnail_url: catalog.thumbnail_url,
+          file_size: catalog.file_size,
+          private: catalog.private,
+          watermark_downloads: catalog.watermark_downloads,
+        },
+        version: versionToRestore,
+      });
+      // The restored files are current now, so close the stale panel
+      onOpenChange(false);
+    } catch {
+      // Error toast is shown by the mutation
+    } finally {
+      setVersionToRestore(null);
+    }
+  };
+
+  return (
+    <>
+      <Sheet open={open} onOpenChange={onOpenChange}>
+        <SheetContent side={isRTL ? 'left' : 'right'} className="w-full sm:max-w-lg overflow-y-auto">
+          <SheetHeader className="text-left rtl:text-right">
+            <SheetTitle>{t('admin:catalogs.history.title')}</SheetTitle>
+            <SheetDescription>{catalogTitle}</SheetDescription>
+          </SheetHeader>
+
+          {catalog && (
+            <div className="mt-6 space-y-6">
+              {/* Current Edition */}
+              <div className="flex gap-4 rounded-lg border bg-primary/5 p-4">
+                <img
+                  src={catalog.thumbnail_url}
+                  alt=""
+                  className="h-16 w-16 flex-shrink-0 rounded-md object-cover border"
+                />
+                <div className="min-w-0 text-left rtl:text-right">
+                  <p className="font-semibold">{t('admin:catalogs.history.current')}</p>
+                  <p className="text-sm text-muted-foreground">
+                    {formatFileSize(catalog.file_size)} · {formatDate(catalog.updated_at)}
+                  </p>
+                </div>
+              </div>
+
+              {/* Archived Versions */}
+              {isLoading ? (
+                <div className="space-y-3">
+                  <Skeleton className="h-24 w-full" />
+                  <Skeleton className="h-24 w-full" />
+                </div>
+              ) : versions && versions.length > 0 ? (
+                <ol className="space-y-3">
+                  {versions.map((version) => (
+                    <li key={version.id} className="flex gap-4 rounded-lg border p-4">
+                      <img
+                        src={version.thumbnail_url}
+                        alt=""
+                        className="h-16 w-16 flex-shrink-0 rounded-md object-cover border"
+                        loading="lazy"
+                      />
+                      <div className="min-w-0 flex-1 text-left rtl:text-right">
+                        <p className="font-semibold">
+                          {t('admin:catalogs.history.version', {
+                            version: version.version_number,
+                            defaultValue: 'Version {{version}}',
+                          })}
+                        </p>
+                        <p className="text-sm text-muted-foreground">
+                          {formatFileSize(version.file_size)} · {formatDate(version.created_at)}
+                        </p>
+                        <p className="text-sm text-muted-foreground truncate">
+                          {t('admin:catalogs.history.replacedBy', {
+                            author: version.author?.email ?? t('admin:catalogs.history.unknownAuthor'),
+                            defaultValue: 'Replaced by {{author}}',
+                          })}
+                        </p>
+                        {version.change_note && (
+                          <p className="text-sm mt-2 whitespace-pre-wrap">{version.change_note}</p>
+                        )}
+                        <div className="flex flex-wrap gap-2 mt-3">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="gap-1"
+                            onClick={() => setVersionToPreview(version)}
+                          >
+                            <Eye className="h-4 w-4" />
+                            {t('admin:catalogs.history.preview')}
+                          </Button>
+                          <Button variant="outline" size="sm" className="gap-1" asChild>
+                            <a href={getVersionUrl(version)} download target="_blank" rel="noopener noreferrer">
+                              <Download className="h-4 w-4" />
+                              {t('admin:catalogs.history.download')}
+                            </a>
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            className="gap-1"
+                            onClick={() => setVersionToRestore(version)}
+                            disabled={restoreCatalogVersion.isPending}
+                          >
+                            <RotateCcw className="h-4 w-4" />
+                            {t('admin:catalogs.history.restore')}
+                          </Button>
+                        </div>
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              ) : (
+                <div className="text-center py-8 text-muted-foreground">
+                  <History className="h-10 w-10 mx-auto mb-3" />
+                  <p>{t('admin:catalogs.history.empty')}</p>
+                </div>
+              )}
+            </div>
+          )}
+        </SheetContent>
+      </Sheet>
+
+      {/* Restore Confirmation Dialog */}
+      <AlertDialog
+        open={!!versionToRestore}
+        onOpenChange={(isOpen) => !isOpen && setVersionToRestore(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('admin:catalogs.history.restoreDialog.title')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t('admin:catalogs.history.restoreDialog.description', {
+                version: versionToRestore?.version_number,
+                defaultValue: 'Version {{version}} will become the current edition. The current files will be kept in the history.',
+              })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={restoreCatalogVersion.isPending}>
+              {t('admin:catalogs.history.restoreDialog.cancel')}
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleRestoreConfirm();
+              }}
+              disabled={restoreCatalogVersion.isPending}
+            >
+              {restoreCatalogVersion.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t('admin:catalogs.history.restoreDialog.confirm')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Version Preview - Lazy loaded */}
+      {versionToPreview && (
+        <Suspense fallback={null}>
+          <PDFViewer
+            pdfUrl={getVersionUrl(versionToPreview)}
+            title={`${catalogTitle} · ${t('admin:catalogs.history.version', {
+              version: versionToPreview.version_number,
+              defaultValue: 'Version {{version}}',
+            })}`}
+            isOpen={!!versionToPreview}
+            onClose={() => setVersionToPreview(null)}
+          />
+        </Suspense>
+      )}
+    </>
+  );
+};
+
+export default CatalogHistorySheet;
@@ -0,0 +1,140 @@
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { useTranslation } from 'react-i18next';
+import type { TFunction } from 'i18next';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Loader2 } from 'lucide-react';
+import type { CatalogWithCategory } from '@/types/database';
+
+/**
+ * Validation schema for the review form; rejecting requires a comment
+ */
+const createReviewSchema = (t: TFunction, decision: 'approve' | 'reject') =>
+  z.object({
+    comment:
+      decision === 'reject'
+        ? z.string().trim().min(1, t('admin:catalogs.review.validation.commentRequired'))
+        : z.string(),
+  });
+
+type ReviewFormData = z.infer<ReturnType<typeof createReviewSchema>>;
+
+interface CatalogReviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  catalog: CatalogWithCategory | null;
+  decision: 'approve' | 'reject';
+  onConfirm: (comment: string) => Promise<void>;
+  isSaving?: boolean;
+}
+
+/**
+ * CatalogReviewDialog Component
+ *
+ * A dialog for approving or rejecting a catalog that was submitted for review.
+ * Features:
+ * - Optional comment when approving, required when rejecting
+ * - Form validation with Zod
+ * - RTL support
+ */
+const CatalogReviewDialog = ({
+  open,
+  onOpenChange,
+  catalog,
+  decision,
+  onConfirm,
+  isSaving = false,
+}: CatalogReviewDialogProps) => {
+  const { t, i18n } = useTranslation();
+  const isRTL = i18n.language === 'ar';
+
+  const {
+    register,
+    handleSubmit,
+    formState: { errors },
+    reset,
+  } = useForm<ReviewFormData>({
+    resolver: zodResolver(createReviewSchema(t, decision)),
+    defaultValues: { comment: '' },
+  });
+
+  // Clear the comment whenever the dialog opens
+  useEffect(() => {
+    if (open) {
+      reset({ comment: '' });
+    }
+  }, [open, decision, reset]);
+
+  const onSubmit = async (data: ReviewFormData) => {
+    await onConfirm(data.comment);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[500px]">
+        <DialogHeader>
+          <DialogTitle className="text-2xl font-bold text-left rtl:text-right">
+            {t(`admin:catalogs.review.${decision}Title`)}
+          </DialogTitle>
+          <DialogDescription className="text-left rtl:text-right">
+            {catalog ? (isRTL ? catalog.title_ar : catalog.title_en) : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4 mt-4">
+          <div className="space-y-2">
+            <Label htmlFor="review_comment" className="text-left rtl:text-right block">
+              {t('admin:catalogs.review.comment')} {decision === 'reject' && '*'}
+            </Label>
+            <Textarea
+              id="review_comment"
+              {...register('comment')}
+              placeholder={t(`admin:catalogs.review.${decision}Placeholder`)}
+              rows={4}
+              disabled={isSaving}
+              className={errors.comment ? 'border-destructive' : ''}
+            />
+            {errors.comment && (
+              <p className="text-sm text-destructive text-left rtl:text-right">
+                {errors.comment.message}
+              </p>
+            )}
+          </div>
+
+          {/* Action Buttons */}
+          <div className="flex items-center justify-end gap-3 pt-4">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              disabled={isSaving}
+            >
+              {t('admin:catalogs.review.cancel')}
+            </Button>
+            <Button
+              type="submit"
+              variant={decision === 'reject' ? 'destructive' : 'default'}
+              disabled={isSaving}
+            >
+              {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t(`admin:catalogs.review.${decision}`)}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CatalogReviewDialog;
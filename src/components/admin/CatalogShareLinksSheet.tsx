@@ -0,0 +1,406 @@
+import { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { ar, enUS } from 'date-fns/locale';
+import { toast } from 'sonner';
+import { supabase } from '@/lib/supabase';
+import { handleError } from '@/lib/error-handling';
+import { getShareLinkState, getShareLinkUrl, type ShareLinkState } from '@/lib/private-catalogs';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Ban, Copy, KeyRound, Loader2, Plus } from 'lucide-react';
+import type { CatalogShareLink, CatalogShareLinkInsert, CatalogWithCategory } from '@/types/database';
+
+/**
+ * Expiry choices for new links, in hours
+ */
+const EXPIRY_OPTIONS = [1, 24, 168, 720] as const; // 1 hour, 1 day, 7 days, 30 days
+
+const STATE_BADGE_VARIANTS: Record<ShareLinkState, 'default' | 'secondary' | 'outline'> = {
+  active: 'default',
+  expired: 'outline',
+  usedUp: 'secondary',
+  revoked: 'outline',
+};
+
+interface CatalogShareLinksSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  catalog: CatalogWithCategory | null;
+}
+
+/**
+ * CatalogShareLinksSheet Component
+ *
+ * Side panel for handing out a private catalog.
+ * Features:
+ * - Create links with an expiry and an optional download limit
+ * - List links with their state and download count
+ * - Copy and revoke links
+ * - RTL support
+ */
+const CatalogShareLinksSheet = ({ open, onOpenChange, catalog }: CatalogShareLinksSheetProps) => {
+  const { t, i18n } = useTranslation();
+  const isRTL = i18n.language === 'ar';
+  const queryClient = useQueryClient();
+
+  const [label, setLabel] = useState('');
+  const [expiryHours, setExpiryHours] = useState<string>(String(24 * 7));
+  const [maxDownloads, setMaxDownloads] = useState('');
+  const [linkToRevoke, setLinkToRevoke] = useState<CatalogShareLink | null>(null);
+
+  // Start with a clean form for each catalog
+  useEffect(() => {
+    if (open) {
+      setLabel('');
+      setExpiryHours(String(24 * 7));
+      setMaxDownloads('');
+    }
+  }, [open, catalog?.id]);
+
+  // Fetch the catalog's links, newest first
+  const { data: links, isLoading } = useQuery<CatalogShareLink[]>({
+    queryKey: ['catalog-share-links', catalog?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('catalog_share_links')
+        .select('*')
+        .eq('catalog_id', catalog!.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data as CatalogShareLink[];
+    },
+    enabled: open && !!catalog,
+  });
+
+  // Copy a link for sending to the customer
+  const copyLink = async (link: CatalogShareLink) => {
+    try {
+      await navigator.clipboard.writeText(getShareLinkUrl(link.token));
+      toast.success(t('admin:catalogs.shareLinks.copied'));
+    } catch (error) {
+      console.error('Failed to copy share link:', error);
+      toast.error(t('admin:catalogs.copyLinkError'));
+    }
+  };
+
+  // Create a link and copy it straight away
+  const createLinkMutation = useMutation({
+    mutationFn: async () => {
+      const limit = parseInt(maxDownloads, 10);
+      const linkData: CatalogShareLinkInsert = {
+        catalog_id: catalog!.id,
+        label: label.trim() || null,
+        expires_at: new Date(Date.now() + Number(expiryHours) * 60 * 60 * 1000).toISOString(),
+        max_downloads: limit > 0 ? limit : null,
+      };
+
+      const { data, error } = await supabase
+        .from('catalog_share_links')
+        // @ts-expect-error - Supabase type inference issue with Database generic
+        .insert(linkData)
+        .select('*')
+        .single();
+
+      if (error) throw error;
+      return data as CatalogShareLink;
+    },
+    onSuccess: async (link) => {
+      queryClient.invalidateQueries({ queryKey: ['catalog-share-links', catalog?.id] });
+      setLabel('');
+      setMaxDownloads('');
+      await copyLink(link);
+    },
+    onError: (error) => {
+      handleError(error, 'create share link', {
+        customMessage: t('admin:catalogs.shareLinks.createError'),
+      });
+    },
+  });
+
+  // Revoke a link; it stops working immediately
+  const revokeLinkMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from('catalog_share_links')
+        // @ts-expect-error - Supabase type inference issue with Database generic
+        .update({ revoked_at: new Date().toISOString() })
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['catalog-share-links', catalog?.id] });
+      toast.success(t('admin:catalogs.shareLinks.revokeSuccess'));
+    },
+    onError: (error) => {
+      handleError(error, 'revoke share link', {
+        customMessage: t('admin:catalogs.shareLinks.revokeError'),
+      });
+    },
+  });
+
+  const handleRevokeConfirm = async () => {
+    if (!linkToRevoke) return;
+
+    try {
+      await revokeLinkMutation.mutateAsync(linkToRevoke.id);
+    } catch {
+      // Error toast is shown by the mutation
+    } finally {
+      setLinkToRevoke(null);
+    }
+  };
+
+  // Format date based on language
+  const formatDate = (dateString: string) => {
+    return format(new Date(dateString), 'PPp', { locale: isRTL ? ar : enUS });
+  };
+
+  const catalogTitle = catalog ? (isRTL ? catalog.title_ar : catalog.title_en) : '';
+
+  return (
+    <>
+      <Sheet open={open} onOpenChange={onOpenChange}>
+        <SheetContent side={isRTL ? 'left' : 'right'} className="w-full sm:max-w-lg overflow-y-auto">
+          <SheetHeader className="text-left rtl:text-right">
+            <SheetTitle>{t('admin:catalogs.shareLinks.title')}</SheetTitle>
+            <SheetDescription>{catalogTitle}</SheetDescription>
+          </SheetHeader>
+
+          {catalog && (
+            <div className="mt-6 space-y-6">
+              {!catalog.published && (
+                <Alert>
+                  <AlertDescription>{t('admin:catalogs.shareLinks.notPublished')}</AlertDescription>
+                </Alert>
+              )}
+              {catalog.watermark_downloads && (
+                <Alert>
+                  <AlertDescription>{t('admin:catalogs.shareLinks.watermarked')}</AlertDescription>
+                </Alert>
+              )}
+
+              {/* New Link */}
+              <form
+                className="space-y-4"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  createLinkMutation.mutate();
+                }}
+              >
+                <div className="space-y-2">
+                  <Label htmlFor="share_link_label" className="text-left rtl:text-right block">
+                    {t('admin:catalogs.shareLinks.label')}
+                  </Label>
+                  <Input
+                    id="share_link_label"
+                    value={label}
+                    onChange={(e) => setLabel(e.target.value)}
+                    placeholder={t('admin:catalogs.shareLinks.labelPlaceholder')}
+                    disabled={createLinkMutation.isPending}
+                  />
+                </div>
+
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="share_link_expiry" className="text-left rtl:text-right block">
+                      {t('admin:catalogs.shareLinks.expiresIn')}
+                    </Label>
+                    <Select value={expiryHours} onValueChange={setExpiryHours} disabled={createLinkMutation.isPending}>
+                      <SelectTrigger id="share_link_expiry">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {EXPIRY_OPTIONS.map((hours) => (
+                          <SelectItem key={hours} value={String(hours)}>
+                            {t(`admin:catalogs.shareLinks.expiryOptions.${hours}`)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="share_link_max_downloads" className="text-left rtl:text-right block">
+                      {t('admin:catalogs.shareLinks.maxDownloads')}
+                    </Label>
+                    <Input
+                      id="share_link_max_downloads"
+                      type="number"
+                      min={1}
+                      value={maxDownloads}
+                      onChange={(e) => setMaxDownloads(e.target.value)}
+                      placeholder={t('admin:catalogs.shareLinks.unlimited')}
+                      disabled={createLinkMutation.isPending}
+                    />
+                  </div>
+                </div>
+
+                <p className="text-xs text-muted-foreground text-left rtl:text-right">
+                  {t('admin:catalogs.shareLinks.hint')}
+                </p>
+
+                <Button type="submit" className="w-full gap-2" disabled={createLinkMutation.isPending}>
+                  {createLinkMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    <Plus className="h-4 w-4" />
+                  )}
+                  {t('admin:catalogs.shareLinks.create')}
+                </Button>
+              </form>
+
+              <Separator />
+
+              {/* Existing Links */}
+              {isLoading ? (
+                <div className="space-y-3">
+                  <Skeleton className="h-20 w-full" />
+                  <Skeleton className="h-20 w-full" />
+                </div>
+              ) : links && links.length > 0 ? (
+                <ul className="space-y-3">
+                  {links.map((link) => {
+                    const state = getShareLinkState(link);
+                    return (
+                      <li key={link.id} className="flex items-start gap-3 rounded-lg border p-4">
+                        <div className="min-w-0 flex-1 text-left rtl:text-right">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <p className="font-semibold truncate">
+                              {link.label || t('admin:catalogs.shareLinks.untitled')}
+                            </p>
+                            <Badge variant={STATE_BADGE_VARIANTS[state]}>
+                              {t(`admin:catalogs.shareLinks.state.${state}`)}
+                            </Badge>
+                          </div>
+                          <p className="text-sm text-muted-foreground">
+                            {state === 'expired'
+                              ? t('admin:catalogs.shareLinks.expiredOn', {
+                                  date: formatDate(link.expires_at),
+                                  defaultValue: 'Expired {{date}}',
+                                })
+                              : t('admin:catalogs.shareLinks.expiresOn', {
+                                  date: formatDate(link.expires_at),
+                                  defaultValue: 'Expires {{date}}',
+                                })}
+                          </p>
+                          <p className="text-sm text-muted-foreground">
+                            {link.max_downloads === null
+                              ? t('admin:catalogs.shareLinks.downloads', {
+                                  count: link.download_count,
+                                  defaultValue: 'Downloads: {{count}}',
+                                })
+                              : t('admin:catalogs.shareLinks.downloadsOfLimit', {
+                                  count: link.download_count,
+                                  limit: link.max_downloads,
+                                  defaultValue: 'Downloads: {{count}} of {{limit}}',
+                                })}
+                          </p>
+                        </div>
+                        {state === 'active' && (
+                          <div className="flex gap-1">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => copyLink(link)}
+                              title={t('admin:catalogs.shareLinks.copy')}
+                            >
+                              <Copy className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => setLinkToRevoke(link)}
+                              title={t('admin:catalogs.shareLinks.revoke')}
+                              className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                              disabled={revokeLinkMutation.isPending}
+                            >
+                              <Ban className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+              ) : (
+                <div className="text-center py-8 text-muted-foreground">
+                  <KeyRound className="h-10 w-10 mx-auto mb-3" />
+                  <p>{t('admin:catalogs.shareLinks.empty')}</p>
+                </div>
+              )}
+            </div>
+          )}
+        </SheetContent>
+      </Sheet>
+
+      {/* Revoke Confirmation Dialog */}
+      <AlertDialog
+        open={!!linkToRevoke}
+        onOpenChange={(isOpen) => !isOpen && setLinkToRevoke(null)}
+      >
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('admin:catalogs.shareLinks.revokeDialog.title')}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t('admin:catalogs.shareLinks.revokeDialog.description', {
+                label: linkToRevoke?.label || t('admin:catalogs.shareLinks.untitled'),
+                defaultValue: '"{{label}}" will stop working immediately. This cannot be undone.',
+              })}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={revokeLinkMutation.isPending}>
+              {t('admin:catalogs.shareLinks.revokeDialog.cancel')}
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleRevokeConfirm();
+              }}
+              disabled={revokeLinkMutation.isPending}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {revokeLinkMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {t('admin:catalogs.shareLinks.revokeDialog.confirm')}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default CatalogShareLinksSheet;
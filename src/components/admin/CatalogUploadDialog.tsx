@@ -1,10 +1,15 @@
 import { useEffect, useState } from 'react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { useTranslation } from 'react-i18next';
 import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
 import { supabase } from '@/lib/supabase';
+import { pdfjsLib } from '@/lib/pdfjs';
+import { renderPdfThumbnail } from '@/lib/pdf-thumbnail';
+import { handleError } from '@/lib/error-handling';
 import {
   Dialog,
   DialogContent,
@@ -14,6 +19,7 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
 import {
   Select,
   SelectContent,
@@ -22,8 +28,10 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
 import { Upload, X, FileText, Image as ImageIcon, Loader2 } from 'lucide-react';
 import type { CatalogWithCategory, Category } from '@/types/database';
+import TagPicker from './TagPicker';
 
 /**
  * File validation constants
@@ -33,6 +41,15 @@ const MAX_THUMBNAIL_SIZE = 2 * 1024 * 1024; // 2MB
 const ACCEPTED_PDF_TYPES = ['application/pdf'];
 const ACCEPTED_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/jpg', 'image/webp'];
 
+/**
+ * Convert between stored ISO timestamps and datetime-local input values (local time)
+ */
+const toDateTimeInputValue = (value: string | null): string =>
+  value ? format(new Date(value), "yyyy-MM-dd'T'HH:mm") : '';
+
+const toIsoTimestamp = (value: string): string | null =>
+  value ? new Date(value).toISOString() : null;
+
 /**
  * Validation schema for catalog form
  */
@@ -49,7 +66,22 @@ const createCatalogSchema = (t: any) =>
     category_id: z
       .string()
       .min(1, t('admin:catalogs.dialog.validation.categoryRequired')),
-  });
+    publish_at: z.string(),
+    unpublish_at: z.string(),
+    gated: z.boolean(),
+    watermark_downloads: z.boolean(),
+    private: z.boolean(),
+  })
+  .refine(
+    (data) =>
+      !data.publish_at ||
+      !data.unpublish_at ||
+      new Date(data.unpublish_at) > new Date(data.publish_at),
+    {
+      message: t('admin:catalogs.dialog.validation.unpublishAfterPublish'),
+      path: ['unpublish_at'],
+    }
+  );
 
 type CatalogFormData = z.infer<ReturnType<typeof createCatalogSchema>>;
 
@@ -61,8 +93,15 @@ interface CatalogUploadDialogProps {
     title_en: string;
     title_ar: string;
     category_id: string;
+    tag_ids: string[];
+    publish_at: string | null;
+    unpublish_at: string | null;
+    gated: boolean;
+    private: boolean;
+    watermark_downloads: boolean;
     pdf_file?: File;
     thumbnail_file?: File;
+    change_note?: string;
   }) => Promise<void>;
   isSaving?: boolean;
   uploadProgress?: number;
@@ -74,8 +113,12 @@ interface CatalogUploadDialogProps {
  * A dialog for uploading and editing catalogs with file upload support.
  * Features:
  * - Create and edit modes
+ * - Tag selection with inline tag creation
+ * - Optional publish/unpublish schedule
  * - PDF file upload with drag-and-drop
- * - Thumbnail image upload with preview
+ * - Thumbnail image upload with preview, or a thumbnail generated from a
+ *   page of the PDF (the cover by default)
+ * - Change note when replacing files of an existing catalog
  * - File validation (type and size)
  * - Upload progress indicators
  * - RTL support
@@ -97,10 +140,18 @@ const CatalogUploadDialog = ({
   const [pdfFile, setPdfFile] = useState<File | null>(null);
   const [thumbnailFile, setThumbnailFile] = useState<File | null>(null);
   const [thumbnailPreview, setThumbnailPreview] = useState<string | null>(null);
+  const [pdfDocument, setPdfDocument] = useState<PDFDocumentProxy | null>(null);
+  const [coverPage, setCoverPage] = useState(1);
+  const [generatedThumbnail, setGeneratedThumbnail] = useState<File | null>(null);
+  const [generatedPreview, setGeneratedPreview] = useState<string | null>(null);
+  const [isGeneratingThumbnail, setIsGeneratingThumbnail] = useState(false);
+  const [keepExistingThumbnail, setKeepExistingThumbnail] = useState(false);
   const [pdfError, setPdfError] = useState<string | null>(null);
   const [thumbnailError, setThumbnailError] = useState<string | null>(null);
   const [isDraggingPdf, setIsDraggingPdf] = useState(false);
   const [isDraggingThumbnail, setIsDraggingThumbnail] = useState(false);
+  const [selectedTagIds, setSelectedTagIds] = useState<string[]>([]);
+  const [changeNote, setChangeNote] = useState('');
 
   // Fetch categories for dropdown
   const { data: categories } = useQuery<Category[]>({
@@ -130,10 +181,18 @@ const CatalogUploadDialog = ({
       title_en: '',
       title_ar: '',
       category_id: '',
+      publish_at: '',
+      unpublish_at: '',
+      gated: false,
+      private: false,
+      watermark_downloads: false,
     },
   });
 
   const selectedCategoryId = watch('category_id');
+  const isGated = watch('gated');
+  const isPrivate = watch('private');
+  const isWatermarked = watch('watermark_downloads');
 
   // Reset form when dialog opens/closes or catalog changes
   useEffect(() => {
@@ -144,25 +203,114 @@ const CatalogUploadDialog = ({
           title_en: catalog.title_en || '',
           title_ar: catalog.title_ar || '',
           category_id: catalog.category_id || '',
+          publish_at: toDateTimeInputValue(catalog.publish_at),
+          unpublish_at: toDateTimeInputValue(catalog.unpublish_at),
+          gated: catalog.gated,
+          private: catalog.private,
+          watermark_downloads: catalog.watermark_downloads,
         });
         // Set thumbnail preview from existing URL
         setThumbnailPreview(catalog.thumbnail_url);
+        setSelectedTagIds(catalog.tags?.map((tag) => tag.id) ?? []);
       } else {
         // Create mode: reset to empty
         reset({
           title_en: '',
           title_ar: '',
           category_id: '',
+          publish_at: '',
+          unpublish_at: '',
+          gated: false,
+          private: false,
+          watermark_downloads: false,
         });
         setPdfFile(null);
         setThumbnailFile(null);
         setThumbnailPreview(null);
+        setSelectedTagIds([]);
       }
       setPdfError(null);
       setThumbnailError(null);
+      setChangeNote('');
+      setKeepExistingThumbnail(false);
     }
   }, [open, catalog, reset]);
 
+  // Open the selected PDF so a page of it can be drawn as the thumbnail
+  useEffect(() => {
+    setPdfDocument(null);
+    setCoverPage(1);
+    setGeneratedThumbnail(null);
+    if (!pdfFile) return;
+
+    let cancelled = false;
+    let loadedDocument: PDFDocumentProxy | null = null;
+
+    (async () => {
+      try {
+        const data = new Uint8Array(await pdfFile.arrayBuffer());
+        loadedDocument = await pdfjsLib.getDocument({ data }).promise;
+        if (cancelled) {
+          void loadedDocument.destroy();
+          return;
+        }
+        setPdfDocument(loadedDocument);
+      } catch (error) {
+        if (cancelled) return;
+        handleError(error, 'open PDF for thumbnail', { showToast: false });
+        setThumbnailError(t('admin:catalogs.dialog.thumbnailGenerateError'));
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      void loadedDocument?.destroy();
+    };
+  }, [pdfFile, t]);
+
+  // Draw the chosen cover page into the generated thumbnail
+  useEffect(() => {
+    if (!pdfDocument) return;
+
+    let cancelled = false;
+    setIsGeneratingThumbnail(true);
+
+    renderPdfThumbnail(pdfDocument, coverPage, pdfFile?.name ?? '')
+      .then((file) => {
+        if (!cancelled) setGeneratedThumbnail(file);
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        handleError(error, 'generate PDF thumbnail', { showToast: false });
+        setGeneratedThumbnail(null);
+        setThumbnailError(t('admin:catalogs.dialog.thumbnailGenerateError'));
+      })
+      .finally(() => {
+        if (!cancelled) setIsGeneratingThumbnail(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pdfDocument, coverPage, pdfFile, t]);
+
+  // Preview URL for the generated thumbnail
+  useEffect(() => {
+    if (!generatedThumbnail) {
+      setGeneratedPreview(null);
+      return;
+    }
+
+    const url = URL.createObjectURL(generatedThumbnail);
+    setGeneratedPreview(url);
+    return () => URL.revokeObjectURL(url);
+  }, [generatedThumbnail]);
+
+  // An uploaded thumbnail wins; otherwise the PDF's page is used, unless the
+  // admin chose to keep the current thumbnail of an existing catalog
+  const isUsingGeneratedThumbnail = !thumbnailFile && !!pdfFile && !(isEditMode && keepExistingThumbnail);
+  const shownThumbnailPreview = isUsingGeneratedThumbnail ? generatedPreview : thumbnailPreview;
+
   // Validate PDF file
   const validatePdfFile = (file: File): string | null => {
     if (!ACCEPTED_PDF_TYPES.includes(file.type)) {
@@ -200,6 +348,16 @@ const CatalogUploadDialog = ({
     } else {
       setPdfFile(file);
       setPdfError(null);
+      setThumbnailError(null);
+      setKeepExistingThumbnail(false);
+    }
+  };
+
+  // Handle cover page selection for the generated thumbnail
+  const handleCoverPageChange = (value: string) => {
+    const page = parseInt(value, 10);
+    if (pdfDocument && page >= 1 && page <= pdfDocument.numPages) {
+      setCoverPage(page);
     }
   };
 
@@ -280,18 +438,27 @@ const CatalogUploadDialog = ({
         setPdfError(t('admin:catalogs.dialog.validation.pdfRequired'));
         return;
       }
-      if (!thumbnailFile) {
+      if (!thumbnailFile && !generatedThumbnail) {
         setThumbnailError(t('admin:catalogs.dialog.validation.thumbnailRequired'));
         return;
       }
     }
 
+    const thumbnailToSave = isUsingGeneratedThumbnail ? generatedThumbnail : thumbnailFile;
+
     await onSave({
       title_en: data.title_en,
       title_ar: data.title_ar,
       category_id: data.category_id,
+      tag_ids: selectedTagIds,
+      publish_at: toIsoTimestamp(data.publish_at),
+      unpublish_at: toIsoTimestamp(data.unpublish_at),
+      gated: data.gated,
+      private: data.private,
+      watermark_downloads: data.watermark_downloads,
       pdf_file: pdfFile || undefined,
-      thumbnail_file: thumbnailFile || undefined,
+      thumbnail_file: thumbnailToSave || undefined,
+      change_note: changeNote || undefined,
     });
   };
 
@@ -389,6 +556,109 @@ const CatalogUploadDialog = ({
             )}
           </div>
 
+          {/* Tags Selection */}
+          <div className="space-y-2">
+            <Label className="text-left rtl:text-right block">
+              {t('admin:catalogs.dialog.tags')}
+            </Label>
+            <TagPicker
+              selectedTagIds={selectedTagIds}
+              onChange={setSelectedTagIds}
+              disabled={isSaving}
+            />
+          </div>
+
+          {/* Publish Schedule */}
+          <div className="space-y-2">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="publish_at" className="text-left rtl:text-right block">
+                  {t('admin:catalogs.dialog.publishAt')}
+                </Label>
+                <Input
+                  id="publish_at"
+                  type="datetime-local"
+                  {...register('publish_at')}
+                  disabled={isSaving}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="unpublish_at" className="text-left rtl:text-right block">
+                  {t('admin:catalogs.dialog.unpublishAt')}
+                </Label>
+                <Input
+                  id="unpublish_at"
+                  type="datetime-local"
+                  {...register('unpublish_at')}
+                  disabled={isSaving}
+                  className={errors.unpublish_at ? 'border-destructive' : ''}
+                />
+              </div>
+            </div>
+            {errors.unpublish_at && (
+              <p className="text-sm text-destructive text-left rtl:text-right">
+                {errors.unpublish_at.message}
+              </p>
+            )}
+            <p className="text-xs text-muted-foreground text-left rtl:text-right">
+              {t('admin:catalogs.dialog.scheduleHint')}
+            </p>
+          </div>
+
+          {/* Gated Download */}
+          <div className="flex items-center justify-between gap-4 rounded-lg border p-4">
+            <div className="space-y-1">
+              <Label htmlFor="gated" className="text-left rtl:text-right block">
+                {t('admin:catalogs.dialog.gated')}
+              </Label>
+              <p className="text-xs text-muted-foreground text-left rtl:text-right">
+                {t('admin:catalogs.dialog.gatedHint')}
+              </p>
+            </div>
+            <Switch
+              id="gated"
+              checked={isGated}
+              onCheckedChange={(checked) => setValue('gated', checked)}
+              disabled={isSaving}
+            />
+          </div>
+
+          {/* Private Catalog */}
+          <div className="flex items-center justify-between gap-4 rounded-lg border p-4">
+            <div className="space-y-1">
+              <Label htmlFor="private" className="text-left rtl:text-right block">
+                {t('admin:catalogs.dialog.private')}
+              </Label>
+              <p className="text-xs text-muted-foreground text-left rtl:text-right">
+                {t('admin:catalogs.dialog.privateHint')}
+              </p>
+            </div>
+            <Switch
+              id="private"
+              checked={isPrivate}
+              onCheckedChange={(checked) => setValue('private', checked)}
+              disabled={isSaving}
+            />
+          </div>
+
+          {/* Watermarked Downloads */}
+          <div className="flex items-center justify-between gap-4 rounded-lg border p-4">
+            <div className="space-y-1">
+              <Label htmlFor="watermark_downloads" className="text-left rtl:text-right block">
+                {t('admin:catalogs.dialog.watermark')}
+              </Label>
+              <p className="text-xs text-muted-foreground text-left rtl:text-right">
+                {t('admin:catalogs.dialog.watermarkHint')}
+              </p>
+            </div>
+            <Switch
+              id="watermark_downloads"
+              checked={isWatermarked}
+              onCheckedChange={(checked) => setValue('watermark_downloads', checked)}
+              disabled={isSaving}
+            />
+          </div>
+
           {/* PDF File Upload */}
           <div className="space-y-2">
             <Label className="text-left rtl:text-right block">
@@ -476,6 +746,18 @@ const CatalogUploadDialog = ({
             <Label className="text-left rtl:text-right block">
               {t('admin:catalogs.dialog.thumbnail')} {!isEditMode && '*'}
             </Label>
+            <Input
+              type="file"
+              accept="image/png,image/jpeg,image/jpg,image/webp"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleThumbnailFileChange(file);
+                e.target.value = '';
+              }}
+              disabled={isSaving}
+              className="hidden"
+              id="thumbnail-upload"
+            />
             <div
               onDragOver={handleThumbnailDragOver}
               onDragLeave={handleThumbnailDragLeave}
@@ -487,21 +769,29 @@ const CatalogUploadDialog = ({
                 ${isSaving ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer hover:border-primary'}
               `}
             >
-              {thumbnailPreview ? (
+              {shownThumbnailPreview ? (
                 <div className="space-y-3">
                   <div className="relative inline-block">
                     <img
-                      src={thumbnailPreview}
+                      src={shownThumbnailPreview}
                       alt="Thumbnail preview"
-                      className="h-32 w-32 object-cover rounded-lg border mx-auto"
+                      className={`h-32 w-32 object-cover rounded-lg border mx-auto ${
+                        isUsingGeneratedThumbnail && isGeneratingThumbnail ? 'opacity-50' : ''
+                      }`}
                     />
-                    {thumbnailFile && (
+                    {isUsingGeneratedThumbnail && isGeneratingThumbnail && (
+                      <Loader2 className="absolute inset-0 m-auto h-6 w-6 animate-spin text-primary" />
+                    )}
+                    {(thumbnailFile || (isUsingGeneratedThumbnail && isEditMode)) && (
                       <Button
                         type="button"
                         variant="destructive"
                         size="icon"
-                        onClick={() => handleThumbnailFileChange(null)}
+                        onClick={() =>
+                          thumbnailFile ? handleThumbnailFileChange(null) : setKeepExistingThumbnail(true)
+                        }
                         disabled={isSaving}
+                        title={thumbnailFile ? undefined : t('admin:catalogs.dialog.keepCurrentThumbnail')}
                         className="absolute -top-2 -right-2 h-6 w-6 rounded-full"
                       >
                         <X className="h-3 w-3" />
@@ -516,6 +806,59 @@ const CatalogUploadDialog = ({
                       </p>
                     </div>
                   )}
+                  {isUsingGeneratedThumbnail && pdfDocument && (
+                    <div className="space-y-3">
+                      <div className="flex items-center justify-center gap-2 text-sm">
+                        <Label htmlFor="cover_page">{t('admin:catalogs.dialog.coverPage')}</Label>
+                        <Input
+                          id="cover_page"
+                          type="number"
+                          min={1}
+                          max={pdfDocument.numPages}
+                          value={coverPage}
+                          onChange={(e) => handleCoverPageChange(e.target.value)}
+                          disabled={isSaving}
+                          className="h-8 w-20"
+                        />
+                        <span className="text-muted-foreground">
+                          {t('admin:catalogs.dialog.coverPageOf', {
+                            count: pdfDocument.numPages,
+                            defaultValue: 'of {{count}}',
+                          })}
+                        </span>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {t('admin:catalogs.dialog.thumbnailGeneratedHint')}
+                      </p>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        size="sm"
+                        onClick={() => document.getElementById('thumbnail-upload')?.click()}
+                        disabled={isSaving}
+                      >
+                        {t('admin:catalogs.dialog.uploadOwnThumbnail')}
+                      </Button>
+                    </div>
+                  )}
+                  {isEditMode && keepExistingThumbnail && pdfDocument && !thumbnailFile && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => setKeepExistingThumbnail(false)}
+                      disabled={isSaving}
+                    >
+                      {t('admin:catalogs.dialog.useThumbnailFromPdf')}
+                    </Button>
+                  )}
+                </div>
+              ) : isUsingGeneratedThumbnail && isGeneratingThumbnail ? (
+                <div className="flex flex-col items-center gap-3 py-6" role="status">
+                  <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                  <p className="text-sm text-muted-foreground">
+                    {t('admin:catalogs.dialog.generatingThumbnail')}
+                  </p>
                 </div>
               ) : (
                 <div>
@@ -526,17 +869,6 @@ const CatalogUploadDialog = ({
                   <p className="text-xs text-muted-foreground mb-3">
                     {t('admin:catalogs.dialog.thumbnailUploadHint')}
                   </p>
-                  <Input
-                    type="file"
-                    accept="image/png,image/jpeg,image/jpg,image/webp"
-                    onChange={(e) => {
-                      const file = e.target.files?.[0];
-                      if (file) handleThumbnailFileChange(file);
-                    }}
-                    disabled={isSaving}
-                    className="hidden"
-                    id="thumbnail-upload"
-                  />
                   <Button
                     type="button"
                     variant="outline"
@@ -554,13 +886,33 @@ const CatalogUploadDialog = ({
                 {thumbnailError}
               </p>
             )}
-            {isEditMode && !thumbnailFile && thumbnailPreview && (
+            {isEditMode && !thumbnailFile && !isUsingGeneratedThumbnail && thumbnailPreview && (
               <p className="text-xs text-muted-foreground text-left rtl:text-right">
                 {t('admin:catalogs.dialog.thumbnailEditHint')}
               </p>
             )}
           </div>
 
+          {/* Change Note (edit mode, when replacing files) */}
+          {isEditMode && (pdfFile || thumbnailFile) && (
+            <div className="space-y-2">
+              <Label htmlFor="change_note" className="text-left rtl:text-right block">
+                {t('admin:catalogs.dialog.changeNote')}
+              </Label>
+              <Textarea
+                id="change_note"
+                value={changeNote}
+                onChange={(e) => setChangeNote(e.target.value)}
+                placeholder={t('admin:catalogs.dialog.changeNotePlaceholder')}
+                disabled={isSaving}
+                rows={2}
+              />
+              <p className="text-xs text-muted-foreground text-left rtl:text-right">
+                {t('admin:catalogs.dialog.changeNoteHint')}
+              </p>
+            </div>
+          )}
+
           {/* Upload Progress */}
           {isSaving && uploadProgress > 0 && (
             <div className="space-y-2">
@@ -584,7 +936,7 @@ const CatalogUploadDialog = ({
             >
               {t('admin:catalogs.dialog.cancel')}
             </Button>
-            <Button type="submit" disabled={isSaving}>
+            <Button type="submit" disabled={isSaving || (isUsingGeneratedThumbnail && isGeneratingThumbnail)}>
               {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
               {isSaving
                 ? t('admin:catalogs.dialog.saving')
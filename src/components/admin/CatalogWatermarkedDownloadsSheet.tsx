@@ -0,0 +1,109 @@
+import { useTranslation } from 'react-i18next';
+import { useQuery } from '@tanstack/react-query';
+import { format } from 'date-fns';
+import { ar, enUS } from 'date-fns/locale';
+import { supabase } from '@/lib/supabase';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Skeleton } from '@/components/ui/skeleton';
+import { AlertCircle, Stamp } from 'lucide-react';
+import type { CatalogWatermarkedDownload, CatalogWithCategory } from '@/types/database';
+
+interface CatalogWatermarkedDownloadsSheetProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  catalog: CatalogWithCategory | null;
+}
+
+/**
+ * CatalogWatermarkedDownloadsSheet Component
+ *
+ * Side panel listing the stamped copies of a watermarked catalog.
+ * Features:
+ * - Read-only audit trail with the stamped email and timestamp, newest first
+ * - RTL support
+ */
+const CatalogWatermarkedDownloadsSheet = ({ open, onOpenChange, catalog }: CatalogWatermarkedDownloadsSheetProps) => {
+  const { t, i18n } = useTranslation();
+  const isRTL = i18n.language === 'ar';
+
+  // Fetch the catalog's stamped copies, newest first
+  const { data: downloads, isLoading, error } = useQuery<CatalogWatermarkedDownload[]>({
+    queryKey: ['catalog-watermarked-downloads', catalog?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('catalog_watermarked_downloads')
+        .select('*')
+        .eq('catalog_id', catalog!.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data as CatalogWatermarkedDownload[];
+    },
+    enabled: open && !!catalog,
+  });
+
+  // Format date based on language
+  const formatDate = (dateString: string) => {
+    return format(new Date(dateString), 'PPp', { locale: isRTL ? ar : enUS });
+  };
+
+  const catalogTitle = catalog ? (isRTL ? catalog.title_ar : catalog.title_en) : '';
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent side={isRTL ? 'left' : 'right'} className="w-full sm:max-w-lg overflow-y-auto">
+        <SheetHeader className="text-left rtl:text-right">
+          <SheetTitle>{t('admin:catalogs.watermarkedDownloads.title')}</SheetTitle>
+          <SheetDescription>{catalogTitle}</SheetDescription>
+        </SheetHeader>
+
+        {catalog && (
+          <div className="mt-6 space-y-4">
+            <p className="text-sm text-muted-foreground text-left rtl:text-right">
+              {t('admin:catalogs.watermarkedDownloads.hint')}
+            </p>
+
+            {error && (
+              <Alert variant="destructive">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>{t('admin:catalogs.watermarkedDownloads.loadError')}</AlertDescription>
+              </Alert>
+            )}
+
+            {isLoading ? (
+              <div className="space-y-3">
+                <Skeleton className="h-14 w-full" />
+                <Skeleton className="h-14 w-full" />
+              </div>
+            ) : downloads && downloads.length > 0 ? (
+              <ol className="divide-y rounded-lg border">
+                {downloads.map((download) => (
+                  <li key={download.id} className="p-4 text-left rtl:text-right">
+                    <p className="font-medium truncate" dir="ltr">{download.email}</p>
+                    <p className="text-sm text-muted-foreground">{formatDate(download.created_at)}</p>
+                  </li>
+                ))}
+              </ol>
+            ) : (
+              !error && (
+                <div className="text-center py-8 text-muted-foreground">
+                  <Stamp className="h-10 w-10 mx-auto mb-3" />
+                  <p>{t('admin:catalogs.watermarkedDownloads.empty')}</p>
+                </div>
+              )
+            )}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default CatalogWatermarkedDownloadsSheet;
@@ -13,6 +13,7 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Loader2 } from 'lucide-react';
+import { toKebabCase } from '@/lib/utils';
 import type { Category } from '@/types/database';
 
 /**
@@ -41,19 +42,6 @@ interface CategoryDialogProps {
   isSaving?: boolean;
 }
 
-/**
- * Convert string to kebab-case for slug generation
- */
-const toKebabCase = (str: string): string => {
-  return str
-    .toLowerCase()
-    .trim()
-    .replace(/[^\w\s-]/g, '') // Remove special characters
-    .replace(/\s+/g, '-') // Replace spaces with hyphens
-    .replace(/-+/g, '-') // Replace multiple hyphens with single hyphen
-    .replace(/^-+|-+$/g, ''); // Remove leading/trailing hyphens
-};
-
 /**
  * CategoryDialog Component
  * 
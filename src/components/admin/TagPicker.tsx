@@ -0,0 +1,148 @@
+import { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/lib/supabase';
+import { toKebabCase } from '@/lib/utils';
+import { useTagMutations } from '@/hooks/useTagMutations';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Check, Loader2, Plus } from 'lucide-react';
+import type { Tag } from '@/types/database';
+
+interface TagPickerProps {
+  selectedTagIds: string[];
+  onChange: (tagIds: string[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * TagPicker Component
+ *
+ * Lets admins attach any number of tags to a catalog.
+ * Features:
+ * - Toggle existing tags on and off
+ * - Create a new bilingual tag inline; it is selected right away
+ * - RTL support
+ */
+const TagPicker = ({ selectedTagIds, onChange, disabled = false }: TagPickerProps) => {
+  const { t, i18n } = useTranslation();
+  const isRTL = i18n.language === 'ar';
+  const { createTag } = useTagMutations();
+
+  const [newTagEn, setNewTagEn] = useState('');
+  const [newTagAr, setNewTagAr] = useState('');
+
+  // Fetch all tags
+  const { data: tags, isLoading } = useQuery<Tag[]>({
+    queryKey: ['tags'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('tags')
+        .select('*')
+        .order('name_en', { ascending: true });
+
+      if (error) throw error;
+      return data as Tag[];
+    },
+  });
+
+  const newTagSlug = toKebabCase(newTagEn);
+  const canCreate = newTagSlug.length > 0 && newTagAr.trim().length > 0 && !createTag.isPending;
+
+  // Toggle a tag in the selection
+  const handleToggle = (tagId: string) => {
+    onChange(
+      selectedTagIds.includes(tagId)
+        ? selectedTagIds.filter((id) => id !== tagId)
+        : [...selectedTagIds, tagId]
+    );
+  };
+
+  // Create a new tag and select it
+  const handleCreate = async () => {
+    if (!canCreate) return;
+
+    try {
+      const tag = await createTag.mutateAsync({
+        name_en: newTagEn.trim(),
+        name_ar: newTagAr.trim(),
+        slug: newTagSlug,
+      });
+      onChange([...selectedTagIds, tag.id]);
+      setNewTagEn('');
+      setNewTagAr('');
+    } catch {
+      // Error toast is shown by the mutation
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      {/* Existing Tags */}
+      {isLoading ? (
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      ) : tags && tags.length > 0 ? (
+        <div className="flex flex-wrap gap-2" role="group" aria-label={t('admin:tags.title')}>
+          {tags.map((tag) => {
+            const isSelected = selectedTagIds.includes(tag.id);
+            return (
+              <button
+                key={tag.id}
+                type="button"
+                onClick={() => handleToggle(tag.id)}
+                disabled={disabled}
+                aria-pressed={isSelected}
+                className="rounded-full focus:outline-none focus-visible:ring-2 focus-visible:ring-ring disabled:opacity-50"
+              >
+                <Badge variant={isSelected ? 'default' : 'outline'} className="gap-1 cursor-pointer">
+                  {isSelected && <Check className="h-3 w-3" aria-hidden="true" />}
+                  {isRTL ? tag.name_ar : tag.name_en}
+                </Badge>
+              </button>
+            );
+          })}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground text-left rtl:text-right">
+          {t('admin:tags.empty')}
+        </p>
+      )}
+
+      {/* New Tag */}
+      <div className="flex flex-col sm:flex-row gap-2">
+        <Input
+          value={newTagEn}
+          onChange={(e) => setNewTagEn(e.target.value)}
+          placeholder={t('admin:tags.nameEnPlaceholder')}
+          aria-label={t('admin:tags.nameEn')}
+          disabled={disabled || createTag.isPending}
+        />
+        <Input
+          value={newTagAr}
+          onChange={(e) => setNewTagAr(e.target.value)}
+          placeholder={t('admin:tags.nameArPlaceholder')}
+          aria-label={t('admin:tags.nameAr')}
+          dir="rtl"
+          disabled={disabled || createTag.isPending}
+        />
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handleCreate}
+          disabled={disabled || !canCreate}
+          className="flex-shrink-0"
+        >
+          {createTag.isPending ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <Plus className="h-4 w-4" />
+          )}
+          {t('admin:tags.add')}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default TagPicker;
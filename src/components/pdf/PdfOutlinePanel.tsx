@@ -0,0 +1,133 @@
+import { useEffect, useState } from "react";
+import type { PDFDocumentProxy } from "pdfjs-dist";
+import { useTranslation } from "react-i18next";
+import { Loader2 } from "lucide-react";
+import { handleError } from "@/lib/error-handling";
+import { cn } from "@/lib/utils";
+import PdfThumbnailStrip from "@/components/pdf/PdfThumbnailStrip";
+
+type PdfOutlineItem = Awaited<ReturnType<PDFDocumentProxy["getOutline"]>>[number];
+
+interface PdfOutlinePanelProps {
+  pdf: PDFDocumentProxy;
+  currentPage: number;
+  onPageSelect: (pageNumber: number) => void;
+  className?: string;
+}
+
+interface PdfOutlineListProps {
+  items: PdfOutlineItem[];
+  depth: number;
+  onSelect: (item: PdfOutlineItem) => void;
+}
+
+/**
+ * Resolve an outline destination (named or explicit) to a 1-based page number
+ */
+const resolveDestinationPage = async (
+  pdf: PDFDocumentProxy,
+  destination: PdfOutlineItem["dest"]
+): Promise<number | null> => {
+  const explicitDestination = typeof destination === "string" ? await pdf.getDestination(destination) : destination;
+  const target = explicitDestination?.[0];
+  if (target === undefined || target === null) return null;
+
+  // Either a page reference or (in some files) a 0-based page index
+  return typeof target === "number" ? target + 1 : (await pdf.getPageIndex(target)) + 1;
+};
+
+/**
+ * One level of the outline, with its sections nested below each entry
+ */
+const PdfOutlineList = ({ items, depth, onSelect }: PdfOutlineListProps) => (
+  <ul className={cn("space-y-0.5", depth > 0 && "ms-3 border-s ps-2")}>
+    {items.map((item, index) => (
+      <li key={`${depth}-${index}`}>
+        <button
+          type="button"
+          onClick={() => onSelect(item)}
+          disabled={!item.dest}
+          className={cn(
+            "w-full rounded-md px-2 py-1.5 text-start text-sm transition-fast hover:bg-muted disabled:pointer-events-none disabled:text-muted-foreground",
+            item.bold && "font-semibold",
+            item.italic && "italic"
+          )}
+        >
+          {item.title}
+        </button>
+        {item.items.length > 0 && <PdfOutlineList items={item.items} depth={depth + 1} onSelect={onSelect} />}
+      </li>
+    ))}
+  </ul>
+);
+
+/**
+ * PdfOutlinePanel Component
+ * Table of contents from the PDF's outline (bookmarks); selecting an entry
+ * jumps to its page. PDFs without an outline get page thumbnails instead.
+ */
+const PdfOutlinePanel = ({ pdf, currentPage, onPageSelect, className }: PdfOutlinePanelProps) => {
+  const { t } = useTranslation();
+  const [outline, setOutline] = useState<PdfOutlineItem[] | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setOutline(null);
+
+    pdf.getOutline().then(
+      (items) => {
+        if (!cancelled) setOutline(items ?? []);
+      },
+      (error) => {
+        if (cancelled) return;
+        handleError(error, "load PDF outline", { showToast: false });
+        setOutline([]);
+      }
+    );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pdf]);
+
+  /**
+   * Go to the page an outline entry points at
+   */
+  const handleSelect = async (item: PdfOutlineItem) => {
+    try {
+      const pageNumber = await resolveDestinationPage(pdf, item.dest);
+      if (pageNumber) onPageSelect(pageNumber);
+    } catch (error) {
+      handleError(error, "resolve PDF outline entry", { showToast: false });
+    }
+  };
+
+  return (
+    <div className={cn("flex min-h-0 flex-1 flex-col", className)}>
+      <h3 className="px-4 pt-4 pb-2 text-sm font-semibold">{t("catalogs:pdfViewer.contents")}</h3>
+
+      {outline === null ? (
+        <div className="flex justify-center p-4" role="status" aria-label={t("catalogs:pdfViewer.loading")}>
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" aria-hidden="true" />
+        </div>
+      ) : outline.length > 0 ? (
+        <nav aria-label={t("catalogs:pdfViewer.contents")} className="min-h-0 flex-1 overflow-y-auto px-2 pb-4">
+          <PdfOutlineList items={outline} depth={0} onSelect={handleSelect} />
+        </nav>
+      ) : (
+        <>
+          <p className="px-4 pb-2 text-xs text-muted-foreground">{t("catalogs:pdfViewer.noOutline")}</p>
+          <PdfThumbnailStrip
+            pdf={pdf}
+            currentPage={currentPage}
+            onPageSelect={onPageSelect}
+            orientation="vertical"
+            className="flex-1"
+          />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PdfOutlinePanel;
@@ -0,0 +1,140 @@
+import { useEffect, useMemo, useRef, useState, type CSSProperties } from "react";
+import type { PDFPageProxy } from "pdfjs-dist";
+import { pdfjsLib } from "@/lib/pdfjs";
+import type { PdfTextHighlight } from "@/lib/pdf-search";
+import { handleError } from "@/lib/error-handling";
+import { cn } from "@/lib/utils";
+
+interface PdfPageProps {
+  page: PDFPageProxy;
+  scale: number; // 1 = the page's size in CSS pixels at 96 dpi
+  highlights?: PdfTextHighlight[]; // Search matches to mark on this page
+  className?: string;
+}
+
+/**
+ * PdfPage Component
+ * Renders one PDF page to a canvas at the given scale (sharp on high-density
+ * screens), with a transparent text layer on top so text can be selected,
+ * copied and found by the browser. Search matches are marked in the text layer,
+ * and the selected one is scrolled into view.
+ */
+const PdfPage = ({ page, scale, highlights, className }: PdfPageProps) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const textLayerRef = useRef<HTMLDivElement>(null);
+  const [textLayer, setTextLayer] = useState<InstanceType<typeof pdfjsLib.TextLayer> | null>(null);
+  const highlightedItemsRef = useRef<number[]>([]);
+  const viewport = useMemo(() => page.getViewport({ scale }), [page, scale]);
+
+  // Draw the page
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext("2d");
+    if (!canvas || !context) return;
+
+    const outputScale = window.devicePixelRatio || 1;
+    canvas.width = Math.floor(viewport.width * outputScale);
+    canvas.height = Math.floor(viewport.height * outputScale);
+
+    const renderTask = page.render({
+      canvasContext: context,
+      viewport,
+      transform: outputScale !== 1 ? [outputScale, 0, 0, outputScale, 0, 0] : undefined,
+    });
+
+    renderTask.promise.catch((error) => {
+      if (!(error instanceof pdfjsLib.RenderingCancelledException)) {
+        handleError(error, "render PDF page", { showToast: false });
+      }
+    });
+
+    return () => renderTask.cancel();
+  }, [page, viewport]);
+
+  // Lay out the selectable text over the drawing
+  useEffect(() => {
+    const container = textLayerRef.current;
+    if (!container) return;
+
+    container.replaceChildren();
+    setTextLayer(null);
+    const layer = new pdfjsLib.TextLayer({
+      textContentSource: page.streamTextContent(),
+      container,
+      viewport,
+    });
+
+    layer.render().then(
+      () => setTextLayer(layer),
+      (error) => {
+        if (!(error instanceof pdfjsLib.AbortException)) {
+          handleError(error, "render PDF text layer", { showToast: false });
+        }
+      }
+    );
+
+    return () => layer.cancel();
+  }, [page, viewport]);
+
+  // Mark search matches in the rendered text
+  useEffect(() => {
+    if (!textLayer) return;
+
+    const { textDivs, textContentItemsStr } = textLayer;
+
+    // Put back the plain text of the items marked last time
+    for (const itemIndex of highlightedItemsRef.current) {
+      if (textDivs[itemIndex]) textDivs[itemIndex].textContent = textContentItemsStr[itemIndex];
+    }
+    highlightedItemsRef.current = [];
+
+    // Group the ranges by text item
+    const rangesByItem = new Map<number, PdfTextHighlight[]>();
+    for (const highlight of highlights ?? []) {
+      if (!textDivs[highlight.itemIndex] || highlight.end <= highlight.start) continue;
+      const ranges = rangesByItem.get(highlight.itemIndex) ?? [];
+      ranges.push(highlight);
+      rangesByItem.set(highlight.itemIndex, ranges);
+    }
+
+    const selectedMarks: HTMLElement[] = [];
+
+    rangesByItem.forEach((ranges, itemIndex) => {
+      const div = textDivs[itemIndex];
+      const text = textContentItemsStr[itemIndex];
+      let position = 0;
+
+      div.textContent = "";
+      for (const range of ranges.sort((a, b) => a.start - b.start)) {
+        const start = Math.max(range.start, position);
+        const end = Math.min(range.end, text.length);
+        if (start >= end) continue;
+
+        div.append(text.slice(position, start));
+        const mark = document.createElement("span");
+        mark.className = range.selected ? "highlight appended selected" : "highlight appended";
+        mark.textContent = text.slice(start, end);
+        div.append(mark);
+        position = end;
+
+        if (range.selected) selectedMarks.push(mark);
+      }
+      div.append(text.slice(position));
+      highlightedItemsRef.current.push(itemIndex);
+    });
+
+    selectedMarks[0]?.scrollIntoView({ block: "nearest", inline: "nearest" });
+  }, [textLayer, highlights]);
+
+  return (
+    <div
+      className={cn("relative flex-shrink-0 bg-white shadow-lg", className)}
+      style={{ width: viewport.width, height: viewport.height, "--scale-factor": scale } as CSSProperties}
+    >
+      <canvas ref={canvasRef} className="block h-full w-full" aria-hidden="true" />
+      <div ref={textLayerRef} className="textLayer" />
+    </div>
+  );
+};
+
+export default PdfPage;
@@ -0,0 +1,203 @@
+import { useEffect, useRef, useState, type FormEvent } from "react";
+import type { PDFDocumentProxy } from "pdfjs-dist";
+import { useTranslation } from "react-i18next";
+import { Loader2, Printer } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { handleError } from "@/lib/error-handling";
+import { parsePageRanges, printPdfPages } from "@/lib/pdf-print";
+
+type PrintRange = "all" | "current" | "custom";
+
+interface PdfPrintDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  pdf: PDFDocumentProxy;
+  currentPage: number;
+  onPrinted?: () => void; // Called once the browser's print dialog has opened
+}
+
+/**
+ * PdfPrintDialog Component
+ * Lets the customer print all pages, the current page or page ranges such as
+ * "1-3, 10". Only the chosen pages are prepared, with progress and a way to
+ * cancel, before the browser's print dialog opens.
+ */
+const PdfPrintDialog = ({ open, onOpenChange, pdf, currentPage, onPrinted }: PdfPrintDialogProps) => {
+  const { t } = useTranslation();
+  const [range, setRange] = useState<PrintRange>("all");
+  const [customRange, setCustomRange] = useState("");
+  const [showRangeError, setShowRangeError] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const isPreparing = progress !== null;
+
+  // Start from the defaults each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setRange("all");
+      setCustomRange("");
+      setShowRangeError(false);
+    }
+  }, [open]);
+
+  // Stop preparing pages when the dialog goes away
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  /**
+   * Pages to print for the chosen option; null when the ranges aren't valid
+   */
+  const getPageNumbers = (): number[] | null => {
+    if (range === "all") return Array.from({ length: pdf.numPages }, (_, index) => index + 1);
+    if (range === "current") return [currentPage];
+    return parsePageRanges(customRange, pdf.numPages);
+  };
+
+  /**
+   * Prepare the chosen pages and open the browser's print dialog
+   */
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+
+    const pageNumbers = getPageNumbers();
+    if (!pageNumbers) {
+      setShowRangeError(true);
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress({ done: 0, total: pageNumbers.length });
+
+    try {
+      await printPdfPages(pdf, pageNumbers, {
+        signal: controller.signal,
+        onProgress: (done) => setProgress({ done, total: pageNumbers.length }),
+      });
+      onPrinted?.();
+      onOpenChange(false);
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        handleError(error, "print PDF pages", { customMessage: t("catalogs:pdfViewer.printError") });
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  /**
+   * Close the dialog, cancelling any pages still being prepared
+   */
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) abortRef.current?.abort();
+    onOpenChange(nextOpen);
+  };
+
+  const isRangeInvalid = range === "custom" && showRangeError && !parsePageRanges(customRange, pdf.numPages);
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-[420px]">
+        <DialogHeader>
+          <DialogTitle className="text-left rtl:text-right">{t("catalogs:pdfViewer.printTitle")}</DialogTitle>
+          <DialogDescription className="text-left rtl:text-right">
+            {t("catalogs:pdfViewer.printDescription", {
+              count: pdf.numPages,
+              defaultValue: "This catalog has {{count}} pages. Choose which ones to print.",
+            })}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <RadioGroup
+            value={range}
+            onValueChange={(value) => setRange(value as PrintRange)}
+            disabled={isPreparing}
+            aria-label={t("catalogs:pdfViewer.printPages")}
+          >
+            <div className="flex items-center gap-3">
+              <RadioGroupItem value="all" id="print-range-all" />
+              <Label htmlFor="print-range-all">{t("catalogs:pdfViewer.printAll")}</Label>
+            </div>
+            <div className="flex items-center gap-3">
+              <RadioGroupItem value="current" id="print-range-current" />
+              <Label htmlFor="print-range-current">
+                {t("catalogs:pdfViewer.printCurrent", { page: currentPage, defaultValue: "Current page ({{page}})" })}
+              </Label>
+            </div>
+            <div className="flex items-center gap-3">
+              <RadioGroupItem value="custom" id="print-range-custom" />
+              <Label htmlFor="print-range-custom">{t("catalogs:pdfViewer.printCustom")}</Label>
+            </div>
+          </RadioGroup>
+
+          <div className="space-y-1 ps-7">
+            <Input
+              value={customRange}
+              onChange={(event) => {
+                setCustomRange(event.target.value);
+                setRange("custom");
+              }}
+              onFocus={() => setRange("custom")}
+              placeholder={t("catalogs:pdfViewer.printRangePlaceholder")}
+              aria-label={t("catalogs:pdfViewer.printCustom")}
+              aria-invalid={isRangeInvalid}
+              aria-describedby="print-range-hint"
+              disabled={isPreparing}
+              inputMode="text"
+              dir="ltr"
+            />
+            <p
+              id="print-range-hint"
+              className={isRangeInvalid ? "text-xs text-destructive" : "text-xs text-muted-foreground"}
+            >
+              {isRangeInvalid
+                ? t("catalogs:pdfViewer.printRangeError", {
+                    count: pdf.numPages,
+                    defaultValue: "Enter pages between 1 and {{count}}, e.g. 1-3, 10",
+                  })
+                : t("catalogs:pdfViewer.printRangeHint")}
+            </p>
+          </div>
+
+          {isPreparing && (
+            <div className="space-y-1" aria-live="polite">
+              <Progress
+                value={(progress.done / progress.total) * 100}
+                aria-label={t("catalogs:pdfViewer.printPreparingLabel")}
+              />
+              <p className="text-xs text-muted-foreground">
+                {t("catalogs:pdfViewer.printPreparing", {
+                  done: progress.done,
+                  total: progress.total,
+                  defaultValue: "Preparing pages... {{done}} of {{total}}",
+                })}
+              </p>
+            </div>
+          )}
+
+          <div className="flex items-center justify-end gap-3 pt-2">
+            <Button type="button" variant="outline" onClick={() => handleOpenChange(false)}>
+              {t("catalogs:pdfViewer.printCancel")}
+            </Button>
+            <Button type="submit" disabled={isPreparing} className="gap-1">
+              {isPreparing ? (
+                <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />
+              ) : (
+                <Printer className="h-4 w-4" aria-hidden="true" />
+              )}
+              {t("catalogs:pdfViewer.print")}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PdfPrintDialog;
@@ -0,0 +1,166 @@
+import { useEffect, useRef, useState } from "react";
+import type { PDFDocumentProxy, RenderTask } from "pdfjs-dist";
+import { useTranslation } from "react-i18next";
+import { pdfjsLib } from "@/lib/pdfjs";
+import { handleError } from "@/lib/error-handling";
+import { cn } from "@/lib/utils";
+
+const THUMBNAIL_WIDTH = 72; // CSS pixels
+
+interface PdfThumbnailStripProps {
+  pdf: PDFDocumentProxy;
+  currentPage: number;
+  onPageSelect: (pageNumber: number) => void;
+  orientation?: "horizontal" | "vertical"; // A row under the page, or a column in a side panel
+  className?: string;
+}
+
+interface PdfThumbnailProps {
+  pdf: PDFDocumentProxy;
+  pageNumber: number;
+  isCurrent: boolean;
+  onSelect: () => void;
+}
+
+/**
+ * One page thumbnail, drawn once it scrolls into view
+ * (which may download the page's data); a placeholder shows until then
+ */
+const PdfThumbnail = ({ pdf, pageNumber, isCurrent, onSelect }: PdfThumbnailProps) => {
+  const { t } = useTranslation();
+  const buttonRef = useRef<HTMLButtonElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [isVisible, setIsVisible] = useState(false);
+  const [isRendered, setIsRendered] = useState(false);
+
+  // Wait until the thumbnail is near the visible part of the strip
+  useEffect(() => {
+    const button = buttonRef.current;
+    if (!button || isVisible) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting) setIsVisible(true);
+      },
+      { rootMargin: "200px" }
+    );
+    observer.observe(button);
+    return () => observer.disconnect();
+  }, [isVisible]);
+
+  useEffect(() => {
+    if (!isVisible) return;
+
+    let cancelled = false;
+    let renderTask: RenderTask | null = null;
+
+    pdf.getPage(pageNumber).then((page) => {
+      const canvas = canvasRef.current;
+      const context = canvas?.getContext("2d");
+      if (cancelled || !canvas || !context) return;
+
+      const outputScale = window.devicePixelRatio || 1;
+      const viewport = page.getViewport({ scale: (THUMBNAIL_WIDTH / page.getViewport({ scale: 1 }).width) * outputScale });
+      canvas.width = Math.floor(viewport.width);
+      canvas.height = Math.floor(viewport.height);
+
+      renderTask = page.render({ canvasContext: context, viewport });
+      return renderTask.promise.then(() => setIsRendered(true));
+    }).catch((error) => {
+      if (!(error instanceof pdfjsLib.RenderingCancelledException)) {
+        handleError(error, "render PDF thumbnail", { showToast: false });
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+    };
+  }, [pdf, pageNumber, isVisible]);
+
+  return (
+    <li className="flex-shrink-0">
+      <button
+        ref={buttonRef}
+        type="button"
+        onClick={onSelect}
+        aria-current={isCurrent ? "page" : undefined}
+        aria-label={t("catalogs:pdfViewer.goToPage", { page: pageNumber, defaultValue: "Go to page {{page}}" })}
+        className={cn(
+          "flex flex-col items-center gap-1 rounded-md p-1 transition-fast hover:bg-muted",
+          isCurrent && "bg-muted ring-2 ring-primary"
+        )}
+      >
+        <canvas
+          ref={canvasRef}
+          width={THUMBNAIL_WIDTH}
+          height={Math.round(THUMBNAIL_WIDTH * Math.SQRT2)}
+          className={cn("block shadow-sm", isRendered ? "bg-white" : "animate-pulse bg-muted")}
+          style={{ width: THUMBNAIL_WIDTH }}
+          aria-hidden="true"
+        />
+        <span className="text-xs text-muted-foreground" aria-hidden="true">{pageNumber}</span>
+      </button>
+    </li>
+  );
+};
+
+/**
+ * PdfThumbnailStrip Component
+ * Scrollable row (or column) of page thumbnails; selecting one jumps to that page.
+ * Thumbnails are only drawn as they come into view.
+ */
+const PdfThumbnailStrip = ({
+  pdf,
+  currentPage,
+  onPageSelect,
+  orientation = "horizontal",
+  className,
+}: PdfThumbnailStripProps) => {
+  const isVertical = orientation === "vertical";
+  const { t } = useTranslation();
+  const listRef = useRef<HTMLOListElement>(null);
+  const pageNumbers = Array.from({ length: pdf.numPages }, (_, index) => index + 1);
+
+  // Keep the current page's thumbnail centred (scrolls the strip only, not the page)
+  useEffect(() => {
+    const list = listRef.current;
+    const current = list?.querySelector<HTMLElement>('[aria-current="page"]');
+    if (!list || !current) return;
+
+    const listRect = list.getBoundingClientRect();
+    const currentRect = current.getBoundingClientRect();
+    list.scrollBy({
+      left: isVertical ? 0 : currentRect.left + currentRect.width / 2 - (listRect.left + listRect.width / 2),
+      top: isVertical ? currentRect.top + currentRect.height / 2 - (listRect.top + listRect.height / 2) : 0,
+      behavior: "smooth",
+    });
+  }, [currentPage, isVertical]);
+
+  return (
+    <nav
+      aria-label={t("catalogs:pdfViewer.thumbnails")}
+      className={cn("bg-background", isVertical ? "min-h-0" : "border-t", className)}
+    >
+      <ol
+        ref={listRef}
+        className={cn(
+          "flex gap-2",
+          isVertical ? "h-full flex-col items-center overflow-y-auto p-2" : "items-start overflow-x-auto px-4 py-2"
+        )}
+      >
+        {pageNumbers.map((pageNumber) => (
+          <PdfThumbnail
+            key={pageNumber}
+            pdf={pdf}
+            pageNumber={pageNumber}
+            isCurrent={pageNumber === currentPage}
+            onSelect={() => onPageSelect(pageNumber)}
+          />
+        ))}
+      </ol>
+    </nav>
+  );
+};
+
+export default PdfThumbnailStrip;
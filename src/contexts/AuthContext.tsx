@@ -1,8 +1,9 @@
-import React, { createContext, useContext, useEffect, useState } from 'react';
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
 import { User as SupabaseUser } from '@supabase/supabase-js';
 import { supabase } from '@/lib/supabase';
 import type { Profile, ProfileInsert } from '@/types/database';
 import { handleError, withErrorHandling } from '@/lib/error-handling';
+import { useLanguage, type Language } from '@/contexts/LanguageContext';
 
 /**
  * User type combining Supabase auth user with profile data
@@ -10,7 +11,8 @@ import { handleError, withErrorHandling } from '@/lib/error-handling';
 export interface User {
   id: string;
   email: string;
-  role: 'user' | 'admin';
+  role: 'user' | 'distributor' | 'admin';
+  preferredLanguage: Language | null;
 }
 
 /**
@@ -19,10 +21,11 @@ export interface User {
 interface AuthContextType {
   user: User | null;
   loading: boolean;
-  signIn: (email: string, password: string) => Promise<void>;
+  signIn: (email: string, password: string) => Promise<User | null>;
   signInWithGoogle: () => Promise<void>;
-  signUp: (email: string, password: string) => Promise<void>;
+  signUp: (email: string, password: string) => Promise<User | null>;
   signOut: () => Promise<void>;
+  updatePreferredLanguage: (language: Language) => Promise<void>;
 }
 
 /**
@@ -37,6 +40,8 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
+  const { language, setLanguage } = useLanguage();
+  const appliedPreferenceRef = useRef<string | null>(null);
 
   /**
    * Fetch user profile data including role from the profiles table
@@ -67,6 +72,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
             id: authUser.id,
             email: authUser.email || '',
             role: 'user',
+            preferredLanguage: null,
           };
         }
         
@@ -76,6 +82,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
           id: authUser.id,
           email: authUser.email || '',
           role: 'user',
+          preferredLanguage: null,
         };
       }
 
@@ -85,6 +92,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
           id: authUser.id,
           email: authUser.email || '',
           role: 'user',
+          preferredLanguage: null,
         };
       }
 
@@ -93,6 +101,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         id: profile.id,
         email: profile.email,
         role: profile.role,
+        preferredLanguage: profile.preferred_language ?? null,
       };
     } catch (error) {
       console.error('Exception in fetchUserProfile:', error);
@@ -101,6 +110,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         id: authUser.id,
         email: authUser.email || '',
         role: 'user',
+        preferredLanguage: null,
       };
     }
   };
@@ -109,7 +119,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
    * Sign in with email and password
    */
   const signIn = withErrorHandling(
-    async (email: string, password: string): Promise<void> => {
+    async (email: string, password: string): Promise<User | null> => {
       const { data, error } = await supabase.auth.signInWithPassword({
         email,
         password,
@@ -129,7 +139,10 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
       if (data.user) {
         const userProfile = await fetchUserProfile(data.user);
         setUser(userProfile);
+        return userProfile;
       }
+
+      return null;
     },
     'sign in',
     { showToast: false } // Let the UI component handle the toast
@@ -139,7 +152,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
    * Sign up with email and password
    */
   const signUp = withErrorHandling(
-    async (email: string, password: string): Promise<void> => {
+    async (email: string, password: string): Promise<User | null> => {
       const { data, error } = await supabase.auth.signUp({
         email,
         password,
@@ -182,7 +195,10 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
         const userProfile = await fetchUserProfile(data.user);
         setUser(userProfile);
+        return userProfile;
       }
+
+      return null;
     },
     'sign up',
     { showToast: false } // Let the UI component handle the toast
@@ -243,6 +259,46 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     { showToast: false } // Let the UI component handle the toast
   );
 
+  /**
+   * Save the signed-in user's preferred language and switch to it
+   */
+  const updatePreferredLanguage = withErrorHandling(
+    async (preferredLanguage: Language): Promise<void> => {
+      if (!user) {
+        throw new Error('You must be signed in to save your preferred language.');
+      }
+
+      const { error } = await supabase
+        .from('profiles')
+        // @ts-expect-error - Supabase type inference issue with Database generic
+        .update({ preferred_language: preferredLanguage })
+        .eq('id', user.id);
+
+      if (error) {
+        throw new Error(error.message || 'Failed to save your preferred language. Please try again.');
+      }
+
+      setUser({ ...user, preferredLanguage });
+    },
+    'update preferred language',
+    { showToast: false } // Let the UI component handle the toast
+  );
+
+  /**
+   * Switch to the user's preferred language when they sign in
+   * Applied once per user and preference, so the language switcher still
+   * works for the rest of the visit
+   */
+  useEffect(() => {
+    const preference = user ? `${user.id}:${user.preferredLanguage}` : null;
+    if (preference === appliedPreferenceRef.current) return;
+    appliedPreferenceRef.current = preference;
+
+    if (user?.preferredLanguage && user.preferredLanguage !== language) {
+      setLanguage(user.preferredLanguage);
+    }
+  }, [user, language, setLanguage]);
+
   /**
    * Create profile for OAuth users if it doesn't exist
    */
@@ -374,6 +430,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     signInWithGoogle,
     signUp,
     signOut,
+    updatePreferredLanguage,
   };
 
   return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
@@ -1,5 +1,6 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { useTranslation } from 'react-i18next';
+import type { TFunction } from 'i18next';
 
 /**
  * Supported languages
@@ -18,7 +19,7 @@ interface LanguageContextType {
   language: Language;
   setLanguage: (lang: Language) => void;
   dir: TextDirection;
-  t: ReturnType<typeof useTranslation>['t'];
+  t: TFunction;
 }
 
 /**
@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from 'react';
+import { RfqCartContext, type RfqCartCatalog, type RfqCartContextType, type RfqCartItem } from '@/contexts/rfq-cart';
+
+export type { RfqCartCatalog, RfqCartItem } from '@/contexts/rfq-cart';
+
+const RFQ_CART_STORAGE_KEY = 'rfq-cart';
+
+/**
+ * Read the saved cart, ignoring anything unreadable
+ */
+const loadCart = (): RfqCartItem[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(RFQ_CART_STORAGE_KEY) ?? '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * RFQ Cart Provider Component
+ * Keeps the customer's request-for-quotation cart, persisted in localStorage
+ * so it survives page reloads and later visits
+ */
+export const RfqCartProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [items, setItems] = useState<RfqCartItem[]>(loadCart);
+  const [isCartOpen, setCartOpen] = useState(false);
+
+  /**
+   * Save the cart whenever it changes
+   */
+  useEffect(() => {
+    try {
+      localStorage.setItem(RFQ_CART_STORAGE_KEY, JSON.stringify(items));
+    } catch (error) {
+      console.error('Failed to save quote cart:', error);
+    }
+  }, [items]);
+
+  /**
+   * Keep carts in other tabs in sync
+   */
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === RFQ_CART_STORAGE_KEY) {
+        setItems(loadCart());
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  const addCatalog = (catalog: RfqCartCatalog) => {
+    setItems((prev) =>
+      prev.some((item) => item.catalog?.id === catalog.id)
+        ? prev
+        : [...prev, { id: crypto.randomUUID(), catalog, description: '', quantity: 1 }]
+    );
+  };
+
+  const addLineItem = (description: string, quantity: number) => {
+    setItems((prev) => [...prev, { id: crypto.randomUUID(), catalog: null, description, quantity }]);
+  };
+
+  const updateQuantity = (id: string, quantity: number) => {
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, quantity } : item)));
+  };
+
+  const removeItem = (id: string) => {
+    setItems((prev) => prev.filter((item) => item.id !== id));
+  };
+
+  const hasCatalog = (catalogId: string) => items.some((item) => item.catalog?.id === catalogId);
+
+  const clearCart = () => setItems([]);
+
+  const value: RfqCartContextType = {
+    items,
+    itemCount: items.length,
+    isCartOpen,
+    setCartOpen,
+    addCatalog,
+    addLineItem,
+    updateQuantity,
+    removeItem,
+    hasCatalog,
+    clearCart,
+  };
+
+  return <RfqCartContext.Provider value={value}>{children}</RfqCartContext.Provider>;
+};
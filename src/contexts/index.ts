@@ -8,3 +8,6 @@ export type { User } from './AuthContext';
 
 export { LanguageProvider, useLanguage } from './LanguageContext';
 export type { Language, TextDirection } from './LanguageContext';
+
+export { RfqCartProvider } from './RfqCartContext';
+export type { RfqCartCatalog, RfqCartItem } from './RfqCartContext';
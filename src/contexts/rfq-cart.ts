@@ -0,0 +1,39 @@
+import { createContext } from 'react';
+import type { Catalog } from '@/types/database';
+
+/**
+ * Catalog reference kept with a cart line (titles in both languages)
+ */
+export type RfqCartCatalog = Pick<Catalog, 'id' | 'slug' | 'title_en' | 'title_ar'>;
+
+/**
+ * A line in the request-for-quotation cart: a catalog or free text
+ */
+export interface RfqCartItem {
+  id: string;
+  catalog: RfqCartCatalog | null;
+  description: string; // Free-text lines only; catalog lines use the catalog title
+  quantity: number;
+}
+
+/**
+ * RFQ cart context type definition
+ */
+export interface RfqCartContextType {
+  items: RfqCartItem[];
+  itemCount: number;
+  isCartOpen: boolean;
+  setCartOpen: (open: boolean) => void;
+  addCatalog: (catalog: RfqCartCatalog) => void;
+  addLineItem: (description: string, quantity: number) => void;
+  updateQuantity: (id: string, quantity: number) => void;
+  removeItem: (id: string) => void;
+  hasCatalog: (catalogId: string) => boolean;
+  clearCart: () => void;
+}
+
+/**
+ * Create the RFQ cart context; provided by RfqCartProvider and read with the
+ * useRfqCart hook
+ */
+export const RfqCartContext = createContext<RfqCartContextType | undefined>(undefined);
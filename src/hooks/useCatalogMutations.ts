@@ -1,10 +1,20 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { useTranslation } from 'react-i18next';
 import { toast } from 'sonner';
-import { supabase, STORAGE_BUCKETS } from '@/lib/supabase';
+import { supabase, STORAGE_BUCKETS, getPublicUrl, getStorageLocation } from '@/lib/supabase';
 import { useFileUpload } from './useFileUpload';
-import type { CatalogInsert, CatalogUpdate } from '@/types/database';
+import type {
+  CatalogInsert,
+  CatalogPageInsert,
+  CatalogTagInsert,
+  CatalogUpdate,
+  CatalogVersion,
+  CatalogVersionInsert,
+} from '@/types/database';
 import { handleError } from '@/lib/error-handling';
+import { CATALOG_STATUS_ACTIONS, type CatalogStatusAction } from '@/lib/catalog-workflow';
+import { extractPdfText } from '@/lib/pdf-text';
+import { isPrivatePdfUrl, resolveCatalogPdfUrl } from '@/lib/private-catalogs';
 
 /**
  * Interface for creating a new catalog
@@ -13,8 +23,14 @@ interface CreateCatalogData {
   title_en: string;
   title_ar: string;
   category_id: string;
+  tag_ids: string[];
+  publish_at: string | null;
+  unpublish_at: string | null;
+  gated: boolean;
+  private: boolean;
+  watermark_downloads: boolean;
   pdf_file: File;
-  thumbnail_file: File;
+  thumbnail_file: File; // Uploaded by the admin or generated from a page of the PDF
 }
 
 /**
@@ -25,10 +41,42 @@ interface UpdateCatalogData {
   title_en: string;
   title_ar: string;
   category_id: string;
+  tag_ids: string[];
+  publish_at: string | null; // Empty means visible as soon as published
+  unpublish_at: string | null; // Empty means visible indefinitely
+  gated: boolean; // Ask for lead details before downloads
+  private: boolean; // Serve the PDF only through share links
+  watermark_downloads: boolean; // Stamp downloads with the downloader's email and the date
   pdf_file?: File; // Optional - only if replacing PDF
   thumbnail_file?: File; // Optional - only if replacing thumbnail
   existing_pdf_url?: string; // Keep existing if no new file
   existing_thumbnail_url?: string; // Keep existing if no new file
+  existing_file_size?: number; // Archived with the existing files when replaced
+  change_note?: string; // Why the files were replaced, stored with the archived version
+}
+
+/**
+ * Interface for moving a catalog through the editorial workflow
+ */
+interface ChangeCatalogStatusData {
+  id: string;
+  action: CatalogStatusAction;
+  comment?: string; // Review comment for approve/reject
+}
+
+/**
+ * Interface for restoring an archived catalog version
+ */
+interface RestoreCatalogVersionData {
+  catalog: {
+    id: string;
+    pdf_url: string;
+    thumbnail_url: string;
+    file_size: number;
+    private: boolean;
+    watermark_downloads: boolean;
+  };
+  version: CatalogVersion;
 }
 
 /**
@@ -45,14 +93,160 @@ const extractPathFromUrl = (url: string, bucket: string): string => {
   }
 };
 
+/**
+ * Whether a catalog's PDF belongs in the private bucket: private catalogs are
+ * served through share links, watermarked ones only as stamped copies
+ */
+const hasPrivatePdf = (catalog: { private: boolean; watermark_downloads: boolean }): boolean => {
+  return catalog.private || catalog.watermark_downloads;
+};
+
+/**
+ * Storage bucket for a public or private catalog PDF
+ */
+const getPdfBucket = (isPrivate: boolean): string => {
+  return isPrivate ? STORAGE_BUCKETS.PRIVATE_CATALOGS : STORAGE_BUCKETS.CATALOGS;
+};
+
+/**
+ * Move a PDF into the public or private bucket and resolve with its new URL
+ */
+const movePdfFile = async (pdfUrl: string, isPrivate: boolean): Promise<string> => {
+  const location = getStorageLocation(pdfUrl);
+  const bucket = getPdfBucket(isPrivate);
+  if (!location || location.bucket === bucket) return pdfUrl;
+
+  const { error } = await supabase.storage
+    .from(location.bucket)
+    .move(location.path, location.path, { destinationBucket: bucket });
+
+  if (error) throw error;
+  return getPublicUrl(bucket, location.path);
+};
+
+/**
+ * Move a catalog PDF into the public or private bucket and resolve with its new URL
+ * Archived versions that share the file are pointed at the new URL as well
+ */
+const moveCatalogPdf = async (catalogId: string, pdfUrl: string, isPrivate: boolean): Promise<string> => {
+  const movedUrl = await movePdfFile(pdfUrl, isPrivate);
+  if (movedUrl === pdfUrl) return pdfUrl;
+
+  const { error: versionsError } = await supabase
+    .from('catalog_versions')
+    // @ts-expect-error - Supabase type inference issue with Database generic
+    .update({ pdf_url: movedUrl })
+    .eq('catalog_id', catalogId)
+    .eq('pdf_url', pdfUrl);
+
+  if (versionsError) {
+    handleError(versionsError, 'point archived versions at moved PDF', { showToast: false });
+  }
+
+  return movedUrl;
+};
+
+/**
+ * Move the PDFs of all archived versions of a catalog into the public or
+ * private bucket, so older editions are exactly as reachable as the current one
+ */
+const moveCatalogVersionPdfs = async (catalogId: string, isPrivate: boolean): Promise<void> => {
+  const { data: versions, error } = await supabase
+    .from('catalog_versions')
+    .select('pdf_url')
+    .eq('catalog_id', catalogId);
+
+  if (error) throw error;
+
+  // Versions may share a file, so move each one once
+  const pdfUrls = new Set(((versions ?? []) as { pdf_url: string }[]).map((version) => version.pdf_url));
+  for (const pdfUrl of pdfUrls) {
+    const movedUrl = await movePdfFile(pdfUrl, isPrivate);
+    if (movedUrl === pdfUrl) continue;
+
+    const { error: updateError } = await supabase
+      .from('catalog_versions')
+      // @ts-expect-error - Supabase type inference issue with Database generic
+      .update({ pdf_url: movedUrl })
+      .eq('catalog_id', catalogId)
+      .eq('pdf_url', pdfUrl);
+
+    if (updateError) throw updateError;
+  }
+};
+
+/**
+ * Replace the tags attached to a catalog with the given selection
+ * Removes deselected tags and adds new ones, leaving unchanged links in place
+ */
+const saveCatalogTags = async (catalogId: string, tagIds: string[]): Promise<void> => {
+  let deleteQuery = supabase
+    .from('catalog_tags')
+    .delete()
+    .eq('catalog_id', catalogId);
+
+  if (tagIds.length > 0) {
+    deleteQuery = deleteQuery.not('tag_id', 'in', `(${tagIds.join(',')})`);
+  }
+
+  const { error: deleteError } = await deleteQuery;
+  if (deleteError) throw deleteError;
+
+  if (tagIds.length === 0) return;
+
+  const rows: CatalogTagInsert[] = tagIds.map((tagId) => ({
+    catalog_id: catalogId,
+    tag_id: tagId,
+  }));
+
+  const { error: insertError } = await supabase
+    .from('catalog_tags')
+    // @ts-expect-error - Supabase type inference issue with Database generic
+    .upsert(rows, { onConflict: 'catalog_id,tag_id', ignoreDuplicates: true });
+
+  if (insertError) throw insertError;
+};
+
+/**
+ * Number of page rows inserted per request when indexing PDF text
+ */
+const PAGE_INDEX_BATCH_SIZE = 50;
+
+/**
+ * Extract the text of each PDF page and store it for content search
+ * Replaces any previously indexed pages of the catalog
+ */
+const indexCatalogPages = async (catalogId: string, pdfFile: Blob): Promise<void> => {
+  const pages = await extractPdfText(pdfFile);
+
+  const { error: deleteError } = await supabase
+    .from('catalog_pages')
+    .delete()
+    .eq('catalog_id', catalogId);
+
+  if (deleteError) throw deleteError;
+
+  for (let start = 0; start < pages.length; start += PAGE_INDEX_BATCH_SIZE) {
+    const rows: CatalogPageInsert[] = pages
+      .slice(start, start + PAGE_INDEX_BATCH_SIZE)
+      .map((page) => ({ catalog_id: catalogId, ...page }));
+
+    const { error } = await supabase
+      .from('catalog_pages')
+      // @ts-expect-error - Supabase type inference issue with Database generic
+      .insert(rows);
+
+    if (error) throw error;
+  }
+};
+
 /**
  * Custom hook for catalog CRUD operations
  * Provides mutations for creating, updating, and deleting catalogs
  * with file upload handling, automatic cache invalidation, and toast notifications
  */
 export const useCatalogMutations = () => {
-  const { t: translate } = useTranslation();
-  const t = translate as any;
+  const { t } = useTranslation();
   const queryClient = useQueryClient();
   const { uploadPDF, uploadThumbnail, deleteFile } = useFileUpload();
 
@@ -64,10 +258,11 @@ export const useCatalogMutations = () => {
     mutationFn: async (data: CreateCatalogData) => {
       let pdfResult;
       let thumbnailResult;
+      let catalogId: string;
 
       try {
         // Step 1: Upload PDF file
-        pdfResult = await uploadPDF(data.pdf_file);
+        pdfResult = await uploadPDF(data.pdf_file, { isPrivate: hasPrivatePdf(data) });
       } catch (error) {
         handleError(error, 'upload PDF file');
         throw error;
@@ -79,7 +274,7 @@ export const useCatalogMutations = () => {
       } catch (error) {
         // If thumbnail upload fails, clean up the PDF
         try {
-          await deleteFile(STORAGE_BUCKETS.CATALOGS, pdfResult.path);
+          await deleteFile(getPdfBucket(hasPrivatePdf(data)), pdfResult.path);
         } catch (cleanupError) {
           handleError(cleanupError, 'clean up PDF after thumbnail upload failure', { showToast: false });
         }
@@ -96,28 +291,40 @@ export const useCatalogMutations = () => {
           pdf_url: pdfResult.publicUrl,
           thumbnail_url: thumbnailResult.publicUrl,
           file_size: pdfResult.size,
-          published: true,
+          publish_at: data.publish_at,
+          unpublish_at: data.unpublish_at,
+          gated: data.gated,
+          private: data.private,
+          watermark_downloads: data.watermark_downloads,
         };
 
-        const { error } = await supabase
+        const { data: created, error } = await supabase
           .from('catalogs')
-          // @ts-ignore - Supabase type inference issue with Database generic
-          .insert(insertData);
+          // @ts-expect-error - Supabase type inference issue with Database generic
+          .insert(insertData)
+          .select('id')
+          .single();
 
         if (error) {
           // Provide specific error messages for common database errors
+          // Only the slug is unique; the slug trigger numbers duplicates, so this is a concurrent save
           if (error.code === '23505') {
-            throw new Error('A catalog with this title already exists. Please use a different title.');
+            throw new Error('Another catalog was saved with the same link at the same time. Please try again.');
           }
           if (error.code === '23503') {
             throw new Error('The selected category does not exist. Please select a valid category.');
           }
+          if (error.code === '23514') {
+            throw new Error('The unpublish date must be after the publish date.');
+          }
           throw error;
         }
+
+        catalogId = (created as { id: string }).id;
       } catch (error) {
         // If database save fails, clean up both uploaded files
         try {
-          await deleteFile(STORAGE_BUCKETS.CATALOGS, pdfResult.path);
+          await deleteFile(getPdfBucket(hasPrivatePdf(data)), pdfResult.path);
           await deleteFile(STORAGE_BUCKETS.THUMBNAILS, thumbnailResult.path);
         } catch (cleanupError) {
           handleError(cleanupError, 'clean up files after database save failure', { showToast: false });
@@ -125,12 +332,29 @@ export const useCatalogMutations = () => {
         handleError(error, 'save catalog to database');
         throw error;
       }
+
+      try {
+        // Step 4: Attach selected tags
+        await saveCatalogTags(catalogId, data.tag_ids);
+      } catch (error) {
+        handleError(error, 'save catalog tags');
+        throw error;
+      }
+
+      try {
+        // Step 5: Index PDF text for content search
+        await indexCatalogPages(catalogId, data.pdf_file);
+      } catch (error) {
+        // The catalog is saved; it just won't be found by its content yet
+        handleError(error, 'index catalog PDF text', { showToast: false });
+        toast.warning(t('admin:catalogs.indexWarning'));
+      }
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['catalogs'] });
       toast.success(t('admin:catalogs.createSuccess'));
     },
-    onError: (error: any) => {
+    onError: (error: Error & { userMessage?: string }) => {
       // Error already handled in mutationFn, just show generic message
       if (!error.userMessage) {
         toast.error(t('admin:catalogs.createError'));
@@ -140,26 +364,22 @@ export const useCatalogMutations = () => {
 
   /**
    * Update catalog mutation
-   * Updates metadata and optionally replaces PDF and/or thumbnail files
+   * Updates metadata and optionally replaces PDF and/or thumbnail files;
+   * replaced files are archived in catalog_versions rather than deleted, and
+   * all PDFs move to the private bucket and back as the catalog's visibility changes
    */
   const updateCatalog = useMutation({
     mutationFn: async (data: UpdateCatalogData) => {
       let pdfUrl = data.existing_pdf_url;
       let thumbnailUrl = data.existing_thumbnail_url;
       let fileSize = 0;
-
-      // Track old file paths for cleanup
-      const oldPdfPath = data.existing_pdf_url
-        ? extractPathFromUrl(data.existing_pdf_url, STORAGE_BUCKETS.CATALOGS)
-        : '';
-      const oldThumbnailPath = data.existing_thumbnail_url
-        ? extractPathFromUrl(data.existing_thumbnail_url, STORAGE_BUCKETS.THUMBNAILS)
-        : '';
+      let archivedVersionId: string | null = null;
+      let movedPdf = false;
 
       // Step 1: Upload new PDF if provided
       if (data.pdf_file) {
         try {
-          const pdfResult = await uploadPDF(data.pdf_file);
+          const pdfResult = await uploadPDF(data.pdf_file, { isPrivate: hasPrivatePdf(data) });
           pdfUrl = pdfResult.publicUrl;
           fileSize = pdfResult.size;
         } catch (error) {
@@ -176,9 +396,10 @@ export const useCatalogMutations = () => {
         } catch (error) {
           // If thumbnail upload fails and we uploaded a new PDF, clean it up
           if (data.pdf_file && pdfUrl) {
-            const newPdfPath = extractPathFromUrl(pdfUrl, STORAGE_BUCKETS.CATALOGS);
+            const pdfBucket = getPdfBucket(hasPrivatePdf(data));
+            const newPdfPath = extractPathFromUrl(pdfUrl, pdfBucket);
             try {
-              await deleteFile(STORAGE_BUCKETS.CATALOGS, newPdfPath);
+              await deleteFile(pdfBucket, newPdfPath);
             } catch (cleanupError) {
               handleError(cleanupError, 'clean up new PDF after thumbnail upload failure', { showToast: false });
             }
@@ -189,13 +410,45 @@ export const useCatalogMutations = () => {
       }
 
       try {
-        // Step 3: Update catalog metadata in database
+        // Step 3: Move the kept PDF when it belongs in the other bucket now
+        if (!data.pdf_file && pdfUrl && hasPrivatePdf(data) !== isPrivatePdfUrl(pdfUrl)) {
+          pdfUrl = await moveCatalogPdf(data.id, pdfUrl, hasPrivatePdf(data));
+          movedPdf = pdfUrl !== data.existing_pdf_url;
+        }
+
+        // Step 4: Archive the current files as a version instead of deleting them
+        if ((data.pdf_file || data.thumbnail_file) && data.existing_pdf_url && data.existing_thumbnail_url) {
+          const versionData: CatalogVersionInsert = {
+            catalog_id: data.id,
+            pdf_url: data.pdf_file ? data.existing_pdf_url : pdfUrl, // The kept PDF may have moved
+            thumbnail_url: data.existing_thumbnail_url,
+            file_size: data.existing_file_size ?? 0,
+            change_note: data.change_note?.trim() || null,
+          };
+
+          const { data: version, error: versionError } = await supabase
+            .from('catalog_versions')
+            // @ts-expect-error - Supabase type inference issue with Database generic
+            .insert(versionData)
+            .select('id')
+            .single();
+
+          if (versionError) throw versionError;
+          archivedVersionId = (version as { id: string }).id;
+        }
+
+        // Step 5: Update catalog metadata in database
         const updateData: CatalogUpdate = {
           title_en: data.title_en,
           title_ar: data.title_ar,
           category_id: data.category_id,
           pdf_url: pdfUrl,
           thumbnail_url: thumbnailUrl,
+          publish_at: data.publish_at,
+          unpublish_at: data.unpublish_at,
+          gated: data.gated,
+          private: data.private,
+          watermark_downloads: data.watermark_downloads,
         };
 
         // Only update file_size if a new PDF was uploaded
@@ -205,42 +458,49 @@ export const useCatalogMutations = () => {
 
         const { error } = await supabase
           .from('catalogs')
-          // @ts-ignore - Supabase type inference issue with Database generic
+          // @ts-expect-error - Supabase type inference issue with Database generic
           .update(updateData)
           .eq('id', data.id);
 
         if (error) {
           // Provide specific error messages for common database errors
+          // Only the slug is unique; the slug trigger numbers duplicates, so this is a concurrent save
           if (error.code === '23505') {
-            throw new Error('A catalog with this title already exists. Please use a different title.');
+            throw new Error('Another catalog was saved with the same link at the same time. Please try again.');
           }
           if (error.code === '23503') {
             throw new Error('The selected category does not exist. Please select a valid category.');
           }
+          if (error.code === '23514') {
+            throw new Error('The unpublish date must be after the publish date.');
+          }
           throw error;
         }
-
-        // Step 4: Clean up old files if new ones were uploaded
-        if (data.pdf_file && oldPdfPath) {
-          try {
-            await deleteFile(STORAGE_BUCKETS.CATALOGS, oldPdfPath);
-          } catch (cleanupError) {
-            handleError(cleanupError, 'clean up old PDF file', { showToast: false });
+      } catch (error) {
+        // If database update fails, drop the archived version (the files are still current)
+        if (archivedVersionId) {
+          const { error: cleanupError } = await supabase
+            .from('catalog_versions')
+            .delete()
+            .eq('id', archivedVersionId);
+          if (cleanupError) {
+            handleError(cleanupError, 'clean up archived version after database update failure', { showToast: false });
           }
         }
-        if (data.thumbnail_file && oldThumbnailPath) {
+        // Move the kept PDF back to where the catalog still expects it
+        if (movedPdf && pdfUrl) {
           try {
-            await deleteFile(STORAGE_BUCKETS.THUMBNAILS, oldThumbnailPath);
+            await moveCatalogPdf(data.id, pdfUrl, !hasPrivatePdf(data));
           } catch (cleanupError) {
-            handleError(cleanupError, 'clean up old thumbnail file', { showToast: false });
+            handleError(cleanupError, 'move PDF back after database update failure', { showToast: false });
           }
         }
-      } catch (error) {
-        // If database update fails, clean up newly uploaded files
+        // Clean up newly uploaded files
         if (data.pdf_file && pdfUrl) {
-          const newPdfPath = extractPathFromUrl(pdfUrl, STORAGE_BUCKETS.CATALOGS);
+          const pdfBucket = getPdfBucket(hasPrivatePdf(data));
+          const newPdfPath = extractPathFromUrl(pdfUrl, pdfBucket);
           try {
-            await deleteFile(STORAGE_BUCKETS.CATALOGS, newPdfPath);
+            await deleteFile(pdfBucket, newPdfPath);
           } catch (cleanupError) {
             handleError(cleanupError, 'clean up new PDF after database update failure', { showToast: false });
           }
@@ -256,12 +516,39 @@ export const useCatalogMutations = () => {
         handleError(error, 'update catalog in database');
         throw error;
       }
+
+      try {
+        // Step 6: Move the archived editions along with the current PDF
+        await moveCatalogVersionPdfs(data.id, hasPrivatePdf(data));
+      } catch (error) {
+        handleError(error, 'move archived catalog versions');
+        throw error;
+      }
+
+      try {
+        // Step 7: Replace attached tags
+        await saveCatalogTags(data.id, data.tag_ids);
+      } catch (error) {
+        handleError(error, 'save catalog tags');
+        throw error;
+      }
+
+      // Step 8: Re-index PDF text if the PDF was replaced
+      if (data.pdf_file) {
+        try {
+          await indexCatalogPages(data.id, data.pdf_file);
+        } catch (error) {
+          handleError(error, 'index catalog PDF text', { showToast: false });
+          toast.warning(t('admin:catalogs.indexWarning'));
+        }
+      }
     },
-    onSuccess: () => {
+    onSuccess: (_result, data) => {
       queryClient.invalidateQueries({ queryKey: ['catalogs'] });
+      queryClient.invalidateQueries({ queryKey: ['catalog-versions', data.id] });
       toast.success(t('admin:catalogs.updateSuccess'));
     },
-    onError: (error: any) => {
+    onError: (error: Error & { userMessage?: string }) => {
       // Error already handled in mutationFn, just show generic message
       if (!error.userMessage) {
         toast.error(t('admin:catalogs.updateError'));
@@ -271,12 +558,20 @@ export const useCatalogMutations = () => {
 
   /**
    * Delete catalog mutation
-   * Removes files from storage and deletes database record
+   * Removes files (including archived versions) from storage and deletes database record
    */
   const deleteCatalog = useMutation({
     mutationFn: async (catalog: { id: string; pdf_url: string; thumbnail_url: string }) => {
       try {
-        // Step 1: Delete database record first
+        // Step 1: Collect archived version files before their rows are removed
+        const { data: versions, error: versionsError } = await supabase
+          .from('catalog_versions')
+          .select('pdf_url, thumbnail_url')
+          .eq('catalog_id', catalog.id);
+
+        if (versionsError) throw versionsError;
+
+        // Step 2: Delete database record (versions cascade)
         const { error } = await supabase
           .from('catalogs')
           .delete()
@@ -290,22 +585,33 @@ export const useCatalogMutations = () => {
           throw error;
         }
 
-        // Step 2: Delete files from storage (after database deletion succeeds)
-        const pdfPath = extractPathFromUrl(catalog.pdf_url, STORAGE_BUCKETS.CATALOGS);
-        const thumbnailPath = extractPathFromUrl(catalog.thumbnail_url, STORAGE_BUCKETS.THUMBNAILS);
+        // Step 3: Delete files from storage (after database deletion succeeds)
+        // Versions may share a file with the current edition, so delete each path once
+        // PDFs live in the public or the private bucket, so take the bucket from each URL
+        const allFiles = [catalog, ...((versions ?? []) as { pdf_url: string; thumbnail_url: string }[])];
+        const pdfLocations = new Map(
+          allFiles
+            .map((file) => getStorageLocation(file.pdf_url))
+            .filter((location) => location !== null)
+            .map((location) => [`${location.bucket}/${location.path}`, location] as const)
+        );
+        const thumbnailPaths = new Set(
+          allFiles.map((file) => extractPathFromUrl(file.thumbnail_url, STORAGE_BUCKETS.THUMBNAILS))
+        );
 
-        // Delete PDF file
-        if (pdfPath) {
+        // Delete PDF files
+        for (const { bucket, path } of pdfLocations.values()) {
           try {
-            await deleteFile(STORAGE_BUCKETS.CATALOGS, pdfPath);
+            await deleteFile(bucket, path);
           } catch (error) {
             // Log but don't throw - file might already be deleted
             handleError(error, 'delete PDF file from storage', { showToast: false });
           }
         }
 
-        // Delete thumbnail file
-        if (thumbnailPath) {
+        // Delete thumbnail files
+        for (const thumbnailPath of thumbnailPaths) {
+          if (!thumbnailPath) continue;
           try {
             await deleteFile(STORAGE_BUCKETS.THUMBNAILS, thumbnailPath);
           } catch (error) {
@@ -322,7 +628,7 @@ export const useCatalogMutations = () => {
       queryClient.invalidateQueries({ queryKey: ['catalogs'] });
       toast.success(t('admin:catalogs.deleteSuccess'));
     },
-    onError: (error: any) => {
+    onError: (error: Error & { userMessage?: string }) => {
       // Error already handled in mutationFn, just show generic message
       if (!error.userMessage) {
         toast.error(t('admin:catalogs.deleteError'));
@@ -330,9 +636,215 @@ export const useCatalogMutations = () => {
     },
   });
 
+  /**
+   * Index catalog content mutation
+   * Downloads the stored PDF and (re)builds its page text index,
+   * e.g. for catalogs uploaded before content search existed
+   */
+  const indexCatalogContent = useMutation({
+    mutationFn: async (catalog: { id: string; pdf_url: string }) => {
+      try {
+        const response = await fetch(await resolveCatalogPdfUrl(catalog.pdf_url));
+        if (!response.ok) {
+          throw new Error(`Failed to download PDF (HTTP ${response.status})`);
+        }
+
+        await indexCatalogPages(catalog.id, await response.blob());
+      } catch (error) {
+        handleError(error, 'index catalog PDF text');
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      toast.success(t('admin:catalogs.indexSuccess'));
+    },
+    onError: (error: Error & { userMessage?: string }) => {
+      // Error already handled in mutationFn, just show generic message
+      if (!error.userMessage) {
+        toast.error(t('admin:catalogs.indexError'));
+      }
+    },
+  });
+
+  /**
+   * Restore catalog version mutation
+   * Swaps an archived version with the current files: the current files are
+   * archived as a new version and the restored version becomes current,
+   * its PDF moved into the bucket the catalog's visibility calls for
+   */
+  const restoreCatalogVersion = useMutation({
+    mutationFn: async ({ catalog, version }: RestoreCatalogVersionData) => {
+      let archivedVersionId: string;
+
+      try {
+        // Step 1: Archive the current files
+        const versionData: CatalogVersionInsert = {
+          catalog_id: catalog.id,
+          pdf_url: catalog.pdf_url,
+          thumbnail_url: catalog.thumbnail_url,
+          file_size: catalog.file_size,
+          change_note: t('admin:catalogs.history.restoreNote', {
+            version: version.version_number,
+            defaultValue: 'Replaced by restoring version {{version}}',
+          }),
+        };
+
+        const { data: archived, error: archiveError } = await supabase
+          .from('catalog_versions')
+          // @ts-expect-error - Supabase type inference issue with Database generic
+          .insert(versionData)
+          .select('id')
+          .single();
+
+        if (archiveError) throw archiveError;
+        archivedVersionId = (archived as { id: string }).id;
+      } catch (error) {
+        handleError(error, 'archive current catalog files');
+        throw error;
+      }
+
+      try {
+        // Step 2: Make the restored version current
+        const updateData: CatalogUpdate = {
+          pdf_url: version.pdf_url,
+          thumbnail_url: version.thumbnail_url,
+          file_size: version.file_size,
+        };
+
+        const { error } = await supabase
+          .from('catalogs')
+          // @ts-expect-error - Supabase type inference issue with Database generic
+          .update(updateData)
+          .eq('id', catalog.id);
+
+        if (error) throw error;
+      } catch (error) {
+        // Drop the archive entry; the current files are unchanged
+        const { error: cleanupError } = await supabase
+          .from('catalog_versions')
+          .delete()
+          .eq('id', archivedVersionId);
+        if (cleanupError) {
+          handleError(cleanupError, 'clean up archived version after restore failure', { showToast: false });
+        }
+        handleError(error, 'restore catalog version');
+        throw error;
+      }
+
+      // Step 3: Remove the restored version from the history (its files are current now)
+      const { error: removeError } = await supabase
+        .from('catalog_versions')
+        .delete()
+        .eq('id', version.id);
+      if (removeError) {
+        handleError(removeError, 'remove restored version from history', { showToast: false });
+      }
+
+      // Step 4: Move the restored PDF when it was archived in the other bucket
+      let pdfUrl = version.pdf_url;
+      try {
+        pdfUrl = await moveCatalogPdf(catalog.id, version.pdf_url, hasPrivatePdf(catalog));
+
+        if (pdfUrl !== version.pdf_url) {
+          const { error } = await supabase
+            .from('catalogs')
+            // @ts-expect-error - Supabase type inference issue with Database generic
+            .update({ pdf_url: pdfUrl })
+            .eq('id', catalog.id);
+
+          if (error) {
+            // Move the PDF back to where the catalog still expects it
+            try {
+              await moveCatalogPdf(catalog.id, pdfUrl, !hasPrivatePdf(catalog));
+            } catch (cleanupError) {
+              handleError(cleanupError, 'move PDF back after database update failure', { showToast: false });
+            }
+            throw error;
+          }
+        }
+      } catch (error) {
+        handleError(error, 'move restored PDF to the catalog bucket');
+        throw error;
+      }
+
+      // Step 5: Re-index PDF text of the restored edition
+      try {
+        const response = await fetch(await resolveCatalogPdfUrl(pdfUrl));
+        if (!response.ok) {
+          throw new Error(`Failed to download PDF (HTTP ${response.status})`);
+        }
+        await indexCatalogPages(catalog.id, await response.blob());
+      } catch (error) {
+        handleError(error, 'index catalog PDF text', { showToast: false });
+        toast.warning(t('admin:catalogs.indexWarning'));
+      }
+    },
+    onSuccess: (_result, { catalog }) => {
+      queryClient.invalidateQueries({ queryKey: ['catalogs'] });
+      queryClient.invalidateQueries({ queryKey: ['catalog-versions', catalog.id] });
+      toast.success(t('admin:catalogs.history.restoreSuccess'));
+    },
+    onError: (error: Error & { userMessage?: string }) => {
+      // Error already handled in mutationFn, just show generic message
+      if (!error.userMessage) {
+        toast.error(t('admin:catalogs.history.restoreError'));
+      }
+    },
+  });
+
+  /**
+   * Change catalog status mutation
+   * Submits, approves, rejects, archives or reopens a catalog; the database
+   * rejects transitions that are not allowed from the current status
+   */
+  const changeCatalogStatus = useMutation({
+    mutationFn: async ({ id, action, comment }: ChangeCatalogStatusData) => {
+      try {
+        const updateData: CatalogUpdate = {
+          status: CATALOG_STATUS_ACTIONS[action].to,
+          review_comment: comment?.trim() || null,
+        };
+
+        const { error } = await supabase
+          .from('catalogs')
+          // @ts-expect-error - Supabase type inference issue with Database generic
+          .update(updateData)
+          .eq('id', id);
+
+        if (error) {
+          // Raised by the status trigger, e.g. when another admin changed the status first
+          if (error.code === 'P0001') {
+            throw new Error('This status change is not allowed from the current status. Refresh the list and try again.');
+          }
+          // Raised by the status trigger when reviewing one's own submission
+          if (error.code === '42501') {
+            throw new Error('Catalogs must be approved or rejected by an admin other than the one who submitted them.');
+          }
+          throw error;
+        }
+      } catch (error) {
+        handleError(error, 'change catalog status');
+        throw error;
+      }
+    },
+    onSuccess: (_result, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ['catalogs'] });
+      toast.success(t(`admin:catalogs.workflow.${action}Success`));
+    },
+    onError: (error: Error & { userMessage?: string }) => {
+      // Error already handled in mutationFn, just show generic message
+      if (!error.userMessage) {
+        toast.error(t('admin:catalogs.workflow.error'));
+      }
+    },
+  });
+
   return {
     createCatalog,
     updateCatalog,
     deleteCatalog,
+    indexCatalogContent,
+    restoreCatalogVersion,
+    changeCatalogStatus,
   };
 };
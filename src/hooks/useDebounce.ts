@@ -0,0 +1,18 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * useDebounce Hook
+ *
+ * Returns a copy of the value that only updates after it has stopped
+ * changing for the given delay. Used to avoid a request per keystroke.
+ */
+export const useDebounce = <T>(value: T, delay = 300): T => {
+  const [debouncedValue, setDebouncedValue] = useState(value);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedValue(value), delay);
+    return () => clearTimeout(timeout);
+  }, [value, delay]);
+
+  return debouncedValue;
+};
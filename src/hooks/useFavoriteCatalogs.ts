@@ -0,0 +1,54 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { useLanguage } from '@/contexts/LanguageContext';
+import { handleError } from '@/lib/error-handling';
+import { addFavoriteCatalog, fetchFavoriteCatalogIds, removeFavoriteCatalog } from '@/lib/account';
+
+/**
+ * Custom hook for the signed-in customer's favorite catalogs
+ * Loads the ids of their favorites and toggles catalogs in and out, keeping
+ * the account page's favorites list in sync
+ */
+export const useFavoriteCatalogs = () => {
+  const { user } = useAuth();
+  const { t } = useLanguage();
+  const queryClient = useQueryClient();
+  const userId = user?.id ?? null;
+
+  const { data: favoriteIds = [] } = useQuery<string[]>({
+    queryKey: ['catalog-favorite-ids', userId],
+    queryFn: () => fetchFavoriteCatalogIds(userId!),
+    enabled: !!userId,
+  });
+
+  /**
+   * Toggle favorite mutation
+   * Adds the catalog, or removes it when it's already a favorite
+   */
+  const toggleFavorite = useMutation({
+    mutationFn: async (catalogId: string) => {
+      if (favoriteIds.includes(catalogId)) {
+        await removeFavoriteCatalog(userId!, catalogId);
+        return false;
+      }
+      await addFavoriteCatalog(catalogId);
+      return true;
+    },
+    onSuccess: (added) => {
+      queryClient.invalidateQueries({ queryKey: ['catalog-favorite-ids', userId] });
+      queryClient.invalidateQueries({ queryKey: ['account-favorites', userId] });
+      toast.success(added ? t('account:favorites.added') : t('account:favorites.removed'));
+    },
+    onError: (error) => {
+      handleError(error, 'update favorite catalogs', { showToast: false });
+      toast.error(t('account:favorites.error'));
+    },
+  });
+
+  return {
+    isSignedIn: !!userId,
+    isFavorite: (catalogId: string) => favoriteIds.includes(catalogId),
+    toggleFavorite,
+  };
+};
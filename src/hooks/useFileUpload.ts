@@ -34,6 +34,13 @@ interface UploadOptions {
   retryDelay?: number;
 }
 
+/**
+ * PDF upload options interface
+ */
+interface PdfUploadOptions extends UploadOptions {
+  isPrivate?: boolean; // Store in the private bucket (served through signed URLs)
+}
+
 /**
  * Generate a unique file name using UUID and original file extension
  */
@@ -56,7 +63,7 @@ const sleep = (ms: number): Promise<void> => {
  * 
  * Custom hook for handling file uploads to Supabase Storage.
  * Features:
- * - Upload PDF files to catalogs bucket
+ * - Upload PDF files to catalogs bucket (or the private bucket for private catalogs)
  * - Upload thumbnail images to thumbnails bucket
  * - Generate unique file names using UUID
  * - Handle upload progress events
@@ -163,12 +170,12 @@ export const useFileUpload = () => {
   );
 
   /**
-   * Upload a PDF file to the catalogs bucket
+   * Upload a PDF file to the catalogs bucket, or the private bucket with `isPrivate`
    */
   const uploadPDF = useCallback(
     async (
       file: File,
-      options: UploadOptions = {}
+      { isPrivate = false, ...options }: PdfUploadOptions = {}
     ): Promise<FileUploadResult> => {
       setIsUploading(true);
       setUploadProgress(0);
@@ -203,7 +210,8 @@ export const useFileUpload = () => {
         };
 
         // Upload the file
-        const result = await uploadFile(file, STORAGE_BUCKETS.CATALOGS, {
+        const bucket = isPrivate ? STORAGE_BUCKETS.PRIVATE_CATALOGS : STORAGE_BUCKETS.CATALOGS;
+        const result = await uploadFile(file, bucket, {
           ...options,
           onProgress: progressCallback,
         });
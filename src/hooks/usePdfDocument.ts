@@ -0,0 +1,105 @@
+import { useEffect, useState } from 'react';
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+import { pdfjsLib } from '@/lib/pdfjs';
+import { handleError } from '@/lib/error-handling';
+
+const RANGE_CHUNK_SIZE = 256 * 1024; // Bytes per range request
+
+/**
+ * Custom hook that loads a PDF with pdf.js
+ * Pass null to skip loading (e.g. while the viewer is closed); the document
+ * is destroyed when the URL changes or the component unmounts.
+ *
+ * The file is fetched with HTTP range requests: only the parts needed for
+ * the pages being shown are downloaded, so the first page appears before the
+ * whole catalog has arrived. Servers without range support get a single full
+ * download instead (pdf.js detects this from the response headers).
+ */
+export const usePdfDocument = (url: string | null) => {
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [isLoading, setIsLoading] = useState(!!url);
+  const [hasError, setHasError] = useState(false);
+  const [progress, setProgress] = useState<number | null>(null); // Percent downloaded, when the size is known
+
+  useEffect(() => {
+    setPdf(null);
+    setHasError(false);
+    setProgress(null);
+    setIsLoading(!!url);
+    if (!url) return;
+
+    let cancelled = false;
+    const loadingTask = pdfjsLib.getDocument({
+      url,
+      rangeChunkSize: RANGE_CHUNK_SIZE,
+      disableAutoFetch: true, // Fetch pages on demand rather than the rest of the file in the background
+      disableStream: true, // Streaming would read the whole file too
+    });
+
+    loadingTask.onProgress = ({ loaded, total }: { loaded: number; total: number }) => {
+      if (!cancelled && total > 0) setProgress(Math.min(Math.round((loaded / total) * 100), 100));
+    };
+
+    loadingTask.promise.then(
+      (document) => {
+        if (cancelled) return;
+        setPdf(document);
+        setIsLoading(false);
+      },
+      (error) => {
+        if (cancelled) return;
+        handleError(error, 'load PDF document', { showToast: false });
+        setHasError(true);
+        setIsLoading(false);
+      }
+    );
+
+    return () => {
+      cancelled = true;
+      void loadingTask.destroy();
+    };
+  }, [url]);
+
+  return { pdf, numPages: pdf?.numPages ?? 0, isLoading, hasError, progress };
+};
+
+/**
+ * Custom hook that loads one page (1-based) of a loaded PDF
+ * Keeps the previous page until the next one is ready (its data may still
+ * have to be downloaded), so the viewer can show a placeholder of the same size
+ */
+export const usePdfPage = (pdf: PDFDocumentProxy | null, pageNumber: number) => {
+  const [page, setPage] = useState<PDFPageProxy | null>(null);
+  const [hasError, setHasError] = useState(false);
+
+  useEffect(() => {
+    setHasError(false);
+    if (!pdf) {
+      setPage(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    pdf.getPage(pageNumber).then(
+      (loadedPage) => {
+        if (!cancelled) setPage(loadedPage);
+      },
+      (error) => {
+        if (cancelled) return;
+        handleError(error, 'load PDF page', { showToast: false });
+        setHasError(true);
+      }
+    );
+
+    return () => {
+      cancelled = true;
+    };
+  }, [pdf, pageNumber]);
+
+  return {
+    page,
+    isLoading: !!pdf && !hasError && page?.pageNumber !== pageNumber,
+    hasError,
+  };
+};
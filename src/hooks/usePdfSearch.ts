@@ -0,0 +1,41 @@
+import { useEffect, useState } from 'react';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { useDebounce } from '@/hooks/useDebounce';
+import { handleError } from '@/lib/error-handling';
+import { searchPdf, type PdfSearchMatch } from '@/lib/pdf-search';
+
+/**
+ * Custom hook for searching inside a loaded PDF
+ * Searches once typing pauses; a newer query cancels the search in progress
+ */
+export const usePdfSearch = (pdf: PDFDocumentProxy | null, query: string) => {
+  const debouncedQuery = useDebounce(query.trim());
+  const [matches, setMatches] = useState<PdfSearchMatch[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+
+  useEffect(() => {
+    setMatches([]);
+    if (!pdf || !debouncedQuery) {
+      setIsSearching(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setIsSearching(true);
+
+    searchPdf(pdf, debouncedQuery, controller.signal)
+      .then((results) => {
+        if (!controller.signal.aborted) setMatches(results);
+      })
+      .catch((error) => {
+        if (!controller.signal.aborted) handleError(error, 'search PDF text', { showToast: false });
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsSearching(false);
+      });
+
+    return () => controller.abort();
+  }, [pdf, debouncedQuery]);
+
+  return { matches, isSearching, searchedQuery: debouncedQuery };
+};
@@ -0,0 +1,16 @@
+import { useContext } from 'react';
+import { RfqCartContext, type RfqCartContextType } from '@/contexts/rfq-cart';
+
+/**
+ * Custom hook to use the RFQ cart context
+ * Throws an error if used outside of RfqCartProvider
+ */
+export const useRfqCart = (): RfqCartContextType => {
+  const context = useContext(RfqCartContext);
+
+  if (context === undefined) {
+    throw new Error('useRfqCart must be used within a RfqCartProvider');
+  }
+
+  return context;
+};
@@ -0,0 +1,66 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
+import { supabase } from '@/lib/supabase';
+import type { Tag, TagInsert } from '@/types/database';
+import { handleError } from '@/lib/error-handling';
+
+/**
+ * Custom hook for tag mutations
+ * Provides a mutation for creating tags from the catalog tag picker
+ * with automatic cache invalidation and toast notifications
+ */
+export const useTagMutations = () => {
+  const { t } = useTranslation();
+  const queryClient = useQueryClient();
+
+  /**
+   * Create tag mutation
+   * Saves a new tag to Supabase and returns it so it can be selected right away
+   */
+  const createTag = useMutation({
+    mutationFn: async (data: { name_en: string; name_ar: string; slug: string }) => {
+      try {
+        const insertData: TagInsert = {
+          name_en: data.name_en,
+          name_ar: data.name_ar,
+          slug: data.slug,
+        };
+
+        const { data: result, error } = await supabase
+          .from('tags')
+          // @ts-expect-error - Supabase type inference issue with Database generic
+          .insert(insertData)
+          .select()
+          .single();
+
+        if (error) {
+          // Provide specific error messages for common database errors
+          if (error.code === '23505') {
+            throw new Error('A tag with this name already exists. Please use a different name.');
+          }
+          throw error;
+        }
+
+        return result as Tag;
+      } catch (error) {
+        handleError(error, 'create tag');
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tags'] });
+      toast.success(t('admin:tags.createSuccess'));
+    },
+    onError: (error: Error & { userMessage?: string }) => {
+      // Error already handled in mutationFn, just show generic message
+      if (!error.userMessage) {
+        toast.error(t('admin:tags.createError'));
+      }
+    },
+  });
+
+  return {
+    createTag,
+  };
+};
@@ -0,0 +1,51 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useAuth } from '@/contexts/AuthContext';
+import { handleError } from '@/lib/error-handling';
+import { fetchWatermarkedCatalog } from '@/lib/catalog-watermarks';
+
+/**
+ * Custom hook that fetches a catalog stamped for the signed-in distributor
+ * Pass null to skip fetching (e.g. while the viewer is closed). Resolves to an
+ * object URL of the stamped copy for the viewer to open, print and save; the
+ * URL is released when the catalog changes or the component unmounts.
+ * Every fetch is a new stamped copy in the audit trail, so the copy is kept
+ * for the rest of the visit and reopening the catalog doesn't record another.
+ */
+export const useWatermarkedCatalog = (catalogId: string | null) => {
+  const { user } = useAuth();
+  const [url, setUrl] = useState<string | null>(null);
+
+  const { data: file, isLoading, isError } = useQuery<Blob | null>({
+    queryKey: ['watermarked-catalog', catalogId, user?.id],
+    queryFn: async () => {
+      try {
+        return await fetchWatermarkedCatalog(catalogId!);
+      } catch (error) {
+        handleError(error, 'load watermarked catalog', { showToast: false });
+        throw error;
+      }
+    },
+    enabled: !!catalogId && !!user,
+    staleTime: Infinity,
+    gcTime: Infinity,
+    retry: false,
+  });
+
+  useEffect(() => {
+    if (!catalogId || !file) {
+      setUrl(null);
+      return;
+    }
+
+    const objectUrl = URL.createObjectURL(file);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [catalogId, file]);
+
+  return {
+    url,
+    isLoading: !!catalogId && (isLoading || (!!file && !url)),
+    hasError: !!catalogId && (isError || file === null), // null: not available to this user (anymore)
+  };
+};
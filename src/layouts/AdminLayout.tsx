@@ -22,6 +22,10 @@ import {
   FileText,
   FolderOpen,
   Mail,
+  BarChart3,
+  UserPlus,
+  ClipboardList,
+  Users,
   LogOut,
   Moon,
   Sun,
@@ -93,6 +97,26 @@ const AdminLayout: React.FC<AdminLayoutProps> = ({ children }) => {
       href: '/admin/contact-submissions',
       icon: Mail,
     },
+    {
+      title: t('navigation:quoteRequests'),
+      href: '/admin/quote-requests',
+      icon: ClipboardList,
+    },
+    {
+      title: t('navigation:leads'),
+      href: '/admin/leads',
+      icon: UserPlus,
+    },
+    {
+      title: t('navigation:analytics'),
+      href: '/admin/analytics',
+      icon: BarChart3,
+    },
+    {
+      title: t('navigation:users'),
+      href: '/admin/users',
+      icon: Users,
+    },
   ];
 
   return (
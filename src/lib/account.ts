@@ -0,0 +1,157 @@
+import { supabase } from '@/lib/supabase';
+import type {
+  CatalogEventWithCatalog,
+  CatalogFavoriteInsert,
+  CatalogFavoriteWithCatalog,
+  ContactSubmission,
+  RfqRequestWithItems,
+} from '@/types/database';
+
+/**
+ * Customer account helpers
+ * Reads a signed-in customer's own favorites, catalog activity and past
+ * requests for the account area. Every query is scoped to the user: row
+ * level security already limits customers to their own rows, and the
+ * filter keeps an admin's account page from listing everyone's.
+ */
+
+/**
+ * Most rows shown in the recently viewed and download history lists
+ */
+export const ACCOUNT_HISTORY_LIMIT = 20;
+
+/**
+ * Catalog columns joined onto favorites and events
+ * Catalogs that are no longer live come back as null and are left out
+ */
+const CATALOG_SELECT = 'catalog:catalogs(*, category:categories(*))';
+
+/**
+ * Ids of the catalogs the user saved as favorites
+ */
+export const fetchFavoriteCatalogIds = async (userId: string): Promise<string[]> => {
+  const { data, error } = await supabase
+    .from('catalog_favorites')
+    .select('catalog_id')
+    .eq('user_id', userId);
+
+  if (error) throw error;
+  return ((data ?? []) as { catalog_id: string }[]).map((row) => row.catalog_id);
+};
+
+/**
+ * The user's favorite catalogs, most recently saved first
+ */
+export const fetchFavoriteCatalogs = async (userId: string): Promise<CatalogFavoriteWithCatalog[]> => {
+  const { data, error } = await supabase
+    .from('catalog_favorites')
+    .select(`*, ${CATALOG_SELECT}`)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return ((data ?? []) as CatalogFavoriteWithCatalog[]).filter((favorite) => favorite.catalog);
+};
+
+/**
+ * Save a catalog to the user's favorites
+ */
+export const addFavoriteCatalog = async (catalogId: string): Promise<void> => {
+  const favorite: CatalogFavoriteInsert = { catalog_id: catalogId };
+
+  const { error } = await supabase
+    .from('catalog_favorites')
+    // @ts-expect-error - Supabase type inference issue with Database generic
+    .insert(favorite);
+
+  // Already a favorite (e.g. saved in another tab)
+  if (error && error.code !== '23505') throw error;
+};
+
+/**
+ * Remove a catalog from the user's favorites
+ */
+export const removeFavoriteCatalog = async (userId: string, catalogId: string): Promise<void> => {
+  const { error } = await supabase
+    .from('catalog_favorites')
+    .delete()
+    .eq('user_id', userId)
+    .eq('catalog_id', catalogId);
+
+  if (error) throw error;
+};
+
+/**
+ * Catalogs the user opened recently, newest first, each listed once
+ */
+export const fetchRecentlyViewedCatalogs = async (userId: string): Promise<CatalogEventWithCatalog[]> => {
+  const { data, error } = await supabase
+    .from('catalog_events')
+    .select(`*, ${CATALOG_SELECT}`)
+    .eq('user_id', userId)
+    .eq('event_type', 'view')
+    .order('created_at', { ascending: false })
+    .limit(ACCOUNT_HISTORY_LIMIT * 5); // Repeat views of a catalog collapse into one
+
+  if (error) throw error;
+
+  const seen = new Set<string>();
+  return ((data ?? []) as CatalogEventWithCatalog[])
+    .filter((event) => {
+      if (!event.catalog || seen.has(event.catalog_id)) return false;
+      seen.add(event.catalog_id);
+      return true;
+    })
+    .slice(0, ACCOUNT_HISTORY_LIMIT);
+};
+
+/**
+ * The user's catalog downloads, newest first (including ZIP bundles)
+ */
+export const fetchDownloadHistory = async (userId: string): Promise<CatalogEventWithCatalog[]> => {
+  const { data, error } = await supabase
+    .from('catalog_events')
+    .select(`*, ${CATALOG_SELECT}`)
+    .eq('user_id', userId)
+    .eq('event_type', 'download')
+    .order('created_at', { ascending: false })
+    .limit(ACCOUNT_HISTORY_LIMIT);
+
+  if (error) throw error;
+  return ((data ?? []) as CatalogEventWithCatalog[]).filter((event) => event.catalog);
+};
+
+/**
+ * Contact messages the user sent while signed in, newest first
+ */
+export const fetchOwnContactSubmissions = async (userId: string): Promise<ContactSubmission[]> => {
+  const { data, error } = await supabase
+    .from('contact_submissions')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return (data ?? []) as ContactSubmission[];
+};
+
+/**
+ * Quote requests the user sent while signed in, with their items, newest first
+ */
+export const fetchOwnRfqRequests = async (userId: string): Promise<RfqRequestWithItems[]> => {
+  const { data, error } = await supabase
+    .from('rfq_requests')
+    .select(`
+      *,
+      items:rfq_items(
+        *,
+        catalog:catalogs(id, title_en, title_ar, slug)
+      )
+    `)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .order('position', { referencedTable: 'items', ascending: true });
+
+  if (error) throw error;
+  return (data ?? []) as RfqRequestWithItems[];
+};
@@ -0,0 +1,200 @@
+import { supabase } from '@/lib/supabase';
+import { handleError } from '@/lib/error-handling';
+import type {
+  CatalogEventBundleCount,
+  CatalogEventCampaign,
+  CatalogEventInsert,
+  CatalogEventLanguageCount,
+  CatalogEventTopCatalog,
+  CatalogEventTrend,
+  TrackedCatalogEventType,
+} from '@/types/database';
+
+/**
+ * Catalog analytics helpers
+ * Records catalog usage into catalog_events and wraps the report RPCs
+ * used by the admin analytics page
+ */
+
+const SESSION_ID_KEY = 'catalog-session-id';
+const CAMPAIGN_LINK_ID_KEY = 'catalog-campaign-link-id';
+
+/**
+ * Random id for this browser visit, so catalogs viewed together can be
+ * recommended together; undefined when session storage is unavailable
+ */
+export const getSessionId = (): string | undefined => {
+  try {
+    let sessionId = sessionStorage.getItem(SESSION_ID_KEY);
+    if (!sessionId) {
+      sessionId = crypto.randomUUID();
+      sessionStorage.setItem(SESSION_ID_KEY, sessionId);
+    }
+    return sessionId;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Campaign link this browser visit started from, if any; events and contact
+ * submissions of the visit are attributed to it
+ */
+export const getCampaignLinkId = (): string | undefined => {
+  try {
+    return sessionStorage.getItem(CAMPAIGN_LINK_ID_KEY) ?? undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Attribute the rest of this browser visit to a campaign link
+ */
+export const setCampaignLinkId = (campaignLinkId: string): void => {
+  try {
+    sessionStorage.setItem(CAMPAIGN_LINK_ID_KEY, campaignLinkId);
+  } catch {
+    // Without session storage the scan is still counted, just not what follows
+  }
+};
+
+/**
+ * Record a catalog event (view, download, print or share)
+ * Fire-and-forget: failures are logged and never interrupt the customer
+ */
+export const trackCatalogEvent = async (
+  catalogId: string,
+  eventType: TrackedCatalogEventType,
+  language: string
+): Promise<void> => {
+  const event: CatalogEventInsert = {
+    catalog_id: catalogId,
+    event_type: eventType,
+    language: language === 'ar' ? 'ar' : 'en',
+    campaign_link_id: getCampaignLinkId(),
+    session_id: getSessionId(),
+  };
+
+  const { error } = await supabase
+    .from('catalog_events')
+    // @ts-expect-error - Supabase type inference issue with Database generic
+    .insert(event);
+
+  if (error) {
+    handleError(error, `record catalog ${eventType} event`, { showToast: false });
+  }
+};
+
+/**
+ * Record a ZIP bundle download: one download event per catalog, linked by
+ * a shared bundle id. Fire-and-forget like single events.
+ */
+export const trackCatalogBundleDownload = async (
+  catalogIds: string[],
+  language: string
+): Promise<void> => {
+  const bundleId = crypto.randomUUID();
+  const sessionId = getSessionId();
+  const campaignLinkId = getCampaignLinkId();
+  const events: CatalogEventInsert[] = catalogIds.map((catalogId) => ({
+    catalog_id: catalogId,
+    event_type: 'download',
+    language: language === 'ar' ? 'ar' : 'en',
+    bundle_id: bundleId,
+    campaign_link_id: campaignLinkId,
+    session_id: sessionId,
+  }));
+
+  const { error } = await supabase
+    .from('catalog_events')
+    // @ts-expect-error - Supabase type inference issue with Database generic
+    .insert(events);
+
+  if (error) {
+    handleError(error, 'record catalog bundle download', { showToast: false });
+  }
+};
+
+/**
+ * Reporting periods offered on the analytics page, in days
+ */
+export const ANALYTICS_PERIODS = [7, 30, 90] as const;
+
+export type AnalyticsPeriod = (typeof ANALYTICS_PERIODS)[number];
+
+/**
+ * Catalog analytics for one reporting period
+ */
+export interface CatalogAnalyticsReport {
+  topCatalogs: CatalogEventTopCatalog[];
+  trends: CatalogEventTrend[];
+  languages: CatalogEventLanguageCount[];
+  bundles: CatalogEventBundleCount;
+  campaigns: CatalogEventCampaign[];
+}
+
+/**
+ * Fetch the analytics report for the last `days` days (including today)
+ */
+export const fetchCatalogAnalytics = async (days: AnalyticsPeriod): Promise<CatalogAnalyticsReport> => {
+  const periodStart = new Date();
+  periodStart.setHours(0, 0, 0, 0);
+  periodStart.setDate(periodStart.getDate() - (days - 1));
+  const args = { period_start: periodStart.toISOString(), period_end: new Date().toISOString() };
+
+  const [topResult, trendsResult, languagesResult, bundlesResult, campaignsResult] = await Promise.all([
+    // @ts-expect-error - Supabase type inference issue with Database generic
+    supabase.rpc('catalog_event_top_catalogs', { ...args, max_results: 10 }),
+    // @ts-expect-error - Supabase type inference issue with Database generic
+    supabase.rpc('catalog_event_trends', args),
+    // @ts-expect-error - Supabase type inference issue with Database generic
+    supabase.rpc('catalog_event_languages', args),
+    // @ts-expect-error - Supabase type inference issue with Database generic
+    supabase.rpc('catalog_event_bundles', args).maybeSingle(),
+    // @ts-expect-error - Supabase type inference issue with Database generic
+    supabase.rpc('catalog_event_campaigns', args),
+  ]);
+
+  if (topResult.error) throw topResult.error;
+  if (trendsResult.error) throw trendsResult.error;
+  if (languagesResult.error) throw languagesResult.error;
+  if (bundlesResult.error) throw bundlesResult.error;
+  if (campaignsResult.error) throw campaignsResult.error;
+
+  const bundles = bundlesResult.data as CatalogEventBundleCount | null;
+
+  // Counts are BIGINT in the database; make sure they are numbers
+  return {
+    topCatalogs: ((topResult.data ?? []) as CatalogEventTopCatalog[]).map((row) => ({
+      ...row,
+      views: Number(row.views),
+      downloads: Number(row.downloads),
+      prints: Number(row.prints),
+      shares: Number(row.shares),
+      total: Number(row.total),
+    })),
+    trends: ((trendsResult.data ?? []) as CatalogEventTrend[]).map((row) => ({
+      ...row,
+      views: Number(row.views),
+      downloads: Number(row.downloads),
+      prints: Number(row.prints),
+      shares: Number(row.shares),
+    })),
+    languages: ((languagesResult.data ?? []) as CatalogEventLanguageCount[]).map((row) => ({
+      ...row,
+      event_count: Number(row.event_count),
+    })),
+    bundles: {
+      bundles: Number(bundles?.bundles ?? 0),
+      bundled_catalogs: Number(bundles?.bundled_catalogs ?? 0),
+    },
+    campaigns: ((campaignsResult.data ?? []) as CatalogEventCampaign[]).map((row) => ({
+      ...row,
+      scans: Number(row.scans),
+      views: Number(row.views),
+      downloads: Number(row.downloads),
+      contact_submissions: Number(row.contact_submissions),
+    })),
+  };
+};
@@ -0,0 +1,185 @@
+import JSZip from 'jszip';
+import { formatFileSize } from '@/lib/utils';
+import type { Catalog } from '@/types/database';
+
+/**
+ * Catalog bundle helpers
+ * Builds one ZIP from several catalog PDFs in the browser, with an index
+ * file listing the titles in the visitor's language
+ */
+
+/**
+ * Catalog fields needed to add it to a bundle
+ */
+export type BundleCatalog = Pick<Catalog, 'id' | 'title_en' | 'title_ar' | 'pdf_url' | 'file_size'>;
+
+/**
+ * Most catalogs a bundle can hold; keeps the ZIP within browser memory
+ */
+export const MAX_BUNDLE_CATALOGS = 20;
+
+/**
+ * Build progress; `stage` is 'downloading' while PDFs are fetched and
+ * 'zipping' while the archive is written
+ */
+export interface BundleProgress {
+  stage: 'downloading' | 'zipping';
+  percent: number; // 0-100, across both stages
+}
+
+/**
+ * Text for the index file, in the active language
+ */
+export interface BundleIndexLabels {
+  fileName: string; // e.g. "index.txt"
+  heading: string;
+  generatedAt: string; // Line with the build date
+}
+
+interface BuildCatalogBundleOptions {
+  language: string;
+  indexLabels: BundleIndexLabels;
+  onProgress?: (progress: BundleProgress) => void;
+}
+
+/**
+ * Share of the progress bar spent downloading; writing an uncompressed ZIP is quick
+ */
+const DOWNLOAD_SHARE = 90;
+
+/**
+ * Total size of the catalogs' PDFs in bytes
+ */
+export const getBundleSize = (catalogs: BundleCatalog[]): number => {
+  return catalogs.reduce((total, catalog) => total + Number(catalog.file_size || 0), 0);
+};
+
+/**
+ * Title of a catalog in the given language
+ */
+const getBundleTitle = (catalog: BundleCatalog, language: string): string => {
+  return language === 'ar' ? catalog.title_ar : catalog.title_en;
+};
+
+/**
+ * PDF file names from the titles, made unique and safe for every OS
+ */
+const getBundleFileNames = (catalogs: BundleCatalog[], language: string): string[] => {
+  const used = new Set<string>();
+
+  return catalogs.map((catalog) => {
+    const base =
+      getBundleTitle(catalog, language)
+        .replace(/[\\/:*?"<>|]/g, '') // Remove characters not allowed in file names
+        .replace(/\s+/g, ' ')
+        .trim() || catalog.id;
+
+    let name = `${base}.pdf`;
+    for (let copy = 2; used.has(name.toLowerCase()); copy++) {
+      name = `${base} (${copy}).pdf`;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+};
+
+/**
+ * Fetch a PDF, reporting each received chunk's size
+ */
+const fetchPdf = async (url: string, onChunk: (bytes: number) => void): Promise<Uint8Array> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to download catalog PDF (${response.status})`);
+  }
+
+  // Without a readable stream, count the whole file at once
+  if (!response.body) {
+    const buffer = new Uint8Array(await response.arrayBuffer());
+    onChunk(buffer.byteLength);
+    return buffer;
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let length = 0;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    length += value.byteLength;
+    onChunk(value.byteLength);
+  }
+
+  const pdf = new Uint8Array(length);
+  let offset = 0;
+  chunks.forEach((chunk) => {
+    pdf.set(chunk, offset);
+    offset += chunk.byteLength;
+  });
+  return pdf;
+};
+
+/**
+ * Download the catalogs' PDFs and pack them into one ZIP with an index file
+ * PDFs are already compressed, so they are stored without compressing again
+ */
+export const buildCatalogBundle = async (
+  catalogs: BundleCatalog[],
+  { language, indexLabels, onProgress }: BuildCatalogBundleOptions
+): Promise<Blob> => {
+  const zip = new JSZip();
+  const fileNames = getBundleFileNames(catalogs, language);
+  const totalBytes = getBundleSize(catalogs);
+  let receivedBytes = 0;
+
+  const reportDownload = (bytes: number) => {
+    receivedBytes += bytes;
+    const share = totalBytes > 0 ? Math.min(receivedBytes / totalBytes, 1) : 0;
+    onProgress?.({ stage: 'downloading', percent: Math.round(share * DOWNLOAD_SHARE) });
+  };
+
+  onProgress?.({ stage: 'downloading', percent: 0 });
+
+  // One at a time, so a large selection doesn't open many connections at once
+  for (let i = 0; i < catalogs.length; i++) {
+    const pdf = await fetchPdf(catalogs[i].pdf_url, reportDownload);
+    zip.file(fileNames[i], pdf, { binary: true });
+  }
+
+  const index = [
+    indexLabels.heading,
+    indexLabels.generatedAt,
+    '',
+    ...catalogs.map(
+      (catalog, i) =>
+        `${i + 1}. ${getBundleTitle(catalog, language)} - ${fileNames[i]} (${formatFileSize(Number(catalog.file_size))})`
+    ),
+    '',
+  ].join('\r\n');
+
+  // Byte order mark so Windows editors read the Arabic titles as UTF-8
+  zip.file(indexLabels.fileName, `\uFEFF${index}`);
+
+  return zip.generateAsync({ type: 'blob', compression: 'STORE' }, (metadata) => {
+    onProgress?.({
+      stage: 'zipping',
+      percent: Math.round(DOWNLOAD_SHARE + (metadata.percent / 100) * (100 - DOWNLOAD_SHARE)),
+    });
+  });
+};
+
+/**
+ * Save a built bundle with the given file name
+ */
+export const saveCatalogBundle = (bundle: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(bundle);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  // Give the browser time to start the download before releasing the file
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
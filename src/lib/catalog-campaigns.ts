@@ -0,0 +1,88 @@
+import QRCode from 'qrcode';
+import { supabase } from '@/lib/supabase';
+import { getSessionId, setCampaignLinkId } from '@/lib/catalog-analytics';
+import type { OpenedCatalogCampaignLink } from '@/types/database';
+
+/**
+ * Catalog campaign link helpers
+ * Short links to a catalog (or one of its pages) for printed material such
+ * as trade show flyers, their QR codes, and opening them on the site
+ */
+
+/**
+ * QR code settings: medium error correction survives a scuffed flyer, and
+ * the four-module margin is the quiet zone scanners need
+ */
+const QR_OPTIONS = { errorCorrectionLevel: 'M', margin: 4 } as const;
+const QR_PNG_WIDTH = 1024; // Pixels; large enough to print sharply at flyer size
+
+export type QrCodeFormat = 'svg' | 'png';
+
+/**
+ * Public short link encoded in the QR code
+ */
+export const getCampaignLinkUrl = (code: string): string => {
+  return `${window.location.origin}/c/${code}`;
+};
+
+/**
+ * Where an opened campaign link leads: the catalog page (at the link's
+ * page), with the campaign parameters in the address
+ */
+export const getCampaignTargetPath = (link: OpenedCatalogCampaignLink): string => {
+  const params = new URLSearchParams();
+  if (link.page_number) params.set('page', String(link.page_number));
+  params.set('utm_source', link.source);
+  params.set('utm_medium', link.medium);
+  params.set('utm_campaign', link.campaign);
+  return `/catalogs/${link.slug}?${params.toString()}`;
+};
+
+/**
+ * Open a campaign link: records the scan and attributes the rest of the
+ * visit to the campaign; resolves with null when the code is unknown or its
+ * catalog isn't available
+ */
+export const openCampaignLink = async (
+  code: string,
+  language: string
+): Promise<OpenedCatalogCampaignLink | null> => {
+  const { data, error } = await supabase
+    // @ts-expect-error - Supabase type inference issue with Database generic
+    .rpc('open_catalog_campaign_link', {
+      link_code: code,
+      visitor_language: language === 'ar' ? 'ar' : 'en',
+      visitor_session_id: getSessionId() ?? null,
+    })
+    .maybeSingle();
+
+  if (error) throw error;
+
+  const link = data as OpenedCatalogCampaignLink | null;
+  if (link) setCampaignLinkId(link.campaign_link_id);
+  return link;
+};
+
+/**
+ * QR code for a short link, as SVG markup
+ */
+export const createCampaignQrSvg = (url: string): Promise<string> => {
+  return QRCode.toString(url, { ...QR_OPTIONS, type: 'svg' });
+};
+
+/**
+ * Save the QR code for a short link as an SVG or PNG file
+ */
+export const downloadCampaignQr = async (url: string, format: QrCodeFormat, fileName: string): Promise<void> => {
+  const href =
+    format === 'svg'
+      ? `data:image/svg+xml;charset=utf-8,${encodeURIComponent(await createCampaignQrSvg(url))}`
+      : await QRCode.toDataURL(url, { ...QR_OPTIONS, width: QR_PNG_WIDTH });
+
+  const link = document.createElement('a');
+  link.href = href;
+  link.download = `${fileName}.${format}`;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
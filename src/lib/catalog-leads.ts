@@ -0,0 +1,51 @@
+import { supabase } from '@/lib/supabase';
+import type { CatalogLeadInsert } from '@/types/database';
+
+/**
+ * Catalog lead helpers
+ * Stores the details customers leave before downloading a gated catalog.
+ * The gate is a prompt in the site, not access control: the PDF of a gated
+ * catalog stays public, so it can be opened without leaving details.
+ */
+
+const CAPTURED_LEADS_KEY = 'catalog-leads-captured';
+
+/**
+ * Read the ids of catalogs the customer already left details for in this visit
+ */
+const getCapturedCatalogIds = (): string[] => {
+  try {
+    return JSON.parse(sessionStorage.getItem(CAPTURED_LEADS_KEY) ?? '[]');
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Whether the customer already left details for this catalog in this visit,
+ * so repeated downloads don't ask again
+ */
+export const hasCapturedLead = (catalogId: string): boolean => {
+  return getCapturedCatalogIds().includes(catalogId);
+};
+
+/**
+ * Save a lead for a gated catalog and remember it for this visit
+ */
+export const submitCatalogLead = async (lead: CatalogLeadInsert): Promise<void> => {
+  const { error } = await supabase
+    .from('catalog_leads')
+    // @ts-expect-error - Supabase type inference issue with Database generic
+    .insert(lead);
+
+  if (error) throw error;
+
+  try {
+    const capturedIds = getCapturedCatalogIds();
+    if (!capturedIds.includes(lead.catalog_id)) {
+      sessionStorage.setItem(CAPTURED_LEADS_KEY, JSON.stringify([...capturedIds, lead.catalog_id]));
+    }
+  } catch {
+    // Storage may be unavailable (private mode); the form is simply shown again
+  }
+};
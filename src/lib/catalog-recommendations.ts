@@ -0,0 +1,29 @@
+import { supabase } from '@/lib/supabase';
+import type { RelatedCatalog } from '@/types/database';
+
+/**
+ * Catalog recommendation helpers
+ * Wraps related_catalogs(), which ranks catalogs by shared category and
+ * tags, co-views and title similarity
+ */
+
+/**
+ * How many related catalogs are shown by default
+ */
+export const RELATED_CATALOGS_LIMIT = 6;
+
+/**
+ * Catalogs related to the given one, best match first
+ * Empty when the catalog isn't live and public
+ */
+export const fetchRelatedCatalogs = async (
+  catalogId: string,
+  maxResults: number = RELATED_CATALOGS_LIMIT
+): Promise<RelatedCatalog[]> => {
+  const { data, error } = await supabase
+    // @ts-expect-error - Supabase type inference issue with Database generic
+    .rpc('related_catalogs', { source_catalog_id: catalogId, max_results: maxResults });
+
+  if (error) throw error;
+  return (data ?? []) as RelatedCatalog[];
+};
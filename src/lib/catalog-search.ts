@@ -0,0 +1,208 @@
+import { supabase } from '@/lib/supabase';
+import type {
+  CatalogFacetCount,
+  CatalogPageSearchResult,
+  CatalogSearchResult,
+  CatalogSortOrder,
+  Category,
+  CatalogWithCategory,
+} from '@/types/database';
+
+/**
+ * Catalog search helpers
+ * Wraps the search_catalogs, search_catalog_facets and search_catalog_pages RPCs
+ * used by the public catalogs page
+ */
+
+/**
+ * Number of catalogs shown per page on the public catalogs page
+ */
+export const CATALOGS_PAGE_SIZE = 12;
+
+/**
+ * Available sort orders; relevance is the default
+ */
+export const CATALOG_SORT_ORDERS: CatalogSortOrder[] = ['relevance', 'newest', 'alphabetical', 'largest'];
+
+export const DEFAULT_CATALOG_SORT: CatalogSortOrder = 'relevance';
+
+/**
+ * Parse a sort order from a URL parameter, falling back to the default
+ */
+export const parseCatalogSort = (value: string | null): CatalogSortOrder => {
+  return CATALOG_SORT_ORDERS.includes(value as CatalogSortOrder)
+    ? (value as CatalogSortOrder)
+    : DEFAULT_CATALOG_SORT;
+};
+
+/**
+ * Search parameters for a single page of results
+ */
+export interface CatalogSearchParams {
+  query: string;
+  categoryId: string | null;
+  tagIds?: string[]; // Matches catalogs carrying any of these tags
+  sort?: CatalogSortOrder;
+  language?: 'en' | 'ar'; // Language used for alphabetical sorting
+  page: number;
+  pageSize?: number;
+}
+
+/**
+ * One page of search results
+ */
+export interface CatalogSearchPage {
+  catalogs: CatalogWithCategory[];
+  totalCount: number;
+  totalPages: number;
+}
+
+/**
+ * Search published catalogs with server-side sorting and pagination
+ * Pages are 1-based; relevance sorting falls back to newest first for an empty query.
+ * A page past the last one has no catalogs but still reports the total, so
+ * the page can be corrected.
+ */
+export const searchCatalogs = async ({
+  query,
+  categoryId,
+  tagIds = [],
+  sort = DEFAULT_CATALOG_SORT,
+  language = 'en',
+  page,
+  pageSize = CATALOGS_PAGE_SIZE,
+}: CatalogSearchParams): Promise<CatalogSearchPage> => {
+  const fetchRows = async (limit: number, offset: number): Promise<CatalogSearchResult[]> => {
+    const { data, error } = await supabase
+      // @ts-expect-error - Supabase type inference issue with Database generic
+      .rpc('search_catalogs', {
+        search_query: query.trim() || null,
+        category_filter: categoryId,
+        tag_filter: tagIds.length > 0 ? tagIds : null,
+        sort_order: sort,
+        sort_language: language,
+        page_size: limit,
+        page_offset: offset,
+      });
+
+    if (error) throw error;
+    return (data ?? []) as CatalogSearchResult[];
+  };
+
+  const offset = (Math.max(page, 1) - 1) * pageSize;
+  const rows = await fetchRows(pageSize, offset);
+
+  // The total comes with each row, so a page past the end counts from the first
+  const countRows = rows.length === 0 && offset > 0 ? await fetchRows(1, 0) : rows;
+  const totalCount = countRows.length > 0 ? Number(countRows[0].total_count) : 0;
+
+  return {
+    catalogs: rows,
+    totalCount,
+    totalPages: Math.ceil(totalCount / pageSize),
+  };
+};
+
+/**
+ * Result counts per category and per tag, keyed by id
+ */
+export interface CatalogFacets {
+  categories: Record<string, number>;
+  tags: Record<string, number>;
+}
+
+/**
+ * Count published catalogs matching the search per category and per tag
+ * Each facet ignores its own filter, so counts show what switching to it would return
+ */
+export const searchCatalogFacets = async ({
+  query,
+  categoryId,
+  tagIds = [],
+}: Pick<CatalogSearchParams, 'query' | 'categoryId' | 'tagIds'>): Promise<CatalogFacets> => {
+  const { data, error } = await supabase
+    // @ts-expect-error - Supabase type inference issue with Database generic
+    .rpc('search_catalog_facets', {
+      search_query: query.trim() || null,
+      category_filter: categoryId,
+      tag_filter: tagIds.length > 0 ? tagIds : null,
+    });
+
+  if (error) throw error;
+
+  const facets: CatalogFacets = { categories: {}, tags: {} };
+  for (const row of (data ?? []) as CatalogFacetCount[]) {
+    const counts = row.facet === 'category' ? facets.categories : facets.tags;
+    counts[row.facet_id] = Number(row.match_count);
+  }
+
+  return facets;
+};
+
+/**
+ * A page inside a catalog PDF that matches the search
+ */
+export interface CatalogPageHit {
+  pageNumber: number;
+  snippet: string; // Matched words wrapped in [[ ]]
+}
+
+/**
+ * A catalog whose PDF content matches the search, with its best page hits
+ */
+export interface CatalogContentMatch {
+  catalog: Pick<CatalogWithCategory, 'id' | 'title_en' | 'title_ar' | 'slug' | 'slug_ar' | 'pdf_url' | 'thumbnail_url' | 'gated' | 'watermark_downloads'> & {
+    category: Category;
+  };
+  hits: CatalogPageHit[];
+}
+
+/**
+ * Search the extracted text of published catalog PDFs
+ * Returns catalogs in relevance order, each with its best matching pages
+ */
+export const searchCatalogContent = async ({
+  query,
+  categoryId,
+  tagIds = [],
+}: Pick<CatalogSearchParams, 'query' | 'categoryId' | 'tagIds'>): Promise<CatalogContentMatch[]> => {
+  const searchQuery = query.trim();
+  if (!searchQuery) return [];
+
+  const { data, error } = await supabase
+    // @ts-expect-error - Supabase type inference issue with Database generic
+    .rpc('search_catalog_pages', {
+      search_query: searchQuery,
+      category_filter: categoryId,
+      tag_filter: tagIds.length > 0 ? tagIds : null,
+    });
+
+  if (error) throw error;
+
+  // Rows arrive grouped by catalog; keep that order
+  const matches = new Map<string, CatalogContentMatch>();
+  for (const row of (data ?? []) as CatalogPageSearchResult[]) {
+    let match = matches.get(row.catalog_id);
+    if (!match) {
+      match = {
+        catalog: {
+          id: row.catalog_id,
+          title_en: row.title_en,
+          title_ar: row.title_ar,
+          slug: row.slug,
+          slug_ar: row.slug_ar,
+          pdf_url: row.pdf_url,
+          thumbnail_url: row.thumbnail_url,
+          gated: row.gated,
+          watermark_downloads: row.watermark_downloads,
+          category: row.category,
+        },
+        hits: [],
+      };
+      matches.set(row.catalog_id, match);
+    }
+    match.hits.push({ pageNumber: row.page_number, snippet: row.snippet });
+  }
+
+  return Array.from(matches.values());
+};
@@ -0,0 +1,50 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/lib/supabase';
+import type { Profile } from '@/types/database';
+
+/**
+ * Watermarked catalog helpers
+ * Fetches catalogs whose files are stamped with the distributor's email and
+ * the date; the stamping and the audit trail happen in an edge function, and
+ * the stored files are private, so the viewer shows, prints and saves the
+ * stamped copy
+ */
+
+/**
+ * Edge function that stamps and records a catalog copy
+ */
+const WATERMARK_DOWNLOAD_FUNCTION = 'catalog-watermark-download';
+
+/**
+ * Profile roles the edge function serves watermarked catalogs to
+ */
+const WATERMARK_ROLES: Profile['role'][] = ['distributor', 'admin'];
+
+/**
+ * Whether a signed-in user may open watermarked catalogs
+ */
+export const canOpenWatermarked = (role: Profile['role']): boolean => {
+  return WATERMARK_ROLES.includes(role);
+};
+
+/**
+ * Fetch a copy of a catalog stamped for the signed-in user; resolves with
+ * null when the catalog isn't live or doesn't have watermarked downloads
+ * (anymore), or the user isn't a distributor (anymore)
+ */
+export const fetchWatermarkedCatalog = async (catalogId: string): Promise<Blob | null> => {
+  const { data, error } = await supabase.functions.invoke<Blob>(WATERMARK_DOWNLOAD_FUNCTION, {
+    body: { catalogId },
+  });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError && [403, 404].includes(error.context.status)) return null;
+    throw error;
+  }
+
+  if (!(data instanceof Blob)) {
+    throw new Error('Watermarked download did not return a PDF');
+  }
+
+  return data;
+};
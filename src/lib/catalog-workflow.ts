@@ -0,0 +1,47 @@
+import type { CatalogStatus } from '@/types/database';
+
+/**
+ * Catalog editorial workflow
+ * Mirrors the status transitions enforced by the handle_catalog_status trigger
+ */
+
+/**
+ * Statuses in workflow order, used for the admin filters
+ */
+export const CATALOG_STATUSES: CatalogStatus[] = ['draft', 'in_review', 'published', 'archived'];
+
+/**
+ * Actions an admin can take on a catalog's status
+ */
+export type CatalogStatusAction = 'submit' | 'approve' | 'reject' | 'archive' | 'reopen';
+
+/**
+ * Source statuses and target status for each action
+ */
+export const CATALOG_STATUS_ACTIONS: Record<CatalogStatusAction, { from: CatalogStatus[]; to: CatalogStatus }> = {
+  submit: { from: ['draft'], to: 'in_review' },
+  approve: { from: ['in_review'], to: 'published' },
+  reject: { from: ['in_review'], to: 'draft' },
+  archive: { from: ['draft', 'published'], to: 'archived' },
+  reopen: { from: ['archived'], to: 'draft' },
+};
+
+/**
+ * Actions that are taken with a review comment
+ */
+export const REVIEW_ACTIONS: CatalogStatusAction[] = ['approve', 'reject'];
+
+/**
+ * Actions available for a catalog in the given status; the submitter of a
+ * catalog in review can't approve or reject it themselves
+ */
+export const getCatalogStatusActions = (
+  status: CatalogStatus,
+  isOwnSubmission = false
+): CatalogStatusAction[] => {
+  return (Object.keys(CATALOG_STATUS_ACTIONS) as CatalogStatusAction[]).filter(
+    (action) =>
+      CATALOG_STATUS_ACTIONS[action].from.includes(status) &&
+      !(isOwnSubmission && REVIEW_ACTIONS.includes(action))
+  );
+};
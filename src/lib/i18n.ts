@@ -10,6 +10,7 @@ import enCommon from '../locales/en/common.json';
 import enAdmin from '../locales/en/admin.json';
 import enMvs from '../locales/en/mvs.json';
 import enProducts from '../locales/en/products.json';
+import enAccount from '../locales/en/account.json';
 
 import arTranslation from '../locales/ar/translation.json';
 import arNavigation from '../locales/ar/navigation.json';
@@ -19,6 +20,7 @@ import arCommon from '../locales/ar/common.json';
 import arAdmin from '../locales/ar/admin.json';
 import arMvs from '../locales/ar/mvs.json';
 import arProducts from '../locales/ar/products.json';
+import arAccount from '../locales/ar/account.json';
 
 // Define resources
 const resources = {
@@ -31,6 +33,7 @@ const resources = {
     admin: enAdmin,
     mvs: enMvs,
     products: enProducts,
+    account: enAccount,
   },
   ar: {
     translation: arTranslation,
@@ -41,6 +44,7 @@ const resources = {
     admin: arAdmin,
     mvs: arMvs,
     products: arProducts,
+    account: arAccount,
   },
 };
 
@@ -61,7 +65,7 @@ i18n
     lng: getStoredLanguage(), // Language to use (from localStorage or default)
     fallbackLng: 'en', // Fallback language if translation is missing
     defaultNS: 'translation', // Default namespace
-    ns: ['translation', 'navigation', 'forms', 'catalogs', 'common', 'admin', 'mvs', 'products'], // Available namespaces
+    ns: ['translation', 'navigation', 'forms', 'catalogs', 'common', 'admin', 'mvs', 'products', 'account'], // Available namespaces
     
     interpolation: {
       escapeValue: false, // React already escapes values
@@ -0,0 +1,153 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+
+/**
+ * PDF printing
+ * Prints selected pages of a loaded PDF. Each page is drawn with pdf.js and
+ * placed as an image in a hidden frame, one page per sheet, which is then
+ * printed. This doesn't depend on the browser's own PDF support, so it works
+ * the same everywhere (and only the chosen pages are prepared).
+ */
+
+const PRINT_RESOLUTION = 150; // Dots per inch; sharp on paper without huge images
+const PDF_POINTS_PER_INCH = 72;
+const PRINT_FRAME_CLEANUP_MS = 60 * 1000; // Some browsers return from print() before the dialog closes
+
+/**
+ * Parse page ranges such as "1-3, 10" into page numbers, in page order
+ * without repeats. Ranges may be written backwards ("5-3"), an open end runs
+ * to the first or last page ("8-", "-3"), and Arabic digits and commas work too.
+ * Returns null when the input is empty or has anything outside 1..numPages.
+ */
+export const parsePageRanges = (input: string, numPages: number): number[] | null => {
+  const parts = input
+    .replace(/[\u0660-\u0669]/g, (digit) => String(digit.charCodeAt(0) - 0x0660))
+    .split(/[,\u060C;]/)
+    .map((part) => part.trim())
+    .filter(Boolean);
+  if (parts.length === 0) return null;
+
+  const pages = new Set<number>();
+
+  for (const part of parts) {
+    const match = part.match(/^(\d+)$|^(\d*)\s*[-\u2013]\s*(\d*)$/);
+    if (!match || (!match[1] && !match[2] && !match[3])) return null;
+
+    const [from, to] = match[1]
+      ? [Number(match[1]), Number(match[1])]
+      : [match[2] ? Number(match[2]) : 1, match[3] ? Number(match[3]) : numPages];
+
+    const [first, last] = from <= to ? [from, to] : [to, from];
+    if (first < 1 || last > numPages) return null;
+
+    for (let pageNumber = first; pageNumber <= last; pageNumber++) {
+      pages.add(pageNumber);
+    }
+  }
+
+  return Array.from(pages).sort((a, b) => a - b);
+};
+
+/**
+ * Draw one page into an image at print resolution
+ */
+const renderPageImage = async (pdf: PDFDocumentProxy, pageNumber: number, canvas: HTMLCanvasElement): Promise<Blob> => {
+  const page = await pdf.getPage(pageNumber);
+  const viewport = page.getViewport({ scale: PRINT_RESOLUTION / PDF_POINTS_PER_INCH });
+  canvas.width = Math.floor(viewport.width);
+  canvas.height = Math.floor(viewport.height);
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not available for printing');
+
+  // Paper is white; transparent areas would otherwise print as whatever the browser chooses
+  context.fillStyle = '#fff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  await page.render({ canvasContext: context, viewport, intent: 'print' }).promise;
+  page.cleanup();
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Failed to draw page for printing'))), 'image/png');
+  });
+};
+
+interface PrintPdfPagesOptions {
+  onProgress?: (pagesDone: number) => void; // Called after each page is prepared
+  signal?: AbortSignal; // Stops preparing pages; the print dialog is then not opened
+}
+
+/**
+ * Open the browser print dialog with the given pages (1-based) of a PDF
+ * Resolves once the dialog has been opened; rejects if the pages can't be
+ * prepared, or with an AbortError when the signal is aborted first
+ */
+export const printPdfPages = async (
+  pdf: PDFDocumentProxy,
+  pageNumbers: number[],
+  { onProgress, signal }: PrintPdfPagesOptions = {}
+): Promise<void> => {
+  const imageUrls: string[] = [];
+  const releaseImages = () => imageUrls.forEach((url) => URL.revokeObjectURL(url));
+
+  // Step 1: Draw the pages one at a time, reusing a single canvas
+  try {
+    const canvas = document.createElement('canvas');
+    for (const pageNumber of pageNumbers) {
+      if (signal?.aborted) throw new DOMException('Printing was cancelled', 'AbortError');
+      imageUrls.push(URL.createObjectURL(await renderPageImage(pdf, pageNumber, canvas)));
+      onProgress?.(imageUrls.length);
+    }
+    canvas.width = canvas.height = 0; // Free the canvas memory right away
+  } catch (error) {
+    releaseImages();
+    throw error;
+  }
+
+  // Step 2: Lay the images out one per sheet, sized like the first page
+  const firstPage = await pdf.getPage(pageNumbers[0]);
+  const { width, height } = firstPage.getViewport({ scale: 1 });
+
+  const frame = document.createElement('iframe');
+  frame.style.cssText = 'position: fixed; right: 0; bottom: 0; width: 0; height: 0; border: 0;';
+  frame.setAttribute('aria-hidden', 'true');
+  document.body.appendChild(frame);
+
+  const cleanup = () => {
+    frame.remove();
+    releaseImages();
+  };
+
+  try {
+    const printDocument = frame.contentDocument!;
+    const style = printDocument.createElement('style');
+    style.textContent = `
+      @page { size: ${width}pt ${height}pt; margin: 0; }
+      html, body { height: 100%; margin: 0; padding: 0; }
+      .page { display: flex; align-items: center; justify-content: center; width: 100%; height: 100%; overflow: hidden; break-after: page; page-break-after: always; }
+      .page:last-child { break-after: auto; page-break-after: auto; }
+      .page img { display: block; max-width: 100%; max-height: 100%; }
+    `;
+    printDocument.head.appendChild(style);
+
+    const images = imageUrls.map((url) => {
+      const container = printDocument.createElement('div');
+      container.className = 'page';
+      const image = printDocument.createElement('img');
+      image.src = url;
+      image.alt = '';
+      container.appendChild(image);
+      printDocument.body.appendChild(container);
+      return image;
+    });
+
+    // Every image must be decoded, or some browsers print blank sheets
+    await Promise.all(images.map((image) => image.decode()));
+    if (signal?.aborted) throw new DOMException('Printing was cancelled', 'AbortError');
+
+    frame.contentWindow!.focus();
+    frame.contentWindow!.print();
+    window.setTimeout(cleanup, PRINT_FRAME_CLEANUP_MS);
+  } catch (error) {
+    cleanup();
+    throw error;
+  }
+};
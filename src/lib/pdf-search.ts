@@ -0,0 +1,159 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { normalizeSearchText } from '@/lib/search-normalization';
+
+/**
+ * In-document PDF search
+ * Finds a query on every page of a loaded PDF, in English or Arabic, and
+ * reports each match as ranges of the page's text items. The viewer's text
+ * layer has one element per text item, so the ranges can be highlighted there.
+ */
+
+/**
+ * Shortest (normalized) query that is searched; single letters match almost every line
+ */
+export const MIN_PDF_SEARCH_LENGTH = 2;
+
+/**
+ * Part of a match inside one text item (end is exclusive)
+ */
+export interface PdfTextHighlight {
+  itemIndex: number;
+  start: number;
+  end: number;
+  selected?: boolean; // The match the viewer is currently showing
+}
+
+/**
+ * One occurrence of the query; may span several text items
+ */
+export interface PdfSearchMatch {
+  pageNumber: number;
+  highlights: PdfTextHighlight[];
+}
+
+/**
+ * Normalized page text, with the item and offset each character came from
+ */
+interface PdfPageTextIndex {
+  text: string;
+  positions: Array<[itemIndex: number, offset: number]>;
+}
+
+// Page text is extracted once per document and reused for every query
+const textIndexCache = new WeakMap<PDFDocumentProxy, Map<number, Promise<PdfPageTextIndex>>>();
+
+/**
+ * Normalize one character the way catalog search does; whitespace becomes a space
+ * May return no characters (diacritics) or several (ligatures)
+ */
+const normalizeCharacter = (character: string): string =>
+  /\s/.test(character) ? ' ' : normalizeSearchText(character.normalize('NFKC'));
+
+/**
+ * Normalize a query like page text, collapsing runs of whitespace
+ */
+const normalizeQuery = (query: string): string =>
+  Array.from(query, normalizeCharacter).join('').replace(/\s+/g, ' ').trim();
+
+/**
+ * Build the searchable text of a page
+ * Items ending a line are followed by a space, and whitespace runs count once
+ */
+const buildPageTextIndex = async (pdf: PDFDocumentProxy, pageNumber: number): Promise<PdfPageTextIndex> => {
+  const page = await pdf.getPage(pageNumber);
+  const textContent = await page.getTextContent();
+  const index: PdfPageTextIndex = { text: '', positions: [] };
+  const characters: string[] = [];
+
+  const append = (normalized: string, itemIndex: number, offset: number) => {
+    for (const character of normalized) {
+      if (character === ' ' && (characters.length === 0 || characters[characters.length - 1] === ' ')) continue;
+      characters.push(character);
+      index.positions.push([itemIndex, offset]);
+    }
+  };
+
+  // Same items, in the same order, as the text layer's elements
+  const items = textContent.items.filter((item): item is TextItem => 'str' in item);
+  items.forEach((item, itemIndex) => {
+    let offset = 0;
+    for (const character of item.str) {
+      append(normalizeCharacter(character), itemIndex, offset);
+      offset += character.length;
+    }
+    if (item.hasEOL) {
+      append(' ', itemIndex, item.str.length);
+    }
+  });
+
+  index.text = characters.join('');
+  return index;
+};
+
+/**
+ * Get a page's text index, extracting it on first use
+ */
+const getPageTextIndex = (pdf: PDFDocumentProxy, pageNumber: number): Promise<PdfPageTextIndex> => {
+  let pages = textIndexCache.get(pdf);
+  if (!pages) {
+    pages = new Map();
+    textIndexCache.set(pdf, pages);
+  }
+
+  let index = pages.get(pageNumber);
+  if (!index) {
+    index = buildPageTextIndex(pdf, pageNumber);
+    pages.set(pageNumber, index);
+    index.catch(() => pages!.delete(pageNumber));
+  }
+  return index;
+};
+
+/**
+ * Turn a match in the normalized text into per-item ranges
+ */
+const toHighlights = (index: PdfPageTextIndex, start: number, length: number): PdfTextHighlight[] => {
+  const highlights: PdfTextHighlight[] = [];
+
+  for (const [itemIndex, offset] of index.positions.slice(start, start + length)) {
+    const last = highlights[highlights.length - 1];
+    if (last && last.itemIndex === itemIndex) {
+      last.start = Math.min(last.start, offset);
+      last.end = Math.max(last.end, offset + 1);
+    } else {
+      highlights.push({ itemIndex, start: offset, end: offset + 1 });
+    }
+  }
+
+  return highlights;
+};
+
+/**
+ * Find every match of the query in a PDF, in page order
+ * Ignores case, Arabic diacritics and letter variants; stops early (returning
+ * what was found so far) once the signal is aborted
+ */
+export const searchPdf = async (
+  pdf: PDFDocumentProxy,
+  query: string,
+  signal?: AbortSignal
+): Promise<PdfSearchMatch[]> => {
+  const normalizedQuery = normalizeQuery(query);
+  if (normalizedQuery.length < MIN_PDF_SEARCH_LENGTH) return [];
+
+  const matches: PdfSearchMatch[] = [];
+
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    if (signal?.aborted) break;
+
+    const index = await getPageTextIndex(pdf, pageNumber);
+    let start = index.text.indexOf(normalizedQuery);
+    while (start !== -1) {
+      matches.push({ pageNumber, highlights: toHighlights(index, start, normalizedQuery.length) });
+      start = index.text.indexOf(normalizedQuery, start + normalizedQuery.length);
+    }
+  }
+
+  return matches;
+};
@@ -0,0 +1,48 @@
+import { pdfjsLib } from '@/lib/pdfjs';
+
+/**
+ * PDF text extraction
+ * Used to index catalog content so customers can search for product codes
+ * and sizes that only appear inside the PDFs
+ */
+
+/**
+ * Text of a single PDF page (1-based page number)
+ */
+export interface PdfPageText {
+  page_number: number;
+  content: string;
+}
+
+/**
+ * Extract the text of every page of a PDF file
+ * Whitespace is collapsed; pages without text (e.g. scanned images) are skipped
+ */
+export const extractPdfText = async (file: File | Blob): Promise<PdfPageText[]> => {
+  const data = new Uint8Array(await file.arrayBuffer());
+  const pdf = await pdfjsLib.getDocument({ data }).promise;
+  const pages: PdfPageText[] = [];
+
+  try {
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const textContent = await page.getTextContent();
+
+      const content = textContent.items
+        .map((item) => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : ''))
+        .join('')
+        .replace(/\s+/g, ' ')
+        .trim();
+
+      if (content) {
+        pages.push({ page_number: pageNumber, content });
+      }
+
+      page.cleanup();
+    }
+  } finally {
+    await pdf.destroy();
+  }
+
+  return pages;
+};
@@ -0,0 +1,49 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+
+/**
+ * PDF thumbnails
+ * Draws a page of a catalog PDF (normally the cover) into a thumbnail image
+ * in the browser, so uploaders don't have to make one themselves
+ */
+
+const THUMBNAIL_WIDTH = 600; // Pixels; sharp on catalog cards at 2x
+const THUMBNAIL_QUALITY = 0.85;
+
+/**
+ * Draw one page (1-based) of a PDF into a WebP image file named after the
+ * PDF. Browsers that can't encode WebP fall back to PNG.
+ */
+export const renderPdfThumbnail = async (
+  pdf: PDFDocumentProxy,
+  pageNumber: number,
+  pdfFileName: string
+): Promise<File> => {
+  const page = await pdf.getPage(pageNumber);
+  const viewport = page.getViewport({ scale: THUMBNAIL_WIDTH / page.getViewport({ scale: 1 }).width });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.floor(viewport.width);
+  canvas.height = Math.floor(viewport.height);
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not available for thumbnails');
+
+  // Transparent areas would otherwise turn black in formats without alpha
+  context.fillStyle = '#fff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  await page.render({ canvasContext: context, viewport }).promise;
+  page.cleanup();
+
+  const blob = await new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (result) => (result ? resolve(result) : reject(new Error('Failed to draw PDF thumbnail'))),
+      'image/webp',
+      THUMBNAIL_QUALITY
+    );
+  });
+  canvas.width = canvas.height = 0; // Free the canvas memory right away
+
+  const extension = blob.type === 'image/webp' ? 'webp' : 'png';
+  const baseName = pdfFileName.replace(/\.pdf$/i, '') || 'catalog';
+  return new File([blob], `${baseName}-page-${pageNumber}.${extension}`, { type: blob.type });
+};
@@ -0,0 +1,11 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+
+/**
+ * pdf.js setup
+ * Points pdf.js at its bundled worker so parsing runs off the main thread.
+ * Import pdf.js from here rather than from 'pdfjs-dist' directly.
+ */
+pdfjsLib.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+export { pdfjsLib };
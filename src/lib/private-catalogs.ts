@@ -0,0 +1,95 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase, getStorageLocation, STORAGE_BUCKETS } from '@/lib/supabase';
+import { getSessionId } from '@/lib/catalog-analytics';
+import type { Catalog, CatalogShareLink } from '@/types/database';
+
+/**
+ * Private catalog helpers
+ * Resolves PDFs in the private bucket to signed URLs and redeems the
+ * share links that give customers access to them
+ */
+
+/**
+ * Edge function that exchanges a share link token for a signed URL
+ */
+const SHARE_LINK_FUNCTION = 'catalog-share-link';
+
+/**
+ * How long signed URLs created for admins stay valid (seconds)
+ */
+const ADMIN_SIGNED_URL_TTL = 60 * 60;
+
+/**
+ * Where a share link stands; only active links can be opened
+ */
+export type ShareLinkState = 'active' | 'expired' | 'usedUp' | 'revoked';
+
+/**
+ * A redeemed share link: the catalog it opens and a short-lived PDF URL
+ */
+export interface RedeemedShareLink {
+  catalog: Pick<Catalog, 'id' | 'title_en' | 'title_ar'>;
+  signedUrl: string;
+  expiresAt: string; // When the signed URL stops working
+  linkExpiresAt: string; // When the share link stops working
+  downloadsRemaining: number | null; // Empty means unlimited
+}
+
+/**
+ * Public URL customers open to view a shared catalog
+ */
+export const getShareLinkUrl = (token: string): string => {
+  return `${window.location.origin}/share/${token}`;
+};
+
+/**
+ * Current state of a share link
+ */
+export const getShareLinkState = (link: CatalogShareLink): ShareLinkState => {
+  if (link.revoked_at) return 'revoked';
+  if (new Date(link.expires_at).getTime() <= Date.now()) return 'expired';
+  if (link.max_downloads !== null && link.download_count >= link.max_downloads) return 'usedUp';
+  return 'active';
+};
+
+/**
+ * Whether a PDF URL points into the private bucket
+ */
+export const isPrivatePdfUrl = (pdfUrl: string): boolean => {
+  return getStorageLocation(pdfUrl)?.bucket === STORAGE_BUCKETS.PRIVATE_CATALOGS;
+};
+
+/**
+ * URL an admin can open a catalog PDF with: files in the private bucket
+ * get a signed URL, public files are returned as they are
+ */
+export const resolveCatalogPdfUrl = async (pdfUrl: string): Promise<string> => {
+  const location = getStorageLocation(pdfUrl);
+  if (!location || location.bucket !== STORAGE_BUCKETS.PRIVATE_CATALOGS) return pdfUrl;
+
+  const { data, error } = await supabase.storage
+    .from(location.bucket)
+    .createSignedUrl(location.path, ADMIN_SIGNED_URL_TTL);
+
+  if (error) throw error;
+  return data.signedUrl;
+};
+
+/**
+ * Redeem a share link; counts as one download the first time in this browser
+ * visit and again each hour after (redeeming within the hour just renews the
+ * signed URL), and resolves with null when the link is unknown, revoked,
+ * expired or used up
+ */
+export const redeemShareLink = async (token: string): Promise<RedeemedShareLink | null> => {
+  const { data, error } = await supabase.functions.invoke<RedeemedShareLink>(SHARE_LINK_FUNCTION, {
+    body: { token, sessionId: getSessionId() },
+  });
+
+  if (error) {
+    if (error instanceof FunctionsHttpError && error.context.status === 404) return null;
+    throw error;
+  }
+
+  return data;
+};
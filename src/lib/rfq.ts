@@ -0,0 +1,62 @@
+import { supabase } from '@/lib/supabase';
+import type { RfqCartItem } from '@/contexts/RfqCartContext';
+import type { RfqStatus, SubmitRfqRequestArgs } from '@/types/database';
+
+/**
+ * Request-for-quotation helpers
+ * Submits the customer's quote cart and lists the statuses admins work through
+ */
+
+/**
+ * RFQ statuses in the order admins work through them
+ */
+export const RFQ_STATUSES: RfqStatus[] = ['new', 'in_progress', 'quoted', 'closed'];
+
+/**
+ * Customer details sent with a request
+ */
+export interface RfqCustomerDetails {
+  name: string;
+  company?: string;
+  email: string;
+  phone?: string;
+  message?: string;
+}
+
+/**
+ * Title of a cart line in the given language
+ */
+export const getRfqCartItemTitle = (item: RfqCartItem, language: string): string => {
+  if (!item.catalog) return item.description;
+  return language === 'ar' ? item.catalog.title_ar : item.catalog.title_en;
+};
+
+/**
+ * Submit the cart as one request; resolves with the new request id
+ */
+export const submitRfqRequest = async (
+  items: RfqCartItem[],
+  details: RfqCustomerDetails,
+  language: string
+): Promise<string> => {
+  const args: SubmitRfqRequestArgs = {
+    customer_name: details.name,
+    customer_email: details.email,
+    customer_company: details.company || null,
+    customer_phone: details.phone || null,
+    customer_message: details.message || null,
+    customer_language: language === 'ar' ? 'ar' : 'en',
+    // Catalog lines keep the title the customer saw
+    items: items.map((item) => ({
+      catalog_id: item.catalog?.id ?? null,
+      description: getRfqCartItemTitle(item, language),
+      quantity: item.quantity,
+    })),
+  };
+
+  // @ts-expect-error - Supabase type inference issue with Database generic
+  const { data, error } = await supabase.rpc('submit_rfq_request', args);
+
+  if (error) throw error;
+  return data as string;
+};
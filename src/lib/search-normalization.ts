@@ -0,0 +1,57 @@
+/**
+ * Search Text Normalization
+ *
+ * Normalizes English and Arabic text so searches match regardless of
+ * letter case, Arabic diacritics (tashkeel), tatweel, alef forms
+ * (أ/إ/آ/ٱ → ا), taa marbuta (ة → ه) and alef maqsura (ى → ي).
+ *
+ * Apply it to both the query and the text being searched. The database
+ * mirrors these rules in public.normalize_search_text() for catalog search.
+ */
+
+/**
+ * Arabic diacritics (fathatan through sukun, maddah, hamza marks),
+ * superscript alef and tatweel
+ */
+const ARABIC_DIACRITICS = /[\u064B-\u065F\u0670\u0640]/g;
+
+/**
+ * Letter variants folded onto a single base letter
+ */
+const ARABIC_LETTER_MAP: Record<string, string> = {
+  'أ': 'ا',
+  'إ': 'ا',
+  'آ': 'ا',
+  'ٱ': 'ا',
+  'ة': 'ه',
+  'ى': 'ي',
+};
+
+const ARABIC_LETTER_VARIANTS = new RegExp(`[${Object.keys(ARABIC_LETTER_MAP).join('')}]`, 'g');
+
+/**
+ * Normalize text for search comparison
+ */
+export const normalizeSearchText = (text: string | null | undefined): string => {
+  if (!text) return '';
+
+  return text
+    .toLowerCase()
+    .replace(ARABIC_DIACRITICS, '')
+    .replace(ARABIC_LETTER_VARIANTS, (letter) => ARABIC_LETTER_MAP[letter])
+    .trim();
+};
+
+/**
+ * Check whether any of the given fields contains the query after normalization
+ * An empty query matches everything
+ */
+export const matchesSearch = (
+  query: string,
+  ...fields: Array<string | null | undefined>
+): boolean => {
+  const normalizedQuery = normalizeSearchText(query);
+  if (!normalizedQuery) return true;
+
+  return fields.some((field) => normalizeSearchText(field).includes(normalizedQuery));
+};
@@ -67,6 +67,7 @@ export const isAuthenticated = async (): Promise<boolean> => {
 export const STORAGE_BUCKETS = {
   CATALOGS: 'catalogs',
   THUMBNAILS: 'thumbnails',
+  PRIVATE_CATALOGS: 'private-catalogs', // Not public; files are served through signed URLs
 } as const;
 
 /**
@@ -76,3 +77,15 @@ export const getPublicUrl = (bucket: string, path: string): string => {
   const { data } = supabase.storage.from(bucket).getPublicUrl(path);
   return data.publicUrl;
 };
+
+/**
+ * Helper function to get the bucket and path of a file from its storage URL
+ */
+export const getStorageLocation = (url: string): { bucket: string; path: string } | null => {
+  try {
+    const match = new URL(url).pathname.match(/\/storage\/v1\/object\/public\/([^/]+)\/(.+)$/);
+    return match ? { bucket: match[1], path: decodeURIComponent(match[2]) } : null;
+  } catch {
+    return null;
+  }
+};
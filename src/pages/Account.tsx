@@ -0,0 +1,387 @@
+import { useState, type ReactNode } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { format } from "date-fns";
+import { ar, enUS } from "date-fns/locale";
+import { toast } from "sonner";
+import { useAuth } from "@/contexts/AuthContext";
+import { useLanguage, type Language } from "@/contexts/LanguageContext";
+import {
+  fetchDownloadHistory,
+  fetchFavoriteCatalogs,
+  fetchOwnContactSubmissions,
+  fetchOwnRfqRequests,
+  fetchRecentlyViewedCatalogs,
+} from "@/lib/account";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AlertCircle, Clock, Download, Heart, Loader2 } from "lucide-react";
+import type {
+  CatalogWithCategory,
+  ContactSubmission,
+  RfqRequestWithItems,
+  RfqStatus,
+} from "@/types/database";
+import { EmptyState } from "@/components/EmptyState";
+import FavoriteButton from "@/components/FavoriteButton";
+import Navigation from "@/components/Navigation";
+import Footer from "@/components/Footer";
+import SkipNavigation from "@/components/SkipNavigation";
+import { SEO } from "@/components/SEO";
+
+/**
+ * Status badge colors, following the admin quote requests page
+ */
+const RFQ_STATUS_CLASSES: Record<RfqStatus, string> = {
+  new: "bg-orange-100 text-orange-800 dark:bg-orange-900/20 dark:text-orange-400",
+  in_progress: "bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400",
+  quoted: "bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400",
+  closed: "bg-muted text-muted-foreground",
+};
+
+const CONTACT_STATUS_CLASSES: Record<ContactSubmission["status"], string> = {
+  new: "bg-orange-100 text-orange-800 dark:bg-orange-900/20 dark:text-orange-400",
+  read: "bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400",
+  responded: "bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400",
+};
+
+const LANGUAGES: Language[] = ["en", "ar"];
+
+/**
+ * Account Page
+ * Customer area at /account: favorite catalogs, recently viewed catalogs,
+ * download history, the customer's own quote requests and contact
+ * messages, and their preferred language
+ */
+const Account = () => {
+  const { t } = useTranslation();
+  const { language } = useLanguage();
+  const { user, updatePreferredLanguage } = useAuth();
+  const navigate = useNavigate();
+  const isRTL = language === "ar";
+  const userId = user!.id; // The route is protected, so a user is always signed in
+
+  const [preferredLanguage, setPreferredLanguage] = useState<Language>(user!.preferredLanguage ?? language);
+  const [isSavingLanguage, setIsSavingLanguage] = useState(false);
+
+  // Fetch favorites (shares its key with the favorite buttons' invalidation)
+  const favoritesQuery = useQuery({
+    queryKey: ["account-favorites", userId],
+    queryFn: () => fetchFavoriteCatalogs(userId),
+  });
+
+  // Fetch recently viewed catalogs
+  const recentQuery = useQuery({
+    queryKey: ["account-recently-viewed", userId],
+    queryFn: () => fetchRecentlyViewedCatalogs(userId),
+  });
+
+  // Fetch download history
+  const downloadsQuery = useQuery({
+    queryKey: ["account-downloads", userId],
+    queryFn: () => fetchDownloadHistory(userId),
+  });
+
+  // Fetch the customer's own quote requests and contact messages
+  const rfqQuery = useQuery<RfqRequestWithItems[]>({
+    queryKey: ["account-rfq-requests", userId],
+    queryFn: () => fetchOwnRfqRequests(userId),
+  });
+
+  const contactQuery = useQuery<ContactSubmission[]>({
+    queryKey: ["account-contact-submissions", userId],
+    queryFn: () => fetchOwnContactSubmissions(userId),
+  });
+
+  const hasError = [favoritesQuery, recentQuery, downloadsQuery, rfqQuery, contactQuery].some(
+    (query) => query.error
+  );
+
+  // Format a date based on language
+  const formatDate = (dateString: string) => {
+    return format(new Date(dateString), "PPP", { locale: isRTL ? ar : enUS });
+  };
+
+  // Get catalog title in selected language
+  const getCatalogTitle = (catalog: Pick<CatalogWithCategory, "title_en" | "title_ar">): string => {
+    return isRTL ? catalog.title_ar : catalog.title_en;
+  };
+
+  /**
+   * Save the preferred language on the profile
+   */
+  const handleSaveLanguage = async () => {
+    setIsSavingLanguage(true);
+    try {
+      await updatePreferredLanguage(preferredLanguage);
+      toast.success(t("account:settings.saved"));
+    } catch {
+      toast.error(t("account:settings.error"));
+    } finally {
+      setIsSavingLanguage(false);
+    }
+  };
+
+  const browseAction = {
+    label: t("account:browseCatalogs"),
+    onClick: () => navigate("/catalogs"),
+  };
+
+  const listSkeleton = (
+    <div className="space-y-3" role="status" aria-label={t("catalogs:loading")}>
+      {[1, 2, 3].map((i) => (
+        <Skeleton key={i} className="h-20 w-full rounded-xl" />
+      ))}
+    </div>
+  );
+
+  /**
+   * A catalog row linking to its detail page, with a dated note and extras
+   */
+  const renderCatalogRow = (
+    key: string,
+    catalog: CatalogWithCategory,
+    note: string,
+    extra?: ReactNode
+  ) => (
+    <li key={key} className="flex items-center gap-4 rounded-xl border border-border bg-card p-3">
+      <img
+        src={catalog.thumbnail_url}
+        alt=""
+        className="h-16 w-24 flex-shrink-0 rounded-md bg-muted object-cover"
+        loading="lazy"
+      />
+      <div className="min-w-0 flex-1">
+        <Link to={`/catalogs/${catalog.slug}`} className="font-semibold hover:text-primary transition-fast line-clamp-1">
+          {getCatalogTitle(catalog)}
+        </Link>
+        <p className="text-sm text-muted-foreground">
+          {isRTL ? catalog.category.name_ar : catalog.category.name_en} · {note}
+        </p>
+      </div>
+      {extra}
+    </li>
+  );
+
+  return (
+    <div className="min-h-screen">
+      <SEO title={t("account:title")} noindex />
+      <SkipNavigation />
+      <Navigation onContactClick={() => {}} />
+      <main id="main-content" className="pt-24 pb-20">
+        <div className="container mx-auto px-4">
+          <div className="max-w-4xl mx-auto">
+            <h1 className="text-4xl md:text-5xl font-bold mb-4 brand-serif">{t("account:title")}</h1>
+            <p className="text-xl text-muted-foreground mb-8">
+              {t("account:subtitle", { email: user!.email, defaultValue: "Signed in as {{email}}" })}
+            </p>
+
+            {/* Error Alert */}
+            {hasError && (
+              <Alert variant="destructive" className="mb-6" role="alert">
+                <AlertCircle className="h-4 w-4" aria-hidden="true" />
+                <AlertDescription>{t("account:loadError")}</AlertDescription>
+              </Alert>
+            )}
+
+            <Tabs defaultValue="favorites">
+              <TabsList className="mb-6 flex h-auto flex-wrap justify-start">
+                <TabsTrigger value="favorites">{t("account:tabs.favorites")}</TabsTrigger>
+                <TabsTrigger value="recent">{t("account:tabs.recent")}</TabsTrigger>
+                <TabsTrigger value="downloads">{t("account:tabs.downloads")}</TabsTrigger>
+                <TabsTrigger value="requests">{t("account:tabs.requests")}</TabsTrigger>
+                <TabsTrigger value="settings">{t("account:tabs.settings")}</TabsTrigger>
+              </TabsList>
+
+              {/* Favorites */}
+              <TabsContent value="favorites">
+                {favoritesQuery.isLoading ? (
+                  listSkeleton
+                ) : favoritesQuery.data?.length ? (
+                  <ul className="space-y-3">
+                    {favoritesQuery.data.map((favorite) =>
+                      renderCatalogRow(
+                        favorite.catalog_id,
+                        favorite.catalog!,
+                        t("account:favorites.savedOn", { date: formatDate(favorite.created_at), defaultValue: "Saved on {{date}}" }),
+                        <FavoriteButton catalogId={favorite.catalog_id} variant="ghost" />
+                      )
+                    )}
+                  </ul>
+                ) : (
+                  <EmptyState
+                    icon={Heart}
+                    title={t("account:favorites.empty")}
+                    description={t("account:favorites.emptyDescription")}
+                    action={browseAction}
+                  />
+                )}
+              </TabsContent>
+
+              {/* Recently Viewed */}
+              <TabsContent value="recent">
+                {recentQuery.isLoading ? (
+                  listSkeleton
+                ) : recentQuery.data?.length ? (
+                  <ul className="space-y-3">
+                    {recentQuery.data.map((event) =>
+                      renderCatalogRow(
+                        event.id,
+                        event.catalog!,
+                        t("account:recent.viewedOn", { date: formatDate(event.created_at), defaultValue: "Viewed on {{date}}" })
+                      )
+                    )}
+                  </ul>
+                ) : (
+                  <EmptyState
+                    icon={Clock}
+                    title={t("account:recent.empty")}
+                    description={t("account:recent.emptyDescription")}
+                    action={browseAction}
+                  />
+                )}
+              </TabsContent>
+
+              {/* Download History */}
+              <TabsContent value="downloads">
+                {downloadsQuery.isLoading ? (
+                  listSkeleton
+                ) : downloadsQuery.data?.length ? (
+                  <ul className="space-y-3">
+                    {downloadsQuery.data.map((event) =>
+                      renderCatalogRow(
+                        event.id,
+                        event.catalog!,
+                        t("account:downloads.downloadedOn", { date: formatDate(event.created_at), defaultValue: "Downloaded on {{date}}" }),
+                        event.bundle_id ? <Badge variant="secondary">{t("account:downloads.inBundle")}</Badge> : undefined
+                      )
+                    )}
+                  </ul>
+                ) : (
+                  <EmptyState
+                    icon={Download}
+                    title={t("account:downloads.empty")}
+                    description={t("account:downloads.emptyDescription")}
+                    action={browseAction}
+                  />
+                )}
+              </TabsContent>
+
+              {/* Quote Requests and Contact Messages */}
+              <TabsContent value="requests" className="space-y-8">
+                <section aria-labelledby="account-quotes">
+                  <h2 id="account-quotes" className="text-2xl font-bold mb-4">{t("account:requests.quotes")}</h2>
+                  {rfqQuery.isLoading ? (
+                    listSkeleton
+                  ) : rfqQuery.data?.length ? (
+                    <ul className="space-y-3">
+                      {rfqQuery.data.map((request) => (
+                        <li key={request.id} className="rounded-xl border border-border bg-card p-4">
+                          <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                            <p className="text-sm text-muted-foreground">
+                              {t("account:requests.sentOn", { date: formatDate(request.created_at), defaultValue: "Sent on {{date}}" })}
+                            </p>
+                            <Badge variant="secondary" className={RFQ_STATUS_CLASSES[request.status]}>
+                              {t(`account:requests.rfqStatus.${request.status}`)}
+                            </Badge>
+                          </div>
+                          <ul className="space-y-1 text-sm" aria-label={t("account:requests.items")}>
+                            {request.items.map((item) => (
+                              <li key={item.id} className="flex justify-between gap-4">
+                                <span>
+                                  {item.catalog ? (
+                                    <Link to={`/catalogs/${item.catalog.slug}`} className="hover:text-primary transition-fast">
+                                      {getCatalogTitle(item.catalog)}
+                                    </Link>
+                                  ) : (
+                                    item.description
+                                  )}
+                                </span>
+                                <span className="text-muted-foreground whitespace-nowrap">
+                                  {t("account:requests.quantity", { count: item.quantity, defaultValue: "Qty {{count}}" })}
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-muted-foreground">{t("account:requests.noQuotes")}</p>
+                  )}
+                </section>
+
+                <section aria-labelledby="account-messages">
+                  <h2 id="account-messages" className="text-2xl font-bold mb-4">{t("account:requests.contact")}</h2>
+                  {contactQuery.isLoading ? (
+                    listSkeleton
+                  ) : contactQuery.data?.length ? (
+                    <ul className="space-y-3">
+                      {contactQuery.data.map((submission) => (
+                        <li key={submission.id} className="rounded-xl border border-border bg-card p-4">
+                          <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+                            <p className="font-semibold">{submission.subject}</p>
+                            <Badge variant="secondary" className={CONTACT_STATUS_CLASSES[submission.status]}>
+                              {t(`account:requests.contactStatus.${submission.status}`)}
+                            </Badge>
+                          </div>
+                          <p className="text-sm line-clamp-3 whitespace-pre-line">{submission.message}</p>
+                          <p className="text-xs text-muted-foreground mt-2">
+                            {t("account:requests.sentOn", { date: formatDate(submission.created_at), defaultValue: "Sent on {{date}}" })}
+                          </p>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-muted-foreground">{t("account:requests.noMessages")}</p>
+                  )}
+                </section>
+              </TabsContent>
+
+              {/* Settings */}
+              <TabsContent value="settings">
+                <Card>
+                  <CardHeader>
+                    <CardTitle>{t("account:settings.language")}</CardTitle>
+                    <CardDescription>{t("account:settings.languageDescription")}</CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-6">
+                    <RadioGroup
+                      value={preferredLanguage}
+                      onValueChange={(value) => setPreferredLanguage(value as Language)}
+                      aria-label={t("account:settings.language")}
+                    >
+                      {LANGUAGES.map((lang) => (
+                        <div key={lang} className="flex items-center gap-3">
+                          <RadioGroupItem value={lang} id={`preferred-language-${lang}`} />
+                          <Label htmlFor={`preferred-language-${lang}`}>{t(`account:settings.${lang}`)}</Label>
+                        </div>
+                      ))}
+                    </RadioGroup>
+                    <Button
+                      onClick={handleSaveLanguage}
+                      disabled={isSavingLanguage || preferredLanguage === user!.preferredLanguage}
+                    >
+                      {isSavingLanguage && <Loader2 className="h-4 w-4 mr-2 rtl:mr-0 rtl:ml-2 animate-spin" aria-hidden="true" />}
+                      {isSavingLanguage ? t("account:settings.saving") : t("account:settings.save")}
+                    </Button>
+                  </CardContent>
+                </Card>
+              </TabsContent>
+            </Tabs>
+          </div>
+        </div>
+      </main>
+      <Footer />
+    </div>
+  );
+};
+
+export default Account;
@@ -1,7 +1,7 @@
 import { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useLocation, useNavigate, type Location } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
-import { useAuth } from '@/contexts/AuthContext';
+import { useAuth, type User } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -18,6 +18,7 @@ import { SEO } from '@/components/SEO';
 const Auth = () => {
   const { t } = useTranslation();
   const navigate = useNavigate();
+  const location = useLocation();
   const { signIn, signUp, signInWithGoogle } = useAuth();
   const { toast } = useToast();
 
@@ -65,6 +66,15 @@ const Auth = () => {
     return undefined;
   };
 
+  /**
+   * Go to the page that asked for sign in, otherwise to the admin
+   * dashboard for admins and the account area for customers
+   */
+  const navigateAfterAuth = (signedInUser: User | null) => {
+    const from = (location.state as { from?: Location } | null)?.from?.pathname;
+    navigate(from ?? (signedInUser?.role === 'admin' ? '/admin/dashboard' : '/account'), { replace: true });
+  };
+
   /**
    * Handle login form submission
    */
@@ -88,12 +98,12 @@ const Auth = () => {
     setLoginLoading(true);
 
     try {
-      await signIn(loginEmail, loginPassword);
+      const signedInUser = await signIn(loginEmail, loginPassword);
       toast({
         title: 'Success',
         description: 'You have successfully logged in',
       });
-      navigate('/admin/dashboard');
+      navigateAfterAuth(signedInUser);
     } catch (error) {
       toast({
         variant: 'destructive',
@@ -128,12 +138,12 @@ const Auth = () => {
     setSignUpLoading(true);
 
     try {
-      await signUp(signUpEmail, signUpPassword);
+      const signedInUser = await signUp(signUpEmail, signUpPassword);
       toast({
         title: 'Success',
         description: 'Your account has been created successfully',
       });
-      navigate('/admin/dashboard');
+      navigateAfterAuth(signedInUser);
     } catch (error) {
       toast({
         variant: 'destructive',
@@ -154,7 +164,8 @@ const Auth = () => {
     try {
       await signInWithGoogle();
       // Note: User will be redirected to Google OAuth consent screen
-      // After successful auth, they will be redirected back to /admin/dashboard
+      // After successful auth, they will be redirected back to /admin/dashboard,
+      // which sends customers on to /account
     } catch (error) {
       toast({
         variant: 'destructive',
@@ -176,7 +187,7 @@ const Auth = () => {
         <CardHeader className="space-y-1">
           <CardTitle className="text-2xl font-bold text-center">Welcome</CardTitle>
           <CardDescription className="text-center">
-            Sign in to access the admin dashboard
+            Sign in to your account
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -0,0 +1,93 @@
+import { useState } from "react";
+import { useParams, Link, Navigate } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { getCampaignTargetPath, openCampaignLink } from "@/lib/catalog-campaigns";
+import type { OpenedCatalogCampaignLink } from "@/types/database";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertCircle, Loader2, QrCode } from "lucide-react";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { EmptyState } from "@/components/EmptyState";
+import Navigation from "@/components/Navigation";
+import Footer from "@/components/Footer";
+import ContactModal from "@/components/ContactModal";
+import SkipNavigation from "@/components/SkipNavigation";
+import { SEO } from "@/components/SEO";
+
+/**
+ * Campaign Link Page
+ * Opens a short link from a QR code at /c/:code: records the scan and
+ * continues to the catalog, so the rest of the visit counts for the campaign
+ */
+const CampaignLink = () => {
+  const { code } = useParams<{ code: string }>();
+  const { t } = useTranslation();
+  const { language } = useLanguage();
+  const [contactOpen, setContactOpen] = useState(false);
+
+  // Each open counts as a scan, so open once per visit
+  const { data: campaignLink, isLoading, error } = useQuery<OpenedCatalogCampaignLink | null>({
+    queryKey: ['campaign-link', code],
+    queryFn: () => openCampaignLink(code!, language),
+    enabled: !!code,
+    staleTime: Infinity,
+    retry: false,
+    refetchOnWindowFocus: false,
+    refetchOnReconnect: false,
+  });
+
+  if (campaignLink) {
+    return <Navigate to={getCampaignTargetPath(campaignLink)} replace />;
+  }
+
+  const isInvalid = !isLoading && !error;
+
+  return (
+    <div className="min-h-screen">
+      <SEO title={t('catalogs:campaign.title')} noindex />
+      <SkipNavigation />
+      <Navigation onContactClick={() => setContactOpen(true)} />
+      <main id="main-content" className="pt-24 pb-20">
+        <div className="container mx-auto px-4">
+          <div className="max-w-6xl mx-auto">
+            {/* Loading State */}
+            {isLoading && (
+              <div className="flex flex-col items-center gap-3 py-16" role="status">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" aria-hidden="true" />
+                <p className="text-sm text-muted-foreground">{t('catalogs:campaign.opening')}</p>
+              </div>
+            )}
+
+            {/* Error Alert */}
+            {error && (
+              <Alert variant="destructive" className="mb-6" role="alert">
+                <AlertCircle className="h-4 w-4" aria-hidden="true" />
+                <AlertDescription>{t('catalogs:campaign.error')}</AlertDescription>
+              </Alert>
+            )}
+
+            {/* Invalid Link State */}
+            {(isInvalid || error) && (
+              <div className="space-y-6 text-center">
+                {isInvalid && (
+                  <EmptyState
+                    icon={QrCode}
+                    title={t('catalogs:campaign.invalidTitle')}
+                    description={t('catalogs:campaign.invalidDescription')}
+                  />
+                )}
+                <Link to="/catalogs" className="text-primary underline hover:text-primary/90">
+                  {t('catalogs:campaign.browseCatalogs')}
+                </Link>
+              </div>
+            )}
+          </div>
+        </div>
+      </main>
+      <Footer />
+      <ContactModal open={contactOpen} onOpenChange={setContactOpen} />
+    </div>
+  );
+};
+
+export default CampaignLink;
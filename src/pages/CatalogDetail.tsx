@@ -0,0 +1,342 @@
+import { lazy, Suspense, useEffect, useRef, useState, type MouseEvent } from "react";
+import { useParams, Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { format } from "date-fns";
+import { ar, enUS } from "date-fns/locale";
+import { supabase } from "@/lib/supabase";
+import { formatFileSize } from "@/lib/utils";
+import { trackCatalogEvent } from "@/lib/catalog-analytics";
+import { hasCapturedLead } from "@/lib/catalog-leads";
+import { isPrivatePdfUrl } from "@/lib/private-catalogs";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Breadcrumb,
+  BreadcrumbItem,
+  BreadcrumbLink,
+  BreadcrumbList,
+  BreadcrumbPage,
+  BreadcrumbSeparator,
+} from "@/components/ui/breadcrumb";
+import { Button } from "@/components/ui/button";
+import { AlertCircle, FileText, FolderOpen, HardDrive, Calendar, Download, ExternalLink } from "lucide-react";
+import type { CatalogVersion, CatalogWithCategory } from "@/types/database";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { EmptyState } from "@/components/EmptyState";
+import Navigation from "@/components/Navigation";
+import Footer from "@/components/Footer";
+import SkipNavigation from "@/components/SkipNavigation";
+import LeadCaptureDialog from "@/components/LeadCaptureDialog";
+import AddToQuoteButton from "@/components/AddToQuoteButton";
+import FavoriteButton from "@/components/FavoriteButton";
+import RelatedCatalogs from "@/components/RelatedCatalogs";
+import ContactModal from "@/components/ContactModal";
+import { SEO } from "@/components/SEO";
+
+// Lazy load PDFViewer component (only loaded when a catalog is shown)
+const PDFViewer = lazy(() => import("@/components/PDFViewer").then(module => ({ default: module.PDFViewer })));
+
+// Characters slugify() keeps: Latin letters, digits, Arabic letters and digits, hyphens
+const CATALOG_SLUG_PATTERN = /^[a-z0-9\u0621-\u064A\u0660-\u0669-]+$/;
+
+/**
+ * Catalog Detail Page
+ * Deep-linkable view of a single catalog at /catalogs/:slug (English or Arabic slug) with metadata and an embedded PDF viewer
+ */
+const CatalogDetail = () => {
+  const { slug } = useParams<{ slug: string }>();
+  const { t } = useTranslation();
+  const { language } = useLanguage();
+  const isRTL = language === 'ar';
+  const [contactOpen, setContactOpen] = useState(false);
+
+  // Fetch the catalog with its category by its English or Arabic slug
+  const { data: catalog, isLoading, error } = useQuery<CatalogWithCategory | null>({
+    queryKey: ['public-catalog', slug],
+    queryFn: async () => {
+      // Anything else can't be a slug, and mustn't reach the filter below
+      if (!CATALOG_SLUG_PATTERN.test(slug!)) return null;
+
+      // Mirror the public visibility rule so admins don't land on scheduled, expired or private catalogs
+      const now = new Date().toISOString();
+      const { data, error } = await supabase
+        .from('catalogs')
+        .select(`
+          *,
+          category:categories(*)
+        `)
+        .or(`slug.eq.${slug},slug_ar.eq.${slug}`)
+        .eq('published', true)
+        .eq('private', false)
+        .or(`publish_at.is.null,publish_at.lte.${now}`)
+        .or(`unpublish_at.is.null,unpublish_at.gt.${now}`)
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as CatalogWithCategory | null;
+    },
+    enabled: !!slug,
+    staleTime: 5 * 60 * 1000, // Cache for 5 minutes
+  });
+
+  // Fetch archived editions of the catalog (files replaced by newer uploads)
+  const { data: archivedEditions } = useQuery<Pick<CatalogVersion, 'id' | 'version_number' | 'pdf_url' | 'file_size' | 'created_at'>[]>({
+    queryKey: ['public-catalog-versions', catalog?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('catalog_versions')
+        .select('id, version_number, pdf_url, file_size, created_at')
+        .eq('catalog_id', catalog!.id)
+        .order('version_number', { ascending: false });
+
+      if (error) throw error;
+      // Files in the private bucket can't be opened by visitors
+      return (data as Pick<CatalogVersion, 'id' | 'version_number' | 'pdf_url' | 'file_size' | 'created_at'>[])
+        .filter((edition) => !isPrivatePdfUrl(edition.pdf_url));
+    },
+    enabled: !!catalog,
+    staleTime: 5 * 60 * 1000, // Cache for 5 minutes
+  });
+
+  // Record one view per catalog shown (not on language switches or refetches)
+  const trackedCatalogIdRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (catalog && trackedCatalogIdRef.current !== catalog.id) {
+      trackedCatalogIdRef.current = catalog.id;
+      void trackCatalogEvent(catalog.id, 'view', language);
+    }
+  }, [catalog, language]);
+
+  // Archived edition waiting for lead details before it downloads (gated catalogs)
+  const [pendingEditionUrl, setPendingEditionUrl] = useState<string | null>(null);
+
+  const handleEditionDownload = (event: MouseEvent<HTMLAnchorElement>, pdfUrl: string) => {
+    if (!catalog) return;
+    if (catalog.gated && !hasCapturedLead(catalog.id)) {
+      event.preventDefault();
+      setPendingEditionUrl(pdfUrl);
+      return;
+    }
+    void trackCatalogEvent(catalog.id, 'download', language);
+  };
+
+  // Download the archived edition once its lead details are in
+  const handleEditionLeadCaptured = () => {
+    if (!catalog || !pendingEditionUrl) return;
+    void trackCatalogEvent(catalog.id, 'download', language);
+    window.open(pendingEditionUrl, '_blank', 'noopener,noreferrer');
+  };
+
+  const isNotFound = !isLoading && !error && !catalog;
+  const title = catalog ? (isRTL ? catalog.title_ar : catalog.title_en) : '';
+  const categoryName = catalog ? (isRTL ? catalog.category.name_ar : catalog.category.name_en) : '';
+
+  // Format upload date based on language
+  const formatDate = (dateString: string) => {
+    return format(new Date(dateString), 'PP', { locale: isRTL ? ar : enUS });
+  };
+
+  return (
+    <div className="min-h-screen">
+      {catalog ? (
+        <SEO
+          title={title}
+          description={t('catalogs:detail.seoDescription', {
+            title,
+            category: categoryName,
+            defaultValue: '{{title}} - {{category}} product catalog from MST-KSA. View and download the full PDF.',
+          })}
+          ogImage={catalog.thumbnail_url}
+          ogType="article"
+        />
+      ) : (
+        <SEO
+          title={t('catalogs:detail.notFoundTitle')}
+          noindex={isNotFound}
+        />
+      )}
+      <SkipNavigation />
+      <Navigation onContactClick={() => setContactOpen(true)} />
+      <main id="main-content" className="pt-24 pb-20">
+        <div className="container mx-auto px-4">
+          <div className="max-w-6xl mx-auto">
+            {/* Breadcrumb */}
+            <Breadcrumb className="mb-6">
+              <BreadcrumbList>
+                <BreadcrumbItem>
+                  <BreadcrumbLink asChild>
+                    <Link to="/catalogs">{t('catalogs:title')}</Link>
+                  </BreadcrumbLink>
+                </BreadcrumbItem>
+                {catalog && (
+                  <>
+                    <BreadcrumbSeparator className="rtl:[&>svg]:rotate-180" />
+                    <BreadcrumbItem>
+                      <BreadcrumbLink asChild>
+                        <Link to={`/catalogs?category=${catalog.category.slug}`}>{categoryName}</Link>
+                      </BreadcrumbLink>
+                    </BreadcrumbItem>
+                    <BreadcrumbSeparator className="rtl:[&>svg]:rotate-180" />
+                    <BreadcrumbItem>
+                      <BreadcrumbPage>{title}</BreadcrumbPage>
+                    </BreadcrumbItem>
+                  </>
+                )}
+              </BreadcrumbList>
+            </Breadcrumb>
+
+            {/* Error Alert */}
+            {error && (
+              <Alert variant="destructive" className="mb-6" role="alert">
+                <AlertCircle className="h-4 w-4" aria-hidden="true" />
+                <AlertDescription>
+                  {t('catalogs:error', { defaultValue: 'Failed to load catalogs. Please try again.' })}
+                </AlertDescription>
+              </Alert>
+            )}
+
+            {/* Loading State */}
+            {isLoading && (
+              <div className="space-y-4" role="status" aria-label={t('catalogs:loading')}>
+                <Skeleton className="h-10 w-2/3" />
+                <Skeleton className="h-5 w-1/3" />
+                <Skeleton className="h-[60vh] w-full rounded-xl" />
+              </div>
+            )}
+
+            {/* Not Found State */}
+            {isNotFound && (
+              <div className="space-y-6 text-center">
+                <EmptyState
+                  icon={FileText}
+                  title={t('catalogs:detail.notFoundTitle')}
+                  description={t('catalogs:detail.notFoundDescription')}
+                />
+                <Link to="/catalogs" className="text-primary underline hover:text-primary/90">
+                  {t('catalogs:detail.backToCatalogs')}
+                </Link>
+              </div>
+            )}
+
+            {/* Catalog Detail */}
+            {catalog && (
+              <article className="space-y-8">
+                <header>
+                  <h1 className="text-4xl md:text-5xl font-bold mb-4 brand-serif">{title}</h1>
+                  <dl className="flex flex-wrap gap-x-8 gap-y-3 text-muted-foreground">
+                    <div className="flex items-center gap-2">
+                      <FolderOpen className="h-4 w-4" aria-hidden="true" />
+                      <dt className="sr-only">{t('catalogs:category')}</dt>
+                      <dd>
+                        <Link
+                          to={`/catalogs?category=${catalog.category.slug}`}
+                          className="text-primary hover:underline"
+                        >
+                          {categoryName}
+                        </Link>
+                      </dd>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <HardDrive className="h-4 w-4" aria-hidden="true" />
+                      <dt className="sr-only">{t('catalogs:fileSize')}</dt>
+                      <dd>{formatFileSize(catalog.file_size)}</dd>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Calendar className="h-4 w-4" aria-hidden="true" />
+                      <dt className="sr-only">{t('catalogs:uploadedOn')}</dt>
+                      <dd>{formatDate(catalog.created_at)}</dd>
+                    </div>
+                  </dl>
+                  <div className="flex items-center gap-2 mt-6">
+                    <AddToQuoteButton catalog={catalog} size="default" />
+                    <FavoriteButton catalogId={catalog.id} size="default" />
+                  </div>
+                </header>
+
+                {/* Embedded PDF Viewer */}
+                <Suspense fallback={<Skeleton className="h-[80vh] w-full rounded-xl" />}>
+                  <PDFViewer
+                    key={catalog.id}
+                    pdfUrl={catalog.pdf_url}
+                    title={title}
+                    catalogId={catalog.id}
+                    gated={catalog.gated}
+                    watermarked={catalog.watermark_downloads}
+                    syncPageWithUrl
+                    embedded
+                  />
+                </Suspense>
+
+                {/* Archived Editions (their files aren't stamped, so not for watermarked catalogs) */}
+                {!catalog.watermark_downloads && archivedEditions && archivedEditions.length > 0 && (
+                  <section aria-labelledby="archived-editions-title">
+                    <h2 id="archived-editions-title" className="text-2xl font-bold mb-2">
+                      {t('catalogs:detail.archivedEditions.title')}
+                    </h2>
+                    <p className="text-muted-foreground mb-4">
+                      {t('catalogs:detail.archivedEditions.description')}
+                    </p>
+                    <ul className="divide-y rounded-xl border">
+                      {archivedEditions.map((edition) => (
+                        <li key={edition.id} className="flex flex-wrap items-center justify-between gap-4 p-4">
+                          <div>
+                            <p className="font-medium">
+                              {t('catalogs:detail.archivedEditions.edition', {
+                                version: edition.version_number,
+                                defaultValue: 'Edition {{version}}',
+                              })}
+                            </p>
+                            <p className="text-sm text-muted-foreground">
+                              {t('catalogs:detail.archivedEditions.replacedOn', {
+                                date: formatDate(edition.created_at),
+                                defaultValue: 'Replaced on {{date}}',
+                              })}
+                              {' · '}
+                              {formatFileSize(edition.file_size)}
+                            </p>
+                          </div>
+                          <div className="flex gap-2">
+                            <Button variant="outline" size="sm" className="gap-1" asChild>
+                              <a href={edition.pdf_url} target="_blank" rel="noopener noreferrer">
+                                <ExternalLink className="h-4 w-4" aria-hidden="true" />
+                                {t('catalogs:viewPDF')}
+                              </a>
+                            </Button>
+                            <Button variant="outline" size="sm" className="gap-1" asChild>
+                              <a href={edition.pdf_url} download onClick={(event) => handleEditionDownload(event, edition.pdf_url)}>
+                                <Download className="h-4 w-4" aria-hidden="true" />
+                                {t('catalogs:download')}
+                              </a>
+                            </Button>
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  </section>
+                )}
+
+                {/* Related Catalogs */}
+                <RelatedCatalogs catalogId={catalog.id} />
+
+                {catalog.gated && (
+                  <LeadCaptureDialog
+                    open={!!pendingEditionUrl}
+                    onOpenChange={(open) => !open && setPendingEditionUrl(null)}
+                    catalogId={catalog.id}
+                    catalogTitle={title}
+                    onCaptured={handleEditionLeadCaptured}
+                  />
+                )}
+              </article>
+            )}
+          </div>
+        </div>
+      </main>
+      <Footer />
+      <ContactModal open={contactOpen} onOpenChange={setContactOpen} />
+    </div>
+  );
+};
+
+export default CatalogDetail;
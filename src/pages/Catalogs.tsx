@@ -1,8 +1,26 @@
-import { useState, useMemo, useRef, useEffect, lazy, Suspense } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useState, useRef, useEffect, lazy, Suspense } from "react";
+import { useQuery, keepPreviousData } from "@tanstack/react-query";
+import { useSearchParams } from "react-router-dom";
 import { useTranslation } from "react-i18next";
 import { supabase } from "@/lib/supabase";
+import {
+  searchCatalogs,
+  searchCatalogFacets,
+  searchCatalogContent,
+  parseCatalogSort,
+  CATALOG_SORT_ORDERS,
+  DEFAULT_CATALOG_SORT,
+  type CatalogContentMatch,
+  type CatalogFacets as CatalogFacetCounts,
+  type CatalogSearchPage,
+} from "@/lib/catalog-search";
+import { trackCatalogEvent } from "@/lib/catalog-analytics";
+import { hasCapturedLead } from "@/lib/catalog-leads";
+import { MAX_BUNDLE_CATALOGS, type BundleCatalog } from "@/lib/catalog-bundle";
+import { useDebounce } from "@/hooks/useDebounce";
 import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import {
   Select,
@@ -12,14 +30,20 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Search, AlertCircle, FileText } from "lucide-react";
-import type { CatalogWithCategory, Category } from "@/types/database";
+import type { CatalogWithCategory, Category, Tag } from "@/types/database";
 import { useLanguage } from "@/contexts/LanguageContext";
 import { CatalogGridSkeleton } from "@/components/skeletons";
 import { EmptyState } from "@/components/EmptyState";
+import AddToQuoteButton from "@/components/AddToQuoteButton";
+import FavoriteButton from "@/components/FavoriteButton";
+import CatalogBundleBar from "@/components/CatalogBundleBar";
+import { CatalogFacets } from "@/components/CatalogFacets";
+import { CatalogContentResults } from "@/components/CatalogContentResults";
 import Navigation from "@/components/Navigation";
 import Footer from "@/components/Footer";
 import SkipNavigation from "@/components/SkipNavigation";
 import { SEO } from "@/components/SEO";
+import { toast } from "sonner";
 
 // Lazy load PDFViewer component (only loaded when needed)
 const PDFViewer = lazy(() => import("@/components/PDFViewer").then(module => ({ default: module.PDFViewer })));
@@ -28,11 +52,22 @@ const Catalogs = () => {
   const { t } = useTranslation();
   const { language } = useLanguage();
   const isRTL = language === 'ar';
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  // Filter state lives in the URL (?q=&category=slug&tags=a,b&sort=newest&page=2)
+  // so filtered views can be bookmarked, shared and navigated with back/forward
+  const searchQuery = searchParams.get('q') ?? '';
+  const selectedCategory = searchParams.get('category') ?? 'all';
+  const selectedTags = (searchParams.get('tags') ?? '').split(',').filter(Boolean);
+  const sortOrder = parseCatalogSort(searchParams.get('sort'));
+  const currentPage = Math.max(1, Number(searchParams.get('page')) || 1);
 
-  const [searchQuery, setSearchQuery] = useState("");
-  const [selectedCategory, setSelectedCategory] = useState<string>("all");
-  const [selectedCatalog, setSelectedCatalog] = useState<CatalogWithCategory | null>(null);
+  const [selectedCatalog, setSelectedCatalog] = useState<Pick<CatalogWithCategory, 'id' | 'slug' | 'slug_ar' | 'pdf_url' | 'title_en' | 'title_ar' | 'gated' | 'watermark_downloads'> | null>(null);
+  const [selectedPage, setSelectedPage] = useState<number | undefined>(undefined);
   const [isPDFViewerOpen, setIsPDFViewerOpen] = useState(false);
+
+  // Catalogs picked for a ZIP download; kept across pages and filters
+  const [bundleCatalogs, setBundleCatalogs] = useState<BundleCatalog[]>([]);
   
   // Ref to store scroll position
   const scrollPositionRef = useRef<number>(0);
@@ -51,53 +86,171 @@ const Catalogs = () => {
     },
   });
 
-  // Fetch catalogs with category information using join query
-  const { data: catalogs, isLoading, error } = useQuery<CatalogWithCategory[]>({
-    queryKey: ['public-catalogs'],
+  // Fetch tags for the tag facet
+  const { data: tags } = useQuery<Tag[]>({
+    queryKey: ['tags'],
     queryFn: async () => {
       const { data, error } = await supabase
-        .from('catalogs')
-        .select(`
-          *,
-          category:categories(*)
-        `)
-        .eq('published', true)
-        .order('created_at', { ascending: false });
+        .from('tags')
+        .select('*')
+        .order('name_en', { ascending: true });
 
       if (error) throw error;
-      return data as CatalogWithCategory[];
+      return data as Tag[];
     },
+  });
+
+  // Resolve the category slug from the URL to its id (unknown slugs show all categories)
+  const selectedCategoryId =
+    categories?.find((category) => category.slug === selectedCategory)?.id ?? null;
+
+  // Resolve tag slugs from the URL to ids (unknown slugs are ignored)
+  const selectedTagIds = (tags ?? [])
+    .filter((tag) => selectedTags.includes(tag.slug))
+    .map((tag) => tag.id);
+
+  // Wait for categories and tags before filtering by their slugs
+  const filtersReady =
+    (selectedCategory === 'all' || !!categories) && (selectedTags.length === 0 || !!tags);
+
+  // Debounce search input so typing doesn't fire a request per keystroke
+  const debouncedSearchQuery = useDebounce(searchQuery);
+
+  // Search catalogs on the server with sorting and pagination
+  const { data: searchResults, isPending: isLoading, isPlaceholderData, error } = useQuery<CatalogSearchPage>({
+    queryKey: ['public-catalogs', debouncedSearchQuery, selectedCategoryId, selectedTagIds, sortOrder, language, currentPage],
+    queryFn: () =>
+      searchCatalogs({
+        query: debouncedSearchQuery,
+        categoryId: selectedCategoryId,
+        tagIds: selectedTagIds,
+        sort: sortOrder,
+        language,
+        page: currentPage,
+      }),
+    enabled: filtersReady,
+    placeholderData: keepPreviousData,
     staleTime: 5 * 60 * 1000, // Cache for 5 minutes
   });
 
-  // Filter catalogs based on search query and category
-  const filteredCatalogs = useMemo(() => {
-    if (!catalogs) return [];
-
-    let filtered = catalogs;
-
-    // Apply search filter by title and category
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase();
-      filtered = filtered.filter(
-        (catalog) =>
-          catalog.title_en.toLowerCase().includes(query) ||
-          catalog.title_ar.toLowerCase().includes(query) ||
-          catalog.category.name_en.toLowerCase().includes(query) ||
-          catalog.category.name_ar.toLowerCase().includes(query)
-      );
-    }
+  // Count matches per category and tag for the facet filters
+  const { data: facetCounts } = useQuery<CatalogFacetCounts>({
+    queryKey: ['public-catalog-facets', debouncedSearchQuery, selectedCategoryId, selectedTagIds],
+    queryFn: () =>
+      searchCatalogFacets({
+        query: debouncedSearchQuery,
+        categoryId: selectedCategoryId,
+        tagIds: selectedTagIds,
+      }),
+    enabled: filtersReady,
+    placeholderData: keepPreviousData,
+    staleTime: 5 * 60 * 1000, // Cache for 5 minutes
+  });
 
-    // Apply category filter
-    if (selectedCategory !== "all") {
-      filtered = filtered.filter((catalog) => catalog.category_id === selectedCategory);
-    }
+  // Search inside catalog PDFs for product codes and sizes not in the titles
+  const { data: contentMatches } = useQuery<CatalogContentMatch[]>({
+    queryKey: ['public-catalog-content', debouncedSearchQuery, selectedCategoryId, selectedTagIds],
+    queryFn: () =>
+      searchCatalogContent({
+        query: debouncedSearchQuery,
+        categoryId: selectedCategoryId,
+        tagIds: selectedTagIds,
+      }),
+    enabled: filtersReady && debouncedSearchQuery.trim().length > 0,
+    staleTime: 5 * 60 * 1000, // Cache for 5 minutes
+  });
+
+  const catalogs = searchResults?.catalogs ?? [];
+  const totalPages = searchResults?.totalPages ?? 0;
+
+  // Move a page past the end (e.g. an old link after catalogs were removed) to the last page
+  useEffect(() => {
+    if (!searchResults || isPlaceholderData || currentPage <= Math.max(searchResults.totalPages, 1)) return;
+
+    setSearchParams(
+      (previous) => {
+        const next = new URLSearchParams(previous);
+        if (searchResults.totalPages > 1) {
+          next.set('page', String(searchResults.totalPages));
+        } else {
+          next.delete('page');
+        }
+        return next;
+      },
+      { replace: true }
+    );
+  }, [searchResults, isPlaceholderData, currentPage, setSearchParams]);
+
+  /**
+   * Update filter query parameters, dropping defaults to keep URLs short
+   */
+  const updateFilters = (
+    updates: Record<string, string | null>,
+    options?: { replace?: boolean }
+  ) => {
+    setSearchParams((previous) => {
+      const next = new URLSearchParams(previous);
+      Object.entries(updates).forEach(([key, value]) => {
+        if (value) {
+          next.set(key, value);
+        } else {
+          next.delete(key);
+        }
+      });
+      return next;
+    }, options);
+  };
+
+  /**
+   * Handle search input change - resets to the first page
+   * Replaces the history entry so each keystroke isn't a back-button step
+   */
+  const handleSearchChange = (value: string) => {
+    updateFilters({ q: value || null, page: null }, { replace: true });
+  };
+
+  /**
+   * Handle category filter change - resets to the first page
+   */
+  const handleCategoryChange = (value: string) => {
+    updateFilters({ category: value === 'all' ? null : value, page: null });
+  };
+
+  /**
+   * Handle tag filter toggle - resets to the first page
+   */
+  const handleTagToggle = (slug: string) => {
+    const nextTags = selectedTags.includes(slug)
+      ? selectedTags.filter((tag) => tag !== slug)
+      : [...selectedTags, slug];
+    updateFilters({ tags: nextTags.length > 0 ? nextTags.join(',') : null, page: null });
+  };
+
+  /**
+   * Clear category and tag filters - keeps the search query and sort order
+   */
+  const handleClearFilters = () => {
+    updateFilters({ category: null, tags: null, page: null });
+  };
+
+  /**
+   * Handle sort order change - resets to the first page
+   */
+  const handleSortChange = (value: string) => {
+    const sort = parseCatalogSort(value);
+    updateFilters({ sort: sort === DEFAULT_CATALOG_SORT ? null : sort, page: null });
+  };
 
-    return filtered;
-  }, [catalogs, searchQuery, selectedCategory]);
+  /**
+   * Handle page change - scrolls back to the top of the results
+   */
+  const handlePageChange = (page: number) => {
+    updateFilters({ page: page > 1 ? String(page) : null });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
 
   // Get catalog title in selected language
-  const getCatalogTitle = (catalog: CatalogWithCategory): string => {
+  const getCatalogTitle = (catalog: Pick<CatalogWithCategory, 'title_en' | 'title_ar'>): string => {
     return isRTL ? catalog.title_ar : catalog.title_en;
   };
 
@@ -107,23 +260,49 @@ const Catalogs = () => {
   };
 
   /**
-   * Handle catalog thumbnail click - opens PDF viewer
+   * Handle catalog thumbnail or page hit click - opens PDF viewer,
+   * optionally on a specific page
    */
-  const handleCatalogClick = (catalog: CatalogWithCategory) => {
+  const handleCatalogClick = (
+    catalog: Pick<CatalogWithCategory, 'id' | 'slug' | 'slug_ar' | 'pdf_url' | 'title_en' | 'title_ar' | 'gated' | 'watermark_downloads'>,
+    pageNumber?: number
+  ) => {
     // Save current scroll position
     scrollPositionRef.current = window.scrollY;
-    
+
+    void trackCatalogEvent(catalog.id, 'view', language);
+
     // Set selected catalog and open viewer
     setSelectedCatalog(catalog);
+    setSelectedPage(pageNumber);
     setIsPDFViewerOpen(true);
   };
 
+  /**
+   * Add a catalog to the ZIP selection, or remove it if already selected
+   */
+  const handleBundleToggle = (catalog: CatalogWithCategory) => {
+    if (bundleCatalogs.some((selected) => selected.id === catalog.id)) {
+      setBundleCatalogs((previous) => previous.filter((selected) => selected.id !== catalog.id));
+      return;
+    }
+
+    if (bundleCatalogs.length >= MAX_BUNDLE_CATALOGS) {
+      toast.error(t('catalogs:bundle.limit', { max: MAX_BUNDLE_CATALOGS, defaultValue: 'You can select up to {{max}} catalogs' }));
+      return;
+    }
+
+    const { id, title_en, title_ar, pdf_url, file_size } = catalog;
+    setBundleCatalogs((previous) => [...previous, { id, title_en, title_ar, pdf_url, file_size }]);
+  };
+
   /**
    * Handle PDF viewer close - returns to catalog grid
    */
   const handleClosePDFViewer = () => {
     setIsPDFViewerOpen(false);
     setSelectedCatalog(null);
+    setSelectedPage(undefined);
   };
 
   /**
@@ -139,7 +318,7 @@ const Catalogs = () => {
   }, [isPDFViewerOpen]);
 
   return (
-    <div className="min-h-screen">
+    <div className={bundleCatalogs.length > 0 ? "min-h-screen pb-32 sm:pb-24" : "min-h-screen"}>
       <SEO
         title={t('seo.catalogs.title', { defaultValue: 'Product Catalogs' })}
         description={t('seo.catalogs.description', { defaultValue: 'Browse our comprehensive collection of steel product catalogs. Download detailed specifications, technical data, and product information for all our steel manufacturing solutions.' })}
@@ -175,92 +354,185 @@ const Catalogs = () => {
                   type="search"
                   placeholder={t('catalogs:searchPlaceholder')}
                   value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
+                  onChange={(e) => handleSearchChange(e.target.value)}
                   className="pl-10 rtl:pl-3 rtl:pr-10"
                   aria-label={t('catalogs:searchPlaceholder')}
                 />
               </div>
-              <Select value={selectedCategory} onValueChange={setSelectedCategory}>
-                <SelectTrigger className="w-full sm:w-[240px]" aria-label={t('catalogs:filterByCategory')}>
-                  <SelectValue placeholder={t('catalogs:filterByCategory')} />
+              <Select value={sortOrder} onValueChange={handleSortChange}>
+                <SelectTrigger className="w-full sm:w-[200px]" aria-label={t('catalogs:sort.label')}>
+                  <SelectValue placeholder={t('catalogs:sort.label')} />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="all">{t('catalogs:allCategories')}</SelectItem>
-                  {categories?.map((category) => (
-                    <SelectItem key={category.id} value={category.id}>
-                      {isRTL ? category.name_ar : category.name_en}
+                  {CATALOG_SORT_ORDERS.map((sort) => (
+                    <SelectItem key={sort} value={sort}>
+                      {t(`catalogs:sort.${sort}`)}
                     </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
             </div>
 
-          {/* Loading State */}
-          {isLoading && <CatalogGridSkeleton count={6} />}
-
-          {/* Catalog Grid */}
-          {!isLoading && filteredCatalogs.length > 0 && (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6" role="list" aria-label={t('catalogs:catalogList')}>
-              {filteredCatalogs.map((catalog) => (
-                <article
-                  key={catalog.id}
-                  onClick={() => handleCatalogClick(catalog)}
-                  onKeyDown={(e) => {
-                    if (e.key === 'Enter' || e.key === ' ') {
-                      e.preventDefault();
-                      handleCatalogClick(catalog);
-                    }
-                  }}
-                  className="group cursor-pointer bg-card rounded-xl border border-border hover:border-primary transition-smooth hover:shadow-red overflow-hidden"
-                  role="listitem"
-                  tabIndex={0}
-                  aria-label={`${getCatalogTitle(catalog)} - ${getCategoryName(catalog)}`}
-                >
-                  {/* Thumbnail */}
-                  <div className="aspect-video bg-muted overflow-hidden">
-                    <img
-                      src={catalog.thumbnail_url}
-                      alt={`${t('catalogs:thumbnailFor')} ${getCatalogTitle(catalog)}`}
-                      className="w-full h-full object-cover group-hover:scale-105 transition-smooth"
-                      loading="lazy"
-                    />
-                  </div>
+            <div className="grid grid-cols-1 lg:grid-cols-[240px_1fr] gap-8 lg:gap-10">
+              {/* Facet Filters */}
+              <aside aria-label={t('catalogs:facets.label')}>
+                <CatalogFacets
+                  categories={categories ?? []}
+                  tags={tags ?? []}
+                  counts={facetCounts}
+                  selectedCategory={selectedCategory}
+                  selectedTags={selectedTags}
+                  onCategoryChange={handleCategoryChange}
+                  onTagToggle={handleTagToggle}
+                  onClear={handleClearFilters}
+                />
+              </aside>
+
+              <div>
+                {/* Matches inside catalog PDFs (first page only) */}
+                {currentPage === 1 && debouncedSearchQuery.trim() && contentMatches && (
+                  <CatalogContentResults matches={contentMatches} onHitClick={handleCatalogClick} />
+                )}
+
+                {/* Loading State */}
+                {isLoading && <CatalogGridSkeleton count={6} />}
+
+                {/* Catalog Grid */}
+                {!isLoading && catalogs.length > 0 && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6" role="list" aria-label={t('catalogs:catalogList')}>
+                    {catalogs.map((catalog) => {
+                      const isSelected = bundleCatalogs.some((selected) => selected.id === catalog.id);
+                      // Gated catalogs join a ZIP only once the visitor left their details;
+                      // watermarked catalogs never do, since the ZIP holds the stored files
+                      const isGatedLocked = catalog.gated && !hasCapturedLead(catalog.id);
+                      const isBundleLocked = catalog.watermark_downloads || isGatedLocked;
+
+                      return (
+                        <article
+                          key={catalog.id}
+                          onClick={() => handleCatalogClick(catalog)}
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter' || e.key === ' ') {
+                              e.preventDefault();
+                              handleCatalogClick(catalog);
+                            }
+                          }}
+                          className="group cursor-pointer bg-card rounded-xl border border-border hover:border-primary transition-smooth hover:shadow-red overflow-hidden"
+                          role="listitem"
+                          tabIndex={0}
+                          aria-label={`${getCatalogTitle(catalog)} - ${getCategoryName(catalog)}`}
+                        >
+                          {/* Thumbnail */}
+                          <div className="relative aspect-video bg-muted overflow-hidden">
+                            <img
+                              src={catalog.thumbnail_url}
+                              alt={`${t('catalogs:thumbnailFor')} ${getCatalogTitle(catalog)}`}
+                              className="w-full h-full object-cover group-hover:scale-105 transition-smooth"
+                              loading="lazy"
+                            />
+                            {/* ZIP selection; clicks stay off the card so the viewer doesn't open */}
+                            <div
+                              className="absolute top-3 left-3 rtl:left-auto rtl:right-3 rounded-md bg-background/90 p-1.5 shadow-sm"
+                              onClick={(e) => e.stopPropagation()}
+                              onKeyDown={(e) => e.stopPropagation()}
+                              title={
+                                catalog.watermark_downloads
+                                  ? t('catalogs:bundle.watermarked')
+                                  : isGatedLocked
+                                    ? t('catalogs:bundle.gated')
+                                    : undefined
+                              }
+                            >
+                              <Checkbox
+                                checked={isSelected}
+                                onCheckedChange={() => handleBundleToggle(catalog)}
+                                disabled={isBundleLocked}
+                                aria-label={`${t('catalogs:bundle.select')} ${getCatalogTitle(catalog)}`}
+                                className="h-5 w-5 block"
+                              />
+                            </div>
+                          </div>
                   
-                  {/* Content */}
-                  <div className="p-6">
-                    <h3 className="text-xl font-bold mb-2 group-hover:text-primary transition-fast line-clamp-2">
-                      {getCatalogTitle(catalog)}
-                    </h3>
-                    <p className="text-sm text-muted-foreground">
-                      {getCategoryName(catalog)}
-                    </p>
+                          {/* Content */}
+                          <div className="p-6">
+                            <h3 className="text-xl font-bold mb-2 group-hover:text-primary transition-fast line-clamp-2">
+                              {getCatalogTitle(catalog)}
+                            </h3>
+                            <p className="text-sm text-muted-foreground">
+                              {getCategoryName(catalog)}
+                            </p>
+                            <div className="flex items-center gap-2 mt-4">
+                              <AddToQuoteButton catalog={catalog} />
+                              <FavoriteButton catalogId={catalog.id} />
+                            </div>
+                          </div>
+                        </article>
+                      );
+                    })}
                   </div>
-                </article>
-              ))}
+                )}
+
+                {/* Pagination */}
+                {!isLoading && totalPages > 1 && (
+                  <nav className="flex items-center justify-between mt-10" aria-label={t('catalogs:pagination.label')}>
+                    <p className="text-sm text-muted-foreground" aria-live="polite">
+                      {t('catalogs:pagination.page', { current: currentPage, total: totalPages, defaultValue: 'Page {{current}} of {{total}}' })}
+                    </p>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handlePageChange(Math.max(1, currentPage - 1))}
+                        disabled={currentPage === 1}
+                      >
+                        {t('catalogs:pagination.previous')}
+                      </Button>
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handlePageChange(Math.min(totalPages, currentPage + 1))}
+                        disabled={currentPage === totalPages}
+                      >
+                        {t('catalogs:pagination.next')}
+                      </Button>
+                    </div>
+                  </nav>
+                )}
+
+                {/* Empty State */}
+                {!isLoading && catalogs.length === 0 && !contentMatches?.length && (
+                  <EmptyState
+                    icon={FileText}
+                    title={t('catalogs:noCatalogs')}
+                    description={t('catalogs:noCatalogsDescription')}
+                  />
+                )}
+              </div>
             </div>
-          )}
-
-          {/* Empty State */}
-          {!isLoading && filteredCatalogs.length === 0 && (
-            <EmptyState
-              icon={FileText}
-              title={t('catalogs:noCatalogs')}
-              description={t('catalogs:noCatalogsDescription')}
-            />
-          )}
           </div>
         </div>
       </main>
       <Footer />
 
+      {/* Selected catalogs, downloaded as one ZIP */}
+      <CatalogBundleBar catalogs={bundleCatalogs} onClear={() => setBundleCatalogs([])} />
+
       {/* PDF Viewer Modal - Lazy loaded */}
       {selectedCatalog && (
         <Suspense fallback={null}>
           <PDFViewer
+            key={selectedCatalog.id}
             pdfUrl={selectedCatalog.pdf_url}
             title={getCatalogTitle(selectedCatalog)}
+            initialPage={selectedPage}
+            catalogId={selectedCatalog.id}
+            gated={selectedCatalog.gated}
+            watermarked={selectedCatalog.watermark_downloads}
+            shareUrl={`${window.location.origin}/catalogs/${isRTL ? selectedCatalog.slug_ar : selectedCatalog.slug}`}
             isOpen={isPDFViewerOpen}
             onClose={handleClosePDFViewer}
+            showRelated
+            onRelatedSelect={(catalog) => handleCatalogClick(catalog)}
           />
         </Suspense>
       )}
@@ -0,0 +1,154 @@
+import { lazy, Suspense } from "react";
+import { useParams, Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { format } from "date-fns";
+import { ar, enUS } from "date-fns/locale";
+import { redeemShareLink, type RedeemedShareLink } from "@/lib/private-catalogs";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Skeleton } from "@/components/ui/skeleton";
+import { AlertCircle, Clock, Download, Link2Off } from "lucide-react";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { EmptyState } from "@/components/EmptyState";
+import Navigation from "@/components/Navigation";
+import Footer from "@/components/Footer";
+import SkipNavigation from "@/components/SkipNavigation";
+import { SEO } from "@/components/SEO";
+
+// Lazy load PDFViewer component (only loaded when the link is valid)
+const PDFViewer = lazy(() => import("@/components/PDFViewer").then(module => ({ default: module.PDFViewer })));
+
+// Renew the signed URL this long before it expires, so pages keep loading
+const SIGNED_URL_RENEW_MARGIN = 60 * 1000;
+
+/**
+ * Time until a redeemed link's signed URL should be renewed; URLs cut short
+ * by the link's own expiry are renewed when they run out (and the link with them)
+ */
+const getTimeUntilRenewal = (sharedCatalog: RedeemedShareLink | null | undefined): number => {
+  if (!sharedCatalog) return Infinity;
+  const timeLeft = new Date(sharedCatalog.expiresAt).getTime() - Date.now();
+  return Math.max(timeLeft > SIGNED_URL_RENEW_MARGIN ? timeLeft - SIGNED_URL_RENEW_MARGIN : timeLeft, 0);
+};
+
+/**
+ * Shared Catalog Page
+ * Opens a private catalog from an admin-issued share link at /share/:token,
+ * through a short-lived signed URL that is renewed while the page is open
+ */
+const SharedCatalog = () => {
+  const { token } = useParams<{ token: string }>();
+  const { t } = useTranslation();
+  const { language } = useLanguage();
+  const isRTL = language === 'ar';
+
+  // The first redemption in a visit counts as a download; redeeming again
+  // renews the signed URL before it expires (or on return to the tab)
+  const { data: sharedCatalog, isLoading, error } = useQuery<RedeemedShareLink | null>({
+    queryKey: ['shared-catalog', token],
+    queryFn: () => redeemShareLink(token!),
+    enabled: !!token,
+    staleTime: (query) => getTimeUntilRenewal(query.state.data),
+    refetchInterval: (query) => getTimeUntilRenewal(query.state.data),
+    retry: false,
+  });
+
+  const isInvalid = !isLoading && !error && !sharedCatalog;
+  const title = sharedCatalog ? (isRTL ? sharedCatalog.catalog.title_ar : sharedCatalog.catalog.title_en) : '';
+
+  // Format the link expiry based on language
+  const formatTime = (dateString: string) => {
+    return format(new Date(dateString), 'PPp', { locale: isRTL ? ar : enUS });
+  };
+
+  return (
+    <div className="min-h-screen">
+      <SEO title={title || t('catalogs:shared.title')} noindex />
+      <SkipNavigation />
+      <Navigation onContactClick={() => {}} />
+      <main id="main-content" className="pt-24 pb-20">
+        <div className="container mx-auto px-4">
+          <div className="max-w-6xl mx-auto">
+            {/* Error Alert */}
+            {error && (
+              <Alert variant="destructive" className="mb-6" role="alert">
+                <AlertCircle className="h-4 w-4" aria-hidden="true" />
+                <AlertDescription>{t('catalogs:shared.error')}</AlertDescription>
+              </Alert>
+            )}
+
+            {/* Loading State */}
+            {isLoading && (
+              <div className="space-y-4" role="status" aria-label={t('catalogs:loading')}>
+                <Skeleton className="h-10 w-2/3" />
+                <Skeleton className="h-5 w-1/3" />
+                <Skeleton className="h-[60vh] w-full rounded-xl" />
+              </div>
+            )}
+
+            {/* Invalid Link State */}
+            {isInvalid && (
+              <div className="space-y-6 text-center">
+                <EmptyState
+                  icon={Link2Off}
+                  title={t('catalogs:shared.invalidTitle')}
+                  description={t('catalogs:shared.invalidDescription')}
+                />
+                <Link to="/catalogs" className="text-primary underline hover:text-primary/90">
+                  {t('catalogs:detail.backToCatalogs')}
+                </Link>
+              </div>
+            )}
+
+            {/* Shared Catalog */}
+            {sharedCatalog && (
+              <article className="space-y-8">
+                <header>
+                  <h1 className="text-4xl md:text-5xl font-bold mb-4 brand-serif">{title}</h1>
+                  <dl className="flex flex-wrap gap-x-8 gap-y-3 text-muted-foreground">
+                    <div className="flex items-center gap-2">
+                      <Clock className="h-4 w-4" aria-hidden="true" />
+                      <dt className="sr-only">{t('catalogs:shared.availableUntil')}</dt>
+                      <dd>
+                        {t('catalogs:shared.expiresAt', {
+                          time: formatTime(sharedCatalog.linkExpiresAt),
+                          defaultValue: 'Document available until {{time}}',
+                        })}
+                      </dd>
+                    </div>
+                    {sharedCatalog.downloadsRemaining !== null && (
+                      <div className="flex items-center gap-2">
+                        <Download className="h-4 w-4" aria-hidden="true" />
+                        <dt className="sr-only">{t('catalogs:shared.downloadsLeft')}</dt>
+                        <dd>
+                          {t('catalogs:shared.opensRemaining', {
+                            count: sharedCatalog.downloadsRemaining,
+                            defaultValue: 'Opens left on this link: {{count}}',
+                          })}
+                        </dd>
+                      </div>
+                    )}
+                  </dl>
+                </header>
+
+                {/* Embedded PDF Viewer; share copies this page's link, never the signed URL */}
+                <Suspense fallback={<Skeleton className="h-[80vh] w-full rounded-xl" />}>
+                  <PDFViewer
+                    pdfUrl={sharedCatalog.signedUrl}
+                    title={title}
+                    shareUrl={window.location.href}
+                    syncPageWithUrl
+                    embedded
+                  />
+                </Suspense>
+              </article>
+            )}
+          </div>
+        </div>
+      </main>
+      <Footer />
+    </div>
+  );
+};
+
+export default SharedCatalog;
@@ -0,0 +1,386 @@
+import { useMemo, useState } from 'react';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import { useTranslation } from 'react-i18next';
+import { format, parseISO } from 'date-fns';
+import { ar, enUS } from 'date-fns/locale';
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, Cell, Pie, PieChart, XAxis, YAxis } from 'recharts';
+import AdminLayout from '@/layouts/AdminLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Badge } from '@/components/ui/badge';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from '@/components/ui/chart';
+import { Eye, Download, Printer, Share2, FileArchive, AlertCircle, BarChart3, type LucideIcon } from 'lucide-react';
+import { StatCardSkeleton } from '@/components/skeletons';
+import { EmptyState } from '@/components/EmptyState';
+import {
+  ANALYTICS_PERIODS,
+  fetchCatalogAnalytics,
+  type AnalyticsPeriod,
+  type CatalogAnalyticsReport,
+} from '@/lib/catalog-analytics';
+
+/**
+ * Series colors, matching the dashboard statistic cards
+ */
+const EVENT_COLORS = {
+  views: '#2563eb',
+  downloads: '#16a34a',
+  prints: '#9333ea',
+  shares: '#ea580c',
+};
+
+const LANGUAGE_COLORS = {
+  en: '#2563eb',
+  ar: '#16a34a',
+};
+
+/**
+ * Statistic card above the charts
+ */
+interface StatisticsCard {
+  key: string;
+  title: string;
+  value: number;
+  icon: LucideIcon;
+  color: string;
+  bgColor: string;
+  description?: string;
+}
+
+/**
+ * Catalog Analytics Admin Page
+ * Reports catalog views, downloads, prints and shares: top catalogs,
+ * daily trends, ZIP bundle downloads, the language customers used and
+ * what visitors from QR code campaigns did
+ */
+const Analytics = () => {
+  const { t, i18n } = useTranslation();
+  const isRTL = i18n.language === 'ar';
+  const dateLocale = isRTL ? ar : enUS;
+
+  const [period, setPeriod] = useState<AnalyticsPeriod>(30);
+
+  // Fetch the report for the selected period
+  const { data: report, isLoading, error } = useQuery<CatalogAnalyticsReport>({
+    queryKey: ['catalog-analytics', period],
+    queryFn: () => fetchCatalogAnalytics(period),
+    placeholderData: keepPreviousData,
+    staleTime: 60000,
+  });
+
+  const eventChartConfig = useMemo<ChartConfig>(
+    () => ({
+      views: { label: t('admin:analytics.events.views'), color: EVENT_COLORS.views },
+      downloads: { label: t('admin:analytics.events.downloads'), color: EVENT_COLORS.downloads },
+      prints: { label: t('admin:analytics.events.prints'), color: EVENT_COLORS.prints },
+      shares: { label: t('admin:analytics.events.shares'), color: EVENT_COLORS.shares },
+    }),
+    [t]
+  );
+
+  const languageChartConfig = useMemo<ChartConfig>(
+    () => ({
+      event_count: { label: t('admin:analytics.languages.events') },
+      en: { label: t('admin:analytics.languages.en'), color: LANGUAGE_COLORS.en },
+      ar: { label: t('admin:analytics.languages.ar'), color: LANGUAGE_COLORS.ar },
+    }),
+    [t]
+  );
+
+  // Totals for the period, summed from the daily trends
+  const totals = useMemo(() => {
+    const sum = { views: 0, downloads: 0, prints: 0, shares: 0 };
+    report?.trends.forEach((day) => {
+      sum.views += day.views;
+      sum.downloads += day.downloads;
+      sum.prints += day.prints;
+      sum.shares += day.shares;
+    });
+    return sum;
+  }, [report]);
+
+  // Top catalogs with the title in the active language
+  const topCatalogs = useMemo(
+    () =>
+      (report?.topCatalogs ?? []).map((catalog) => ({
+        ...catalog,
+        title: isRTL ? catalog.title_ar : catalog.title_en,
+      })),
+    [report, isRTL]
+  );
+
+  const campaigns = report?.campaigns ?? [];
+  const hasEvents = totals.views + totals.downloads + totals.prints + totals.shares > 0 || campaigns.length > 0;
+
+  const statisticsCards: StatisticsCard[] = [
+    { key: 'views', title: t('admin:analytics.events.views'), value: totals.views, icon: Eye, color: 'text-blue-600', bgColor: 'bg-blue-100 dark:bg-blue-900/20' },
+    { key: 'downloads', title: t('admin:analytics.events.downloads'), value: totals.downloads, icon: Download, color: 'text-green-600', bgColor: 'bg-green-100 dark:bg-green-900/20' },
+    { key: 'prints', title: t('admin:analytics.events.prints'), value: totals.prints, icon: Printer, color: 'text-purple-600', bgColor: 'bg-purple-100 dark:bg-purple-900/20' },
+    { key: 'shares', title: t('admin:analytics.events.shares'), value: totals.shares, icon: Share2, color: 'text-orange-600', bgColor: 'bg-orange-100 dark:bg-orange-900/20' },
+    {
+      key: 'bundles',
+      title: t('admin:analytics.events.bundles'),
+      value: report?.bundles.bundles ?? 0,
+      icon: FileArchive,
+      color: 'text-teal-600',
+      bgColor: 'bg-teal-100 dark:bg-teal-900/20',
+      // Bundled catalogs are also counted in downloads
+      description: t('admin:analytics.bundleCatalogs', {
+        count: report?.bundles.bundled_catalogs ?? 0,
+        defaultValue: '{{count}} catalogs downloaded in bundles',
+      }),
+    },
+  ];
+
+  // Format a YYYY-MM-DD day for the trend axis
+  const formatDay = (day: string) => format(parseISO(day), 'MMM d', { locale: dateLocale });
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold">{t('admin:analytics.title')}</h1>
+            <p className="text-muted-foreground mt-2">{t('admin:analytics.description')}</p>
+          </div>
+          <Select value={String(period)} onValueChange={(value) => setPeriod(Number(value) as AnalyticsPeriod)}>
+            <SelectTrigger className="w-full sm:w-[200px]" aria-label={t('admin:analytics.period')}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ANALYTICS_PERIODS.map((days) => (
+                <SelectItem key={days} value={String(days)}>
+                  {t(`admin:analytics.periods.${days}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {/* Error Alert */}
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{t('admin:analytics.loadError')}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* Statistics Cards */}
+        <div className="grid gap-4 md:grid-cols-3 lg:grid-cols-5">
+          {isLoading
+            ? [1, 2, 3, 4, 5].map((i) => <StatCardSkeleton key={i} />)
+            : statisticsCards.map((card) => {
+                const Icon = card.icon;
+                return (
+                  <Card key={card.key}>
+                    <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                      <CardTitle className="text-sm font-medium">{card.title}</CardTitle>
+                      <div className={`p-2 rounded-full ${card.bgColor}`}>
+                        <Icon className={`h-4 w-4 ${card.color}`} />
+                      </div>
+                    </CardHeader>
+                    <CardContent>
+                      <div className="text-2xl font-bold">{card.value}</div>
+                      {card.description && (
+                        <p className="text-xs text-muted-foreground mt-1">{card.description}</p>
+                      )}
+                    </CardContent>
+                  </Card>
+                );
+              })}
+        </div>
+
+        {isLoading ? (
+          <div className="grid gap-6 lg:grid-cols-3">
+            <Skeleton className="h-[360px] lg:col-span-2" />
+            <Skeleton className="h-[360px]" />
+            <Skeleton className="h-[420px] lg:col-span-3" />
+          </div>
+        ) : !hasEvents ? (
+          <Card>
+            <CardContent className="pt-6">
+              <EmptyState
+                icon={BarChart3}
+                title={t('admin:analytics.empty.title')}
+                description={t('admin:analytics.empty.description')}
+              />
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid gap-6 lg:grid-cols-3">
+            {/* Trends Over Time */}
+            <Card className="lg:col-span-2">
+              <CardHeader>
+                <CardTitle>{t('admin:analytics.trends.title')}</CardTitle>
+                <CardDescription>{t('admin:analytics.trends.description')}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={eventChartConfig} className="aspect-auto h-[280px] w-full">
+                  <AreaChart data={report?.trends ?? []} margin={{ left: 4, right: 4 }}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis
+                      dataKey="day"
+                      tickLine={false}
+                      axisLine={false}
+                      tickMargin={8}
+                      minTickGap={24}
+                      reversed={isRTL}
+                      tickFormatter={formatDay}
+                    />
+                    <YAxis tickLine={false} axisLine={false} allowDecimals={false} width={32} orientation={isRTL ? 'right' : 'left'} />
+                    <ChartTooltip content={<ChartTooltipContent labelFormatter={(day) => formatDay(String(day))} />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    {(Object.keys(EVENT_COLORS) as (keyof typeof EVENT_COLORS)[]).map((key) => (
+                      <Area
+                        key={key}
+                        dataKey={key}
+                        type="monotone"
+                        stroke={`var(--color-${key})`}
+                        fill={`var(--color-${key})`}
+                        fillOpacity={0.15}
+                        strokeWidth={2}
+                      />
+                    ))}
+                  </AreaChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            {/* Language Split */}
+            <Card>
+              <CardHeader>
+                <CardTitle>{t('admin:analytics.languages.title')}</CardTitle>
+                <CardDescription>{t('admin:analytics.languages.description')}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer config={languageChartConfig} className="mx-auto aspect-square max-h-[280px]">
+                  <PieChart>
+                    <ChartTooltip content={<ChartTooltipContent nameKey="language" hideLabel />} />
+                    <Pie data={report?.languages ?? []} dataKey="event_count" nameKey="language" innerRadius={60} strokeWidth={4}>
+                      {(report?.languages ?? []).map((entry) => (
+                        <Cell key={entry.language} fill={`var(--color-${entry.language})`} />
+                      ))}
+                    </Pie>
+                    <ChartLegend content={<ChartLegendContent nameKey="language" />} />
+                  </PieChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            {/* Top Catalogs */}
+            <Card className="lg:col-span-3">
+              <CardHeader>
+                <CardTitle>{t('admin:analytics.topCatalogs.title')}</CardTitle>
+                <CardDescription>{t('admin:analytics.topCatalogs.description')}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ChartContainer
+                  config={eventChartConfig}
+                  className="aspect-auto w-full"
+                  style={{ height: Math.max(topCatalogs.length * 40 + 60, 200) }}
+                >
+                  <BarChart data={topCatalogs} layout="vertical" margin={{ left: 8, right: 8 }}>
+                    <CartesianGrid horizontal={false} />
+                    <XAxis type="number" tickLine={false} axisLine={false} allowDecimals={false} reversed={isRTL} />
+                    <YAxis
+                      type="category"
+                      dataKey="title"
+                      tickLine={false}
+                      axisLine={false}
+                      width={180}
+                      orientation={isRTL ? 'right' : 'left'}
+                    />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    {(Object.keys(EVENT_COLORS) as (keyof typeof EVENT_COLORS)[]).map((key) => (
+                      <Bar key={key} dataKey={key} stackId="events" fill={`var(--color-${key})`} />
+                    ))}
+                  </BarChart>
+                </ChartContainer>
+              </CardContent>
+            </Card>
+
+            {/* Campaigns */}
+            {campaigns.length > 0 && (
+              <Card className="lg:col-span-3">
+                <CardHeader>
+                  <CardTitle>{t('admin:analytics.campaigns.title')}</CardTitle>
+                  <CardDescription>{t('admin:analytics.campaigns.description')}</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead className="text-left rtl:text-right">{t('admin:analytics.campaigns.campaign')}</TableHead>
+                        <TableHead className="text-left rtl:text-right">{t('admin:analytics.campaigns.catalog')}</TableHead>
+                        <TableHead className="text-right rtl:text-left">{t('admin:analytics.campaigns.scans')}</TableHead>
+                        <TableHead className="text-right rtl:text-left">{t('admin:analytics.events.views')}</TableHead>
+                        <TableHead className="text-right rtl:text-left">{t('admin:analytics.events.downloads')}</TableHead>
+                        <TableHead className="text-right rtl:text-left">{t('admin:analytics.campaigns.contactSubmissions')}</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {campaigns.map((row) => (
+                        <TableRow key={row.campaign_link_id}>
+                          <TableCell>
+                            <div className="font-medium">{row.campaign}</div>
+                            <div className="text-xs text-muted-foreground" dir="ltr">
+                              {row.source} / {row.medium} · /c/{row.code}
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap items-center gap-2">
+                              <span>{isRTL ? row.title_ar : row.title_en}</span>
+                              {row.page_number && (
+                                <Badge variant="outline">
+                                  {t('admin:analytics.campaigns.page', {
+                                    page: row.page_number,
+                                    defaultValue: 'Page {{page}}',
+                                  })}
+                                </Badge>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right rtl:text-left tabular-nums">{row.scans}</TableCell>
+                          <TableCell className="text-right rtl:text-left tabular-nums">{row.views}</TableCell>
+                          <TableCell className="text-right rtl:text-left tabular-nums">{row.downloads}</TableCell>
+                          <TableCell className="text-right rtl:text-left tabular-nums">{row.contact_submissions}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        )}
+      </div>
+    </AdminLayout>
+  );
+};
+
+export default Analytics;
@@ -1,11 +1,14 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect } from 'react';
 import { useQuery } from '@tanstack/react-query';
+import { Link } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { supabase } from '@/lib/supabase';
+import { useAuth } from '@/contexts/AuthContext';
 import AdminLayout from '@/layouts/AdminLayout';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import {
   Select,
@@ -32,14 +35,73 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
-import { Upload, Pencil, Trash2, FileText, AlertCircle, Search, Loader2 } from 'lucide-react';
-import { formatDistanceToNow } from 'date-fns';
+import {
+  Upload,
+  Pencil,
+  Trash2,
+  FileText,
+  AlertCircle,
+  Search,
+  Loader2,
+  Link2,
+  ScanText,
+  History,
+  Send,
+  CircleCheck,
+  CircleX,
+  Archive,
+  ArchiveRestore,
+  KeyRound,
+  QrCode,
+} from 'lucide-react';
+import { toast } from 'sonner';
+import { format, formatDistanceToNow } from 'date-fns';
 import { ar, enUS } from 'date-fns/locale';
-import type { CatalogWithCategory, Category } from '@/types/database';
+import type { CatalogStatus, CatalogWithCategory, Category } from '@/types/database';
 import CatalogUploadDialog from '@/components/admin/CatalogUploadDialog';
+import CatalogHistorySheet from '@/components/admin/CatalogHistorySheet';
+import CatalogReviewDialog from '@/components/admin/CatalogReviewDialog';
+import CatalogShareLinksSheet from '@/components/admin/CatalogShareLinksSheet';
+import CatalogCampaignLinksSheet from '@/components/admin/CatalogCampaignLinksSheet';
+import CatalogWatermarkedDownloadsSheet from '@/components/admin/CatalogWatermarkedDownloadsSheet';
 import { useCatalogMutations } from '@/hooks/useCatalogMutations';
 import { DataTableSkeleton } from '@/components/skeletons';
 import { EmptyState } from '@/components/EmptyState';
+import { matchesSearch } from '@/lib/search-normalization';
+import {
+  CATALOG_STATUSES,
+  REVIEW_ACTIONS,
+  getCatalogStatusActions,
+  type CatalogStatusAction,
+} from '@/lib/catalog-workflow';
+
+/**
+ * Icon and badge style for each workflow action and status
+ */
+const STATUS_ACTION_ICONS: Record<CatalogStatusAction, typeof Send> = {
+  submit: Send,
+  approve: CircleCheck,
+  reject: CircleX,
+  archive: Archive,
+  reopen: ArchiveRestore,
+};
+
+const STATUS_BADGE_VARIANTS: Record<CatalogStatus, 'default' | 'secondary' | 'outline'> = {
+  draft: 'outline',
+  in_review: 'secondary',
+  published: 'default',
+  archived: 'outline',
+};
+
+/**
+ * Where a catalog sits in its publish window right now
+ */
+const getScheduleStatus = (catalog: CatalogWithCategory): 'scheduled' | 'expired' | null => {
+  const now = Date.now();
+  if (catalog.unpublish_at && new Date(catalog.unpublish_at).getTime() <= now) return 'expired';
+  if (catalog.publish_at && new Date(catalog.publish_at).getTime() > now) return 'scheduled';
+  return null;
+};
 
 /**
  * Catalogs Admin Page
@@ -49,18 +111,26 @@ const Catalogs = () => {
   const { t: translate, i18n } = useTranslation();
   const t = translate as any;
   const isRTL = i18n.language === 'ar';
+  const { user } = useAuth();
 
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
   const [catalogToDelete, setCatalogToDelete] = useState<CatalogWithCategory | null>(null);
   const [uploadDialogOpen, setUploadDialogOpen] = useState(false);
   const [catalogToEdit, setCatalogToEdit] = useState<CatalogWithCategory | null>(null);
+  const [catalogForHistory, setCatalogForHistory] = useState<CatalogWithCategory | null>(null);
+  const [catalogForShareLinks, setCatalogForShareLinks] = useState<CatalogWithCategory | null>(null);
+  const [catalogForCampaignLinks, setCatalogForCampaignLinks] = useState<CatalogWithCategory | null>(null);
+  const [catalogForWatermarkedDownloads, setCatalogForWatermarkedDownloads] = useState<CatalogWithCategory | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedCategory, setSelectedCategory] = useState<string>('all');
+  const [selectedStatus, setSelectedStatus] = useState<CatalogStatus | 'all'>('all');
+  const [catalogToReview, setCatalogToReview] = useState<CatalogWithCategory | null>(null);
+  const [reviewDecision, setReviewDecision] = useState<'approve' | 'reject'>('approve');
   const [currentPage, setCurrentPage] = useState(1);
   const itemsPerPage = 10;
 
   // Get catalog mutations
-  const { createCatalog, updateCatalog, deleteCatalog } = useCatalogMutations();
+  const { createCatalog, updateCatalog, deleteCatalog, indexCatalogContent, changeCatalogStatus } = useCatalogMutations();
 
   // Fetch categories for filter dropdown
   const { data: categories } = useQuery<Category[]>({
@@ -84,7 +154,8 @@ const Catalogs = () => {
         .from('catalogs')
         .select(`
           *,
-          category:categories(*)
+          category:categories(*),
+          tags(*)
         `)
         .order('created_at', { ascending: false });
 
@@ -101,13 +172,14 @@ const Catalogs = () => {
 
     // Apply search filter
     if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase();
-      filtered = filtered.filter(
-        (catalog) =>
-          catalog.title_en.toLowerCase().includes(query) ||
-          catalog.title_ar.toLowerCase().includes(query) ||
-          catalog.category.name_en.toLowerCase().includes(query) ||
-          catalog.category.name_ar.toLowerCase().includes(query)
+      filtered = filtered.filter((catalog) =>
+        matchesSearch(
+          searchQuery,
+          catalog.title_en,
+          catalog.title_ar,
+          catalog.category.name_en,
+          catalog.category.name_ar
+        )
       );
     }
 
@@ -116,8 +188,22 @@ const Catalogs = () => {
       filtered = filtered.filter((catalog) => catalog.category_id === selectedCategory);
     }
 
+    // Apply status filter
+    if (selectedStatus !== 'all') {
+      filtered = filtered.filter((catalog) => catalog.status === selectedStatus);
+    }
+
     return filtered;
-  }, [catalogs, searchQuery, selectedCategory]);
+  }, [catalogs, searchQuery, selectedCategory, selectedStatus]);
+
+  // Count catalogs per status for the status filter
+  const statusCounts = useMemo(() => {
+    const counts: Record<CatalogStatus, number> = { draft: 0, in_review: 0, published: 0, archived: 0 };
+    catalogs?.forEach((catalog) => {
+      counts[catalog.status] += 1;
+    });
+    return counts;
+  }, [catalogs]);
 
   // Pagination
   const totalPages = Math.ceil(filteredCatalogs.length / itemsPerPage);
@@ -127,9 +213,9 @@ const Catalogs = () => {
   }, [filteredCatalogs, currentPage]);
 
   // Reset to page 1 when filters change
-  useMemo(() => {
+  useEffect(() => {
     setCurrentPage(1);
-  }, [searchQuery, selectedCategory]);
+  }, [searchQuery, selectedCategory, selectedStatus]);
 
   // Format date based on language
   const formatDate = (dateString: string) => {
@@ -167,6 +253,18 @@ const Catalogs = () => {
     setCatalogToDelete(null);
   };
 
+  // Copy the public deep link (/catalogs/:slug) for sharing with customers,
+  // with the slug in the language the admin is working in
+  const handleCopyLink = async (catalog: CatalogWithCategory) => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}/catalogs/${isRTL ? catalog.slug_ar : catalog.slug}`);
+      toast.success(t('admin:catalogs.linkCopied'));
+    } catch (error) {
+      console.error('Failed to copy catalog link:', error);
+      toast.error(t('admin:catalogs.copyLinkError'));
+    }
+  };
+
   // Handle upload button click
   const handleUploadClick = () => {
     setCatalogToEdit(null);
@@ -179,13 +277,51 @@ const Catalogs = () => {
     setUploadDialogOpen(true);
   };
 
+  // Handle a workflow action; approve and reject ask for a review comment first
+  const handleStatusAction = (catalog: CatalogWithCategory, action: CatalogStatusAction) => {
+    if (REVIEW_ACTIONS.includes(action)) {
+      setReviewDecision(action as 'approve' | 'reject');
+      setCatalogToReview(catalog);
+      return;
+    }
+    changeCatalogStatus.mutate({ id: catalog.id, action });
+  };
+
+  // Handle review confirmation
+  const handleReviewConfirm = async (comment: string) => {
+    if (!catalogToReview) return;
+
+    try {
+      await changeCatalogStatus.mutateAsync({
+        id: catalogToReview.id,
+        action: reviewDecision,
+        comment,
+      });
+      setCatalogToReview(null);
+    } catch {
+      // Error toast is shown by the mutation
+    }
+  };
+
+  // Format a schedule timestamp for badge tooltips
+  const formatScheduleDate = (dateString: string) => {
+    return format(new Date(dateString), 'PPp', { locale: isRTL ? ar : enUS });
+  };
+
   // Handle save catalog
   const handleSaveCatalog = async (data: {
     title_en: string;
     title_ar: string;
     category_id: string;
+    tag_ids: string[];
+    publish_at: string | null;
+    unpublish_at: string | null;
+    gated: boolean;
+    private: boolean;
+    watermark_downloads: boolean;
     pdf_file?: File;
     thumbnail_file?: File;
+    change_note?: string;
   }) => {
     if (catalogToEdit) {
       // Update existing catalog
@@ -194,10 +330,18 @@ const Catalogs = () => {
         title_en: data.title_en,
         title_ar: data.title_ar,
         category_id: data.category_id,
+        tag_ids: data.tag_ids,
+        publish_at: data.publish_at,
+        unpublish_at: data.unpublish_at,
+        gated: data.gated,
+        private: data.private,
+        watermark_downloads: data.watermark_downloads,
         pdf_file: data.pdf_file,
         thumbnail_file: data.thumbnail_file,
         existing_pdf_url: catalogToEdit.pdf_url,
         existing_thumbnail_url: catalogToEdit.thumbnail_url,
+        existing_file_size: catalogToEdit.file_size,
+        change_note: data.change_note,
       });
     } else {
       // Create new catalog
@@ -209,6 +353,12 @@ const Catalogs = () => {
         title_en: data.title_en,
         title_ar: data.title_ar,
         category_id: data.category_id,
+        tag_ids: data.tag_ids,
+        publish_at: data.publish_at,
+        unpublish_at: data.unpublish_at,
+        gated: data.gated,
+        private: data.private,
+        watermark_downloads: data.watermark_downloads,
         pdf_file: data.pdf_file,
         thumbnail_file: data.thumbnail_file,
       });
@@ -265,6 +415,19 @@ const Catalogs = () => {
               ))}
             </SelectContent>
           </Select>
+          <Select value={selectedStatus} onValueChange={(value) => setSelectedStatus(value as CatalogStatus | 'all')}>
+            <SelectTrigger className="w-full sm:w-[200px]">
+              <SelectValue placeholder={t('admin:catalogs.filterByStatus')} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">{t('admin:catalogs.allStatuses')}</SelectItem>
+              {CATALOG_STATUSES.map((status) => (
+                <SelectItem key={status} value={status}>
+                  {t(`admin:catalogs.status.${status}`)} ({statusCounts[status]})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
         </div>
 
         {/* Catalogs Table */}
@@ -280,7 +443,7 @@ const Catalogs = () => {
           <CardContent>
             {isLoading ? (
               // Loading skeleton
-              <DataTableSkeleton rows={5} columns={7} showThumbnail={true} />
+              <DataTableSkeleton rows={5} columns={8} showThumbnail={true} />
             ) : paginatedCatalogs && paginatedCatalogs.length > 0 ? (
               <>
                 {/* Catalogs table */}
@@ -292,6 +455,7 @@ const Catalogs = () => {
                         <TableHead>{t('admin:catalogs.table.titleEn')}</TableHead>
                         <TableHead>{t('admin:catalogs.table.titleAr')}</TableHead>
                         <TableHead>{t('admin:catalogs.table.category')}</TableHead>
+                        <TableHead>{t('admin:catalogs.table.status')}</TableHead>
                         <TableHead>{t('admin:catalogs.table.fileSize')}</TableHead>
                         <TableHead>{t('admin:catalogs.table.createdAt')}</TableHead>
                         <TableHead className="text-right rtl:text-left">
@@ -309,13 +473,75 @@ const Catalogs = () => {
                               className="h-16 w-16 object-cover rounded border"
                             />
                           </TableCell>
-                          <TableCell className="font-medium">{catalog.title_en}</TableCell>
+                          <TableCell className="font-medium">
+                            <div className="flex flex-wrap items-center gap-2">
+                              {catalog.title_en}
+                              {getScheduleStatus(catalog) === 'scheduled' && catalog.publish_at && (
+                                <Badge
+                                  variant="secondary"
+                                  title={t('admin:catalogs.schedule.publishesOn', { date: formatScheduleDate(catalog.publish_at) })}
+                                >
+                                  {t('admin:catalogs.schedule.scheduled')}
+                                </Badge>
+                              )}
+                              {getScheduleStatus(catalog) === 'expired' && catalog.unpublish_at && (
+                                <Badge
+                                  variant="outline"
+                                  className="text-muted-foreground"
+                                  title={t('admin:catalogs.schedule.expiredOn', { date: formatScheduleDate(catalog.unpublish_at) })}
+                                >
+                                  {t('admin:catalogs.schedule.expired')}
+                                </Badge>
+                              )}
+                              {catalog.gated && (
+                                <Link to={`/admin/leads?catalog=${catalog.id}`} title={t('admin:catalogs.viewLeads')}>
+                                  <Badge variant="outline" className="hover:bg-accent">
+                                    {t('admin:catalogs.gatedBadge')}
+                                  </Badge>
+                                </Link>
+                              )}
+                              {catalog.private && (
+                                <Badge variant="secondary" title={t('admin:catalogs.privateHint')}>
+                                  {t('admin:catalogs.privateBadge')}
+                                </Badge>
+                              )}
+                              {catalog.watermark_downloads && (
+                                <button
+                                  type="button"
+                                  onClick={() => setCatalogForWatermarkedDownloads(catalog)}
+                                  title={t('admin:catalogs.watermarkedDownloads.open')}
+                                >
+                                  <Badge variant="outline" className="hover:bg-accent">
+                                    {t('admin:catalogs.watermarkBadge')}
+                                  </Badge>
+                                </button>
+                              )}
+                            </div>
+                          </TableCell>
                           <TableCell className="font-medium">{catalog.title_ar}</TableCell>
                           <TableCell>
                             <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-primary/10 text-primary">
                               {isRTL ? catalog.category.name_ar : catalog.category.name_en}
                             </span>
                           </TableCell>
+                          <TableCell>
+                            <Badge variant={STATUS_BADGE_VARIANTS[catalog.status]} className="whitespace-nowrap">
+                              {t(`admin:catalogs.status.${catalog.status}`)}
+                            </Badge>
+                            {catalog.review_comment && (
+                              <p
+                                className="text-xs text-muted-foreground mt-1 max-w-[200px] line-clamp-2"
+                                title={catalog.review_comment}
+                              >
+                                {t('admin:catalogs.review.commentLabel', { comment: catalog.review_comment })}
+                              </p>
+                            )}
+                            {catalog.status === 'in_review' && catalog.submitted_by === user?.id && (
+                              <p className="text-xs text-muted-foreground mt-1">
+                                {t('admin:catalogs.review.awaitingOtherAdmin')}
+                              </p>
+                            )}
+                          </TableCell>
                           <TableCell className="text-muted-foreground">
                             {formatFileSize(catalog.file_size)}
                           </TableCell>
@@ -324,6 +550,77 @@ const Catalogs = () => {
                           </TableCell>
                           <TableCell className="text-right rtl:text-left">
                             <div className="flex items-center justify-end rtl:justify-start gap-2">
+                              {getCatalogStatusActions(catalog.status, catalog.submitted_by === user?.id).map((action) => {
+                                const ActionIcon = STATUS_ACTION_ICONS[action];
+                                return (
+                                  <Button
+                                    key={action}
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => handleStatusAction(catalog, action)}
+                                    title={t(`admin:catalogs.workflow.${action}`)}
+                                    disabled={changeCatalogStatus.isPending}
+                                  >
+                                    {changeCatalogStatus.isPending &&
+                                    changeCatalogStatus.variables?.id === catalog.id &&
+                                    changeCatalogStatus.variables?.action === action ? (
+                                      <Loader2 className="h-4 w-4 animate-spin" />
+                                    ) : (
+                                      <ActionIcon className="h-4 w-4" />
+                                    )}
+                                  </Button>
+                                );
+                              })}
+                              {catalog.private ? (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => setCatalogForShareLinks(catalog)}
+                                  title={t('admin:catalogs.shareLinks.open')}
+                                >
+                                  <KeyRound className="h-4 w-4" />
+                                </Button>
+                              ) : (
+                                <>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => handleCopyLink(catalog)}
+                                    title={t('admin:catalogs.copyLink')}
+                                  >
+                                    <Link2 className="h-4 w-4" />
+                                  </Button>
+                                  <Button
+                                    variant="ghost"
+                                    size="icon"
+                                    onClick={() => setCatalogForCampaignLinks(catalog)}
+                                    title={t('admin:catalogs.campaignLinks.open')}
+                                  >
+                                    <QrCode className="h-4 w-4" />
+                                  </Button>
+                                </>
+                              )}
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => indexCatalogContent.mutate({ id: catalog.id, pdf_url: catalog.pdf_url })}
+                                title={t('admin:catalogs.indexContent')}
+                                disabled={indexCatalogContent.isPending}
+                              >
+                                {indexCatalogContent.isPending && indexCatalogContent.variables?.id === catalog.id ? (
+                                  <Loader2 className="h-4 w-4 animate-spin" />
+                                ) : (
+                                  <ScanText className="h-4 w-4" />
+                                )}
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => setCatalogForHistory(catalog)}
+                                title={t('admin:catalogs.history.open')}
+                              >
+                                <History className="h-4 w-4" />
+                              </Button>
                               <Button
                                 variant="ghost"
                                 size="icon"
@@ -430,6 +727,44 @@ const Catalogs = () => {
           </AlertDialogContent>
         </AlertDialog>
 
+        {/* Catalog Version History */}
+        <CatalogHistorySheet
+          open={!!catalogForHistory}
+          onOpenChange={(open) => !open && setCatalogForHistory(null)}
+          catalog={catalogForHistory}
+        />
+
+        {/* Share Links for Private Catalogs */}
+        <CatalogShareLinksSheet
+          open={!!catalogForShareLinks}
+          onOpenChange={(open) => !open && setCatalogForShareLinks(null)}
+          catalog={catalogForShareLinks}
+        />
+
+        {/* QR Codes and Campaign Links for Printed Material */}
+        <CatalogCampaignLinksSheet
+          open={!!catalogForCampaignLinks}
+          onOpenChange={(open) => !open && setCatalogForCampaignLinks(null)}
+          catalog={catalogForCampaignLinks}
+        />
+
+        {/* Audit Trail of Watermarked Downloads */}
+        <CatalogWatermarkedDownloadsSheet
+          open={!!catalogForWatermarkedDownloads}
+          onOpenChange={(open) => !open && setCatalogForWatermarkedDownloads(null)}
+          catalog={catalogForWatermarkedDownloads}
+        />
+
+        {/* Approve/Reject Dialog */}
+        <CatalogReviewDialog
+          open={!!catalogToReview}
+          onOpenChange={(open) => !open && setCatalogToReview(null)}
+          catalog={catalogToReview}
+          decision={reviewDecision}
+          onConfirm={handleReviewConfirm}
+          isSaving={changeCatalogStatus.isPending}
+        />
+
         {/* Catalog Upload/Edit Dialog */}
         <CatalogUploadDialog
           open={uploadDialogOpen}
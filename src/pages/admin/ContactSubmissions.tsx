@@ -37,6 +37,7 @@ import { formatDistanceToNow, format } from 'date-fns';
 import { ar, enUS } from 'date-fns/locale';
 import { toast } from 'sonner';
 import type { ContactSubmission } from '@/types/database';
+import { matchesSearch } from '@/lib/search-normalization';
 import { DataTableSkeleton } from '@/components/skeletons';
 import { EmptyState } from '@/components/EmptyState';
 
@@ -96,16 +97,9 @@ const ContactSubmissions = () => {
   });
 
   // Filter submissions based on search query
-  const filteredSubmissions = submissions?.filter((submission) => {
-    if (!searchQuery) return true;
-    
-    const query = searchQuery.toLowerCase();
-    return (
-      submission.name.toLowerCase().includes(query) ||
-      submission.email.toLowerCase().includes(query) ||
-      submission.subject.toLowerCase().includes(query)
-    );
-  });
+  const filteredSubmissions = submissions?.filter((submission) =>
+    matchesSearch(searchQuery, submission.name, submission.email, submission.subject)
+  );
 
   // Toggle row expansion
   const toggleRow = (id: string) => {
@@ -0,0 +1,259 @@
+import { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { useTranslation } from 'react-i18next';
+import { supabase } from '@/lib/supabase';
+import AdminLayout from '@/layouts/AdminLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { UserPlus, Search, Mail, Phone, Calendar, AlertCircle } from 'lucide-react';
+import { formatDistanceToNow, format } from 'date-fns';
+import { ar, enUS } from 'date-fns/locale';
+import type { Catalog, CatalogLeadWithCatalog } from '@/types/database';
+import { matchesSearch } from '@/lib/search-normalization';
+import { DataTableSkeleton } from '@/components/skeletons';
+import { EmptyState } from '@/components/EmptyState';
+
+const ALL_CATALOGS = 'all';
+
+/**
+ * Catalog Leads Admin Page
+ * Lists the details customers left before downloading gated catalogs,
+ * with search and a catalog filter (?catalog=<id>)
+ */
+const Leads = () => {
+  const { t, i18n } = useTranslation();
+  const isRTL = i18n.language === 'ar';
+
+  const [searchParams, setSearchParams] = useSearchParams();
+  const catalogFilter = searchParams.get('catalog') ?? ALL_CATALOGS;
+  const [searchQuery, setSearchQuery] = useState('');
+
+  // Fetch catalogs for the filter
+  const { data: catalogs } = useQuery<Pick<Catalog, 'id' | 'title_en' | 'title_ar' | 'gated'>[]>({
+    queryKey: ['lead-catalogs'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('catalogs')
+        .select('id, title_en, title_ar, gated')
+        .order('title_en', { ascending: true });
+
+      if (error) throw error;
+      return data as Pick<Catalog, 'id' | 'title_en' | 'title_ar' | 'gated'>[];
+    },
+  });
+
+  // Fetch leads, newest first, for the selected catalog
+  const { data: leads, isLoading, error } = useQuery<CatalogLeadWithCatalog[]>({
+    queryKey: ['catalog-leads', catalogFilter],
+    queryFn: async () => {
+      let query = supabase
+        .from('catalog_leads')
+        .select(`
+          *,
+          catalog:catalogs(id, title_en, title_ar, slug)
+        `)
+        .order('created_at', { ascending: false });
+
+      if (catalogFilter !== ALL_CATALOGS) {
+        query = query.eq('catalog_id', catalogFilter);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      return data as CatalogLeadWithCatalog[];
+    },
+  });
+
+  // Filter leads based on search query
+  const filteredLeads = leads?.filter((lead) =>
+    matchesSearch(searchQuery, lead.name, lead.company, lead.email, lead.phone)
+  );
+
+  const handleCatalogFilterChange = (value: string) => {
+    setSearchParams(
+      (params) => {
+        if (value === ALL_CATALOGS) {
+          params.delete('catalog');
+        } else {
+          params.set('catalog', value);
+        }
+        return params;
+      },
+      { replace: true }
+    );
+  };
+
+  // Format date based on language
+  const formatDate = (dateString: string) => {
+    const locale = isRTL ? ar : enUS;
+    return formatDistanceToNow(new Date(dateString), { addSuffix: true, locale });
+  };
+
+  // Format full date
+  const formatFullDate = (dateString: string) => {
+    const locale = isRTL ? ar : enUS;
+    return format(new Date(dateString), 'PPpp', { locale });
+  };
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-3xl font-bold">{t('admin:leads.title')}</h1>
+          <p className="text-muted-foreground mt-2">{t('admin:leads.description')}</p>
+        </div>
+
+        {/* Error Alert */}
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{t('admin:leads.loadError')}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* Search and Filters */}
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('admin:leads.tableTitle')}</CardTitle>
+            <CardDescription>
+              {filteredLeads
+                ? t('admin:leads.tableDescription', {
+                    count: filteredLeads.length,
+                    defaultValue: '{{count}} leads total',
+                  })
+                : t('admin:leads.tableDescriptionEmpty')}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-col sm:flex-row gap-4 mb-6">
+              <div className="relative flex-1">
+                <Search className={`absolute top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground ${isRTL ? 'right-3' : 'left-3'}`} />
+                <Input
+                  placeholder={t('admin:leads.search')}
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  className={isRTL ? 'pr-10' : 'pl-10'}
+                />
+              </div>
+              <Select value={catalogFilter} onValueChange={handleCatalogFilterChange}>
+                <SelectTrigger className="w-full sm:w-[280px]" aria-label={t('admin:leads.filterByCatalog')}>
+                  <SelectValue placeholder={t('admin:leads.filterByCatalog')} />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_CATALOGS}>{t('admin:leads.allCatalogs')}</SelectItem>
+                  {catalogs?.map((catalog) => (
+                    <SelectItem key={catalog.id} value={catalog.id}>
+                      {isRTL ? catalog.title_ar : catalog.title_en}
+                      {catalog.gated && ` · ${t('admin:catalogs.gatedBadge')}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Table */}
+            {isLoading ? (
+              <DataTableSkeleton rows={5} columns={6} />
+            ) : filteredLeads && filteredLeads.length > 0 ? (
+              <div className="border rounded-lg">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t('admin:leads.table.date')}</TableHead>
+                      <TableHead>{t('admin:leads.table.name')}</TableHead>
+                      <TableHead>{t('admin:leads.table.company')}</TableHead>
+                      <TableHead>{t('admin:leads.table.email')}</TableHead>
+                      <TableHead>{t('admin:leads.table.phone')}</TableHead>
+                      <TableHead>{t('admin:leads.table.catalog')}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredLeads.map((lead) => (
+                      <TableRow key={lead.id}>
+                        <TableCell className="font-medium">
+                          <div className="flex items-center gap-2" title={formatFullDate(lead.created_at)}>
+                            <Calendar className="h-4 w-4 text-muted-foreground" />
+                            <span className="text-sm">{formatDate(lead.created_at)}</span>
+                          </div>
+                        </TableCell>
+                        <TableCell>{lead.name}</TableCell>
+                        <TableCell>{lead.company}</TableCell>
+                        <TableCell>
+                          <a href={`mailto:${lead.email}`} className="flex items-center gap-2 hover:underline">
+                            <Mail className="h-4 w-4 text-muted-foreground" />
+                            <span className="text-sm">{lead.email}</span>
+                          </a>
+                        </TableCell>
+                        <TableCell>
+                          {lead.phone ? (
+                            <div className="flex items-center gap-2">
+                              <Phone className="h-4 w-4 text-muted-foreground" />
+                              <span className="text-sm" dir="ltr">{lead.phone}</span>
+                            </div>
+                          ) : (
+                            <span className="text-muted-foreground text-sm">—</span>
+                          )}
+                        </TableCell>
+                        <TableCell className="max-w-[240px]">
+                          {lead.catalog ? (
+                            <div className="flex flex-wrap items-center gap-2">
+                              <Link
+                                to={`/catalogs/${lead.catalog.slug}`}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="truncate hover:underline"
+                              >
+                                {isRTL ? lead.catalog.title_ar : lead.catalog.title_en}
+                              </Link>
+                              <Badge variant="outline" className="uppercase">
+                                {lead.language}
+                              </Badge>
+                            </div>
+                          ) : (
+                            <span className="text-muted-foreground text-sm">—</span>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            ) : (
+              <EmptyState
+                icon={UserPlus}
+                title={t('admin:leads.emptyState.title')}
+                description={
+                  searchQuery || catalogFilter !== ALL_CATALOGS
+                    ? t('admin:leads.emptyState.noResults')
+                    : t('admin:leads.emptyState.description')
+                }
+              />
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AdminLayout>
+  );
+};
+
+export default Leads;
@@ -0,0 +1,183 @@
+import { useEffect, useRef } from 'react';
+import { useParams } from 'react-router-dom';
+import { useQuery } from '@tanstack/react-query';
+import { useTranslation } from 'react-i18next';
+import { format } from 'date-fns';
+import { ar, enUS } from 'date-fns/locale';
+import { supabase } from '@/lib/supabase';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Skeleton } from '@/components/ui/skeleton';
+import { AlertCircle, Printer } from 'lucide-react';
+import type { RfqRequestWithItems } from '@/types/database';
+
+/**
+ * Quote Request Print Page
+ * Printable summary of one request for quotation; opens the browser print
+ * dialog once the request has loaded
+ */
+const QuoteRequestPrint = () => {
+  const { id } = useParams<{ id: string }>();
+  const { t, i18n } = useTranslation();
+  const isRTL = i18n.language === 'ar';
+
+  // Fetch the request with its items
+  const { data: request, isLoading, error } = useQuery<RfqRequestWithItems | null>({
+    queryKey: ['rfq-request', id],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('rfq_requests')
+        .select(`
+          *,
+          items:rfq_items(
+            *,
+            catalog:catalogs(id, title_en, title_ar, slug)
+          )
+        `)
+        .eq('id', id!)
+        .order('position', { referencedTable: 'items', ascending: true })
+        .maybeSingle();
+
+      if (error) throw error;
+      return data as RfqRequestWithItems | null;
+    },
+    enabled: !!id,
+  });
+
+  // Open the print dialog once per page load
+  const hasPrintedRef = useRef(false);
+  useEffect(() => {
+    if (request && !hasPrintedRef.current) {
+      hasPrintedRef.current = true;
+      window.print();
+    }
+  }, [request]);
+
+  const formatFullDate = (dateString: string) => {
+    return format(new Date(dateString), 'PPpp', { locale: isRTL ? ar : enUS });
+  };
+
+  const totalQuantity = request?.items.reduce((sum, item) => sum + item.quantity, 0) ?? 0;
+
+  return (
+    <main className="mx-auto max-w-3xl p-8 print:p-0 bg-background text-foreground">
+      {/* Toolbar (not printed) */}
+      <div className="flex justify-end mb-6 print:hidden">
+        <Button onClick={() => window.print()} disabled={!request}>
+          <Printer className="h-4 w-4 mr-2 rtl:mr-0 rtl:ml-2" />
+          {t('admin:quoteRequests.print')}
+        </Button>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertDescription>{t('admin:quoteRequests.loadError')}</AlertDescription>
+        </Alert>
+      )}
+
+      {isLoading && (
+        <div className="space-y-4">
+          <Skeleton className="h-16 w-1/2" />
+          <Skeleton className="h-40 w-full" />
+          <Skeleton className="h-64 w-full" />
+        </div>
+      )}
+
+      {!isLoading && !error && !request && (
+        <p className="text-muted-foreground">{t('admin:quoteRequests.printSummary.notFound')}</p>
+      )}
+
+      {request && (
+        <article className="space-y-8">
+          {/* Letterhead */}
+          <header className="flex items-start justify-between gap-6 border-b pb-6">
+            <div>
+              <h1 className="text-2xl font-bold">{t('admin:quoteRequests.printSummary.title')}</h1>
+              <p className="text-sm text-muted-foreground mt-1">
+                {t('admin:quoteRequests.printSummary.reference', {
+                  reference: request.id.slice(0, 8).toUpperCase(),
+                  defaultValue: 'Reference {{reference}}',
+                })}
+              </p>
+              <p className="text-sm text-muted-foreground">{formatFullDate(request.created_at)}</p>
+            </div>
+            <img src="/LOGO.png" alt="MST-KSA Logo" className="h-16 w-auto object-contain" />
+          </header>
+
+          {/* Customer */}
+          <section>
+            <h2 className="text-lg font-semibold mb-3">{t('admin:quoteRequests.printSummary.customer')}</h2>
+            <dl className="grid grid-cols-[max-content_1fr] gap-x-6 gap-y-1 text-sm">
+              <dt className="text-muted-foreground">{t('admin:quoteRequests.table.customer')}</dt>
+              <dd>{request.name}</dd>
+              {request.company && (
+                <>
+                  <dt className="text-muted-foreground">{t('admin:quoteRequests.details.company')}</dt>
+                  <dd>{request.company}</dd>
+                </>
+              )}
+              <dt className="text-muted-foreground">{t('admin:quoteRequests.table.email')}</dt>
+              <dd>{request.email}</dd>
+              {request.phone && (
+                <>
+                  <dt className="text-muted-foreground">{t('admin:quoteRequests.details.phone')}</dt>
+                  <dd dir="ltr" className="rtl:text-right">{request.phone}</dd>
+                </>
+              )}
+              <dt className="text-muted-foreground">{t('admin:quoteRequests.table.status')}</dt>
+              <dd>{t(`admin:quoteRequests.status.${request.status}`)}</dd>
+            </dl>
+          </section>
+
+          {/* Items */}
+          <section>
+            <h2 className="text-lg font-semibold mb-3">{t('admin:quoteRequests.printSummary.items')}</h2>
+            <table className="w-full text-sm border-collapse">
+              <thead>
+                <tr className="border-b">
+                  <th className="py-2 text-start font-medium w-10">#</th>
+                  <th className="py-2 text-start font-medium">{t('admin:quoteRequests.details.item')}</th>
+                  <th className="py-2 text-end font-medium w-24">{t('admin:quoteRequests.details.quantity')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {request.items.map((item, index) => (
+                  <tr key={item.id} className="border-b break-inside-avoid">
+                    <td className="py-2 align-top">{index + 1}</td>
+                    <td className="py-2">
+                      {item.description}
+                      {item.catalog && (
+                        <span className="block text-xs text-muted-foreground">
+                          {t('admin:quoteRequests.printSummary.catalogItem')}
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-2 text-end align-top">{item.quantity}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                <tr>
+                  <td />
+                  <td className="py-2 font-medium">{t('admin:quoteRequests.printSummary.totalQuantity')}</td>
+                  <td className="py-2 text-end font-medium">{totalQuantity}</td>
+                </tr>
+              </tfoot>
+            </table>
+          </section>
+
+          {/* Notes */}
+          {request.message && (
+            <section>
+              <h2 className="text-lg font-semibold mb-3">{t('admin:quoteRequests.details.notes')}</h2>
+              <p className="text-sm whitespace-pre-wrap">{request.message}</p>
+            </section>
+          )}
+        </article>
+      )}
+    </main>
+  );
+};
+
+export default QuoteRequestPrint;
@@ -0,0 +1,397 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useTranslation } from 'react-i18next';
+import { supabase } from '@/lib/supabase';
+import AdminLayout from '@/layouts/AdminLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Collapsible,
+  CollapsibleContent,
+  CollapsibleTrigger,
+} from '@/components/ui/collapsible';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  ClipboardList,
+  Search,
+  ChevronDown,
+  ChevronUp,
+  Mail,
+  Phone,
+  Calendar,
+  Printer,
+  AlertCircle,
+} from 'lucide-react';
+import { formatDistanceToNow, format } from 'date-fns';
+import { ar, enUS } from 'date-fns/locale';
+import { toast } from 'sonner';
+import type { RfqRequestWithItems, RfqStatus } from '@/types/database';
+import { RFQ_STATUSES } from '@/lib/rfq';
+import { matchesSearch } from '@/lib/search-normalization';
+import { DataTableSkeleton } from '@/components/skeletons';
+import { EmptyState } from '@/components/EmptyState';
+
+const ALL_STATUSES = 'all';
+
+/**
+ * Status badge colors, following the contact submissions page
+ */
+const STATUS_CLASSES: Record<RfqStatus, string> = {
+  new: 'bg-orange-100 text-orange-800 dark:bg-orange-900/20 dark:text-orange-400',
+  in_progress: 'bg-blue-100 text-blue-800 dark:bg-blue-900/20 dark:text-blue-400',
+  quoted: 'bg-green-100 text-green-800 dark:bg-green-900/20 dark:text-green-400',
+  closed: 'bg-muted text-muted-foreground',
+};
+
+/**
+ * Quote Requests Admin Page
+ * Lists requests for quotation from the catalog quote cart, with their
+ * items, status handling and a printable summary
+ */
+const QuoteRequests = () => {
+  const { t, i18n } = useTranslation();
+  const queryClient = useQueryClient();
+  const isRTL = i18n.language === 'ar';
+
+  const [searchQuery, setSearchQuery] = useState('');
+  const [statusFilter, setStatusFilter] = useState<RfqStatus | typeof ALL_STATUSES>(ALL_STATUSES);
+  const [expandedRows, setExpandedRows] = useState<Set<string>>(new Set());
+
+  // Fetch quote requests with their items
+  const { data: requests, isLoading, error } = useQuery<RfqRequestWithItems[]>({
+    queryKey: ['rfq-requests'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('rfq_requests')
+        .select(`
+          *,
+          items:rfq_items(
+            *,
+            catalog:catalogs(id, title_en, title_ar, slug)
+          )
+        `)
+        .order('created_at', { ascending: false })
+        .order('position', { referencedTable: 'items', ascending: true });
+
+      if (error) throw error;
+      return data as RfqRequestWithItems[];
+    },
+  });
+
+  // Update status mutation
+  const updateStatusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: RfqStatus }) => {
+      const { error } = await supabase
+        .from('rfq_requests')
+        // @ts-expect-error - Supabase type inference issue with Database generic
+        .update({ status })
+        .eq('id', id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['rfq-requests'] });
+      toast.success(t('admin:quoteRequests.statusUpdated'));
+    },
+    onError: (error) => {
+      console.error('Error updating quote request status:', error);
+      toast.error(t('admin:quoteRequests.statusError'));
+    },
+  });
+
+  // Filter requests based on status and search query
+  const filteredRequests = requests?.filter(
+    (request) =>
+      (statusFilter === ALL_STATUSES || request.status === statusFilter) &&
+      matchesSearch(
+        searchQuery,
+        request.name,
+        request.company,
+        request.email,
+        ...request.items.map((item) => item.description)
+      )
+  );
+
+  // Toggle row expansion
+  const toggleRow = (id: string) => {
+    const newExpanded = new Set(expandedRows);
+    if (newExpanded.has(id)) {
+      newExpanded.delete(id);
+    } else {
+      newExpanded.add(id);
+    }
+    setExpandedRows(newExpanded);
+  };
+
+  // Format date based on language
+  const formatDate = (dateString: string) => {
+    const locale = isRTL ? ar : enUS;
+    return formatDistanceToNow(new Date(dateString), { addSuffix: true, locale });
+  };
+
+  // Format full date
+  const formatFullDate = (dateString: string) => {
+    const locale = isRTL ? ar : enUS;
+    return format(new Date(dateString), 'PPpp', { locale });
+  };
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-3xl font-bold">{t('admin:quoteRequests.title')}</h1>
+          <p className="text-muted-foreground mt-2">{t('admin:quoteRequests.description')}</p>
+        </div>
+
+        {/* Error Alert */}
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{t('admin:quoteRequests.loadError')}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* Search and Filters */}
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('admin:quoteRequests.tableTitle')}</CardTitle>
+            <CardDescription>
+              {filteredRequests
+                ? t('admin:quoteRequests.tableDescription', {
+                    count: filteredRequests.length,
+                    defaultValue: '{{count}} requests total',
+                  })
+                : t('admin:quoteRequests.tableDescriptionEmpty')}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex flex-col sm:flex-row gap-4 mb-6">
+              <div className="relative flex-1">
+                <Search className={`absolute top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground ${isRTL ? 'right-3' : 'left-3'}`} />
+                <Input
+                  placeholder={t('admin:quoteRequests.search')}
+                  value={searchQuery}
+                  onChange={(e) => setSearchQuery(e.target.value)}
+                  className={isRTL ? 'pr-10' : 'pl-10'}
+                />
+              </div>
+              <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as RfqStatus | typeof ALL_STATUSES)}>
+                <SelectTrigger className="w-full sm:w-[200px]" aria-label={t('admin:quoteRequests.filterByStatus')}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_STATUSES}>{t('admin:quoteRequests.allStatuses')}</SelectItem>
+                  {RFQ_STATUSES.map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {t(`admin:quoteRequests.status.${status}`)}
+                      {' '}({requests?.filter((request) => request.status === status).length ?? 0})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {/* Table */}
+            {isLoading ? (
+              <DataTableSkeleton rows={5} columns={7} />
+            ) : filteredRequests && filteredRequests.length > 0 ? (
+              <div className="border rounded-lg">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-[50px]"></TableHead>
+                      <TableHead>{t('admin:quoteRequests.table.date')}</TableHead>
+                      <TableHead>{t('admin:quoteRequests.table.customer')}</TableHead>
+                      <TableHead>{t('admin:quoteRequests.table.email')}</TableHead>
+                      <TableHead>{t('admin:quoteRequests.table.items')}</TableHead>
+                      <TableHead>{t('admin:quoteRequests.table.status')}</TableHead>
+                      <TableHead className="text-right">{t('admin:quoteRequests.table.actions')}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredRequests.map((request) => {
+                      const isExpanded = expandedRows.has(request.id);
+
+                      return (
+                        <Collapsible
+                          key={request.id}
+                          open={isExpanded}
+                          onOpenChange={() => toggleRow(request.id)}
+                          asChild
+                        >
+                          <>
+                            <TableRow className="hover:bg-accent/50">
+                              <TableCell>
+                                <CollapsibleTrigger asChild>
+                                  <Button variant="ghost" size="sm" className="p-0 h-8 w-8">
+                                    {isExpanded ? (
+                                      <ChevronUp className="h-4 w-4" />
+                                    ) : (
+                                      <ChevronDown className="h-4 w-4" />
+                                    )}
+                                  </Button>
+                                </CollapsibleTrigger>
+                              </TableCell>
+                              <TableCell className="font-medium">
+                                <div className="flex items-center gap-2" title={formatFullDate(request.created_at)}>
+                                  <Calendar className="h-4 w-4 text-muted-foreground" />
+                                  <span className="text-sm">{formatDate(request.created_at)}</span>
+                                </div>
+                              </TableCell>
+                              <TableCell>
+                                <p>{request.name}</p>
+                                {request.company && (
+                                  <p className="text-sm text-muted-foreground">{request.company}</p>
+                                )}
+                              </TableCell>
+                              <TableCell>
+                                <div className="flex items-center gap-2">
+                                  <Mail className="h-4 w-4 text-muted-foreground" />
+                                  <span className="text-sm">{request.email}</span>
+                                </div>
+                              </TableCell>
+                              <TableCell>{request.items.length}</TableCell>
+                              <TableCell>
+                                <Select
+                                  value={request.status}
+                                  onValueChange={(status) =>
+                                    updateStatusMutation.mutate({ id: request.id, status: status as RfqStatus })
+                                  }
+                                  disabled={updateStatusMutation.isPending}
+                                >
+                                  <SelectTrigger
+                                    className={`h-8 w-[150px] border-0 ${STATUS_CLASSES[request.status]}`}
+                                    aria-label={t('admin:quoteRequests.table.status')}
+                                  >
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {RFQ_STATUSES.map((status) => (
+                                      <SelectItem key={status} value={status}>
+                                        {t(`admin:quoteRequests.status.${status}`)}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                              </TableCell>
+                              <TableCell className="text-right">
+                                <Button variant="ghost" size="sm" asChild>
+                                  <Link to={`/admin/quote-requests/${request.id}/print`} target="_blank" rel="noopener noreferrer">
+                                    <Printer className="h-4 w-4 mr-2 rtl:mr-0 rtl:ml-2" />
+                                    {t('admin:quoteRequests.print')}
+                                  </Link>
+                                </Button>
+                              </TableCell>
+                            </TableRow>
+                            <CollapsibleContent asChild>
+                              <TableRow>
+                                <TableCell colSpan={7} className="bg-accent/30">
+                                  <div className="p-4 space-y-4">
+                                    <div className="grid grid-cols-2 gap-4 text-sm">
+                                      <div>
+                                        <span className="font-medium text-muted-foreground">
+                                          {t('admin:quoteRequests.details.submittedAt')}:
+                                        </span>
+                                        <p className="mt-1">{formatFullDate(request.created_at)}</p>
+                                      </div>
+                                      {request.phone && (
+                                        <div>
+                                          <span className="font-medium text-muted-foreground">
+                                            {t('admin:quoteRequests.details.phone')}:
+                                          </span>
+                                          <p className="mt-1 flex items-center gap-2">
+                                            <Phone className="h-4 w-4 text-muted-foreground" />
+                                            <span dir="ltr">{request.phone}</span>
+                                          </p>
+                                        </div>
+                                      )}
+                                    </div>
+                                    <div className="bg-background rounded-lg border">
+                                      <Table>
+                                        <TableHeader>
+                                          <TableRow>
+                                            <TableHead>{t('admin:quoteRequests.details.item')}</TableHead>
+                                            <TableHead className="w-[120px] text-right">{t('admin:quoteRequests.details.quantity')}</TableHead>
+                                          </TableRow>
+                                        </TableHeader>
+                                        <TableBody>
+                                          {request.items.map((item) => (
+                                            <TableRow key={item.id}>
+                                              <TableCell>
+                                                {item.catalog ? (
+                                                  <Link
+                                                    to={`/catalogs/${item.catalog.slug}`}
+                                                    target="_blank"
+                                                    rel="noopener noreferrer"
+                                                    className="text-primary hover:underline"
+                                                  >
+                                                    {item.description}
+                                                  </Link>
+                                                ) : (
+                                                  item.description
+                                                )}
+                                              </TableCell>
+                                              <TableCell className="text-right">{item.quantity}</TableCell>
+                                            </TableRow>
+                                          ))}
+                                        </TableBody>
+                                      </Table>
+                                    </div>
+                                    {request.message && (
+                                      <div>
+                                        <span className="font-medium text-muted-foreground text-sm">
+                                          {t('admin:quoteRequests.details.notes')}:
+                                        </span>
+                                        <div className="mt-2 p-4 bg-background rounded-lg border">
+                                          <p className="whitespace-pre-wrap">{request.message}</p>
+                                        </div>
+                                      </div>
+                                    )}
+                                  </div>
+                                </TableCell>
+                              </TableRow>
+                            </CollapsibleContent>
+                          </>
+                        </Collapsible>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+            ) : (
+              <EmptyState
+                icon={ClipboardList}
+                title={t('admin:quoteRequests.emptyState.title')}
+                description={
+                  searchQuery || statusFilter !== ALL_STATUSES
+                    ? t('admin:quoteRequests.emptyState.noResults')
+                    : t('admin:quoteRequests.emptyState.description')
+                }
+              />
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AdminLayout>
+  );
+};
+
+export default QuoteRequests;
@@ -0,0 +1,215 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useTranslation } from 'react-i18next';
+import { toast } from 'sonner';
+import { supabase } from '@/lib/supabase';
+import AdminLayout from '@/layouts/AdminLayout';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Users as UsersIcon, Search, Mail, Calendar, AlertCircle } from 'lucide-react';
+import { format } from 'date-fns';
+import { ar, enUS } from 'date-fns/locale';
+import type { Profile } from '@/types/database';
+import { matchesSearch } from '@/lib/search-normalization';
+import { DataTableSkeleton } from '@/components/skeletons';
+import { EmptyState } from '@/components/EmptyState';
+
+/**
+ * Roles admins can give customers here; admins are created in the database
+ */
+type CustomerRole = Exclude<Profile['role'], 'admin'>;
+
+const CUSTOMER_ROLES: CustomerRole[] = ['user', 'distributor'];
+
+/**
+ * Users Admin Page
+ * Lists the registered accounts, with search, and lets admins give
+ * customers the distributor role (for watermarked catalogs) or take it away
+ */
+const Users = () => {
+  const { t, i18n } = useTranslation();
+  const isRTL = i18n.language === 'ar';
+  const queryClient = useQueryClient();
+
+  const [searchQuery, setSearchQuery] = useState('');
+
+  // Fetch all profiles, newest first
+  const { data: profiles, isLoading, error } = useQuery<Profile[]>({
+    queryKey: ['profiles'],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from('profiles')
+        .select('*')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      return data as Profile[];
+    },
+  });
+
+  // Update a customer's role
+  const updateRoleMutation = useMutation({
+    mutationFn: async ({ id, role }: { id: string; role: CustomerRole }) => {
+      const { error } = await supabase
+        .from('profiles')
+        // @ts-expect-error - Supabase type inference issue with Database generic
+        .update({ role })
+        .eq('id', id)
+        .neq('role', 'admin');
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['profiles'] });
+      toast.success(t('admin:users.roleUpdated'));
+    },
+    onError: (error) => {
+      console.error('Error updating user role:', error);
+      toast.error(t('admin:users.roleError'));
+    },
+  });
+
+  // Filter profiles based on search query
+  const filteredProfiles = profiles?.filter((profile) => matchesSearch(searchQuery, profile.email));
+
+  // Format date based on language
+  const formatDate = (dateString: string) => {
+    return format(new Date(dateString), 'PP', { locale: isRTL ? ar : enUS });
+  };
+
+  return (
+    <AdminLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-3xl font-bold">{t('admin:users.title')}</h1>
+          <p className="text-muted-foreground mt-2">{t('admin:users.description')}</p>
+        </div>
+
+        {/* Error Alert */}
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{t('admin:users.loadError')}</AlertDescription>
+          </Alert>
+        )}
+
+        {/* Search */}
+        <Card>
+          <CardHeader>
+            <CardTitle>{t('admin:users.tableTitle')}</CardTitle>
+            <CardDescription>
+              {filteredProfiles
+                ? t('admin:users.tableDescription', {
+                    count: filteredProfiles.length,
+                    defaultValue: '{{count}} users total',
+                  })
+                : t('admin:users.tableDescriptionEmpty')}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="relative mb-6">
+              <Search className={`absolute top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground ${isRTL ? 'right-3' : 'left-3'}`} />
+              <Input
+                placeholder={t('admin:users.search')}
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className={isRTL ? 'pr-10' : 'pl-10'}
+              />
+            </div>
+
+            {/* Table */}
+            {isLoading ? (
+              <DataTableSkeleton rows={5} columns={3} />
+            ) : filteredProfiles && filteredProfiles.length > 0 ? (
+              <div className="border rounded-lg">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t('admin:users.table.email')}</TableHead>
+                      <TableHead>{t('admin:users.table.role')}</TableHead>
+                      <TableHead>{t('admin:users.table.joined')}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredProfiles.map((profile) => (
+                      <TableRow key={profile.id}>
+                        <TableCell className="font-medium">
+                          <a href={`mailto:${profile.email}`} className="flex items-center gap-2 hover:underline">
+                            <Mail className="h-4 w-4 text-muted-foreground" />
+                            <span className="text-sm" dir="ltr">{profile.email}</span>
+                          </a>
+                        </TableCell>
+                        <TableCell>
+                          {profile.role === 'admin' ? (
+                            <Badge variant="secondary" title={t('admin:users.adminHint')}>
+                              {t('admin:users.roles.admin')}
+                            </Badge>
+                          ) : (
+                            <Select
+                              value={profile.role}
+                              onValueChange={(value) =>
+                                updateRoleMutation.mutate({ id: profile.id, role: value as CustomerRole })
+                              }
+                              disabled={updateRoleMutation.isPending}
+                            >
+                              <SelectTrigger className="w-[180px]" aria-label={t('admin:users.table.role')}>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {CUSTOMER_ROLES.map((role) => (
+                                  <SelectItem key={role} value={role}>
+                                    {t(`admin:users.roles.${role}`)}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <Calendar className="h-4 w-4 text-muted-foreground" />
+                            <span className="text-sm">{formatDate(profile.created_at)}</span>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            ) : (
+              <EmptyState
+                icon={UsersIcon}
+                title={t('admin:users.emptyState.title')}
+                description={
+                  searchQuery
+                    ? t('admin:users.emptyState.noResults')
+                    : t('admin:users.emptyState.description')
+                }
+              />
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </AdminLayout>
+  );
+};
+
+export default Users;
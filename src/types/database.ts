@@ -21,11 +21,117 @@ export interface Database {
         Insert: CatalogInsert;
         Update: CatalogUpdate;
       };
+      tags: {
+        Row: Tag;
+        Insert: TagInsert;
+        Update: TagUpdate;
+      };
+      catalog_tags: {
+        Row: CatalogTag;
+        Insert: CatalogTagInsert;
+        Update: Partial<CatalogTagInsert>;
+      };
+      catalog_pages: {
+        Row: CatalogPage;
+        Insert: CatalogPageInsert;
+        Update: Partial<CatalogPageInsert>;
+      };
+      catalog_versions: {
+        Row: CatalogVersion;
+        Insert: CatalogVersionInsert;
+        Update: Partial<CatalogVersionInsert>;
+      };
+      catalog_events: {
+        Row: CatalogEvent;
+        Insert: CatalogEventInsert;
+        Update: never; // Events are insert-only
+      };
+      catalog_leads: {
+        Row: CatalogLead;
+        Insert: CatalogLeadInsert;
+        Update: never; // Leads are insert-only
+      };
+      catalog_favorites: {
+        Row: CatalogFavorite;
+        Insert: CatalogFavoriteInsert;
+        Update: never; // Favorites are added and removed, never edited
+      };
+      catalog_watermarked_downloads: {
+        Row: CatalogWatermarkedDownload;
+        Insert: never; // Recorded by the catalog-watermark-download edge function
+        Update: never;
+      };
+      catalog_campaign_links: {
+        Row: CatalogCampaignLink;
+        Insert: CatalogCampaignLinkInsert;
+        Update: never; // Printed links must keep pointing at the same place
+      };
+      catalog_share_links: {
+        Row: CatalogShareLink;
+        Insert: CatalogShareLinkInsert;
+        Update: CatalogShareLinkUpdate;
+      };
       contact_submissions: {
         Row: ContactSubmission;
         Insert: ContactSubmissionInsert;
         Update: ContactSubmissionUpdate;
       };
+      rfq_requests: {
+        Row: RfqRequest;
+        Insert: never; // Submitted through submit_rfq_request()
+        Update: RfqRequestUpdate;
+      };
+      rfq_items: {
+        Row: RfqItem;
+        Insert: never; // Submitted through submit_rfq_request()
+        Update: never;
+      };
+    };
+    Functions: {
+      search_catalogs: {
+        Args: SearchCatalogsArgs;
+        Returns: CatalogSearchResult[];
+      };
+      search_catalog_facets: {
+        Args: SearchCatalogFacetsArgs;
+        Returns: CatalogFacetCount[];
+      };
+      search_catalog_pages: {
+        Args: SearchCatalogPagesArgs;
+        Returns: CatalogPageSearchResult[];
+      };
+      catalog_event_top_catalogs: {
+        Args: CatalogEventReportArgs & { max_results?: number };
+        Returns: CatalogEventTopCatalog[];
+      };
+      catalog_event_trends: {
+        Args: CatalogEventReportArgs;
+        Returns: CatalogEventTrend[];
+      };
+      catalog_event_languages: {
+        Args: CatalogEventReportArgs;
+        Returns: CatalogEventLanguageCount[];
+      };
+      catalog_event_bundles: {
+        Args: CatalogEventReportArgs;
+        Returns: CatalogEventBundleCount[];
+      };
+      catalog_event_campaigns: {
+        Args: CatalogEventReportArgs;
+        Returns: CatalogEventCampaign[];
+      };
+      open_catalog_campaign_link: {
+        Args: OpenCatalogCampaignLinkArgs;
+        Returns: OpenedCatalogCampaignLink[];
+      };
+      related_catalogs: {
+        Args: RelatedCatalogsArgs;
+        Returns: RelatedCatalog[];
+      };
+      submit_rfq_request: {
+        Args: SubmitRfqRequestArgs;
+        Returns: string;
+      };
     };
   };
 }
@@ -34,13 +140,14 @@ export interface Database {
 export interface Profile {
   id: string;
   email: string;
-  role: 'user' | 'admin';
+  role: 'user' | 'distributor' | 'admin';
+  preferred_language: 'en' | 'ar' | null; // Applied when the user signs in
   created_at: string;
   updated_at: string;
 }
 
-export type ProfileInsert = Omit<Profile, 'id' | 'created_at' | 'updated_at'>;
-export type ProfileUpdate = Partial<ProfileInsert>;
+export type ProfileInsert = Omit<Profile, 'id' | 'preferred_language' | 'created_at' | 'updated_at'>;
+export type ProfileUpdate = Partial<Omit<Profile, 'id' | 'created_at' | 'updated_at'>>;
 
 // Category Types
 export interface Category {
@@ -56,21 +163,216 @@ export type CategoryInsert = Omit<Category, 'id' | 'created_at' | 'updated_at'>;
 export type CategoryUpdate = Partial<CategoryInsert>;
 
 // Catalog Types
+export type CatalogStatus = 'draft' | 'in_review' | 'published' | 'archived';
+
 export interface Catalog {
   id: string;
   title_en: string;
   title_ar: string;
+  slug: string;
+  slug_ar: string; // Made from the Arabic title; /catalogs/:slug accepts either slug
   category_id: string;
   pdf_url: string;
   thumbnail_url: string;
   file_size: number;
-  published: boolean;
+  published: boolean; // Derived from status by the database
+  status: CatalogStatus;
+  gated: boolean; // Downloads ask for the customer's details first
+  private: boolean; // PDF lives in the private bucket; only reachable through share links
+  watermark_downloads: boolean; // Downloads are stamped with the downloader's email and the date
+  publish_at: string | null; // Hidden from the public until this time
+  unpublish_at: string | null; // Hidden from the public from this time on
+  submitted_by: string | null;
+  submitted_at: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_comment: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// Slugs are generated by the database when omitted; new catalogs always start as drafts
+export type CatalogInsert = Omit<
+  Catalog,
+  | 'id'
+  | 'slug'
+  | 'slug_ar'
+  | 'published'
+  | 'status'
+  | 'submitted_by'
+  | 'submitted_at'
+  | 'reviewed_by'
+  | 'reviewed_at'
+  | 'review_comment'
+  | 'created_at'
+  | 'updated_at'
+> & { slug?: string; slug_ar?: string };
+// Review columns are only written together with a status transition
+export type CatalogUpdate = Partial<CatalogInsert> & {
+  status?: CatalogStatus;
+  review_comment?: string | null;
+};
+
+// Tag Types
+export interface Tag {
+  id: string;
+  name_en: string;
+  name_ar: string;
+  slug: string;
   created_at: string;
   updated_at: string;
 }
 
-export type CatalogInsert = Omit<Catalog, 'id' | 'created_at' | 'updated_at'>;
-export type CatalogUpdate = Partial<CatalogInsert>;
+export type TagInsert = Omit<Tag, 'id' | 'created_at' | 'updated_at'>;
+export type TagUpdate = Partial<TagInsert>;
+
+// Catalog Tag Types (join table)
+export interface CatalogTag {
+  catalog_id: string;
+  tag_id: string;
+  created_at: string;
+}
+
+export type CatalogTagInsert = Omit<CatalogTag, 'created_at'>;
+
+// Catalog Page Types (extracted PDF text, one row per page)
+export interface CatalogPage {
+  id: string;
+  catalog_id: string;
+  page_number: number;
+  content: string;
+  created_at: string;
+}
+
+export type CatalogPageInsert = Omit<CatalogPage, 'id' | 'created_at'>;
+
+// Catalog Version Types (archived files replaced by a newer edition)
+export interface CatalogVersion {
+  id: string;
+  catalog_id: string;
+  version_number: number;
+  pdf_url: string;
+  thumbnail_url: string;
+  file_size: number;
+  change_note: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+// Version number and author are set by the database
+export type CatalogVersionInsert = Omit<CatalogVersion, 'id' | 'version_number' | 'created_by' | 'created_at'>;
+
+// Catalog Event Types (usage analytics, insert-only for the public)
+export type CatalogEventType = 'view' | 'download' | 'print' | 'share' | 'scan';
+
+// Events the site records directly; scans are recorded by open_catalog_campaign_link()
+export type TrackedCatalogEventType = Exclude<CatalogEventType, 'scan'>;
+
+export interface CatalogEvent {
+  id: string;
+  catalog_id: string;
+  event_type: CatalogEventType;
+  language: 'en' | 'ar';
+  bundle_id: string | null; // Shared by the downloads of one ZIP bundle
+  campaign_link_id: string | null; // Campaign link the visit started from
+  session_id: string | null; // Browser visit, for co-views
+  user_id: string | null;
+  created_at: string;
+}
+
+// User is set by the database from the session
+export type CatalogEventInsert = Omit<
+  CatalogEvent,
+  'id' | 'event_type' | 'bundle_id' | 'campaign_link_id' | 'session_id' | 'user_id' | 'created_at'
+> & {
+  event_type: TrackedCatalogEventType;
+  bundle_id?: string;
+  campaign_link_id?: string;
+  session_id?: string;
+};
+
+// Catalog Lead Types (details left before downloading a gated catalog)
+export interface CatalogLead {
+  id: string;
+  catalog_id: string;
+  name: string;
+  company: string;
+  email: string;
+  phone: string | null;
+  language: 'en' | 'ar';
+  user_id: string | null;
+  created_at: string;
+}
+
+// User is set by the database from the session
+export type CatalogLeadInsert = Omit<CatalogLead, 'id' | 'user_id' | 'created_at'>;
+
+// Catalog Favorite Types (catalogs a customer saved to their account)
+export interface CatalogFavorite {
+  user_id: string;
+  catalog_id: string;
+  created_at: string;
+}
+
+// User is set by the database from the session
+export type CatalogFavoriteInsert = Pick<CatalogFavorite, 'catalog_id'>;
+
+// Catalog Watermarked Download Types (audit trail of stamped downloads)
+export interface CatalogWatermarkedDownload {
+  id: string;
+  catalog_id: string;
+  user_id: string | null;
+  email: string; // As stamped on the file
+  created_at: string;
+}
+
+// Catalog Campaign Link Types (short links for QR codes on printed material)
+export interface CatalogCampaignLink {
+  id: string;
+  catalog_id: string;
+  page_number: number | null; // Empty opens the first page
+  code: string; // Used in the short link
+  campaign: string;
+  source: string;
+  medium: string;
+  created_by: string | null;
+  created_at: string;
+}
+
+// Code and author are set by the database
+export type CatalogCampaignLinkInsert = Pick<CatalogCampaignLink, 'catalog_id' | 'page_number' | 'campaign'> &
+  Partial<Pick<CatalogCampaignLink, 'source' | 'medium'>>;
+
+export interface OpenCatalogCampaignLinkArgs {
+  link_code: string;
+  visitor_language?: 'en' | 'ar';
+  visitor_session_id?: string | null;
+}
+
+export interface OpenedCatalogCampaignLink
+  extends Pick<CatalogCampaignLink, 'catalog_id' | 'page_number' | 'campaign' | 'source' | 'medium'> {
+  campaign_link_id: string;
+  slug: string;
+}
+
+// Catalog Share Link Types (expiring links to a private catalog)
+export interface CatalogShareLink {
+  id: string;
+  catalog_id: string;
+  token: string;
+  label: string | null; // Who the link was made for
+  expires_at: string;
+  max_downloads: number | null; // Empty means unlimited
+  download_count: number;
+  revoked_at: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+// Token and author are set by the database
+export type CatalogShareLinkInsert = Pick<CatalogShareLink, 'catalog_id' | 'label' | 'expires_at' | 'max_downloads'>;
+// Links are revoked rather than edited
+export type CatalogShareLinkUpdate = Partial<Pick<CatalogShareLink, 'revoked_at'>>;
 
 // Contact Submission Types
 export interface ContactSubmission {
@@ -81,16 +383,206 @@ export interface ContactSubmission {
   subject: string;
   message: string;
   status: 'new' | 'read' | 'responded';
+  user_id: string | null; // Signed-in customer who sent it
+  campaign_link_id: string | null; // Campaign link the visit started from
   created_at: string;
   read_at: string | null;
 }
 
-export type ContactSubmissionInsert = Omit<ContactSubmission, 'id' | 'created_at' | 'read_at'>;
+// User is set by the database from the session
+export type ContactSubmissionInsert = Omit<ContactSubmission, 'id' | 'user_id' | 'campaign_link_id' | 'created_at' | 'read_at'> & {
+  campaign_link_id?: string;
+};
 export type ContactSubmissionUpdate = Partial<Omit<ContactSubmission, 'id' | 'created_at'>>;
 
+// Request for Quotation Types
+export type RfqStatus = 'new' | 'in_progress' | 'quoted' | 'closed';
+
+export interface RfqRequest {
+  id: string;
+  name: string;
+  company: string | null;
+  email: string;
+  phone: string | null;
+  message: string | null;
+  language: 'en' | 'ar';
+  status: RfqStatus;
+  user_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type RfqRequestUpdate = Partial<Pick<RfqRequest, 'status'>>;
+
+export interface RfqItem {
+  id: string;
+  request_id: string;
+  catalog_id: string | null; // Empty for free-text lines
+  description: string;
+  quantity: number;
+  position: number;
+  created_at: string;
+}
+
+export interface SubmitRfqRequestArgs {
+  customer_name: string;
+  customer_email: string;
+  items: Pick<RfqItem, 'catalog_id' | 'description' | 'quantity'>[];
+  customer_company?: string | null;
+  customer_phone?: string | null;
+  customer_message?: string | null;
+  customer_language?: 'en' | 'ar';
+}
+
 // View Models (with joins)
 export interface CatalogWithCategory extends Catalog {
   category: Category;
+  tags?: Tag[];
+}
+
+export interface CatalogLeadWithCatalog extends CatalogLead {
+  catalog: Pick<Catalog, 'id' | 'title_en' | 'title_ar' | 'slug'> | null;
+}
+
+export interface RfqRequestWithItems extends RfqRequest {
+  items: (RfqItem & { catalog: Pick<Catalog, 'id' | 'title_en' | 'title_ar' | 'slug'> | null })[];
+}
+
+export interface CatalogFavoriteWithCatalog extends CatalogFavorite {
+  catalog: CatalogWithCategory | null;
+}
+
+export interface CatalogEventWithCatalog extends CatalogEvent {
+  catalog: CatalogWithCategory | null;
+}
+
+export interface CatalogVersionWithAuthor extends CatalogVersion {
+  author: Pick<Profile, 'email'> | null;
+}
+
+// Search Models
+export type CatalogSortOrder = 'relevance' | 'newest' | 'alphabetical' | 'largest';
+
+export interface SearchCatalogsArgs {
+  search_query?: string | null;
+  category_filter?: string | null;
+  tag_filter?: string[] | null;
+  sort_order?: CatalogSortOrder;
+  sort_language?: 'en' | 'ar';
+  page_size?: number;
+  page_offset?: number;
+}
+
+export interface CatalogSearchResult extends CatalogWithCategory {
+  rank: number;
+  total_count: number;
+}
+
+export interface SearchCatalogFacetsArgs {
+  search_query?: string | null;
+  category_filter?: string | null;
+  tag_filter?: string[] | null;
+}
+
+export interface CatalogFacetCount {
+  facet: 'category' | 'tag';
+  facet_id: string;
+  match_count: number;
+}
+
+export interface SearchCatalogPagesArgs {
+  search_query: string;
+  category_filter?: string | null;
+  tag_filter?: string[] | null;
+  catalog_limit?: number;
+  hits_per_catalog?: number;
+}
+
+export interface CatalogPageSearchResult {
+  catalog_id: string;
+  title_en: string;
+  title_ar: string;
+  slug: string;
+  slug_ar: string;
+  pdf_url: string;
+  thumbnail_url: string;
+  gated: boolean;
+  watermark_downloads: boolean;
+  category: Category;
+  page_number: number;
+  snippet: string; // Matched words wrapped in [[ ]]
+  rank: number;
+}
+
+// Recommendation Models
+export interface RelatedCatalogsArgs {
+  source_catalog_id: string;
+  max_results?: number;
+}
+
+export interface RelatedCatalog
+  extends Pick<
+    Catalog,
+    | 'id'
+    | 'title_en'
+    | 'title_ar'
+    | 'slug'
+    | 'slug_ar'
+    | 'category_id'
+    | 'pdf_url'
+    | 'thumbnail_url'
+    | 'file_size'
+    | 'gated'
+    | 'watermark_downloads'
+    | 'created_at'
+  > {
+  category: Category;
+  score: number;
+}
+
+// Analytics Models
+export interface CatalogEventReportArgs {
+  period_start: string;
+  period_end?: string;
+}
+
+export interface CatalogEventCounts {
+  views: number;
+  downloads: number;
+  prints: number;
+  shares: number;
+}
+
+export interface CatalogEventTopCatalog extends CatalogEventCounts {
+  catalog_id: string;
+  title_en: string;
+  title_ar: string;
+  total: number;
+}
+
+export interface CatalogEventTrend extends CatalogEventCounts {
+  day: string; // YYYY-MM-DD
+}
+
+export interface CatalogEventLanguageCount {
+  language: 'en' | 'ar';
+  event_count: number;
+}
+
+export interface CatalogEventBundleCount {
+  bundles: number;
+  bundled_catalogs: number;
+}
+
+export interface CatalogEventCampaign
+  extends Pick<CatalogCampaignLink, 'code' | 'campaign' | 'source' | 'medium' | 'catalog_id' | 'page_number'> {
+  campaign_link_id: string;
+  title_en: string;
+  title_ar: string;
+  scans: number;
+  views: number;
+  downloads: number;
+  contact_submissions: number;
 }
 
 // Form Models
@@ -108,6 +600,7 @@ export interface CatalogFormData {
   category_id: string;
   pdf_file: File;
   thumbnail_file: File;
+  tag_ids: string[];
 }
 
 export interface CategoryFormData {
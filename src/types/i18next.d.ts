@@ -5,6 +5,8 @@ import enTranslation from '../locales/en/translation.json';
 import enNavigation from '../locales/en/navigation.json';
 import enForms from '../locales/en/forms.json';
 import enCatalogs from '../locales/en/catalogs.json';
+import enAccount from '../locales/en/account.json';
+import enAdmin from '../locales/en/admin.json';
 
 declare module 'i18next' {
   interface CustomTypeOptions {
@@ -14,6 +16,8 @@ declare module 'i18next' {
       navigation: typeof enNavigation;
       forms: typeof enForms;
       catalogs: typeof enCatalogs;
+      account: typeof enAccount;
+      admin: typeof enAdmin;
     };
   }
 }
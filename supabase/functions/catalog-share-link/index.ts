@@ -0,0 +1,122 @@
+/**
+ * catalog-share-link Edge Function
+ *
+ * Exchanges a catalog share link token for a short-lived signed URL to the
+ * catalog's PDF. Redeeming (and signing) needs the service role, which is
+ * why this runs here instead of in the browser. A link counts one download
+ * per browser session and hour, so the share page can redeem it again to
+ * renew the signed URL.
+ *
+ * Request:  POST { "token": string, "sessionId"?: string }
+ * Response: 200 { catalog, signedUrl, expiresAt, linkExpiresAt, downloadsRemaining }
+ *           404 { error: "invalid_link" } when the link is unknown, revoked,
+ *               expired, used up, or its catalog isn't published
+ *
+ * Deploy with: supabase functions deploy catalog-share-link --no-verify-jwt
+ */
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+
+/**
+ * Longest time a signed URL stays valid (seconds); never past the link's expiry
+ */
+const SIGNED_URL_TTL = 10 * 60;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+interface RedeemedLinkRow {
+  catalog_id: string;
+  title_en: string;
+  title_ar: string;
+  pdf_url: string;
+  expires_at: string;
+  downloads_remaining: number | null;
+}
+
+const jsonResponse = (body: unknown, status = 200): Response => {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+};
+
+/**
+ * Get the bucket and path of a file from its storage URL
+ */
+const getStorageLocation = (url: string): { bucket: string; path: string } | null => {
+  try {
+    const match = new URL(url).pathname.match(/\/storage\/v1\/object\/public\/([^/]+)\/(.+)$/);
+    return match ? { bucket: match[1], path: decodeURIComponent(match[2]) } : null;
+  } catch {
+    return null;
+  }
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'method_not_allowed' }, 405);
+  }
+
+  const { token, sessionId } = await req.json().catch(() => ({ token: null, sessionId: null }));
+  if (typeof token !== 'string' || token.length === 0) {
+    return jsonResponse({ error: 'invalid_link' }, 404);
+  }
+
+  // Without a (valid) session, every redemption counts
+  const visitorSessionId = typeof sessionId === 'string' && UUID_PATTERN.test(sessionId) ? sessionId : null;
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  );
+
+  // Step 1: Validate the link and count the download, once per session and hour
+  const { data, error } = await supabase
+    .rpc('redeem_catalog_share_link', { share_token: token, visitor_session_id: visitorSessionId })
+    .maybeSingle();
+
+  if (error) {
+    console.error('Failed to redeem share link:', error);
+    return jsonResponse({ error: 'server_error' }, 500);
+  }
+
+  const link = data as RedeemedLinkRow | null;
+  if (!link) {
+    return jsonResponse({ error: 'invalid_link' }, 404);
+  }
+
+  // Step 2: Sign the PDF for the shorter of the TTL and the link's remaining lifetime
+  const location = getStorageLocation(link.pdf_url);
+  if (!location) {
+    console.error('Catalog PDF URL is not a storage URL:', link.catalog_id);
+    return jsonResponse({ error: 'server_error' }, 500);
+  }
+
+  const secondsLeft = Math.floor((new Date(link.expires_at).getTime() - Date.now()) / 1000);
+  const expiresIn = Math.max(1, Math.min(SIGNED_URL_TTL, secondsLeft));
+
+  const { data: signed, error: signError } = await supabase.storage
+    .from(location.bucket)
+    .createSignedUrl(location.path, expiresIn);
+
+  if (signError || !signed) {
+    console.error('Failed to sign catalog PDF:', signError);
+    return jsonResponse({ error: 'server_error' }, 500);
+  }
+
+  return jsonResponse({
+    catalog: { id: link.catalog_id, title_en: link.title_en, title_ar: link.title_ar },
+    signedUrl: signed.signedUrl,
+    expiresAt: new Date(Date.now() + expiresIn * 1000).toISOString(),
+    linkExpiresAt: link.expires_at,
+    downloadsRemaining: link.downloads_remaining,
+  });
+});
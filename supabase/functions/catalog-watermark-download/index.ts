@@ -0,0 +1,222 @@
+/**
+ * catalog-watermark-download Edge Function
+ *
+ * Serves a catalog PDF stamped with the downloader's email and the date on
+ * every page, for catalogs with watermarked downloads turned on, and records
+ * the copy in the audit trail. Only distributors (and admins) are served.
+ * The stored files of these catalogs are private, so this is the only way
+ * to open them: the site's viewer shows, prints and saves the stamped copy. Reading the stored file and writing the
+ * trail need the service role, which is why this runs here instead of in the
+ * browser.
+ *
+ * Request:  POST { "catalogId": string } with the user's session token
+ * Response: 200 application/pdf (the stamped file)
+ *           401 { error: "unauthorized" } when the request isn't signed in (with
+ *               an email account)
+ *           403 { error: "forbidden" } when the user isn't a distributor
+ *           404 { error: "not_found" } when the catalog isn't live, is private,
+ *               or doesn't have watermarked downloads
+ *
+ * Deploy with: supabase functions deploy catalog-watermark-download
+ */
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { degrees, PDFDocument, rgb, StandardFonts } from 'https://esm.sh/pdf-lib@1.17.1';
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+/**
+ * Look of the stamp: a large diagonal line across the page and a small
+ * line along the bottom edge, both light enough to keep prices readable
+ */
+const DIAGONAL_OPACITY = 0.12;
+const FOOTER_OPACITY = 0.6;
+const FOOTER_FONT_SIZE = 8;
+const FOOTER_MARGIN = 12;
+
+/**
+ * Profile roles that may download watermarked catalogs
+ */
+const ALLOWED_ROLES = ['distributor', 'admin'];
+
+interface WatermarkedCatalogRow {
+  catalog_id: string;
+  title_en: string;
+  title_ar: string;
+  pdf_url: string;
+}
+
+const jsonResponse = (body: unknown, status = 200): Response => {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+};
+
+/**
+ * Get the bucket and path of a file from its storage URL
+ */
+const getStorageLocation = (url: string): { bucket: string; path: string } | null => {
+  try {
+    const match = new URL(url).pathname.match(/\/storage\/v1\/object\/public\/([^/]+)\/(.+)$/);
+    return match ? { bucket: match[1], path: decodeURIComponent(match[2]) } : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Keep only characters the standard PDF fonts can draw
+ */
+const toStampText = (text: string): string => text.replace(/[^\x20-\x7E]/g, '?');
+
+/**
+ * Draw the downloader's email and the date on every page
+ */
+const stampPdf = async (file: Uint8Array, email: string, date: string): Promise<Uint8Array> => {
+  const pdf = await PDFDocument.load(file, { ignoreEncryption: true });
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  const diagonalText = toStampText(`${email} - ${date}`);
+  const footerText = toStampText(`Downloaded by ${email} on ${date}`);
+
+  for (const page of pdf.getPages()) {
+    const { width, height } = page.getSize();
+
+    // Across the page, corner to corner, at most 80% of the diagonal long
+    const angle = Math.atan2(height, width);
+    const diagonal = Math.hypot(width, height);
+    const fontSize = Math.min((diagonal * 0.8) / font.widthOfTextAtSize(diagonalText, 1), 48);
+    const textWidth = font.widthOfTextAtSize(diagonalText, fontSize);
+    const x = width / 2 - (Math.cos(angle) * textWidth) / 2 + (Math.sin(angle) * fontSize) / 2;
+    const y = height / 2 - (Math.sin(angle) * textWidth) / 2 - (Math.cos(angle) * fontSize) / 2;
+
+    page.drawText(diagonalText, {
+      x,
+      y,
+      size: fontSize,
+      font,
+      color: rgb(0.5, 0.5, 0.5),
+      opacity: DIAGONAL_OPACITY,
+      rotate: degrees((angle * 180) / Math.PI),
+    });
+
+    page.drawText(footerText, {
+      x: FOOTER_MARGIN,
+      y: FOOTER_MARGIN,
+      size: FOOTER_FONT_SIZE,
+      font,
+      color: rgb(0.3, 0.3, 0.3),
+      opacity: FOOTER_OPACITY,
+    });
+  }
+
+  return pdf.save();
+};
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'method_not_allowed' }, 405);
+  }
+
+  const { catalogId } = await req.json().catch(() => ({ catalogId: null }));
+  if (typeof catalogId !== 'string' || catalogId.length === 0) {
+    return jsonResponse({ error: 'not_found' }, 404);
+  }
+
+  const supabase = createClient(
+    Deno.env.get('SUPABASE_URL')!,
+    Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+  );
+
+  // Step 1: Identify the downloader from their session token; the stamp
+  // uses the account's verified email, not the editable profile copy
+  const jwt = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '') ?? '';
+  const { data: { user } } = await supabase.auth.getUser(jwt);
+  if (!user?.email) {
+    return jsonResponse({ error: 'unauthorized' }, 401);
+  }
+
+  // Step 2: Check the downloader is a distributor before stamping anything
+  const { data: profile, error: profileError } = await supabase
+    .from('profiles')
+    .select('role')
+    .eq('id', user.id)
+    .maybeSingle();
+
+  if (profileError) {
+    console.error('Failed to read downloader profile:', profileError);
+    return jsonResponse({ error: 'server_error' }, 500);
+  }
+
+  if (!profile || !ALLOWED_ROLES.includes(profile.role)) {
+    return jsonResponse({ error: 'forbidden' }, 403);
+  }
+
+  // Step 3: Check the catalog
+  const { data, error } = await supabase
+    .rpc('get_watermarked_catalog', { target_catalog_id: catalogId })
+    .maybeSingle();
+
+  if (error) {
+    console.error('Failed to look up watermarked catalog:', error);
+    return jsonResponse({ error: 'server_error' }, 500);
+  }
+
+  const catalog = data as WatermarkedCatalogRow | null;
+  if (!catalog) {
+    return jsonResponse({ error: 'not_found' }, 404);
+  }
+
+  // Step 4: Read the stored PDF
+  const location = getStorageLocation(catalog.pdf_url);
+  if (!location) {
+    console.error('Catalog PDF URL is not a storage URL:', catalog.catalog_id);
+    return jsonResponse({ error: 'server_error' }, 500);
+  }
+
+  const { data: file, error: downloadError } = await supabase.storage
+    .from(location.bucket)
+    .download(location.path);
+
+  if (downloadError || !file) {
+    console.error('Failed to read catalog PDF:', downloadError);
+    return jsonResponse({ error: 'server_error' }, 500);
+  }
+
+  // Step 5: Stamp every page
+  let stamped: Uint8Array;
+  try {
+    const date = new Date().toISOString().slice(0, 10);
+    stamped = await stampPdf(new Uint8Array(await file.arrayBuffer()), user.email, date);
+  } catch (stampError) {
+    console.error('Failed to watermark catalog PDF:', stampError);
+    return jsonResponse({ error: 'server_error' }, 500);
+  }
+
+  // Step 6: Record the copy now that it exists; an unrecorded copy isn't served
+  const { error: recordError } = await supabase.rpc('record_watermarked_download', {
+    target_catalog_id: catalog.catalog_id,
+    downloader_id: user.id,
+    downloader_email: user.email,
+  });
+
+  if (recordError) {
+    console.error('Failed to record watermarked download:', recordError);
+    return jsonResponse({ error: 'server_error' }, 500);
+  }
+
+  return new Response(stamped, {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${catalog.catalog_id}.pdf"`,
+      'Cache-Control': 'no-store',
+    },
+  });
+});
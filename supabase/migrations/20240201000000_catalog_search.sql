@@ -0,0 +1,157 @@
+-- =====================================================
+-- MST-KSA Catalog Full-Text Search
+-- =====================================================
+-- This migration adds server-side bilingual search for the public
+-- catalogs page:
+-- 1. search_vector column on catalogs (titles + category names)
+-- 2. Triggers keeping the vector in sync with catalogs and categories
+-- 3. search_catalogs() RPC with relevance ordering and pagination
+-- =====================================================
+
+-- =====================================================
+-- 1. SEARCH DOCUMENT
+-- =====================================================
+-- Builds the weighted search document for a catalog.
+-- The 'simple' configuration is used so English and Arabic text share
+-- one language-agnostic index; titles rank above category names.
+CREATE OR REPLACE FUNCTION public.catalog_search_document(
+    title_en TEXT,
+    title_ar TEXT,
+    category_name_en TEXT,
+    category_name_ar TEXT
+)
+RETURNS tsvector AS $$
+    SELECT
+        setweight(to_tsvector('simple', coalesce(title_en, '')), 'A') ||
+        setweight(to_tsvector('simple', coalesce(title_ar, '')), 'A') ||
+        setweight(to_tsvector('simple', coalesce(category_name_en, '')), 'B') ||
+        setweight(to_tsvector('simple', coalesce(category_name_ar, '')), 'B');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Converts raw user input into a prefix-matching tsquery.
+-- Every word must match (AND); returns NULL for empty input.
+CREATE OR REPLACE FUNCTION public.catalog_search_query(raw_query TEXT)
+RETURNS tsquery AS $$
+    SELECT to_tsquery('simple', string_agg(quote_literal(word) || ':*', ' & '))
+    FROM regexp_split_to_table(lower(coalesce(raw_query, '')), '[\s[:punct:]]+') AS word
+    WHERE word <> '';
+$$ LANGUAGE sql IMMUTABLE;
+
+-- =====================================================
+-- 2. SEARCH VECTOR COLUMN
+-- =====================================================
+ALTER TABLE public.catalogs
+    ADD COLUMN IF NOT EXISTS search_vector tsvector;
+
+-- Create GIN index for full-text lookups
+CREATE INDEX IF NOT EXISTS idx_catalogs_search_vector
+    ON public.catalogs USING GIN (search_vector);
+
+-- Backfill existing catalogs
+UPDATE public.catalogs c
+SET search_vector = public.catalog_search_document(c.title_en, c.title_ar, cat.name_en, cat.name_ar)
+FROM public.categories cat
+WHERE cat.id = c.category_id;
+
+-- =====================================================
+-- 3. SYNC TRIGGERS
+-- =====================================================
+-- Refresh a catalog's vector when its titles or category change
+CREATE OR REPLACE FUNCTION public.handle_catalog_search_vector()
+RETURNS TRIGGER AS $$
+BEGIN
+    SELECT public.catalog_search_document(NEW.title_en, NEW.title_ar, cat.name_en, cat.name_ar)
+    INTO NEW.search_vector
+    FROM public.categories cat
+    WHERE cat.id = NEW.category_id;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_search_vector_catalogs ON public.catalogs;
+CREATE TRIGGER set_search_vector_catalogs
+    BEFORE INSERT OR UPDATE OF title_en, title_ar, category_id ON public.catalogs
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_catalog_search_vector();
+
+-- Refresh all catalogs of a category when the category is renamed
+CREATE OR REPLACE FUNCTION public.handle_category_search_vector()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE public.catalogs
+    SET search_vector = public.catalog_search_document(title_en, title_ar, NEW.name_en, NEW.name_ar)
+    WHERE category_id = NEW.id;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS refresh_catalog_search_vectors ON public.categories;
+CREATE TRIGGER refresh_catalog_search_vectors
+    AFTER UPDATE OF name_en, name_ar ON public.categories
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_category_search_vector();
+
+-- =====================================================
+-- 4. SEARCH RPC
+-- =====================================================
+-- Returns one page of published catalogs ordered by relevance.
+-- Without a query, catalogs are returned newest first.
+-- total_count carries the number of matches across all pages.
+-- Runs with the caller's privileges so catalog RLS still applies.
+CREATE OR REPLACE FUNCTION public.search_catalogs(
+    search_query TEXT DEFAULT NULL,
+    category_filter UUID DEFAULT NULL,
+    page_size INTEGER DEFAULT 12,
+    page_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    id UUID,
+    title_en TEXT,
+    title_ar TEXT,
+    category_id UUID,
+    pdf_url TEXT,
+    thumbnail_url TEXT,
+    file_size BIGINT,
+    published BOOLEAN,
+    created_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE,
+    category JSONB,
+    rank REAL,
+    total_count BIGINT
+) AS $$
+    WITH query AS (
+        SELECT public.catalog_search_query(search_query) AS ts_query
+    )
+    SELECT
+        c.id,
+        c.title_en,
+        c.title_ar,
+        c.category_id,
+        c.pdf_url,
+        c.thumbnail_url,
+        c.file_size,
+        c.published,
+        c.created_at,
+        c.updated_at,
+        to_jsonb(cat.*) AS category,
+        CASE
+            WHEN query.ts_query IS NULL THEN 0
+            ELSE ts_rank_cd(c.search_vector, query.ts_query)
+        END AS rank,
+        COUNT(*) OVER () AS total_count
+    FROM public.catalogs c
+    JOIN public.categories cat ON cat.id = c.category_id
+    CROSS JOIN query
+    WHERE c.published = true
+      AND (category_filter IS NULL OR c.category_id = category_filter)
+      AND (query.ts_query IS NULL OR c.search_vector @@ query.ts_query)
+    ORDER BY rank DESC, c.created_at DESC
+    LIMIT greatest(page_size, 1)
+    OFFSET greatest(page_offset, 0);
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.search_catalogs(TEXT, UUID, INTEGER, INTEGER) TO anon, authenticated;
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
@@ -0,0 +1,62 @@
+-- =====================================================
+-- MST-KSA Arabic-Aware Search Normalization
+-- =====================================================
+-- This migration normalizes Arabic text in the catalog search path so
+-- queries match regardless of diacritics and letter variants:
+-- 1. normalize_search_text() helper
+-- 2. Search document and query builders use the helper
+-- 3. Existing search vectors are rebuilt
+--
+-- Mirrors normalizeSearchText() in src/lib/search-normalization.ts;
+-- keep both in sync.
+-- =====================================================
+
+-- =====================================================
+-- 1. NORMALIZATION HELPER
+-- =====================================================
+-- Lowercases, strips tashkeel, superscript alef and tatweel, then folds
+-- alef forms (أ إ آ ٱ → ا), taa marbuta (ة → ه) and alef maqsura (ى → ي)
+CREATE OR REPLACE FUNCTION public.normalize_search_text(input TEXT)
+RETURNS TEXT AS $$
+    SELECT translate(
+        regexp_replace(lower(coalesce(input, '')), '[\u064B-\u065F\u0670\u0640]', '', 'g'),
+        'أإآٱةى',
+        'ااااهي'
+    );
+$$ LANGUAGE sql IMMUTABLE;
+
+-- =====================================================
+-- 2. SEARCH DOCUMENT AND QUERY
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.catalog_search_document(
+    title_en TEXT,
+    title_ar TEXT,
+    category_name_en TEXT,
+    category_name_ar TEXT
+)
+RETURNS tsvector AS $$
+    SELECT
+        setweight(to_tsvector('simple', public.normalize_search_text(title_en)), 'A') ||
+        setweight(to_tsvector('simple', public.normalize_search_text(title_ar)), 'A') ||
+        setweight(to_tsvector('simple', public.normalize_search_text(category_name_en)), 'B') ||
+        setweight(to_tsvector('simple', public.normalize_search_text(category_name_ar)), 'B');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.catalog_search_query(raw_query TEXT)
+RETURNS tsquery AS $$
+    SELECT to_tsquery('simple', string_agg(quote_literal(word) || ':*', ' & '))
+    FROM regexp_split_to_table(public.normalize_search_text(raw_query), '[\s[:punct:]]+') AS word
+    WHERE word <> '';
+$$ LANGUAGE sql IMMUTABLE;
+
+-- =====================================================
+-- 3. REBUILD SEARCH VECTORS
+-- =====================================================
+UPDATE public.catalogs c
+SET search_vector = public.catalog_search_document(c.title_en, c.title_ar, cat.name_en, cat.name_ar)
+FROM public.categories cat
+WHERE cat.id = c.category_id;
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
@@ -0,0 +1,222 @@
+-- =====================================================
+-- MST-KSA Catalog Slugs
+-- =====================================================
+-- This migration adds deep-linkable slugs for /catalogs/:slug:
+-- 1. slugify() helper (keeps Latin and Arabic letters and digits)
+-- 2. Unique English and Arabic slug columns on catalogs, backfilled from
+--    titles; /catalogs/:slug accepts either one
+-- 3. Trigger keeping slugs unique across both columns (numbering
+--    duplicates) and generating them for new catalogs
+-- 4. search_catalogs() now returns the slugs
+-- =====================================================
+
+-- =====================================================
+-- 1. SLUGIFY HELPER
+-- =====================================================
+-- Lowercases and normalizes the input, then joins runs of Latin letters,
+-- digits and Arabic letters with hyphens
+CREATE OR REPLACE FUNCTION public.slugify(input TEXT)
+RETURNS TEXT AS $$
+    SELECT trim(both '-' from regexp_replace(
+        public.normalize_search_text(input),
+        '[^a-z0-9\u0621-\u064A\u0660-\u0669]+',
+        '-',
+        'g'
+    ));
+$$ LANGUAGE sql IMMUTABLE;
+
+-- =====================================================
+-- 2. SLUG COLUMNS
+-- =====================================================
+-- slug is made from the English title and slug_ar from the Arabic one,
+-- so links shared in either language read in that language
+ALTER TABLE public.catalogs
+    ADD COLUMN IF NOT EXISTS slug TEXT,
+    ADD COLUMN IF NOT EXISTS slug_ar TEXT;
+
+-- Backfill existing catalogs from the English title (Arabic as fallback),
+-- numbering duplicates in creation order
+WITH base AS (
+    SELECT
+        id,
+        created_at,
+        coalesce(
+            nullif(public.slugify(title_en), ''),
+            nullif(public.slugify(title_ar), ''),
+            'catalog'
+        ) AS base_slug
+    FROM public.catalogs
+),
+numbered AS (
+    SELECT
+        id,
+        base_slug,
+        row_number() OVER (PARTITION BY base_slug ORDER BY created_at, id) AS position
+    FROM base
+)
+UPDATE public.catalogs c
+SET slug = CASE
+    WHEN numbered.position = 1 THEN numbered.base_slug
+    ELSE numbered.base_slug || '-' || numbered.position
+END
+FROM numbered
+WHERE numbered.id = c.id
+  AND c.slug IS NULL;
+
+ALTER TABLE public.catalogs
+    ALTER COLUMN slug SET NOT NULL;
+
+-- Create unique index on slug for lookups and uniqueness
+CREATE UNIQUE INDEX IF NOT EXISTS idx_catalogs_slug ON public.catalogs(slug);
+
+-- =====================================================
+-- 3. SLUG TRIGGER
+-- =====================================================
+-- Numbers a slug (-2, -3, ...) until no other catalog uses it as its
+-- English or Arabic slug, so /catalogs/:slug finds a single catalog
+CREATE OR REPLACE FUNCTION public.unique_catalog_slug(base_slug TEXT, catalog_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+    candidate TEXT := base_slug;
+    suffix INTEGER := 1;
+BEGIN
+    WHILE EXISTS (
+        SELECT 1 FROM public.catalogs
+        WHERE (slug = candidate OR slug_ar = candidate) AND id <> catalog_id
+    ) LOOP
+        suffix := suffix + 1;
+        candidate := base_slug || '-' || suffix;
+    END LOOP;
+
+    RETURN candidate;
+END;
+$$ LANGUAGE plpgsql VOLATILE;
+
+-- Normalizes a provided slug, or generates one from the titles (the
+-- English slug falls back to the Arabic title and the Arabic slug to the
+-- English slug), and numbers it when another catalog already uses it, so
+-- a duplicate slug entered by an admin doesn't fail the save.
+-- Slugs are kept on title changes so shared links keep working.
+CREATE OR REPLACE FUNCTION public.handle_catalog_slug()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' OR NEW.slug IS DISTINCT FROM OLD.slug THEN
+        NEW.slug := public.unique_catalog_slug(
+            coalesce(
+                nullif(public.slugify(NEW.slug), ''),
+                nullif(public.slugify(NEW.title_en), ''),
+                nullif(public.slugify(NEW.title_ar), ''),
+                'catalog'
+            ),
+            NEW.id
+        );
+    END IF;
+
+    IF TG_OP = 'INSERT' OR NEW.slug_ar IS DISTINCT FROM OLD.slug_ar THEN
+        NEW.slug_ar := public.unique_catalog_slug(
+            coalesce(
+                nullif(public.slugify(NEW.slug_ar), ''),
+                nullif(public.slugify(NEW.title_ar), ''),
+                NEW.slug
+            ),
+            NEW.id
+        );
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_slug_catalogs ON public.catalogs;
+CREATE TRIGGER set_slug_catalogs
+    BEFORE INSERT OR UPDATE OF slug, slug_ar ON public.catalogs
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_catalog_slug();
+
+-- Backfill Arabic slugs through the trigger, in creation order, so they
+-- are numbered against the English slugs as well
+DO $$
+DECLARE
+    catalog_row RECORD;
+BEGIN
+    FOR catalog_row IN
+        SELECT id FROM public.catalogs WHERE slug_ar IS NULL ORDER BY created_at, id
+    LOOP
+        UPDATE public.catalogs SET slug_ar = '' WHERE id = catalog_row.id;
+    END LOOP;
+END;
+$$;
+
+ALTER TABLE public.catalogs
+    ALTER COLUMN slug_ar SET NOT NULL;
+
+-- Create unique index on the Arabic slug for lookups and uniqueness
+CREATE UNIQUE INDEX IF NOT EXISTS idx_catalogs_slug_ar ON public.catalogs(slug_ar);
+
+-- =====================================================
+-- 4. SEARCH RPC WITH SLUGS
+-- =====================================================
+-- The return type changes, so the function is dropped and recreated
+DROP FUNCTION IF EXISTS public.search_catalogs(TEXT, UUID, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_catalogs(
+    search_query TEXT DEFAULT NULL,
+    category_filter UUID DEFAULT NULL,
+    page_size INTEGER DEFAULT 12,
+    page_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    id UUID,
+    title_en TEXT,
+    title_ar TEXT,
+    slug TEXT,
+    slug_ar TEXT,
+    category_id UUID,
+    pdf_url TEXT,
+    thumbnail_url TEXT,
+    file_size BIGINT,
+    published BOOLEAN,
+    created_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE,
+    category JSONB,
+    rank REAL,
+    total_count BIGINT
+) AS $$
+    WITH query AS (
+        SELECT public.catalog_search_query(search_query) AS ts_query
+    )
+    SELECT
+        c.id,
+        c.title_en,
+        c.title_ar,
+        c.slug,
+        c.slug_ar,
+        c.category_id,
+        c.pdf_url,
+        c.thumbnail_url,
+        c.file_size,
+        c.published,
+        c.created_at,
+        c.updated_at,
+        to_jsonb(cat.*) AS category,
+        CASE
+            WHEN query.ts_query IS NULL THEN 0
+            ELSE ts_rank_cd(c.search_vector, query.ts_query)
+        END AS rank,
+        COUNT(*) OVER () AS total_count
+    FROM public.catalogs c
+    JOIN public.categories cat ON cat.id = c.category_id
+    CROSS JOIN query
+    WHERE c.published = true
+      AND (category_filter IS NULL OR c.category_id = category_filter)
+      AND (query.ts_query IS NULL OR c.search_vector @@ query.ts_query)
+    ORDER BY rank DESC, c.created_at DESC
+    LIMIT greatest(page_size, 1)
+    OFFSET greatest(page_offset, 0);
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.search_catalogs(TEXT, UUID, INTEGER, INTEGER) TO anon, authenticated;
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
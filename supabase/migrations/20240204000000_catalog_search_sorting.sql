@@ -0,0 +1,85 @@
+-- =====================================================
+-- MST-KSA Catalog Search Sorting
+-- =====================================================
+-- This migration adds sort modes to search_catalogs():
+-- - relevance:    best match first, then newest (default)
+-- - newest:       most recently added first
+-- - alphabetical: by title in the requested language ('en' or 'ar')
+-- - largest:      largest PDF first
+-- =====================================================
+
+-- The signature changes, so the function is dropped and recreated
+DROP FUNCTION IF EXISTS public.search_catalogs(TEXT, UUID, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_catalogs(
+    search_query TEXT DEFAULT NULL,
+    category_filter UUID DEFAULT NULL,
+    sort_order TEXT DEFAULT 'relevance',
+    sort_language TEXT DEFAULT 'en',
+    page_size INTEGER DEFAULT 12,
+    page_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    id UUID,
+    title_en TEXT,
+    title_ar TEXT,
+    slug TEXT,
+    category_id UUID,
+    pdf_url TEXT,
+    thumbnail_url TEXT,
+    file_size BIGINT,
+    published BOOLEAN,
+    created_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE,
+    category JSONB,
+    rank REAL,
+    total_count BIGINT
+) AS $$
+    WITH query AS (
+        SELECT public.catalog_search_query(search_query) AS ts_query
+    ),
+    matches AS (
+        SELECT
+            c.id,
+            c.title_en,
+            c.title_ar,
+            c.slug,
+            c.category_id,
+            c.pdf_url,
+            c.thumbnail_url,
+            c.file_size,
+            c.published,
+            c.created_at,
+            c.updated_at,
+            to_jsonb(cat.*) AS category,
+            CASE
+                WHEN query.ts_query IS NULL THEN 0
+                ELSE ts_rank_cd(c.search_vector, query.ts_query)
+            END AS rank
+        FROM public.catalogs c
+        JOIN public.categories cat ON cat.id = c.category_id
+        CROSS JOIN query
+        WHERE c.published = true
+          AND (category_filter IS NULL OR c.category_id = category_filter)
+          AND (query.ts_query IS NULL OR c.search_vector @@ query.ts_query)
+    )
+    SELECT
+        matches.*,
+        COUNT(*) OVER () AS total_count
+    FROM matches
+    ORDER BY
+        CASE WHEN sort_order = 'alphabetical' THEN
+            CASE WHEN sort_language = 'ar' THEN matches.title_ar ELSE lower(matches.title_en) END
+        END ASC,
+        CASE WHEN sort_order = 'largest' THEN matches.file_size END DESC,
+        CASE WHEN sort_order = 'relevance' THEN matches.rank END DESC,
+        matches.created_at DESC
+    LIMIT greatest(page_size, 1)
+    OFFSET greatest(page_offset, 0);
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.search_catalogs(TEXT, UUID, TEXT, TEXT, INTEGER, INTEGER) TO anon, authenticated;
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
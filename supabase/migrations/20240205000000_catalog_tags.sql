@@ -0,0 +1,272 @@
+-- =====================================================
+-- MST-KSA Catalog Tags
+-- =====================================================
+-- This migration adds many-to-many tagging and faceted search:
+-- 1. Tags table (bilingual)
+-- 2. Catalog tags join table
+-- 3. Row Level Security policies
+-- 4. search_catalogs() gains a tag filter
+-- 5. search_catalog_facets() returns result counts per category and tag
+-- =====================================================
+
+-- =====================================================
+-- 1. TAGS TABLE
+-- =====================================================
+-- Stores product-line tags with bilingual names
+CREATE TABLE IF NOT EXISTS public.tags (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name_en TEXT NOT NULL,
+    name_ar TEXT NOT NULL,
+    slug TEXT NOT NULL UNIQUE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create index on slug for faster lookups
+CREATE INDEX IF NOT EXISTS idx_tags_slug ON public.tags(slug);
+
+-- Apply updated_at trigger to tags
+DROP TRIGGER IF EXISTS set_updated_at_tags ON public.tags;
+CREATE TRIGGER set_updated_at_tags
+    BEFORE UPDATE ON public.tags
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_updated_at();
+
+-- =====================================================
+-- 2. CATALOG TAGS JOIN TABLE
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.catalog_tags (
+    catalog_id UUID NOT NULL REFERENCES public.catalogs(id) ON DELETE CASCADE,
+    tag_id UUID NOT NULL REFERENCES public.tags(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (catalog_id, tag_id)
+);
+
+-- Create index on tag_id for tag filtering (catalog_id is covered by the primary key)
+CREATE INDEX IF NOT EXISTS idx_catalog_tags_tag_id ON public.catalog_tags(tag_id);
+
+-- =====================================================
+-- 3. ROW LEVEL SECURITY (RLS) POLICIES
+-- =====================================================
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.catalog_tags ENABLE ROW LEVEL SECURITY;
+
+-- -----------------------------------------------------
+-- TAGS TABLE POLICIES
+-- -----------------------------------------------------
+
+-- Public users can view all tags
+CREATE POLICY "Public users can view tags"
+    ON public.tags
+    FOR SELECT
+    TO public
+    USING (true);
+
+-- Admins can insert tags
+CREATE POLICY "Admins can insert tags"
+    ON public.tags
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- Admins can update tags
+CREATE POLICY "Admins can update tags"
+    ON public.tags
+    FOR UPDATE
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- Admins can delete tags
+CREATE POLICY "Admins can delete tags"
+    ON public.tags
+    FOR DELETE
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- -----------------------------------------------------
+-- CATALOG TAGS TABLE POLICIES
+-- -----------------------------------------------------
+
+-- Public users can view catalog tags
+CREATE POLICY "Public users can view catalog tags"
+    ON public.catalog_tags
+    FOR SELECT
+    TO public
+    USING (true);
+
+-- Admins can insert catalog tags
+CREATE POLICY "Admins can insert catalog tags"
+    ON public.catalog_tags
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- Admins can delete catalog tags
+CREATE POLICY "Admins can delete catalog tags"
+    ON public.catalog_tags
+    FOR DELETE
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- =====================================================
+-- 4. SEARCH RPC WITH TAG FILTER
+-- =====================================================
+-- tag_filter matches catalogs carrying any of the given tags.
+-- The signature changes, so the function is dropped and recreated.
+DROP FUNCTION IF EXISTS public.search_catalogs(TEXT, UUID, TEXT, TEXT, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_catalogs(
+    search_query TEXT DEFAULT NULL,
+    category_filter UUID DEFAULT NULL,
+    tag_filter UUID[] DEFAULT NULL,
+    sort_order TEXT DEFAULT 'relevance',
+    sort_language TEXT DEFAULT 'en',
+    page_size INTEGER DEFAULT 12,
+    page_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    id UUID,
+    title_en TEXT,
+    title_ar TEXT,
+    slug TEXT,
+    category_id UUID,
+    pdf_url TEXT,
+    thumbnail_url TEXT,
+    file_size BIGINT,
+    published BOOLEAN,
+    created_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE,
+    category JSONB,
+    rank REAL,
+    total_count BIGINT
+) AS $$
+    WITH query AS (
+        SELECT public.catalog_search_query(search_query) AS ts_query
+    ),
+    matches AS (
+        SELECT
+            c.id,
+            c.title_en,
+            c.title_ar,
+            c.slug,
+            c.category_id,
+            c.pdf_url,
+            c.thumbnail_url,
+            c.file_size,
+            c.published,
+            c.created_at,
+            c.updated_at,
+            to_jsonb(cat.*) AS category,
+            CASE
+                WHEN query.ts_query IS NULL THEN 0
+                ELSE ts_rank_cd(c.search_vector, query.ts_query)
+            END AS rank
+        FROM public.catalogs c
+        JOIN public.categories cat ON cat.id = c.category_id
+        CROSS JOIN query
+        WHERE c.published = true
+          AND (category_filter IS NULL OR c.category_id = category_filter)
+          AND (query.ts_query IS NULL OR c.search_vector @@ query.ts_query)
+          AND (
+              coalesce(cardinality(tag_filter), 0) = 0
+              OR EXISTS (
+                  SELECT 1 FROM public.catalog_tags ct
+                  WHERE ct.catalog_id = c.id AND ct.tag_id = ANY (tag_filter)
+              )
+          )
+    )
+    SELECT
+        matches.*,
+        COUNT(*) OVER () AS total_count
+    FROM matches
+    ORDER BY
+        CASE WHEN sort_order = 'alphabetical' THEN
+            CASE WHEN sort_language = 'ar' THEN matches.title_ar ELSE lower(matches.title_en) END
+        END ASC,
+        CASE WHEN sort_order = 'largest' THEN matches.file_size END DESC,
+        CASE WHEN sort_order = 'relevance' THEN matches.rank END DESC,
+        matches.created_at DESC
+    LIMIT greatest(page_size, 1)
+    OFFSET greatest(page_offset, 0);
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.search_catalogs(TEXT, UUID, UUID[], TEXT, TEXT, INTEGER, INTEGER) TO anon, authenticated;
+
+-- =====================================================
+-- 5. FACET COUNTS RPC
+-- =====================================================
+-- Returns how many published catalogs match the current search per
+-- category and per tag. Each facet ignores its own filter so visitors
+-- can see the counts of the alternatives they could switch to.
+CREATE OR REPLACE FUNCTION public.search_catalog_facets(
+    search_query TEXT DEFAULT NULL,
+    category_filter UUID DEFAULT NULL,
+    tag_filter UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+    facet TEXT,
+    facet_id UUID,
+    match_count BIGINT
+) AS $$
+    WITH query AS (
+        SELECT public.catalog_search_query(search_query) AS ts_query
+    ),
+    text_matches AS (
+        SELECT c.id, c.category_id
+        FROM public.catalogs c
+        CROSS JOIN query
+        WHERE c.published = true
+          AND (query.ts_query IS NULL OR c.search_vector @@ query.ts_query)
+    ),
+    tag_matches AS (
+        SELECT tm.id, tm.category_id
+        FROM text_matches tm
+        WHERE coalesce(cardinality(tag_filter), 0) = 0
+           OR EXISTS (
+               SELECT 1 FROM public.catalog_tags ct
+               WHERE ct.catalog_id = tm.id AND ct.tag_id = ANY (tag_filter)
+           )
+    )
+    SELECT 'category' AS facet, tag_matches.category_id AS facet_id, COUNT(*) AS match_count
+    FROM tag_matches
+    GROUP BY tag_matches.category_id
+
+    UNION ALL
+
+    SELECT 'tag' AS facet, ct.tag_id AS facet_id, COUNT(DISTINCT tm.id) AS match_count
+    FROM text_matches tm
+    JOIN public.catalog_tags ct ON ct.catalog_id = tm.id
+    WHERE category_filter IS NULL OR tm.category_id = category_filter
+    GROUP BY ct.tag_id;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.search_catalog_facets(TEXT, UUID, UUID[]) TO anon, authenticated;
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
@@ -0,0 +1,174 @@
+-- =====================================================
+-- MST-KSA Catalog Content Search
+-- =====================================================
+-- This migration indexes the text inside catalog PDFs so customers can
+-- find product codes and sizes that never appear in the titles:
+-- 1. Catalog pages table (extracted text per PDF page)
+-- 2. Row Level Security policies
+-- 3. search_catalog_pages() returns page hits with snippets
+--
+-- Text is extracted in the browser when a catalog is uploaded
+-- (src/lib/pdf-text.ts) and stored one row per page.
+-- =====================================================
+
+-- =====================================================
+-- 1. CATALOG PAGES TABLE
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.catalog_pages (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    catalog_id UUID NOT NULL REFERENCES public.catalogs(id) ON DELETE CASCADE,
+    page_number INTEGER NOT NULL CHECK (page_number > 0),
+    content TEXT NOT NULL,
+    search_vector tsvector GENERATED ALWAYS AS (
+        to_tsvector('simple', public.normalize_search_text(content))
+    ) STORED,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (catalog_id, page_number)
+);
+
+-- Create GIN index on search_vector for content search
+CREATE INDEX IF NOT EXISTS idx_catalog_pages_search_vector ON public.catalog_pages USING GIN(search_vector);
+
+-- =====================================================
+-- 2. ROW LEVEL SECURITY (RLS) POLICIES
+-- =====================================================
+ALTER TABLE public.catalog_pages ENABLE ROW LEVEL SECURITY;
+
+-- Public users can view pages of published catalogs
+CREATE POLICY "Public users can view published catalog pages"
+    ON public.catalog_pages
+    FOR SELECT
+    TO public
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.catalogs
+            WHERE id = catalog_pages.catalog_id AND published = true
+        )
+    );
+
+-- Admins can view all catalog pages
+CREATE POLICY "Admins can view all catalog pages"
+    ON public.catalog_pages
+    FOR SELECT
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- Admins can insert catalog pages
+CREATE POLICY "Admins can insert catalog pages"
+    ON public.catalog_pages
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- Admins can delete catalog pages
+CREATE POLICY "Admins can delete catalog pages"
+    ON public.catalog_pages
+    FOR DELETE
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- =====================================================
+-- 3. CONTENT SEARCH RPC
+-- =====================================================
+-- Returns the best matching pages of published catalogs, at most
+-- hits_per_catalog pages for each of the top catalog_limit catalogs.
+-- Snippets wrap matched words in [[ ]] for highlighting on the client.
+CREATE OR REPLACE FUNCTION public.search_catalog_pages(
+    search_query TEXT,
+    category_filter UUID DEFAULT NULL,
+    tag_filter UUID[] DEFAULT NULL,
+    catalog_limit INTEGER DEFAULT 10,
+    hits_per_catalog INTEGER DEFAULT 3
+)
+RETURNS TABLE (
+    catalog_id UUID,
+    title_en TEXT,
+    title_ar TEXT,
+    slug TEXT,
+    pdf_url TEXT,
+    thumbnail_url TEXT,
+    category JSONB,
+    page_number INTEGER,
+    snippet TEXT,
+    rank REAL
+) AS $$
+    WITH query AS (
+        SELECT public.catalog_search_query(search_query) AS ts_query
+    ),
+    page_hits AS (
+        SELECT
+            p.catalog_id,
+            p.page_number,
+            p.content,
+            ts_rank_cd(p.search_vector, query.ts_query) AS rank,
+            row_number() OVER (
+                PARTITION BY p.catalog_id
+                ORDER BY ts_rank_cd(p.search_vector, query.ts_query) DESC, p.page_number
+            ) AS hit_position
+        FROM public.catalog_pages p
+        JOIN public.catalogs c ON c.id = p.catalog_id
+        CROSS JOIN query
+        WHERE query.ts_query IS NOT NULL
+          AND c.published = true
+          AND p.search_vector @@ query.ts_query
+          AND (category_filter IS NULL OR c.category_id = category_filter)
+          AND (
+              coalesce(cardinality(tag_filter), 0) = 0
+              OR EXISTS (
+                  SELECT 1 FROM public.catalog_tags ct
+                  WHERE ct.catalog_id = c.id AND ct.tag_id = ANY (tag_filter)
+              )
+          )
+    ),
+    top_catalogs AS (
+        SELECT page_hits.catalog_id, max(page_hits.rank) AS best_rank
+        FROM page_hits
+        GROUP BY page_hits.catalog_id
+        ORDER BY best_rank DESC
+        LIMIT greatest(catalog_limit, 1)
+    )
+    SELECT
+        c.id AS catalog_id,
+        c.title_en,
+        c.title_ar,
+        c.slug,
+        c.pdf_url,
+        c.thumbnail_url,
+        to_jsonb(cat.*) AS category,
+        page_hits.page_number,
+        ts_headline(
+            'simple',
+            page_hits.content,
+            query.ts_query,
+            'StartSel=[[, StopSel=]], MaxWords=30, MinWords=12, MaxFragments=1'
+        ) AS snippet,
+        page_hits.rank
+    FROM page_hits
+    JOIN top_catalogs ON top_catalogs.catalog_id = page_hits.catalog_id
+    JOIN public.catalogs c ON c.id = page_hits.catalog_id
+    JOIN public.categories cat ON cat.id = c.category_id
+    CROSS JOIN query
+    WHERE page_hits.hit_position <= greatest(hits_per_catalog, 1)
+    ORDER BY top_catalogs.best_rank DESC, c.id, page_hits.rank DESC, page_hits.page_number;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.search_catalog_pages(TEXT, UUID, UUID[], INTEGER, INTEGER) TO anon, authenticated;
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
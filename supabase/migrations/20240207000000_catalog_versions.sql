@@ -0,0 +1,109 @@
+-- =====================================================
+-- MST-KSA Catalog Versions
+-- =====================================================
+-- This migration keeps replaced catalog files instead of deleting them:
+-- 1. Catalog versions table (archived PDF/thumbnail with note and author)
+-- 2. Version numbering trigger
+-- 3. Row Level Security policies
+--
+-- When an admin replaces a catalog's PDF or thumbnail, the previous files
+-- are archived here. Restoring a version swaps it with the current files.
+-- =====================================================
+
+-- =====================================================
+-- 1. CATALOG VERSIONS TABLE
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.catalog_versions (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    catalog_id UUID NOT NULL REFERENCES public.catalogs(id) ON DELETE CASCADE,
+    version_number INTEGER NOT NULL,
+    pdf_url TEXT NOT NULL,
+    thumbnail_url TEXT NOT NULL,
+    file_size BIGINT NOT NULL DEFAULT 0,
+    change_note TEXT,
+    created_by UUID DEFAULT auth.uid() REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (catalog_id, version_number)
+);
+
+-- Create index on catalog_id and created_at for history listing
+CREATE INDEX IF NOT EXISTS idx_catalog_versions_catalog_id ON public.catalog_versions(catalog_id, created_at DESC);
+
+-- =====================================================
+-- 2. VERSION NUMBERING TRIGGER
+-- =====================================================
+-- Numbers versions per catalog: 1 for the first archived edition, then 2, 3...
+CREATE OR REPLACE FUNCTION public.handle_catalog_version_number()
+RETURNS TRIGGER AS $$
+BEGIN
+    SELECT coalesce(max(version_number), 0) + 1
+    INTO NEW.version_number
+    FROM public.catalog_versions
+    WHERE catalog_id = NEW.catalog_id;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_version_number_catalog_versions ON public.catalog_versions;
+CREATE TRIGGER set_version_number_catalog_versions
+    BEFORE INSERT ON public.catalog_versions
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_catalog_version_number();
+
+-- =====================================================
+-- 3. ROW LEVEL SECURITY (RLS) POLICIES
+-- =====================================================
+ALTER TABLE public.catalog_versions ENABLE ROW LEVEL SECURITY;
+
+-- Public users can view archived editions of published catalogs
+CREATE POLICY "Public users can view published catalog versions"
+    ON public.catalog_versions
+    FOR SELECT
+    TO public
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.catalogs
+            WHERE id = catalog_versions.catalog_id AND published = true
+        )
+    );
+
+-- Admins can view all catalog versions
+CREATE POLICY "Admins can view all catalog versions"
+    ON public.catalog_versions
+    FOR SELECT
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- Admins can insert catalog versions
+CREATE POLICY "Admins can insert catalog versions"
+    ON public.catalog_versions
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- Admins can delete catalog versions
+CREATE POLICY "Admins can delete catalog versions"
+    ON public.catalog_versions
+    FOR DELETE
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
@@ -0,0 +1,308 @@
+-- =====================================================
+-- MST-KSA Catalog Publish Schedule
+-- =====================================================
+-- This migration adds optional publish/unpublish windows to catalogs:
+-- 1. publish_at / unpublish_at columns
+-- 2. is_catalog_live() helper
+-- 3. RLS policies enforce the window for the public
+-- 4. Search RPCs and child-table policies use the helper
+--
+-- A catalog is live when published = true, publish_at is empty or in the
+-- past, and unpublish_at is empty or in the future.
+-- =====================================================
+
+-- =====================================================
+-- 1. SCHEDULE COLUMNS
+-- =====================================================
+ALTER TABLE public.catalogs
+    ADD COLUMN IF NOT EXISTS publish_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS unpublish_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.catalogs
+    DROP CONSTRAINT IF EXISTS catalogs_publish_window_check;
+ALTER TABLE public.catalogs
+    ADD CONSTRAINT catalogs_publish_window_check
+    CHECK (publish_at IS NULL OR unpublish_at IS NULL OR unpublish_at > publish_at);
+
+-- =====================================================
+-- 2. LIVE CHECK HELPER
+-- =====================================================
+CREATE OR REPLACE FUNCTION public.is_catalog_live(
+    published BOOLEAN,
+    publish_at TIMESTAMP WITH TIME ZONE,
+    unpublish_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS BOOLEAN AS $$
+    SELECT coalesce(published, false)
+        AND (publish_at IS NULL OR publish_at <= now())
+        AND (unpublish_at IS NULL OR unpublish_at > now());
+$$ LANGUAGE sql STABLE;
+
+-- =====================================================
+-- 3. CATALOG POLICIES
+-- =====================================================
+-- Public users (including signed-in customers) only see live catalogs
+DROP POLICY IF EXISTS "Public users can view published catalogs" ON public.catalogs;
+CREATE POLICY "Public users can view published catalogs"
+    ON public.catalogs
+    FOR SELECT
+    TO public
+    USING (public.is_catalog_live(published, publish_at, unpublish_at));
+
+-- Viewing scheduled, expired and unpublished catalogs is limited to admins;
+-- previously any signed-in user could see them
+DROP POLICY IF EXISTS "Authenticated users can view all catalogs" ON public.catalogs;
+DROP POLICY IF EXISTS "Admins can view all catalogs" ON public.catalogs;
+CREATE POLICY "Admins can view all catalogs"
+    ON public.catalogs
+    FOR SELECT
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- =====================================================
+-- 4. CHILD TABLE POLICIES
+-- =====================================================
+DROP POLICY IF EXISTS "Public users can view published catalog pages" ON public.catalog_pages;
+CREATE POLICY "Public users can view published catalog pages"
+    ON public.catalog_pages
+    FOR SELECT
+    TO public
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.catalogs
+            WHERE id = catalog_pages.catalog_id
+              AND public.is_catalog_live(published, publish_at, unpublish_at)
+        )
+    );
+
+DROP POLICY IF EXISTS "Public users can view published catalog versions" ON public.catalog_versions;
+CREATE POLICY "Public users can view published catalog versions"
+    ON public.catalog_versions
+    FOR SELECT
+    TO public
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.catalogs
+            WHERE id = catalog_versions.catalog_id
+              AND public.is_catalog_live(published, publish_at, unpublish_at)
+        )
+    );
+
+-- =====================================================
+-- 5. SEARCH RPCS
+-- =====================================================
+-- The RPCs run with the caller's privileges, so admins would otherwise
+-- see scheduled catalogs on the public page; filter on the helper instead.
+-- search_catalogs() also returns the schedule, so its return type changes.
+DROP FUNCTION IF EXISTS public.search_catalogs(TEXT, UUID, UUID[], TEXT, TEXT, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_catalogs(
+    search_query TEXT DEFAULT NULL,
+    category_filter UUID DEFAULT NULL,
+    tag_filter UUID[] DEFAULT NULL,
+    sort_order TEXT DEFAULT 'relevance',
+    sort_language TEXT DEFAULT 'en',
+    page_size INTEGER DEFAULT 12,
+    page_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    id UUID,
+    title_en TEXT,
+    title_ar TEXT,
+    slug TEXT,
+    category_id UUID,
+    pdf_url TEXT,
+    thumbnail_url TEXT,
+    file_size BIGINT,
+    published BOOLEAN,
+    publish_at TIMESTAMP WITH TIME ZONE,
+    unpublish_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE,
+    category JSONB,
+    rank REAL,
+    total_count BIGINT
+) AS $$
+    WITH query AS (
+        SELECT public.catalog_search_query(search_query) AS ts_query
+    ),
+    matches AS (
+        SELECT
+            c.id,
+            c.title_en,
+            c.title_ar,
+            c.slug,
+            c.category_id,
+            c.pdf_url,
+            c.thumbnail_url,
+            c.file_size,
+            c.published,
+            c.publish_at,
+            c.unpublish_at,
+            c.created_at,
+            c.updated_at,
+            to_jsonb(cat.*) AS category,
+            CASE
+                WHEN query.ts_query IS NULL THEN 0
+                ELSE ts_rank_cd(c.search_vector, query.ts_query)
+            END AS rank
+        FROM public.catalogs c
+        JOIN public.categories cat ON cat.id = c.category_id
+        CROSS JOIN query
+        WHERE public.is_catalog_live(c.published, c.publish_at, c.unpublish_at)
+          AND (category_filter IS NULL OR c.category_id = category_filter)
+          AND (query.ts_query IS NULL OR c.search_vector @@ query.ts_query)
+          AND (
+              coalesce(cardinality(tag_filter), 0) = 0
+              OR EXISTS (
+                  SELECT 1 FROM public.catalog_tags ct
+                  WHERE ct.catalog_id = c.id AND ct.tag_id = ANY (tag_filter)
+              )
+          )
+    )
+    SELECT
+        matches.*,
+        COUNT(*) OVER () AS total_count
+    FROM matches
+    ORDER BY
+        CASE WHEN sort_order = 'alphabetical' THEN
+            CASE WHEN sort_language = 'ar' THEN matches.title_ar ELSE lower(matches.title_en) END
+        END ASC,
+        CASE WHEN sort_order = 'largest' THEN matches.file_size END DESC,
+        CASE WHEN sort_order = 'relevance' THEN matches.rank END DESC,
+        matches.created_at DESC
+    LIMIT greatest(page_size, 1)
+    OFFSET greatest(page_offset, 0);
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.search_catalogs(TEXT, UUID, UUID[], TEXT, TEXT, INTEGER, INTEGER) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.search_catalog_facets(
+    search_query TEXT DEFAULT NULL,
+    category_filter UUID DEFAULT NULL,
+    tag_filter UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+    facet TEXT,
+    facet_id UUID,
+    match_count BIGINT
+) AS $$
+    WITH query AS (
+        SELECT public.catalog_search_query(search_query) AS ts_query
+    ),
+    text_matches AS (
+        SELECT c.id, c.category_id
+        FROM public.catalogs c
+        CROSS JOIN query
+        WHERE public.is_catalog_live(c.published, c.publish_at, c.unpublish_at)
+          AND (query.ts_query IS NULL OR c.search_vector @@ query.ts_query)
+    ),
+    tag_matches AS (
+        SELECT tm.id, tm.category_id
+        FROM text_matches tm
+        WHERE coalesce(cardinality(tag_filter), 0) = 0
+           OR EXISTS (
+               SELECT 1 FROM public.catalog_tags ct
+               WHERE ct.catalog_id = tm.id AND ct.tag_id = ANY (tag_filter)
+           )
+    )
+    SELECT 'category' AS facet, tag_matches.category_id AS facet_id, COUNT(*) AS match_count
+    FROM tag_matches
+    GROUP BY tag_matches.category_id
+
+    UNION ALL
+
+    SELECT 'tag' AS facet, ct.tag_id AS facet_id, COUNT(DISTINCT tm.id) AS match_count
+    FROM text_matches tm
+    JOIN public.catalog_tags ct ON ct.catalog_id = tm.id
+    WHERE category_filter IS NULL OR tm.category_id = category_filter
+    GROUP BY ct.tag_id;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION public.search_catalog_pages(
+    search_query TEXT,
+    category_filter UUID DEFAULT NULL,
+    tag_filter UUID[] DEFAULT NULL,
+    catalog_limit INTEGER DEFAULT 10,
+    hits_per_catalog INTEGER DEFAULT 3
+)
+RETURNS TABLE (
+    catalog_id UUID,
+    title_en TEXT,
+    title_ar TEXT,
+    slug TEXT,
+    pdf_url TEXT,
+    thumbnail_url TEXT,
+    category JSONB,
+    page_number INTEGER,
+    snippet TEXT,
+    rank REAL
+) AS $$
+    WITH query AS (
+        SELECT public.catalog_search_query(search_query) AS ts_query
+    ),
+    page_hits AS (
+        SELECT
+            p.catalog_id,
+            p.page_number,
+            p.content,
+            ts_rank_cd(p.search_vector, query.ts_query) AS rank,
+            row_number() OVER (
+                PARTITION BY p.catalog_id
+                ORDER BY ts_rank_cd(p.search_vector, query.ts_query) DESC, p.page_number
+            ) AS hit_position
+        FROM public.catalog_pages p
+        JOIN public.catalogs c ON c.id = p.catalog_id
+        CROSS JOIN query
+        WHERE query.ts_query IS NOT NULL
+          AND public.is_catalog_live(c.published, c.publish_at, c.unpublish_at)
+          AND p.search_vector @@ query.ts_query
+          AND (category_filter IS NULL OR c.category_id = category_filter)
+          AND (
+              coalesce(cardinality(tag_filter), 0) = 0
+              OR EXISTS (
+                  SELECT 1 FROM public.catalog_tags ct
+                  WHERE ct.catalog_id = c.id AND ct.tag_id = ANY (tag_filter)
+              )
+          )
+    ),
+    top_catalogs AS (
+        SELECT page_hits.catalog_id, max(page_hits.rank) AS best_rank
+        FROM page_hits
+        GROUP BY page_hits.catalog_id
+        ORDER BY best_rank DESC
+        LIMIT greatest(catalog_limit, 1)
+    )
+    SELECT
+        c.id AS catalog_id,
+        c.title_en,
+        c.title_ar,
+        c.slug,
+        c.pdf_url,
+        c.thumbnail_url,
+        to_jsonb(cat.*) AS category,
+        page_hits.page_number,
+        ts_headline(
+            'simple',
+            page_hits.content,
+            query.ts_query,
+            'StartSel=[[, StopSel=]], MaxWords=30, MinWords=12, MaxFragments=1'
+        ) AS snippet,
+        page_hits.rank
+    FROM page_hits
+    JOIN top_catalogs ON top_catalogs.catalog_id = page_hits.catalog_id
+    JOIN public.catalogs c ON c.id = page_hits.catalog_id
+    JOIN public.categories cat ON cat.id = c.category_id
+    CROSS JOIN query
+    WHERE page_hits.hit_position <= greatest(hits_per_catalog, 1)
+    ORDER BY top_catalogs.best_rank DESC, c.id, page_hits.rank DESC, page_hits.page_number;
+$$ LANGUAGE sql STABLE;
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
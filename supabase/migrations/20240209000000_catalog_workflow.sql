@@ -0,0 +1,120 @@
+-- =====================================================
+-- MST-KSA Catalog Editorial Workflow
+-- =====================================================
+-- This migration replaces the plain published flag with editorial states:
+-- 1. status column (draft, in_review, published, archived), backfilled
+-- 2. Submission and review bookkeeping columns
+-- 3. Trigger enforcing status transitions and keeping published in sync
+--
+-- Allowed transitions:
+--   draft     -> in_review (submit), archived
+--   in_review -> published (approve), draft (reject)
+--   published -> archived
+--   archived  -> draft (reopen)
+--
+-- Approving or rejecting needs a second admin: the submitter can't review
+-- their own submission.
+--
+-- published is kept as a derived column (status = 'published'), so the
+-- public RLS policies and search functions only ever expose published rows.
+-- =====================================================
+
+-- =====================================================
+-- 1. STATUS COLUMN
+-- =====================================================
+ALTER TABLE public.catalogs
+    ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'in_review', 'published', 'archived'));
+
+-- Existing published catalogs stay live, the rest become drafts
+UPDATE public.catalogs
+SET status = CASE WHEN published THEN 'published' ELSE 'draft' END;
+
+-- Create index on status for the admin filters
+CREATE INDEX IF NOT EXISTS idx_catalogs_status ON public.catalogs(status);
+
+-- =====================================================
+-- 2. REVIEW COLUMNS
+-- =====================================================
+ALTER TABLE public.catalogs
+    ADD COLUMN IF NOT EXISTS submitted_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS submitted_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP WITH TIME ZONE,
+    ADD COLUMN IF NOT EXISTS review_comment TEXT;
+
+-- =====================================================
+-- 3. STATUS TRANSITION TRIGGER
+-- =====================================================
+-- New catalogs always start as drafts. On update, only the transitions
+-- listed above are accepted; submitting records the submitter and clears
+-- the previous review, approving or rejecting records the reviewer and
+-- keeps the comment. Review columns cannot be edited outside a transition,
+-- and the submitter cannot approve or reject their own submission.
+CREATE OR REPLACE FUNCTION public.handle_catalog_status()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' THEN
+        NEW.status := 'draft';
+        NEW.submitted_by := NULL;
+        NEW.submitted_at := NULL;
+        NEW.reviewed_by := NULL;
+        NEW.reviewed_at := NULL;
+        NEW.review_comment := NULL;
+    ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+        IF NOT (
+            (OLD.status = 'draft' AND NEW.status IN ('in_review', 'archived'))
+            OR (OLD.status = 'in_review' AND NEW.status IN ('published', 'draft'))
+            OR (OLD.status = 'published' AND NEW.status = 'archived')
+            OR (OLD.status = 'archived' AND NEW.status = 'draft')
+        ) THEN
+            RAISE EXCEPTION 'Invalid catalog status transition from % to %', OLD.status, NEW.status
+                USING ERRCODE = 'P0001';
+        END IF;
+
+        IF NEW.status = 'in_review' THEN
+            NEW.submitted_by := auth.uid();
+            NEW.submitted_at := NOW();
+            NEW.reviewed_by := NULL;
+            NEW.reviewed_at := NULL;
+            NEW.review_comment := NULL;
+        ELSIF OLD.status = 'in_review' THEN
+            IF auth.uid() = OLD.submitted_by THEN
+                RAISE EXCEPTION 'Catalogs cannot be approved or rejected by their submitter'
+                    USING ERRCODE = '42501';
+            END IF;
+
+            NEW.submitted_by := OLD.submitted_by;
+            NEW.submitted_at := OLD.submitted_at;
+            NEW.reviewed_by := auth.uid();
+            NEW.reviewed_at := NOW();
+            NEW.review_comment := nullif(trim(NEW.review_comment), '');
+        ELSE
+            NEW.submitted_by := OLD.submitted_by;
+            NEW.submitted_at := OLD.submitted_at;
+            NEW.reviewed_by := OLD.reviewed_by;
+            NEW.reviewed_at := OLD.reviewed_at;
+            NEW.review_comment := OLD.review_comment;
+        END IF;
+    ELSE
+        NEW.submitted_by := OLD.submitted_by;
+        NEW.submitted_at := OLD.submitted_at;
+        NEW.reviewed_by := OLD.reviewed_by;
+        NEW.reviewed_at := OLD.reviewed_at;
+        NEW.review_comment := OLD.review_comment;
+    END IF;
+
+    NEW.published := NEW.status = 'published';
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_status_catalogs ON public.catalogs;
+CREATE TRIGGER set_status_catalogs
+    BEFORE INSERT OR UPDATE ON public.catalogs
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_catalog_status();
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
@@ -0,0 +1,147 @@
+-- =====================================================
+-- MST-KSA Catalog Events
+-- =====================================================
+-- This migration records how customers use catalogs:
+-- 1. Catalog events table (view, download, print, share)
+-- 2. Row Level Security policies (insert-only for the public)
+-- 3. Report functions for the admin analytics page
+-- =====================================================
+
+-- =====================================================
+-- 1. CATALOG EVENTS TABLE
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.catalog_events (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    catalog_id UUID NOT NULL REFERENCES public.catalogs(id) ON DELETE CASCADE,
+    event_type TEXT NOT NULL CHECK (event_type IN ('view', 'download', 'print', 'share')),
+    language TEXT NOT NULL DEFAULT 'en' CHECK (language IN ('en', 'ar')),
+    user_id UUID DEFAULT auth.uid() REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes for the per-catalog and per-day reports
+CREATE INDEX IF NOT EXISTS idx_catalog_events_catalog_id ON public.catalog_events(catalog_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_catalog_events_created_at ON public.catalog_events(created_at DESC);
+
+-- =====================================================
+-- 2. ROW LEVEL SECURITY (RLS) POLICIES
+-- =====================================================
+ALTER TABLE public.catalog_events ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can record events for live catalogs; signed-in users can only
+-- record events as themselves. There is no public select policy, so
+-- events cannot be read back by customers.
+CREATE POLICY "Public users can insert catalog events"
+    ON public.catalog_events
+    FOR INSERT
+    TO public
+    WITH CHECK (
+        (user_id IS NULL OR user_id = auth.uid())
+        AND EXISTS (
+            SELECT 1 FROM public.catalogs
+            WHERE id = catalog_events.catalog_id
+              AND public.is_catalog_live(published, publish_at, unpublish_at)
+        )
+    );
+
+-- Admins can view all catalog events
+CREATE POLICY "Admins can view all catalog events"
+    ON public.catalog_events
+    FOR SELECT
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- =====================================================
+-- 3. REPORT FUNCTIONS
+-- =====================================================
+-- The report functions run with the caller's privileges, so catalog_events
+-- RLS applies and only admins get non-empty results.
+
+-- Most used catalogs in a period, with counts per event type
+CREATE OR REPLACE FUNCTION public.catalog_event_top_catalogs(
+    period_start TIMESTAMP WITH TIME ZONE,
+    period_end TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    max_results INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+    catalog_id UUID,
+    title_en TEXT,
+    title_ar TEXT,
+    views BIGINT,
+    downloads BIGINT,
+    prints BIGINT,
+    shares BIGINT,
+    total BIGINT
+) AS $$
+    SELECT
+        c.id AS catalog_id,
+        c.title_en,
+        c.title_ar,
+        COUNT(*) FILTER (WHERE e.event_type = 'view') AS views,
+        COUNT(*) FILTER (WHERE e.event_type = 'download') AS downloads,
+        COUNT(*) FILTER (WHERE e.event_type = 'print') AS prints,
+        COUNT(*) FILTER (WHERE e.event_type = 'share') AS shares,
+        COUNT(*) AS total
+    FROM public.catalog_events e
+    JOIN public.catalogs c ON c.id = e.catalog_id
+    WHERE e.created_at >= period_start AND e.created_at < period_end
+    GROUP BY c.id, c.title_en, c.title_ar
+    ORDER BY total DESC, views DESC
+    LIMIT greatest(max_results, 1);
+$$ LANGUAGE sql STABLE;
+
+-- Daily event counts in a period; days without events are included
+CREATE OR REPLACE FUNCTION public.catalog_event_trends(
+    period_start TIMESTAMP WITH TIME ZONE,
+    period_end TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+)
+RETURNS TABLE (
+    day DATE,
+    views BIGINT,
+    downloads BIGINT,
+    prints BIGINT,
+    shares BIGINT
+) AS $$
+    SELECT
+        days.day::DATE AS day,
+        COUNT(e.id) FILTER (WHERE e.event_type = 'view') AS views,
+        COUNT(e.id) FILTER (WHERE e.event_type = 'download') AS downloads,
+        COUNT(e.id) FILTER (WHERE e.event_type = 'print') AS prints,
+        COUNT(e.id) FILTER (WHERE e.event_type = 'share') AS shares
+    FROM generate_series(date_trunc('day', period_start), date_trunc('day', period_end), INTERVAL '1 day') AS days(day)
+    LEFT JOIN public.catalog_events e
+        ON date_trunc('day', e.created_at) = days.day
+       AND e.created_at >= period_start
+       AND e.created_at < period_end
+    GROUP BY days.day
+    ORDER BY days.day;
+$$ LANGUAGE sql STABLE;
+
+-- Event counts per interface language in a period
+CREATE OR REPLACE FUNCTION public.catalog_event_languages(
+    period_start TIMESTAMP WITH TIME ZONE,
+    period_end TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+)
+RETURNS TABLE (
+    language TEXT,
+    event_count BIGINT
+) AS $$
+    SELECT e.language, COUNT(*) AS event_count
+    FROM public.catalog_events e
+    WHERE e.created_at >= period_start AND e.created_at < period_end
+    GROUP BY e.language
+    ORDER BY event_count DESC;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.catalog_event_top_catalogs(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.catalog_event_trends(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.catalog_event_languages(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) TO authenticated;
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
@@ -0,0 +1,261 @@
+-- =====================================================
+-- MST-KSA Catalog Leads
+-- =====================================================
+-- This migration adds a lead-capture gate to catalog downloads:
+-- 1. gated flag on catalogs
+-- 2. Catalog leads table (name, company, email, phone per download)
+-- 3. Row Level Security policies (insert-only for the public)
+-- 4. search_catalogs() and search_catalog_pages() return the gated flag
+--
+-- The gate is a marketing form, not access control: the PDF of a gated
+-- catalog stays publicly readable in the viewer.
+-- =====================================================
+
+-- =====================================================
+-- 1. GATED FLAG
+-- =====================================================
+ALTER TABLE public.catalogs
+    ADD COLUMN IF NOT EXISTS gated BOOLEAN NOT NULL DEFAULT false;
+
+-- =====================================================
+-- 2. CATALOG LEADS TABLE
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.catalog_leads (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    catalog_id UUID NOT NULL REFERENCES public.catalogs(id) ON DELETE CASCADE,
+    name TEXT NOT NULL,
+    company TEXT NOT NULL,
+    email TEXT NOT NULL,
+    phone TEXT,
+    language TEXT NOT NULL DEFAULT 'en' CHECK (language IN ('en', 'ar')),
+    user_id UUID DEFAULT auth.uid() REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes for the admin leads view
+CREATE INDEX IF NOT EXISTS idx_catalog_leads_catalog_id ON public.catalog_leads(catalog_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_catalog_leads_created_at ON public.catalog_leads(created_at DESC);
+
+-- =====================================================
+-- 3. ROW LEVEL SECURITY (RLS) POLICIES
+-- =====================================================
+ALTER TABLE public.catalog_leads ENABLE ROW LEVEL SECURITY;
+
+-- Anyone can leave their details for a live gated catalog; signed-in
+-- users can only submit as themselves
+CREATE POLICY "Public users can insert catalog leads"
+    ON public.catalog_leads
+    FOR INSERT
+    TO public
+    WITH CHECK (
+        (user_id IS NULL OR user_id = auth.uid())
+        AND EXISTS (
+            SELECT 1 FROM public.catalogs
+            WHERE id = catalog_leads.catalog_id
+              AND gated = true
+              AND public.is_catalog_live(published, publish_at, unpublish_at)
+        )
+    );
+
+-- Admins can view all catalog leads
+CREATE POLICY "Admins can view all catalog leads"
+    ON public.catalog_leads
+    FOR SELECT
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- Admins can delete catalog leads
+CREATE POLICY "Admins can delete catalog leads"
+    ON public.catalog_leads
+    FOR DELETE
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- =====================================================
+-- 4. SEARCH RPCS
+-- =====================================================
+-- The public catalog page needs the gated flag before a download starts,
+-- so both search functions return it; their return types change.
+DROP FUNCTION IF EXISTS public.search_catalogs(TEXT, UUID, UUID[], TEXT, TEXT, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_catalogs(
+    search_query TEXT DEFAULT NULL,
+    category_filter UUID DEFAULT NULL,
+    tag_filter UUID[] DEFAULT NULL,
+    sort_order TEXT DEFAULT 'relevance',
+    sort_language TEXT DEFAULT 'en',
+    page_size INTEGER DEFAULT 12,
+    page_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    id UUID,
+    title_en TEXT,
+    title_ar TEXT,
+    slug TEXT,
+    category_id UUID,
+    pdf_url TEXT,
+    thumbnail_url TEXT,
+    file_size BIGINT,
+    published BOOLEAN,
+    gated BOOLEAN,
+    publish_at TIMESTAMP WITH TIME ZONE,
+    unpublish_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE,
+    category JSONB,
+    rank REAL,
+    total_count BIGINT
+) AS $$
+    WITH query AS (
+        SELECT public.catalog_search_query(search_query) AS ts_query
+    ),
+    matches AS (
+        SELECT
+            c.id,
+            c.title_en,
+            c.title_ar,
+            c.slug,
+            c.category_id,
+            c.pdf_url,
+            c.thumbnail_url,
+            c.file_size,
+            c.published,
+            c.gated,
+            c.publish_at,
+            c.unpublish_at,
+            c.created_at,
+            c.updated_at,
+            to_jsonb(cat.*) AS category,
+            CASE
+                WHEN query.ts_query IS NULL THEN 0
+                ELSE ts_rank_cd(c.search_vector, query.ts_query)
+            END AS rank
+        FROM public.catalogs c
+        JOIN public.categories cat ON cat.id = c.category_id
+        CROSS JOIN query
+        WHERE public.is_catalog_live(c.published, c.publish_at, c.unpublish_at)
+          AND (category_filter IS NULL OR c.category_id = category_filter)
+          AND (query.ts_query IS NULL OR c.search_vector @@ query.ts_query)
+          AND (
+              coalesce(cardinality(tag_filter), 0) = 0
+              OR EXISTS (
+                  SELECT 1 FROM public.catalog_tags ct
+                  WHERE ct.catalog_id = c.id AND ct.tag_id = ANY (tag_filter)
+              )
+          )
+    )
+    SELECT
+        matches.*,
+        COUNT(*) OVER () AS total_count
+    FROM matches
+    ORDER BY
+        CASE WHEN sort_order = 'alphabetical' THEN
+            CASE WHEN sort_language = 'ar' THEN matches.title_ar ELSE lower(matches.title_en) END
+        END ASC,
+        CASE WHEN sort_order = 'largest' THEN matches.file_size END DESC,
+        CASE WHEN sort_order = 'relevance' THEN matches.rank END DESC,
+        matches.created_at DESC
+    LIMIT greatest(page_size, 1)
+    OFFSET greatest(page_offset, 0);
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.search_catalogs(TEXT, UUID, UUID[], TEXT, TEXT, INTEGER, INTEGER) TO anon, authenticated;
+
+DROP FUNCTION IF EXISTS public.search_catalog_pages(TEXT, UUID, UUID[], INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_catalog_pages(
+    search_query TEXT,
+    category_filter UUID DEFAULT NULL,
+    tag_filter UUID[] DEFAULT NULL,
+    catalog_limit INTEGER DEFAULT 10,
+    hits_per_catalog INTEGER DEFAULT 3
+)
+RETURNS TABLE (
+    catalog_id UUID,
+    title_en TEXT,
+    title_ar TEXT,
+    slug TEXT,
+    pdf_url TEXT,
+    thumbnail_url TEXT,
+    gated BOOLEAN,
+    category JSONB,
+    page_number INTEGER,
+    snippet TEXT,
+    rank REAL
+) AS $$
+    WITH query AS (
+        SELECT public.catalog_search_query(search_query) AS ts_query
+    ),
+    page_hits AS (
+        SELECT
+            p.catalog_id,
+            p.page_number,
+            p.content,
+            ts_rank_cd(p.search_vector, query.ts_query) AS rank,
+            row_number() OVER (
+                PARTITION BY p.catalog_id
+                ORDER BY ts_rank_cd(p.search_vector, query.ts_query) DESC, p.page_number
+            ) AS hit_position
+        FROM public.catalog_pages p
+        JOIN public.catalogs c ON c.id = p.catalog_id
+        CROSS JOIN query
+        WHERE query.ts_query IS NOT NULL
+          AND public.is_catalog_live(c.published, c.publish_at, c.unpublish_at)
+          AND p.search_vector @@ query.ts_query
+          AND (category_filter IS NULL OR c.category_id = category_filter)
+          AND (
+              coalesce(cardinality(tag_filter), 0) = 0
+              OR EXISTS (
+                  SELECT 1 FROM public.catalog_tags ct
+                  WHERE ct.catalog_id = c.id AND ct.tag_id = ANY (tag_filter)
+              )
+          )
+    ),
+    top_catalogs AS (
+        SELECT page_hits.catalog_id, max(page_hits.rank) AS best_rank
+        FROM page_hits
+        GROUP BY page_hits.catalog_id
+        ORDER BY best_rank DESC
+        LIMIT greatest(catalog_limit, 1)
+    )
+    SELECT
+        c.id AS catalog_id,
+        c.title_en,
+        c.title_ar,
+        c.slug,
+        c.pdf_url,
+        c.thumbnail_url,
+        c.gated,
+        to_jsonb(cat.*) AS category,
+        page_hits.page_number,
+        ts_headline(
+            'simple',
+            page_hits.content,
+            query.ts_query,
+            'StartSel=[[, StopSel=]], MaxWords=30, MinWords=12, MaxFragments=1'
+        ) AS snippet,
+        page_hits.rank
+    FROM page_hits
+    JOIN top_catalogs ON top_catalogs.catalog_id = page_hits.catalog_id
+    JOIN public.catalogs c ON c.id = page_hits.catalog_id
+    JOIN public.categories cat ON cat.id = c.category_id
+    CROSS JOIN query
+    WHERE page_hits.hit_position <= greatest(hits_per_catalog, 1)
+    ORDER BY top_catalogs.best_rank DESC, c.id, page_hits.rank DESC, page_hits.page_number;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.search_catalog_pages(TEXT, UUID, UUID[], INTEGER, INTEGER) TO anon, authenticated;
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
@@ -0,0 +1,171 @@
+-- =====================================================
+-- MST-KSA Requests for Quotation
+-- =====================================================
+-- This migration lets customers ask for prices on several catalogs at once:
+-- 1. RFQ requests table (customer details and status)
+-- 2. RFQ items table (catalog or free-text lines with quantities)
+-- 3. Row Level Security policies (admin-only access)
+-- 4. submit_rfq_request() to store a request and its items in one call
+-- =====================================================
+
+-- =====================================================
+-- 1. RFQ REQUESTS TABLE
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.rfq_requests (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name TEXT NOT NULL,
+    company TEXT,
+    email TEXT NOT NULL,
+    phone TEXT,
+    message TEXT,
+    language TEXT NOT NULL DEFAULT 'en' CHECK (language IN ('en', 'ar')),
+    status TEXT NOT NULL DEFAULT 'new' CHECK (status IN ('new', 'in_progress', 'quoted', 'closed')),
+    user_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes for the admin requests view
+CREATE INDEX IF NOT EXISTS idx_rfq_requests_status ON public.rfq_requests(status);
+CREATE INDEX IF NOT EXISTS idx_rfq_requests_created_at ON public.rfq_requests(created_at DESC);
+
+-- Apply updated_at trigger to rfq_requests
+DROP TRIGGER IF EXISTS set_updated_at_rfq_requests ON public.rfq_requests;
+CREATE TRIGGER set_updated_at_rfq_requests
+    BEFORE UPDATE ON public.rfq_requests
+    FOR EACH ROW
+    EXECUTE FUNCTION public.handle_updated_at();
+
+-- =====================================================
+-- 2. RFQ ITEMS TABLE
+-- =====================================================
+-- catalog_id is empty for free-text lines; description keeps the catalog
+-- title as the customer saw it, so the line survives catalog deletion.
+CREATE TABLE IF NOT EXISTS public.rfq_items (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    request_id UUID NOT NULL REFERENCES public.rfq_requests(id) ON DELETE CASCADE,
+    catalog_id UUID REFERENCES public.catalogs(id) ON DELETE SET NULL,
+    description TEXT NOT NULL,
+    quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity > 0),
+    position INTEGER NOT NULL DEFAULT 0,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_rfq_items_request_id ON public.rfq_items(request_id, position);
+
+-- =====================================================
+-- 3. ROW LEVEL SECURITY (RLS) POLICIES
+-- =====================================================
+-- Customers submit through submit_rfq_request(), so there are no public
+-- insert policies on the tables themselves.
+ALTER TABLE public.rfq_requests ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.rfq_items ENABLE ROW LEVEL SECURITY;
+
+-- Admins can view, update and delete RFQ requests
+CREATE POLICY "Admins can view all rfq requests"
+    ON public.rfq_requests
+    FOR SELECT
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+CREATE POLICY "Admins can update rfq requests"
+    ON public.rfq_requests
+    FOR UPDATE
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+CREATE POLICY "Admins can delete rfq requests"
+    ON public.rfq_requests
+    FOR DELETE
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- Admins can view all RFQ items
+CREATE POLICY "Admins can view all rfq items"
+    ON public.rfq_items
+    FOR SELECT
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- =====================================================
+-- 4. SUBMIT FUNCTION
+-- =====================================================
+-- Stores a request and its items atomically. items is a JSON array of
+-- { "catalog_id": uuid | null, "description": text, "quantity": int }.
+-- Catalog references are only kept for live catalogs.
+CREATE OR REPLACE FUNCTION public.submit_rfq_request(
+    customer_name TEXT,
+    customer_email TEXT,
+    items JSONB,
+    customer_company TEXT DEFAULT NULL,
+    customer_phone TEXT DEFAULT NULL,
+    customer_message TEXT DEFAULT NULL,
+    customer_language TEXT DEFAULT 'en'
+)
+RETURNS UUID AS $$
+DECLARE
+    new_request_id UUID;
+BEGIN
+    IF coalesce(btrim(customer_name), '') = '' OR coalesce(btrim(customer_email), '') = '' THEN
+        RAISE EXCEPTION 'Name and email are required';
+    END IF;
+
+    IF jsonb_typeof(items) IS DISTINCT FROM 'array'
+        OR jsonb_array_length(items) = 0
+        OR jsonb_array_length(items) > 100 THEN
+        RAISE EXCEPTION 'A request needs between 1 and 100 items';
+    END IF;
+
+    INSERT INTO public.rfq_requests (name, company, email, phone, message, language, user_id)
+    VALUES (
+        btrim(customer_name),
+        nullif(btrim(customer_company), ''),
+        btrim(customer_email),
+        nullif(btrim(customer_phone), ''),
+        nullif(btrim(customer_message), ''),
+        CASE WHEN customer_language = 'ar' THEN 'ar' ELSE 'en' END,
+        auth.uid()
+    )
+    RETURNING id INTO new_request_id;
+
+    INSERT INTO public.rfq_items (request_id, catalog_id, description, quantity, position)
+    SELECT
+        new_request_id,
+        c.id,
+        btrim(item.value->>'description'),
+        (item.value->>'quantity')::INTEGER,
+        item.ordinality::INTEGER
+    FROM jsonb_array_elements(items) WITH ORDINALITY AS item(value, ordinality)
+    LEFT JOIN public.catalogs c
+        ON c.id = nullif(item.value->>'catalog_id', '')::UUID
+       AND public.is_catalog_live(c.published, c.publish_at, c.unpublish_at);
+
+    RETURN new_request_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.submit_rfq_request(TEXT, TEXT, JSONB, TEXT, TEXT, TEXT, TEXT) TO anon, authenticated;
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
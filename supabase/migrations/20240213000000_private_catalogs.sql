@@ -0,0 +1,501 @@
+-- =====================================================
+-- MST-KSA Private Catalogs and Share Links
+-- =====================================================
+-- This migration adds private catalogs that are only reachable through
+-- revocable, expiring share links:
+-- 1. private flag on catalogs
+-- 2. Private storage bucket for the PDFs of private catalogs
+-- 3. Catalog share links table (token, expiry, optional download limit),
+--    and the browser sessions each link was counted for
+-- 4. Row Level Security policies (private catalogs are hidden from the public,
+--    admins can re-point archived versions at a moved PDF)
+-- 5. redeem_catalog_share_link() for the catalog-share-link edge function
+-- 6. Search RPCs skip private catalogs
+--
+-- The pdf_url of a private catalog points into the private bucket and can't
+-- be opened by itself: admins resolve it to a signed URL with their session,
+-- visitors get a short-lived signed URL from the catalog-share-link edge
+-- function (supabase/functions/catalog-share-link) in exchange for a valid
+-- share link token.
+-- =====================================================
+
+-- =====================================================
+-- 1. PRIVATE FLAG
+-- =====================================================
+ALTER TABLE public.catalogs
+    ADD COLUMN IF NOT EXISTS private BOOLEAN NOT NULL DEFAULT false;
+
+-- =====================================================
+-- 2. PRIVATE STORAGE BUCKET
+-- =====================================================
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+    'private-catalogs',
+    'private-catalogs',
+    false,
+    10485760, -- 10MB limit
+    ARRAY['application/pdf']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Only admins can read private PDFs (and so create signed URLs for them)
+CREATE POLICY "Admins can view private catalogs"
+    ON storage.objects
+    FOR SELECT
+    TO authenticated
+    USING (
+        bucket_id = 'private-catalogs' AND
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- Admins can upload private PDFs
+CREATE POLICY "Admins can upload private catalogs"
+    ON storage.objects
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        bucket_id = 'private-catalogs' AND
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- Admins can update private PDFs (moving files between buckets)
+CREATE POLICY "Admins can update private catalogs"
+    ON storage.objects
+    FOR UPDATE
+    TO authenticated
+    USING (
+        bucket_id = 'private-catalogs' AND
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- Admins can delete private PDFs
+CREATE POLICY "Admins can delete private catalogs"
+    ON storage.objects
+    FOR DELETE
+    TO authenticated
+    USING (
+        bucket_id = 'private-catalogs' AND
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- =====================================================
+-- 3. CATALOG SHARE LINKS TABLE
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.catalog_share_links (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    catalog_id UUID NOT NULL REFERENCES public.catalogs(id) ON DELETE CASCADE,
+    token TEXT NOT NULL UNIQUE
+        DEFAULT replace(uuid_generate_v4()::TEXT || uuid_generate_v4()::TEXT, '-', ''),
+    label TEXT,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    max_downloads INTEGER CHECK (max_downloads IS NULL OR max_downloads > 0),
+    download_count INTEGER NOT NULL DEFAULT 0,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    created_by UUID DEFAULT auth.uid() REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create index for listing the links of a catalog
+CREATE INDEX IF NOT EXISTS idx_catalog_share_links_catalog_id ON public.catalog_share_links(catalog_id, created_at DESC);
+
+-- Browser sessions that opened a link; a link counts once per session and
+-- hour, so reloading the page or renewing the signed URL doesn't use up
+-- downloads, while a replayed session id can't outlast the downloads it paid for
+CREATE TABLE IF NOT EXISTS public.catalog_share_link_sessions (
+    link_id UUID NOT NULL REFERENCES public.catalog_share_links(id) ON DELETE CASCADE,
+    session_id UUID NOT NULL,
+    counted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    PRIMARY KEY (link_id, session_id)
+);
+
+-- =====================================================
+-- 4. ROW LEVEL SECURITY (RLS) POLICIES
+-- =====================================================
+-- Private catalogs (and through the catalogs policy, their pages and
+-- versions) are hidden from the public
+DROP POLICY IF EXISTS "Public users can view published catalogs" ON public.catalogs;
+CREATE POLICY "Public users can view published catalogs"
+    ON public.catalogs
+    FOR SELECT
+    TO public
+    USING (
+        public.is_catalog_live(published, publish_at, unpublish_at)
+        AND NOT private
+    );
+
+-- Archived versions follow the catalog when its PDFs move between the
+-- public and private bucket
+CREATE POLICY "Admins can update catalog versions"
+    ON public.catalog_versions
+    FOR UPDATE
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+ALTER TABLE public.catalog_share_links ENABLE ROW LEVEL SECURITY;
+
+-- Link sessions are only used by the redeem function, so they get no policies
+ALTER TABLE public.catalog_share_link_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Share links are managed by admins only; visitors redeem them through
+-- the edge function
+CREATE POLICY "Admins can view catalog share links"
+    ON public.catalog_share_links
+    FOR SELECT
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+CREATE POLICY "Admins can insert catalog share links"
+    ON public.catalog_share_links
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- Admins revoke links by setting revoked_at
+CREATE POLICY "Admins can update catalog share links"
+    ON public.catalog_share_links
+    FOR UPDATE
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+CREATE POLICY "Admins can delete catalog share links"
+    ON public.catalog_share_links
+    FOR DELETE
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- =====================================================
+-- 5. REDEEM FUNCTION
+-- =====================================================
+-- Counts one download against a valid link and returns the catalog it
+-- opens; returns no row when the link is unknown, revoked, expired, used
+-- up, or its catalog isn't live. A browser session that opened the link
+-- in the last hour gets it again without another download being counted
+-- (it can still reopen a link it used up), which covers renewing the signed
+-- URL while the page is open; after that hour it counts another download.
+-- The row lock keeps concurrent redemptions within the download limit.
+-- Only the edge function (service role) may call it, so tokens can't be
+-- redeemed without also receiving the signed URL.
+CREATE OR REPLACE FUNCTION public.redeem_catalog_share_link(
+    share_token TEXT,
+    visitor_session_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    catalog_id UUID,
+    title_en TEXT,
+    title_ar TEXT,
+    pdf_url TEXT,
+    expires_at TIMESTAMP WITH TIME ZONE,
+    downloads_remaining INTEGER
+) AS $$
+DECLARE
+    link public.catalog_share_links%ROWTYPE;
+BEGIN
+    SELECT l.* INTO link
+    FROM public.catalog_share_links l
+    JOIN public.catalogs c ON c.id = l.catalog_id
+    WHERE l.token = share_token
+      AND l.revoked_at IS NULL
+      AND l.expires_at > now()
+      AND public.is_catalog_live(c.published, c.publish_at, c.unpublish_at)
+    FOR UPDATE OF l;
+
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    IF visitor_session_id IS NULL OR NOT EXISTS (
+        SELECT 1 FROM public.catalog_share_link_sessions s
+        WHERE s.link_id = link.id
+          AND s.session_id = visitor_session_id
+          AND s.counted_at > now() - interval '1 hour'
+    ) THEN
+        IF link.max_downloads IS NOT NULL AND link.download_count >= link.max_downloads THEN
+            RETURN;
+        END IF;
+
+        UPDATE public.catalog_share_links l
+        SET download_count = l.download_count + 1
+        WHERE l.id = link.id
+        RETURNING l.download_count INTO link.download_count;
+
+        IF visitor_session_id IS NOT NULL THEN
+            INSERT INTO public.catalog_share_link_sessions (link_id, session_id)
+            VALUES (link.id, visitor_session_id)
+            ON CONFLICT (link_id, session_id) DO UPDATE SET counted_at = now();
+        END IF;
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        c.id,
+        c.title_en,
+        c.title_ar,
+        c.pdf_url,
+        link.expires_at,
+        link.max_downloads - link.download_count
+    FROM public.catalogs c
+    WHERE c.id = link.catalog_id;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.redeem_catalog_share_link(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.redeem_catalog_share_link(TEXT, UUID) TO service_role;
+
+-- =====================================================
+-- 6. SEARCH RPCS
+-- =====================================================
+-- The RPCs run with the caller's privileges, so admins would otherwise
+-- find private catalogs on the public page; return types are unchanged.
+CREATE OR REPLACE FUNCTION public.search_catalogs(
+    search_query TEXT DEFAULT NULL,
+    category_filter UUID DEFAULT NULL,
+    tag_filter UUID[] DEFAULT NULL,
+    sort_order TEXT DEFAULT 'relevance',
+    sort_language TEXT DEFAULT 'en',
+    page_size INTEGER DEFAULT 12,
+    page_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    id UUID,
+    title_en TEXT,
+    title_ar TEXT,
+    slug TEXT,
+    category_id UUID,
+    pdf_url TEXT,
+    thumbnail_url TEXT,
+    file_size BIGINT,
+    published BOOLEAN,
+    gated BOOLEAN,
+    publish_at TIMESTAMP WITH TIME ZONE,
+    unpublish_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE,
+    category JSONB,
+    rank REAL,
+    total_count BIGINT
+) AS $$
+    WITH query AS (
+        SELECT public.catalog_search_query(search_query) AS ts_query
+    ),
+    matches AS (
+        SELECT
+            c.id,
+            c.title_en,
+            c.title_ar,
+            c.slug,
+            c.category_id,
+            c.pdf_url,
+            c.thumbnail_url,
+            c.file_size,
+            c.published,
+            c.gated,
+            c.publish_at,
+            c.unpublish_at,
+            c.created_at,
+            c.updated_at,
+            to_jsonb(cat.*) AS category,
+            CASE
+                WHEN query.ts_query IS NULL THEN 0
+                ELSE ts_rank_cd(c.search_vector, query.ts_query)
+            END AS rank
+        FROM public.catalogs c
+        JOIN public.categories cat ON cat.id = c.category_id
+        CROSS JOIN query
+        WHERE public.is_catalog_live(c.published, c.publish_at, c.unpublish_at)
+          AND NOT c.private
+          AND (category_filter IS NULL OR c.category_id = category_filter)
+          AND (query.ts_query IS NULL OR c.search_vector @@ query.ts_query)
+          AND (
+              coalesce(cardinality(tag_filter), 0) = 0
+              OR EXISTS (
+                  SELECT 1 FROM public.catalog_tags ct
+                  WHERE ct.catalog_id = c.id AND ct.tag_id = ANY (tag_filter)
+              )
+          )
+    )
+    SELECT
+        matches.*,
+        COUNT(*) OVER () AS total_count
+    FROM matches
+    ORDER BY
+        CASE WHEN sort_order = 'alphabetical' THEN
+            CASE WHEN sort_language = 'ar' THEN matches.title_ar ELSE lower(matches.title_en) END
+        END ASC,
+        CASE WHEN sort_order = 'largest' THEN matches.file_size END DESC,
+        CASE WHEN sort_order = 'relevance' THEN matches.rank END DESC,
+        matches.created_at DESC
+    LIMIT greatest(page_size, 1)
+    OFFSET greatest(page_offset, 0);
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.search_catalogs(TEXT, UUID, UUID[], TEXT, TEXT, INTEGER, INTEGER) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.search_catalog_facets(
+    search_query TEXT DEFAULT NULL,
+    category_filter UUID DEFAULT NULL,
+    tag_filter UUID[] DEFAULT NULL
+)
+RETURNS TABLE (
+    facet TEXT,
+    facet_id UUID,
+    match_count BIGINT
+) AS $$
+    WITH query AS (
+        SELECT public.catalog_search_query(search_query) AS ts_query
+    ),
+    text_matches AS (
+        SELECT c.id, c.category_id
+        FROM public.catalogs c
+        CROSS JOIN query
+        WHERE public.is_catalog_live(c.published, c.publish_at, c.unpublish_at)
+          AND NOT c.private
+          AND (query.ts_query IS NULL OR c.search_vector @@ query.ts_query)
+    ),
+    tag_matches AS (
+        SELECT tm.id, tm.category_id
+        FROM text_matches tm
+        WHERE coalesce(cardinality(tag_filter), 0) = 0
+           OR EXISTS (
+               SELECT 1 FROM public.catalog_tags ct
+               WHERE ct.catalog_id = tm.id AND ct.tag_id = ANY (tag_filter)
+           )
+    )
+    SELECT 'category' AS facet, tag_matches.category_id AS facet_id, COUNT(*) AS match_count
+    FROM tag_matches
+    GROUP BY tag_matches.category_id
+
+    UNION ALL
+
+    SELECT 'tag' AS facet, ct.tag_id AS facet_id, COUNT(DISTINCT tm.id) AS match_count
+    FROM text_matches tm
+    JOIN public.catalog_tags ct ON ct.catalog_id = tm.id
+    WHERE category_filter IS NULL OR tm.category_id = category_filter
+    GROUP BY ct.tag_id;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.search_catalog_facets(TEXT, UUID, UUID[]) TO anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.search_catalog_pages(
+    search_query TEXT,
+    category_filter UUID DEFAULT NULL,
+    tag_filter UUID[] DEFAULT NULL,
+    catalog_limit INTEGER DEFAULT 10,
+    hits_per_catalog INTEGER DEFAULT 3
+)
+RETURNS TABLE (
+    catalog_id UUID,
+    title_en TEXT,
+    title_ar TEXT,
+    slug TEXT,
+    pdf_url TEXT,
+    thumbnail_url TEXT,
+    gated BOOLEAN,
+    category JSONB,
+    page_number INTEGER,
+    snippet TEXT,
+    rank REAL
+) AS $$
+    WITH query AS (
+        SELECT public.catalog_search_query(search_query) AS ts_query
+    ),
+    page_hits AS (
+        SELECT
+            p.catalog_id,
+            p.page_number,
+            p.content,
+            ts_rank_cd(p.search_vector, query.ts_query) AS rank,
+            row_number() OVER (
+                PARTITION BY p.catalog_id
+                ORDER BY ts_rank_cd(p.search_vector, query.ts_query) DESC, p.page_number
+            ) AS hit_position
+        FROM public.catalog_pages p
+        JOIN public.catalogs c ON c.id = p.catalog_id
+        CROSS JOIN query
+        WHERE query.ts_query IS NOT NULL
+          AND public.is_catalog_live(c.published, c.publish_at, c.unpublish_at)
+          AND NOT c.private
+          AND p.search_vector @@ query.ts_query
+          AND (category_filter IS NULL OR c.category_id = category_filter)
+          AND (
+              coalesce(cardinality(tag_filter), 0) = 0
+              OR EXISTS (
+                  SELECT 1 FROM public.catalog_tags ct
+                  WHERE ct.catalog_id = c.id AND ct.tag_id = ANY (tag_filter)
+              )
+          )
+    ),
+    top_catalogs AS (
+        SELECT page_hits.catalog_id, max(page_hits.rank) AS best_rank
+        FROM page_hits
+        GROUP BY page_hits.catalog_id
+        ORDER BY best_rank DESC
+        LIMIT greatest(catalog_limit, 1)
+    )
+    SELECT
+        c.id AS catalog_id,
+        c.title_en,
+        c.title_ar,
+        c.slug,
+        c.pdf_url,
+        c.thumbnail_url,
+        c.gated,
+        to_jsonb(cat.*) AS category,
+        page_hits.page_number,
+        ts_headline(
+            'simple',
+            page_hits.content,
+            query.ts_query,
+            'StartSel=[[, StopSel=]], MaxWords=30, MinWords=12, MaxFragments=1'
+        ) AS snippet,
+        page_hits.rank
+    FROM page_hits
+    JOIN top_catalogs ON top_catalogs.catalog_id = page_hits.catalog_id
+    JOIN public.catalogs c ON c.id = page_hits.catalog_id
+    JOIN public.categories cat ON cat.id = c.category_id
+    CROSS JOIN query
+    WHERE page_hits.hit_position <= greatest(hits_per_catalog, 1)
+    ORDER BY top_catalogs.best_rank DESC, c.id, page_hits.rank DESC, page_hits.page_number;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.search_catalog_pages(TEXT, UUID, UUID[], INTEGER, INTEGER) TO anon, authenticated;
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
@@ -0,0 +1,54 @@
+-- =====================================================
+-- MST-KSA Catalog Bundle Downloads
+-- =====================================================
+-- This migration records catalogs downloaded together as one ZIP:
+-- 1. Bundle id on catalog events
+-- 2. Report function for bundle downloads
+-- =====================================================
+
+-- =====================================================
+-- 1. BUNDLE ID ON CATALOG EVENTS
+-- =====================================================
+-- A bundle download records one 'download' event per catalog in the ZIP,
+-- all sharing the same bundle_id, so per-catalog download counts include
+-- bundled downloads. Single downloads leave it empty.
+ALTER TABLE public.catalog_events
+    ADD COLUMN IF NOT EXISTS bundle_id UUID;
+
+ALTER TABLE public.catalog_events
+    ADD CONSTRAINT catalog_events_bundle_download_check
+    CHECK (bundle_id IS NULL OR event_type = 'download');
+
+CREATE INDEX IF NOT EXISTS idx_catalog_events_bundle_id
+    ON public.catalog_events(bundle_id)
+    WHERE bundle_id IS NOT NULL;
+
+-- =====================================================
+-- 2. REPORT FUNCTION
+-- =====================================================
+-- Runs with the caller's privileges like the other report functions,
+-- so only admins get non-zero results.
+
+-- Bundle downloads in a period and the catalogs they contained
+CREATE OR REPLACE FUNCTION public.catalog_event_bundles(
+    period_start TIMESTAMP WITH TIME ZONE,
+    period_end TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+)
+RETURNS TABLE (
+    bundles BIGINT,
+    bundled_catalogs BIGINT
+) AS $$
+    SELECT
+        COUNT(DISTINCT e.bundle_id) AS bundles,
+        COUNT(*) AS bundled_catalogs
+    FROM public.catalog_events e
+    WHERE e.bundle_id IS NOT NULL
+      AND e.created_at >= period_start
+      AND e.created_at < period_end;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.catalog_event_bundles(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) TO authenticated;
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
@@ -0,0 +1,142 @@
+-- =====================================================
+-- MST-KSA Customer Accounts
+-- =====================================================
+-- This migration gives signed-in customers (role 'user') their own
+-- account area:
+-- 1. Preferred language on profiles (and role protection)
+-- 2. Catalog favorites table
+-- 3. Owner on contact submissions
+-- 4. Row Level Security policies so customers only see their own data
+--
+-- Recently viewed catalogs and download history are read from the
+-- existing catalog_events rows, which already record the user.
+-- =====================================================
+
+-- =====================================================
+-- 1. PREFERRED LANGUAGE
+-- =====================================================
+ALTER TABLE public.profiles
+    ADD COLUMN IF NOT EXISTS preferred_language TEXT CHECK (preferred_language IN ('en', 'ar'));
+
+-- Customers may update their own profile (for the preferred language), so
+-- keep them from changing their role. Changes made outside a session
+-- (SQL editor, service role) and by admins are allowed.
+CREATE OR REPLACE FUNCTION public.protect_profile_role()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.role IS DISTINCT FROM OLD.role
+       AND auth.uid() IS NOT NULL
+       AND NOT EXISTS (
+           SELECT 1 FROM public.profiles
+           WHERE id = auth.uid() AND role = 'admin'
+       ) THEN
+        RAISE EXCEPTION 'Only admins can change profile roles';
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS protect_profile_role ON public.profiles;
+CREATE TRIGGER protect_profile_role
+    BEFORE UPDATE ON public.profiles
+    FOR EACH ROW
+    EXECUTE FUNCTION public.protect_profile_role();
+
+-- =====================================================
+-- 2. CATALOG FAVORITES TABLE
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.catalog_favorites (
+    user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES public.profiles(id) ON DELETE CASCADE,
+    catalog_id UUID NOT NULL REFERENCES public.catalogs(id) ON DELETE CASCADE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (user_id, catalog_id)
+);
+
+-- Create index for listing a customer's favorites, newest first
+CREATE INDEX IF NOT EXISTS idx_catalog_favorites_user_id ON public.catalog_favorites(user_id, created_at DESC);
+
+-- =====================================================
+-- 3. OWNER ON CONTACT SUBMISSIONS
+-- =====================================================
+-- Set from the session like catalog events and leads; anonymous
+-- submissions stay without an owner
+ALTER TABLE public.contact_submissions
+    ADD COLUMN IF NOT EXISTS user_id UUID DEFAULT auth.uid() REFERENCES public.profiles(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_contact_submissions_user_id ON public.contact_submissions(user_id, created_at DESC);
+
+-- =====================================================
+-- 4. ROW LEVEL SECURITY (RLS) POLICIES
+-- =====================================================
+ALTER TABLE public.catalog_favorites ENABLE ROW LEVEL SECURITY;
+
+-- Customers manage their own favorites, of catalogs they can see
+CREATE POLICY "Users can view own catalog favorites"
+    ON public.catalog_favorites
+    FOR SELECT
+    TO authenticated
+    USING (user_id = auth.uid());
+
+CREATE POLICY "Users can insert own catalog favorites"
+    ON public.catalog_favorites
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        user_id = auth.uid()
+        AND EXISTS (
+            SELECT 1 FROM public.catalogs
+            WHERE id = catalog_favorites.catalog_id
+              AND NOT private
+              AND public.is_catalog_live(published, publish_at, unpublish_at)
+        )
+    );
+
+CREATE POLICY "Users can delete own catalog favorites"
+    ON public.catalog_favorites
+    FOR DELETE
+    TO authenticated
+    USING (user_id = auth.uid());
+
+-- Customers can read back their own catalog events (recently viewed,
+-- download history)
+CREATE POLICY "Users can view own catalog events"
+    ON public.catalog_events
+    FOR SELECT
+    TO authenticated
+    USING (user_id = auth.uid());
+
+-- Contact submissions can only be made as yourself (or anonymously)
+DROP POLICY IF EXISTS "Public users can insert contact submissions" ON public.contact_submissions;
+CREATE POLICY "Public users can insert contact submissions"
+    ON public.contact_submissions
+    FOR INSERT
+    TO public
+    WITH CHECK (user_id IS NULL OR user_id = auth.uid());
+
+CREATE POLICY "Users can view own contact submissions"
+    ON public.contact_submissions
+    FOR SELECT
+    TO authenticated
+    USING (user_id = auth.uid());
+
+-- Customers can view their own quote requests and their items
+CREATE POLICY "Users can view own rfq requests"
+    ON public.rfq_requests
+    FOR SELECT
+    TO authenticated
+    USING (user_id = auth.uid());
+
+CREATE POLICY "Users can view own rfq items"
+    ON public.rfq_items
+    FOR SELECT
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.rfq_requests
+            WHERE id = rfq_items.request_id AND user_id = auth.uid()
+        )
+    );
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
@@ -0,0 +1,167 @@
+-- =====================================================
+-- MST-KSA Related Catalog Recommendations
+-- =====================================================
+-- This migration recommends related catalogs on the catalog detail page
+-- and in the PDF viewer:
+-- 1. pg_trgm extension for title similarity
+-- 2. Session id on catalog events, for co-views
+-- 3. related_catalogs() ranking function
+--
+-- The ranking lives in the database so it can be tuned by replacing the
+-- function, without redeploying the site.
+-- =====================================================
+
+-- =====================================================
+-- 1. EXTENSIONS
+-- =====================================================
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+-- =====================================================
+-- 2. SESSION ID ON CATALOG EVENTS
+-- =====================================================
+-- Random id per browser visit, set by the site. Catalogs viewed in the
+-- same visit count as co-viewed.
+ALTER TABLE public.catalog_events
+    ADD COLUMN IF NOT EXISTS session_id UUID;
+
+CREATE INDEX IF NOT EXISTS idx_catalog_events_session_id
+    ON public.catalog_events(session_id, catalog_id)
+    WHERE session_id IS NOT NULL AND event_type = 'view';
+
+-- =====================================================
+-- 3. RELATED CATALOGS FUNCTION
+-- =====================================================
+-- Ranks the other live, public catalogs by:
+-- - the same category
+-- - shared tags (Jaccard overlap of the two tag sets)
+-- - co-views: visits in which both catalogs were viewed (log-scaled)
+-- - title similarity (trigrams), the better of English and Arabic
+--
+-- Runs as SECURITY DEFINER to count co-views, since customers cannot read
+-- catalog events; only catalog columns are returned. Returns nothing when
+-- the source catalog isn't live and public.
+CREATE OR REPLACE FUNCTION public.related_catalogs(
+    source_catalog_id UUID,
+    max_results INTEGER DEFAULT 6
+)
+RETURNS TABLE (
+    id UUID,
+    title_en TEXT,
+    title_ar TEXT,
+    slug TEXT,
+    category_id UUID,
+    pdf_url TEXT,
+    thumbnail_url TEXT,
+    file_size BIGINT,
+    gated BOOLEAN,
+    created_at TIMESTAMP WITH TIME ZONE,
+    category JSONB,
+    score REAL
+) AS $$
+    WITH weights AS (
+        -- Tune the ranking here
+        SELECT
+            1.0::REAL AS category_weight,
+            2.0::REAL AS tag_weight,
+            1.0::REAL AS coview_weight,
+            1.5::REAL AS title_weight,
+            0.3::REAL AS min_score,
+            INTERVAL '180 days' AS coview_window
+    ),
+    source AS (
+        SELECT
+            c.id,
+            c.category_id,
+            public.normalize_search_text(c.title_en) AS title_en,
+            public.normalize_search_text(c.title_ar) AS title_ar
+        FROM public.catalogs c
+        WHERE c.id = source_catalog_id
+          AND NOT c.private
+          AND public.is_catalog_live(c.published, c.publish_at, c.unpublish_at)
+    ),
+    source_tags AS (
+        SELECT ct.tag_id
+        FROM public.catalog_tags ct
+        WHERE ct.catalog_id = source_catalog_id
+    ),
+    candidates AS (
+        SELECT c.*
+        FROM public.catalogs c, source s
+        WHERE c.id <> s.id
+          AND NOT c.private
+          AND public.is_catalog_live(c.published, c.publish_at, c.unpublish_at)
+    ),
+    tag_overlap AS (
+        SELECT
+            ct.catalog_id,
+            COUNT(*) FILTER (WHERE ct.tag_id IN (SELECT tag_id FROM source_tags)) AS shared_tags,
+            COUNT(*) AS tag_count
+        FROM public.catalog_tags ct
+        WHERE ct.catalog_id IN (SELECT id FROM candidates)
+        GROUP BY ct.catalog_id
+    ),
+    coviews AS (
+        SELECT other.catalog_id, COUNT(DISTINCT other.session_id) AS visits
+        FROM public.catalog_events viewed
+        JOIN public.catalog_events other
+            ON other.session_id = viewed.session_id
+           AND other.catalog_id <> viewed.catalog_id
+           AND other.event_type = 'view'
+        CROSS JOIN weights w
+        WHERE viewed.catalog_id = source_catalog_id
+          AND viewed.event_type = 'view'
+          AND viewed.session_id IS NOT NULL
+          AND viewed.created_at >= NOW() - w.coview_window
+          AND other.created_at >= NOW() - w.coview_window
+        GROUP BY other.catalog_id
+    ),
+    scored AS (
+        SELECT
+            c.id,
+            c.created_at,
+            (
+                w.category_weight * (c.category_id = s.category_id)::INTEGER
+                + w.tag_weight * coalesce(
+                    t.shared_tags::REAL
+                        / nullif((SELECT COUNT(*) FROM source_tags) + t.tag_count - t.shared_tags, 0),
+                    0
+                )
+                + w.coview_weight * ln(1 + coalesce(v.visits, 0))
+                + w.title_weight * greatest(
+                    similarity(public.normalize_search_text(c.title_en), s.title_en),
+                    similarity(public.normalize_search_text(c.title_ar), s.title_ar)
+                )
+            )::REAL AS score
+        FROM candidates c
+        CROSS JOIN source s
+        CROSS JOIN weights w
+        LEFT JOIN tag_overlap t ON t.catalog_id = c.id
+        LEFT JOIN coviews v ON v.catalog_id = c.id
+    )
+    SELECT
+        c.id,
+        c.title_en,
+        c.title_ar,
+        c.slug,
+        c.category_id,
+        c.pdf_url,
+        c.thumbnail_url,
+        c.file_size,
+        c.gated,
+        c.created_at,
+        to_jsonb(cat.*) AS category,
+        sc.score
+    FROM scored sc
+    CROSS JOIN weights w
+    JOIN public.catalogs c ON c.id = sc.id
+    JOIN public.categories cat ON cat.id = c.category_id
+    WHERE sc.score >= w.min_score
+    ORDER BY sc.score DESC, sc.created_at DESC
+    LIMIT greatest(max_results, 1);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public, extensions;
+
+GRANT EXECUTE ON FUNCTION public.related_catalogs(UUID, INTEGER) TO anon, authenticated;
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
@@ -0,0 +1,536 @@
+-- =====================================================
+-- MST-KSA Watermarked Catalog Downloads
+-- =====================================================
+-- This migration stamps downloads of selected catalogs (e.g. distributor
+-- price lists) with the downloader's email and the date:
+-- 1. watermark_downloads flag on catalogs, and the distributor role
+-- 2. Watermarked downloads table (audit trail of stamped files)
+-- 3. Row Level Security policies (admins read the audit trail)
+-- 4. get_watermarked_catalog() and record_watermarked_download() for the
+--    catalog-watermark-download edge function
+-- 5. Search and recommendation RPCs return the watermark flag
+-- 6. Share links and archived editions don't open watermarked catalogs
+--
+-- Stamping happens in the catalog-watermark-download edge function
+-- (supabase/functions/catalog-watermark-download), which only serves
+-- distributors (and admins). Admins give customers the distributor role
+-- on the admin Users page. The PDFs of watermarked catalogs are kept in
+-- the private-catalogs bucket, so the pdf_url returned to the public can't
+-- be opened; the site views, prints and saves the stamped copy instead.
+-- =====================================================
+
+-- =====================================================
+-- 1. WATERMARK FLAG AND DISTRIBUTOR ROLE
+-- =====================================================
+ALTER TABLE public.catalogs
+    ADD COLUMN IF NOT EXISTS watermark_downloads BOOLEAN NOT NULL DEFAULT false;
+
+-- Distributors are customers who may download watermarked catalogs;
+-- protect_profile_role() keeps customers from taking the role themselves
+ALTER TABLE public.profiles
+    DROP CONSTRAINT IF EXISTS profiles_role_check;
+
+ALTER TABLE public.profiles
+    ADD CONSTRAINT profiles_role_check
+    CHECK (role IN ('user', 'distributor', 'admin'));
+
+-- =====================================================
+-- 2. WATERMARKED DOWNLOADS TABLE
+-- =====================================================
+-- One row per stamped file; the email is kept as stamped, so the trail
+-- still reads correctly after the account is changed or deleted
+CREATE TABLE IF NOT EXISTS public.catalog_watermarked_downloads (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    catalog_id UUID NOT NULL REFERENCES public.catalogs(id) ON DELETE CASCADE,
+    user_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    email TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create indexes for the audit trail
+CREATE INDEX IF NOT EXISTS idx_catalog_watermarked_downloads_catalog_id
+    ON public.catalog_watermarked_downloads(catalog_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_catalog_watermarked_downloads_user_id
+    ON public.catalog_watermarked_downloads(user_id);
+
+-- =====================================================
+-- 3. ROW LEVEL SECURITY (RLS) POLICIES
+-- =====================================================
+-- Rows are only written by record_watermarked_download(), so there are
+-- no insert, update or delete policies: the trail can't be edited from
+-- the site, not even by admins.
+ALTER TABLE public.catalog_watermarked_downloads ENABLE ROW LEVEL SECURITY;
+
+-- Admins can view all watermarked downloads
+CREATE POLICY "Admins can view watermarked downloads"
+    ON public.catalog_watermarked_downloads
+    FOR SELECT
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- =====================================================
+-- 4. LOOKUP AND RECORD FUNCTIONS
+-- =====================================================
+-- Returns what the edge function needs to stamp a live catalog that has
+-- watermarking turned on; returns no row otherwise. Private catalogs are
+-- left out: they are only opened through share links, which don't open
+-- watermarked files either (see section 6).
+CREATE OR REPLACE FUNCTION public.get_watermarked_catalog(
+    target_catalog_id UUID
+)
+RETURNS TABLE (
+    catalog_id UUID,
+    title_en TEXT,
+    title_ar TEXT,
+    pdf_url TEXT
+) AS $$
+    SELECT c.id, c.title_en, c.title_ar, c.pdf_url
+    FROM public.catalogs c
+    WHERE c.id = target_catalog_id
+      AND c.watermark_downloads
+      AND NOT c.private
+      AND public.is_catalog_live(c.published, c.publish_at, c.unpublish_at);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.get_watermarked_catalog(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.get_watermarked_catalog(UUID) TO service_role;
+
+-- Records a stamped copy in the audit trail. The edge function calls it
+-- once the copy is stamped, right before serving it, so a failed read or
+-- stamp leaves no entry. The email comes from the verified auth user
+-- rather than the profile, which its owner can edit.
+-- Only the edge function (service role) may call it, so every recorded
+-- download is one that was actually stamped.
+CREATE OR REPLACE FUNCTION public.record_watermarked_download(
+    target_catalog_id UUID,
+    downloader_id UUID,
+    downloader_email TEXT
+)
+RETURNS VOID AS $$
+    INSERT INTO public.catalog_watermarked_downloads (catalog_id, user_id, email)
+    VALUES (target_catalog_id, downloader_id, downloader_email);
+$$ LANGUAGE sql VOLATILE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.record_watermarked_download(UUID, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_watermarked_download(UUID, UUID, TEXT) TO service_role;
+
+-- =====================================================
+-- 5. SEARCH AND RECOMMENDATION RPCS
+-- =====================================================
+-- The catalog page needs the watermark flag before a download starts,
+-- so these functions return it; their return types change. Search
+-- results also carry the Arabic slug for links shared in Arabic.
+DROP FUNCTION IF EXISTS public.search_catalogs(TEXT, UUID, UUID[], TEXT, TEXT, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_catalogs(
+    search_query TEXT DEFAULT NULL,
+    category_filter UUID DEFAULT NULL,
+    tag_filter UUID[] DEFAULT NULL,
+    sort_order TEXT DEFAULT 'relevance',
+    sort_language TEXT DEFAULT 'en',
+    page_size INTEGER DEFAULT 12,
+    page_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+    id UUID,
+    title_en TEXT,
+    title_ar TEXT,
+    slug TEXT,
+    slug_ar TEXT,
+    category_id UUID,
+    pdf_url TEXT,
+    thumbnail_url TEXT,
+    file_size BIGINT,
+    published BOOLEAN,
+    gated BOOLEAN,
+    watermark_downloads BOOLEAN,
+    publish_at TIMESTAMP WITH TIME ZONE,
+    unpublish_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE,
+    category JSONB,
+    rank REAL,
+    total_count BIGINT
+) AS $$
+    WITH query AS (
+        SELECT public.catalog_search_query(search_query) AS ts_query
+    ),
+    matches AS (
+        SELECT
+            c.id,
+            c.title_en,
+            c.title_ar,
+            c.slug,
+            c.slug_ar,
+            c.category_id,
+            c.pdf_url,
+            c.thumbnail_url,
+            c.file_size,
+            c.published,
+            c.gated,
+            c.watermark_downloads,
+            c.publish_at,
+            c.unpublish_at,
+            c.created_at,
+            c.updated_at,
+            to_jsonb(cat.*) AS category,
+            CASE
+                WHEN query.ts_query IS NULL THEN 0
+                ELSE ts_rank_cd(c.search_vector, query.ts_query)
+            END AS rank
+        FROM public.catalogs c
+        JOIN public.categories cat ON cat.id = c.category_id
+        CROSS JOIN query
+        WHERE public.is_catalog_live(c.published, c.publish_at, c.unpublish_at)
+          AND NOT c.private
+          AND (category_filter IS NULL OR c.category_id = category_filter)
+          AND (query.ts_query IS NULL OR c.search_vector @@ query.ts_query)
+          AND (
+              coalesce(cardinality(tag_filter), 0) = 0
+              OR EXISTS (
+                  SELECT 1 FROM public.catalog_tags ct
+                  WHERE ct.catalog_id = c.id AND ct.tag_id = ANY (tag_filter)
+              )
+          )
+    )
+    SELECT
+        matches.*,
+        COUNT(*) OVER () AS total_count
+    FROM matches
+    ORDER BY
+        CASE WHEN sort_order = 'alphabetical' THEN
+            CASE WHEN sort_language = 'ar' THEN matches.title_ar ELSE lower(matches.title_en) END
+        END ASC,
+        CASE WHEN sort_order = 'largest' THEN matches.file_size END DESC,
+        CASE WHEN sort_order = 'relevance' THEN matches.rank END DESC,
+        matches.created_at DESC
+    LIMIT greatest(page_size, 1)
+    OFFSET greatest(page_offset, 0);
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.search_catalogs(TEXT, UUID, UUID[], TEXT, TEXT, INTEGER, INTEGER) TO anon, authenticated;
+
+DROP FUNCTION IF EXISTS public.search_catalog_pages(TEXT, UUID, UUID[], INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.search_catalog_pages(
+    search_query TEXT,
+    category_filter UUID DEFAULT NULL,
+    tag_filter UUID[] DEFAULT NULL,
+    catalog_limit INTEGER DEFAULT 10,
+    hits_per_catalog INTEGER DEFAULT 3
+)
+RETURNS TABLE (
+    catalog_id UUID,
+    title_en TEXT,
+    title_ar TEXT,
+    slug TEXT,
+    slug_ar TEXT,
+    pdf_url TEXT,
+    thumbnail_url TEXT,
+    gated BOOLEAN,
+    watermark_downloads BOOLEAN,
+    category JSONB,
+    page_number INTEGER,
+    snippet TEXT,
+    rank REAL
+) AS $$
+    WITH query AS (
+        SELECT public.catalog_search_query(search_query) AS ts_query
+    ),
+    page_hits AS (
+        SELECT
+            p.catalog_id,
+            p.page_number,
+            p.content,
+            ts_rank_cd(p.search_vector, query.ts_query) AS rank,
+            row_number() OVER (
+                PARTITION BY p.catalog_id
+                ORDER BY ts_rank_cd(p.search_vector, query.ts_query) DESC, p.page_number
+            ) AS hit_position
+        FROM public.catalog_pages p
+        JOIN public.catalogs c ON c.id = p.catalog_id
+        CROSS JOIN query
+        WHERE query.ts_query IS NOT NULL
+          AND public.is_catalog_live(c.published, c.publish_at, c.unpublish_at)
+          AND NOT c.private
+          AND p.search_vector @@ query.ts_query
+          AND (category_filter IS NULL OR c.category_id = category_filter)
+          AND (
+              coalesce(cardinality(tag_filter), 0) = 0
+              OR EXISTS (
+                  SELECT 1 FROM public.catalog_tags ct
+                  WHERE ct.catalog_id = c.id AND ct.tag_id = ANY (tag_filter)
+              )
+          )
+    ),
+    top_catalogs AS (
+        SELECT page_hits.catalog_id, max(page_hits.rank) AS best_rank
+        FROM page_hits
+        GROUP BY page_hits.catalog_id
+        ORDER BY best_rank DESC
+        LIMIT greatest(catalog_limit, 1)
+    )
+    SELECT
+        c.id AS catalog_id,
+        c.title_en,
+        c.title_ar,
+        c.slug,
+        c.slug_ar,
+        c.pdf_url,
+        c.thumbnail_url,
+        c.gated,
+        c.watermark_downloads,
+        to_jsonb(cat.*) AS category,
+        page_hits.page_number,
+        ts_headline(
+            'simple',
+            page_hits.content,
+            query.ts_query,
+            'StartSel=[[, StopSel=]], MaxWords=30, MinWords=12, MaxFragments=1'
+        ) AS snippet,
+        page_hits.rank
+    FROM page_hits
+    JOIN top_catalogs ON top_catalogs.catalog_id = page_hits.catalog_id
+    JOIN public.catalogs c ON c.id = page_hits.catalog_id
+    JOIN public.categories cat ON cat.id = c.category_id
+    CROSS JOIN query
+    WHERE page_hits.hit_position <= greatest(hits_per_catalog, 1)
+    ORDER BY top_catalogs.best_rank DESC, c.id, page_hits.rank DESC, page_hits.page_number;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.search_catalog_pages(TEXT, UUID, UUID[], INTEGER, INTEGER) TO anon, authenticated;
+
+DROP FUNCTION IF EXISTS public.related_catalogs(UUID, INTEGER);
+
+-- Ranks the other live, public catalogs by:
+-- - the same category
+-- - shared tags (Jaccard overlap of the two tag sets)
+-- - co-views: visits in which both catalogs were viewed (log-scaled)
+-- - title similarity (trigrams), the better of English and Arabic
+--
+-- Runs as SECURITY DEFINER to count co-views, since customers cannot read
+-- catalog events; only catalog columns are returned. Returns nothing when
+-- the source catalog isn't live and public.
+CREATE OR REPLACE FUNCTION public.related_catalogs(
+    source_catalog_id UUID,
+    max_results INTEGER DEFAULT 6
+)
+RETURNS TABLE (
+    id UUID,
+    title_en TEXT,
+    title_ar TEXT,
+    slug TEXT,
+    slug_ar TEXT,
+    category_id UUID,
+    pdf_url TEXT,
+    thumbnail_url TEXT,
+    file_size BIGINT,
+    gated BOOLEAN,
+    watermark_downloads BOOLEAN,
+    created_at TIMESTAMP WITH TIME ZONE,
+    category JSONB,
+    score REAL
+) AS $$
+    WITH weights AS (
+        -- Tune the ranking here
+        SELECT
+            1.0::REAL AS category_weight,
+            2.0::REAL AS tag_weight,
+            1.0::REAL AS coview_weight,
+            1.5::REAL AS title_weight,
+            0.3::REAL AS min_score,
+            INTERVAL '180 days' AS coview_window
+    ),
+    source AS (
+        SELECT
+            c.id,
+            c.category_id,
+            public.normalize_search_text(c.title_en) AS title_en,
+            public.normalize_search_text(c.title_ar) AS title_ar
+        FROM public.catalogs c
+        WHERE c.id = source_catalog_id
+          AND NOT c.private
+          AND public.is_catalog_live(c.published, c.publish_at, c.unpublish_at)
+    ),
+    source_tags AS (
+        SELECT ct.tag_id
+        FROM public.catalog_tags ct
+        WHERE ct.catalog_id = source_catalog_id
+    ),
+    candidates AS (
+        SELECT c.*
+        FROM public.catalogs c, source s
+        WHERE c.id <> s.id
+          AND NOT c.private
+          AND public.is_catalog_live(c.published, c.publish_at, c.unpublish_at)
+    ),
+    tag_overlap AS (
+        SELECT
+            ct.catalog_id,
+            COUNT(*) FILTER (WHERE ct.tag_id IN (SELECT tag_id FROM source_tags)) AS shared_tags,
+            COUNT(*) AS tag_count
+        FROM public.catalog_tags ct
+        WHERE ct.catalog_id IN (SELECT id FROM candidates)
+        GROUP BY ct.catalog_id
+    ),
+    coviews AS (
+        SELECT other.catalog_id, COUNT(DISTINCT other.session_id) AS visits
+        FROM public.catalog_events viewed
+        JOIN public.catalog_events other
+            ON other.session_id = viewed.session_id
+           AND other.catalog_id <> viewed.catalog_id
+           AND other.event_type = 'view'
+        CROSS JOIN weights w
+        WHERE viewed.catalog_id = source_catalog_id
+          AND viewed.event_type = 'view'
+          AND viewed.session_id IS NOT NULL
+          AND viewed.created_at >= NOW() - w.coview_window
+          AND other.created_at >= NOW() - w.coview_window
+        GROUP BY other.catalog_id
+    ),
+    scored AS (
+        SELECT
+            c.id,
+            c.created_at,
+            (
+                w.category_weight * (c.category_id = s.category_id)::INTEGER
+                + w.tag_weight * coalesce(
+                    t.shared_tags::REAL
+                        / nullif((SELECT COUNT(*) FROM source_tags) + t.tag_count - t.shared_tags, 0),
+                    0
+                )
+                + w.coview_weight * ln(1 + coalesce(v.visits, 0))
+                + w.title_weight * greatest(
+                    similarity(public.normalize_search_text(c.title_en), s.title_en),
+                    similarity(public.normalize_search_text(c.title_ar), s.title_ar)
+                )
+            )::REAL AS score
+        FROM candidates c
+        CROSS JOIN source s
+        CROSS JOIN weights w
+        LEFT JOIN tag_overlap t ON t.catalog_id = c.id
+        LEFT JOIN coviews v ON v.catalog_id = c.id
+    )
+    SELECT
+        c.id,
+        c.title_en,
+        c.title_ar,
+        c.slug,
+        c.slug_ar,
+        c.category_id,
+        c.pdf_url,
+        c.thumbnail_url,
+        c.file_size,
+        c.gated,
+        c.watermark_downloads,
+        c.created_at,
+        to_jsonb(cat.*) AS category,
+        sc.score
+    FROM scored sc
+    CROSS JOIN weights w
+    JOIN public.catalogs c ON c.id = sc.id
+    JOIN public.categories cat ON cat.id = c.category_id
+    WHERE sc.score >= w.min_score
+    ORDER BY sc.score DESC, sc.created_at DESC
+    LIMIT greatest(max_results, 1);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public, extensions;
+
+GRANT EXECUTE ON FUNCTION public.related_catalogs(UUID, INTEGER) TO anon, authenticated;
+
+-- =====================================================
+-- 6. SHARE LINKS AND ARCHIVED EDITIONS
+-- =====================================================
+-- Share links hand out a signed URL of the stored file, which isn't
+-- stamped, so they don't open watermarked catalogs; return type unchanged.
+CREATE OR REPLACE FUNCTION public.redeem_catalog_share_link(
+    share_token TEXT,
+    visitor_session_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    catalog_id UUID,
+    title_en TEXT,
+    title_ar TEXT,
+    pdf_url TEXT,
+    expires_at TIMESTAMP WITH TIME ZONE,
+    downloads_remaining INTEGER
+) AS $$
+DECLARE
+    link public.catalog_share_links%ROWTYPE;
+BEGIN
+    SELECT l.* INTO link
+    FROM public.catalog_share_links l
+    JOIN public.catalogs c ON c.id = l.catalog_id
+    WHERE l.token = share_token
+      AND l.revoked_at IS NULL
+      AND l.expires_at > now()
+      AND public.is_catalog_live(c.published, c.publish_at, c.unpublish_at)
+      AND NOT c.watermark_downloads
+    FOR UPDATE OF l;
+
+    IF NOT FOUND THEN
+        RETURN;
+    END IF;
+
+    IF visitor_session_id IS NULL OR NOT EXISTS (
+        SELECT 1 FROM public.catalog_share_link_sessions s
+        WHERE s.link_id = link.id
+          AND s.session_id = visitor_session_id
+          AND s.counted_at > now() - interval '1 hour'
+    ) THEN
+        IF link.max_downloads IS NOT NULL AND link.download_count >= link.max_downloads THEN
+            RETURN;
+        END IF;
+
+        UPDATE public.catalog_share_links l
+        SET download_count = l.download_count + 1
+        WHERE l.id = link.id
+        RETURNING l.download_count INTO link.download_count;
+
+        IF visitor_session_id IS NOT NULL THEN
+            INSERT INTO public.catalog_share_link_sessions (link_id, session_id)
+            VALUES (link.id, visitor_session_id)
+            ON CONFLICT (link_id, session_id) DO UPDATE SET counted_at = now();
+        END IF;
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        c.id,
+        c.title_en,
+        c.title_ar,
+        c.pdf_url,
+        link.expires_at,
+        link.max_downloads - link.download_count
+    FROM public.catalogs c
+    WHERE c.id = link.catalog_id;
+END;
+$$ LANGUAGE plpgsql VOLATILE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.redeem_catalog_share_link(TEXT, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.redeem_catalog_share_link(TEXT, UUID) TO service_role;
+
+-- Archived editions move into the private bucket along with the current
+-- PDF, where visitors can't open them, so they are hidden from the public
+-- once a catalog is watermarked
+DROP POLICY IF EXISTS "Public users can view published catalog versions" ON public.catalog_versions;
+CREATE POLICY "Public users can view published catalog versions"
+    ON public.catalog_versions
+    FOR SELECT
+    TO public
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.catalogs
+            WHERE id = catalog_versions.catalog_id
+              AND public.is_catalog_live(published, publish_at, unpublish_at)
+              AND NOT watermark_downloads
+        )
+    );
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================
@@ -0,0 +1,232 @@
+-- =====================================================
+-- MST-KSA Catalog Campaign Links
+-- =====================================================
+-- This migration adds short links for printed promotion (QR codes on
+-- trade show flyers) and attributes what visitors do to the campaign:
+-- 1. Catalog campaign links table (short code, campaign parameters)
+-- 2. Scan events and campaign attribution on catalog events and
+--    contact submissions
+-- 3. Row Level Security policies (links are managed by admins; scans are
+--    only recorded through open_catalog_campaign_link())
+-- 4. open_catalog_campaign_link() for the short link page
+-- 5. Report function for the admin analytics page
+--
+-- Links can't be edited or deleted: once a QR code is printed it has to
+-- keep pointing at the same place.
+-- =====================================================
+
+-- =====================================================
+-- 1. CATALOG CAMPAIGN LINKS TABLE
+-- =====================================================
+CREATE TABLE IF NOT EXISTS public.catalog_campaign_links (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    catalog_id UUID NOT NULL REFERENCES public.catalogs(id) ON DELETE CASCADE,
+    page_number INTEGER CHECK (page_number IS NULL OR page_number > 0),
+    code TEXT NOT NULL UNIQUE
+        DEFAULT substr(replace(uuid_generate_v4()::TEXT, '-', ''), 1, 8),
+    campaign TEXT NOT NULL CHECK (length(trim(campaign)) BETWEEN 1 AND 100),
+    source TEXT NOT NULL DEFAULT 'qr' CHECK (length(trim(source)) BETWEEN 1 AND 100),
+    medium TEXT NOT NULL DEFAULT 'print' CHECK (length(trim(medium)) BETWEEN 1 AND 100),
+    created_by UUID DEFAULT auth.uid() REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Create index for listing the links of a catalog
+CREATE INDEX IF NOT EXISTS idx_catalog_campaign_links_catalog_id ON public.catalog_campaign_links(catalog_id, created_at DESC);
+
+-- =====================================================
+-- 2. SCANS AND CAMPAIGN ATTRIBUTION
+-- =====================================================
+-- Opening a short link records a 'scan' event. The site remembers the
+-- link for the rest of the visit and sets campaign_link_id on the events
+-- and contact submissions that follow, so they count for the campaign.
+ALTER TABLE public.catalog_events
+    DROP CONSTRAINT IF EXISTS catalog_events_event_type_check;
+
+ALTER TABLE public.catalog_events
+    ADD CONSTRAINT catalog_events_event_type_check
+    CHECK (event_type IN ('view', 'download', 'print', 'share', 'scan'));
+
+ALTER TABLE public.catalog_events
+    ADD COLUMN IF NOT EXISTS campaign_link_id UUID REFERENCES public.catalog_campaign_links(id) ON DELETE SET NULL;
+
+ALTER TABLE public.catalog_events
+    ADD CONSTRAINT catalog_events_scan_campaign_check
+    CHECK (event_type <> 'scan' OR campaign_link_id IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_catalog_events_campaign_link_id
+    ON public.catalog_events(campaign_link_id, created_at DESC)
+    WHERE campaign_link_id IS NOT NULL;
+
+ALTER TABLE public.contact_submissions
+    ADD COLUMN IF NOT EXISTS campaign_link_id UUID REFERENCES public.catalog_campaign_links(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_contact_submissions_campaign_link_id
+    ON public.contact_submissions(campaign_link_id, created_at DESC)
+    WHERE campaign_link_id IS NOT NULL;
+
+-- =====================================================
+-- 3. ROW LEVEL SECURITY (RLS) POLICIES
+-- =====================================================
+ALTER TABLE public.catalog_campaign_links ENABLE ROW LEVEL SECURITY;
+
+-- Campaign links are managed by admins only; visitors open them through
+-- open_catalog_campaign_link()
+CREATE POLICY "Admins can view catalog campaign links"
+    ON public.catalog_campaign_links
+    FOR SELECT
+    TO authenticated
+    USING (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+CREATE POLICY "Admins can insert catalog campaign links"
+    ON public.catalog_campaign_links
+    FOR INSERT
+    TO authenticated
+    WITH CHECK (
+        EXISTS (
+            SELECT 1 FROM public.profiles
+            WHERE id = auth.uid() AND role = 'admin'
+        )
+    );
+
+-- Scans are only recorded by open_catalog_campaign_link(), so they can't
+-- be inflated by inserting events directly
+DROP POLICY IF EXISTS "Public users can insert catalog events" ON public.catalog_events;
+CREATE POLICY "Public users can insert catalog events"
+    ON public.catalog_events
+    FOR INSERT
+    TO public
+    WITH CHECK (
+        (user_id IS NULL OR user_id = auth.uid())
+        AND event_type <> 'scan'
+        AND EXISTS (
+            SELECT 1 FROM public.catalogs
+            WHERE id = catalog_events.catalog_id
+              AND public.is_catalog_live(published, publish_at, unpublish_at)
+        )
+    );
+
+-- =====================================================
+-- 4. OPEN FUNCTION
+-- =====================================================
+-- Records a scan of a campaign link and returns where it points, with
+-- the campaign parameters; returns no row (and records nothing) when the
+-- code is unknown or its catalog isn't live and public.
+-- Runs as SECURITY DEFINER because visitors can't read campaign links.
+CREATE OR REPLACE FUNCTION public.open_catalog_campaign_link(
+    link_code TEXT,
+    visitor_language TEXT DEFAULT 'en',
+    visitor_session_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+    campaign_link_id UUID,
+    catalog_id UUID,
+    slug TEXT,
+    page_number INTEGER,
+    campaign TEXT,
+    source TEXT,
+    medium TEXT
+) AS $$
+    WITH link AS (
+        SELECT l.id, l.catalog_id, c.slug, l.page_number, l.campaign, l.source, l.medium
+        FROM public.catalog_campaign_links l
+        JOIN public.catalogs c ON c.id = l.catalog_id
+        WHERE l.code = lower(trim(link_code))
+          AND NOT c.private
+          AND public.is_catalog_live(c.published, c.publish_at, c.unpublish_at)
+    ),
+    scan AS (
+        INSERT INTO public.catalog_events (catalog_id, event_type, language, session_id, campaign_link_id)
+        SELECT
+            link.catalog_id,
+            'scan',
+            CASE WHEN visitor_language = 'ar' THEN 'ar' ELSE 'en' END,
+            visitor_session_id,
+            link.id
+        FROM link
+    )
+    SELECT link.id, link.catalog_id, link.slug, link.page_number, link.campaign, link.source, link.medium
+    FROM link;
+$$ LANGUAGE sql VOLATILE SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION public.open_catalog_campaign_link(TEXT, TEXT, UUID) TO anon, authenticated;
+
+-- =====================================================
+-- 5. REPORT FUNCTION
+-- =====================================================
+-- Runs with the caller's privileges like the other report functions,
+-- so only admins get results.
+
+-- Campaign links with scans in a period, and the views, downloads and
+-- contact submissions attributed to them
+CREATE OR REPLACE FUNCTION public.catalog_event_campaigns(
+    period_start TIMESTAMP WITH TIME ZONE,
+    period_end TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+)
+RETURNS TABLE (
+    campaign_link_id UUID,
+    code TEXT,
+    campaign TEXT,
+    source TEXT,
+    medium TEXT,
+    catalog_id UUID,
+    title_en TEXT,
+    title_ar TEXT,
+    page_number INTEGER,
+    scans BIGINT,
+    views BIGINT,
+    downloads BIGINT,
+    contact_submissions BIGINT
+) AS $$
+    WITH events AS (
+        SELECT
+            e.campaign_link_id,
+            COUNT(*) FILTER (WHERE e.event_type = 'scan') AS scans,
+            COUNT(*) FILTER (WHERE e.event_type = 'view') AS views,
+            COUNT(*) FILTER (WHERE e.event_type = 'download') AS downloads
+        FROM public.catalog_events e
+        WHERE e.campaign_link_id IS NOT NULL
+          AND e.created_at >= period_start
+          AND e.created_at < period_end
+        GROUP BY e.campaign_link_id
+    ),
+    submissions AS (
+        SELECT s.campaign_link_id, COUNT(*) AS contact_submissions
+        FROM public.contact_submissions s
+        WHERE s.campaign_link_id IS NOT NULL
+          AND s.created_at >= period_start
+          AND s.created_at < period_end
+        GROUP BY s.campaign_link_id
+    )
+    SELECT
+        l.id AS campaign_link_id,
+        l.code,
+        l.campaign,
+        l.source,
+        l.medium,
+        c.id AS catalog_id,
+        c.title_en,
+        c.title_ar,
+        l.page_number,
+        coalesce(events.scans, 0) AS scans,
+        coalesce(events.views, 0) AS views,
+        coalesce(events.downloads, 0) AS downloads,
+        coalesce(submissions.contact_submissions, 0) AS contact_submissions
+    FROM public.catalog_campaign_links l
+    JOIN public.catalogs c ON c.id = l.catalog_id
+    LEFT JOIN events ON events.campaign_link_id = l.id
+    LEFT JOIN submissions ON submissions.campaign_link_id = l.id
+    WHERE events.campaign_link_id IS NOT NULL OR submissions.campaign_link_id IS NOT NULL
+    ORDER BY scans DESC, views DESC, l.created_at DESC;
+$$ LANGUAGE sql STABLE;
+
+GRANT EXECUTE ON FUNCTION public.catalog_event_campaigns(TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) TO authenticated;
+
+-- =====================================================
+-- END OF MIGRATION
+-- =====================================================